@@ -12,6 +12,8 @@ import { getOidcConfig } from './oidc/config.ts'
 import { handleDiscovery } from './oidc/discovery.ts'
 import { handleJwks } from './oidc/jwks.ts'
 import { log } from './plumbing/logger.ts'
+import resources from './resources/routes.ts'
+import scopes from './scopes/routes.ts'
 import { initializeKeys } from './tokens/key-management.ts'
 import users from './users/routes.ts'
 
@@ -57,6 +59,12 @@ app.route('/users', users)
 // OAuth client registration and management
 app.route('/clients', clients)
 
+// Protected resources that access tokens can be issued for (RFC 8707)
+app.route('/resources', resources)
+
+// Scopes clients may request, with their consent descriptions and claims
+app.route('/scopes', scopes)
+
 // OAuth/OIDC flows: authorize, token, login
 app.route('/', flows)
 
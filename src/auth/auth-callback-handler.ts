@@ -88,7 +88,7 @@ export const handleOAuthCallback = async (
       clientId,
       clientSecret,
     })
-    return setSessionCookieAndRedirect(c, user.sub, returnTo)
+    return await setSessionCookieAndRedirect(c, user.sub, returnTo, provider)
   } catch (err) {
     log({
       message: `${provider} auth failed`,
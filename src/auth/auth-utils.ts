@@ -1,6 +1,11 @@
 import type { Context } from 'hono'
-import { createSessionToken, getSessionCookieName } from '../flows/session.ts'
+import { getSessionCookieName } from '../flows/session.ts'
+import {
+  createSession,
+  SESSION_MAX_LIFETIME_SECONDS,
+} from '../flows/session-storage.ts'
 import { getOidcConfig } from '../oidc/config.ts'
+import { getClientIp } from '../plumbing/client-ip.ts'
 
 export type OAuthProvider = 'google' | 'microsoft' | 'facebook' | 'x'
 
@@ -30,18 +35,37 @@ export const getRedirectUri = (provider: OAuthProvider): string => {
   return `${issuer.replace(/\/$/, '')}/auth/${provider}/callback`
 }
 
-export const setSessionCookieAndRedirect = (
+/**
+ * Start a server-side session for the user and redirect with a cookie that references it.
+ * authMethod is recorded on the session: pwd for passwords, otherwise the provider name.
+ */
+export const setSessionCookieAndRedirect = async (
   c: Context,
   userSub: string,
   returnTo: string,
-): Response => {
-  const token = createSessionToken(userSub)
+  authMethod: string,
+): Promise<Response> => {
+  const session = await createSession({
+    user_id: userSub,
+    auth_methods: [authMethod],
+    user_agent: c.req.header('User-Agent') ?? null,
+    ip_address: getClientIp(c),
+  })
   const cookieName = getSessionCookieName()
   const secureFlag = isSecureRequest(c) ? '; Secure' : ''
   const res = c.redirect(returnTo, 302)
   res.headers.set(
     'Set-Cookie',
-    `${cookieName}=${token}; Path=/; HttpOnly; SameSite=Lax${secureFlag}; Max-Age=900`,
+    `${cookieName}=${session.session_id}; Path=/; HttpOnly; SameSite=Lax${secureFlag}; Max-Age=${SESSION_MAX_LIFETIME_SECONDS}`,
   )
   return res
 }
+
+/**
+ * Set-Cookie value that expires the session cookie set by setSessionCookieAndRedirect.
+ */
+export const buildExpiredSessionCookie = (c: Context): string => {
+  const cookieName = getSessionCookieName()
+  const secureFlag = isSecureRequest(c) ? '; Secure' : ''
+  return `${cookieName}=; Path=/; HttpOnly; SameSite=Lax${secureFlag}; Max-Age=0`
+}
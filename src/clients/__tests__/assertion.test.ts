@@ -0,0 +1,222 @@
+import { generateKeyPairSync } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { OAuthClient } from '../../database/types/oauth-client.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import type { JwtAlgorithm } from '../../tokens/jwt.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import {
+  getClientAssertionSubject,
+  verifyClientAssertion,
+} from '../assertion.ts'
+
+const clientKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+const otherKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+
+const audiences = ['http://localhost:3000', 'http://localhost:3000/token']
+
+const baseClient: OAuthClient = {
+  client_id: 'client-123',
+  client_secret_hash: null,
+  client_secret: null,
+  client_name: 'Partner',
+  redirect_uris: ['https://partner.example.com/callback'],
+  post_logout_redirect_uris: [],
+  grant_types: ['client_credentials'],
+  response_types: ['code'],
+  response_modes: null,
+  scopes: ['openid'],
+  token_endpoint_auth_method: 'private_key_jwt',
+  backchannel_logout_uri: null,
+  backchannel_logout_session_required: false,
+  require_pushed_authorization_requests: false,
+  jwks: JSON.stringify({
+    keys: [
+      { ...clientKeys.publicKey.export({ format: 'jwk' }), kid: 'partner-1' },
+    ],
+  }),
+  require_signed_request_object: false,
+  access_token_lifetime_seconds: null,
+  id_token_lifetime_seconds: null,
+  refresh_token_lifetime_seconds: null,
+  refresh_token_idle_timeout_seconds: null,
+  is_refresh_token_rotation_disabled: false,
+  is_trusted: false,
+  subject_type: 'public',
+  sector_identifier_uri: null,
+  require_verified_email: false,
+  is_active: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+const secretClient: OAuthClient = {
+  ...baseClient,
+  token_endpoint_auth_method: 'client_secret_jwt',
+  client_secret: 'shared-client-secret',
+  jwks: null,
+}
+
+const signAssertion = (
+  claims: Record<string, unknown> = {},
+  key: Parameters<typeof signJwt>[1] = clientKeys.privateKey,
+  algorithm: JwtAlgorithm = 'ES256',
+  kid: string | undefined = 'partner-1',
+) => {
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt(
+    {
+      iss: 'client-123',
+      sub: 'client-123',
+      aud: 'http://localhost:3000/token',
+      jti: 'assertion-1',
+      iat: now,
+      exp: now + 60,
+      ...claims,
+    },
+    key,
+    algorithm,
+    kid,
+  )
+}
+
+describe('Client Assertions', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+  })
+
+  describe('getClientAssertionSubject', () => {
+    it('should return the client when iss and sub agree', () => {
+      expect(getClientAssertionSubject(signAssertion())).toBe('client-123')
+    })
+
+    it('should return null when iss and sub differ', () => {
+      expect(
+        getClientAssertionSubject(signAssertion({ iss: 'client-456' })),
+      ).toBeNull()
+    })
+
+    it('should return null for a malformed assertion', () => {
+      expect(getClientAssertionSubject('not-a-jwt')).toBeNull()
+    })
+  })
+
+  describe('verifyClientAssertion', () => {
+    it('should verify a private_key_jwt assertion against the client JWKS', () => {
+      const assertion = signAssertion()
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toEqual({
+        jti: 'assertion-1',
+        exp: expect.any(Number),
+      })
+    })
+
+    it('should verify a client_secret_jwt assertion with the client secret', () => {
+      const assertion = signAssertion(
+        {},
+        'shared-client-secret',
+        'HS256',
+        undefined,
+      )
+
+      expect(
+        verifyClientAssertion(assertion, secretClient, audiences),
+      ).not.toBeNull()
+    })
+
+    it('should reject an assertion signed with an unregistered key', () => {
+      const assertion = signAssertion({}, otherKeys.privateKey)
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toBeNull()
+    })
+
+    it('should reject an assertion signed with the wrong secret', () => {
+      const assertion = signAssertion({}, 'wrong-secret', 'HS256', undefined)
+
+      expect(
+        verifyClientAssertion(assertion, secretClient, audiences),
+      ).toBeNull()
+    })
+
+    it('should reject an HMAC assertion for a private_key_jwt client', () => {
+      const assertion = signAssertion(
+        {},
+        'shared-client-secret',
+        'HS256',
+        undefined,
+      )
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toBeNull()
+    })
+
+    it('should reject a signed assertion for a client_secret_jwt client', () => {
+      const assertion = signAssertion()
+
+      expect(
+        verifyClientAssertion(
+          assertion,
+          { ...secretClient, jwks: baseClient.jwks },
+          audiences,
+        ),
+      ).toBeNull()
+    })
+
+    it('should reject assertions for clients using a secret-based method', () => {
+      const assertion = signAssertion()
+
+      expect(
+        verifyClientAssertion(
+          assertion,
+          { ...baseClient, token_endpoint_auth_method: 'client_secret_basic' },
+          audiences,
+        ),
+      ).toBeNull()
+    })
+
+    it('should reject an assertion for another audience', () => {
+      const assertion = signAssertion({ aud: 'https://other.example.com' })
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toBeNull()
+    })
+
+    it('should accept an audience list that names this server', () => {
+      const assertion = signAssertion({
+        aud: ['https://other.example.com', 'http://localhost:3000'],
+      })
+
+      expect(
+        verifyClientAssertion(assertion, baseClient, audiences),
+      ).not.toBeNull()
+    })
+
+    it('should reject an assertion without a jti', () => {
+      const assertion = signAssertion({ jti: undefined })
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toBeNull()
+    })
+
+    it('should reject an expired assertion', () => {
+      const assertion = signAssertion({
+        exp: Math.floor(Date.now() / 1000) - 60,
+      })
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toBeNull()
+    })
+
+    it('should reject an assertion that expires too far in the future', () => {
+      const assertion = signAssertion({
+        exp: Math.floor(Date.now() / 1000) + 60 * 60,
+      })
+
+      expect(verifyClientAssertion(assertion, baseClient, audiences)).toBeNull()
+    })
+  })
+})
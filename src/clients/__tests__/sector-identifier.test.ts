@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchSectorRedirectUris } from '../sector-identifier.ts'
+
+describe('Sector identifier documents', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should return the redirect URIs the document lists', async () => {
+    mockFetch.mockResolvedValue(
+      Response.json(['https://a.example.com/cb', 'https://b.example.com/cb']),
+    )
+
+    expect(
+      await fetchSectorRedirectUris('https://sector.example.com/uris.json'),
+    ).toEqual(['https://a.example.com/cb', 'https://b.example.com/cb'])
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://sector.example.com/uris.json',
+      expect.objectContaining({ redirect: 'error' }),
+    )
+  })
+
+  it('should return null when the document is not an array of URIs', async () => {
+    mockFetch.mockResolvedValue(
+      Response.json({ redirect_uris: ['https://a.example.com/cb'] }),
+    )
+
+    expect(
+      await fetchSectorRedirectUris('https://sector.example.com/uris.json'),
+    ).toBeNull()
+  })
+
+  it('should return null when the document cannot be fetched', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('missing', { status: 404 }))
+    mockFetch.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+
+    expect(
+      await fetchSectorRedirectUris('https://sector.example.com/uris.json'),
+    ).toBeNull()
+    expect(
+      await fetchSectorRedirectUris('https://sector.example.com/uris.json'),
+    ).toBeNull()
+  })
+})
@@ -1,9 +1,18 @@
+import { generateKeyPairSync } from 'node:crypto'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { OAuthClient } from '../../database/types/oauth-client.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import * as scopeStorage from '../../scopes/storage.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import * as assertionStorage from '../assertion-storage.ts'
+import * as sectorIdentifier from '../sector-identifier.ts'
 import {
   authenticateClient,
+  authenticateClientAssertion,
   getClientById,
   isRedirectUriAllowed,
   registerClient,
+  updateClientById,
   validateScopes,
 } from '../service.ts'
 import * as storage from '../storage.ts'
@@ -15,13 +24,45 @@ vi.mock('../storage.ts', () => ({
   deactivateClient: vi.fn(),
 }))
 
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
+}))
+
+vi.mock('../assertion-storage.ts', () => ({
+  recordClientAssertionJti: vi.fn(),
+}))
+
+vi.mock('../sector-identifier.ts', () => ({
+  fetchSectorRedirectUris: vi.fn(),
+}))
+
+const registeredScopes = ['openid', 'profile', 'email', 'offline_access'].map(
+  (scope) => ({
+    scope,
+    description: scope,
+    claims: [],
+    created_at: new Date(),
+    updated_at: new Date(),
+  }),
+)
+
 describe('Client Service', () => {
+  const originalEnv = process.env
+
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(scopeStorage.findAllScopes).mockResolvedValue(registeredScopes)
+    process.env = {
+      ...originalEnv,
+      OIDC_PAIRWISE_SUBJECT_SECRET: 'pairwise-secret-0123456789abcdefghij',
+    }
+    clearConfigCache()
   })
 
   afterEach(() => {
     vi.restoreAllMocks()
+    process.env = originalEnv
+    clearConfigCache()
   })
 
   describe('registerClient', () => {
@@ -37,12 +78,29 @@ describe('Client Service', () => {
       vi.mocked(storage.insertClient).mockResolvedValue({
         client_id: 'client-uuid-123',
         client_secret_hash: 'hashed-secret',
+        client_secret: null,
         client_name: 'Test Client',
         redirect_uris: ['https://example.com/callback'],
+        post_logout_redirect_uris: [],
         grant_types: ['authorization_code'],
         response_types: ['code'],
+        response_modes: null,
         scopes: ['openid', 'profile', 'email'],
         token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -58,14 +116,30 @@ describe('Client Service', () => {
         expect.objectContaining({
           client_name: 'Test Client',
           redirect_uris: ['https://example.com/callback'],
+          post_logout_redirect_uris: [],
           grant_types: ['authorization_code'],
           response_types: ['code'],
+          response_modes: ['query'],
           scopes: ['openid', 'profile', 'email'],
         }),
         expect.any(String),
       )
     })
 
+    it('should reject response modes the provider does not support', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          responseModes: ['query', 'web_message' as never],
+          scopes: ['openid'],
+        }),
+      ).rejects.toThrow('Invalid response mode: web_message')
+      expect(storage.insertClient).not.toHaveBeenCalled()
+    })
+
     it('should reject empty client name', async () => {
       await expect(
         registerClient({
@@ -102,6 +176,116 @@ describe('Client Service', () => {
       ).rejects.toThrow('Invalid redirect URI')
     })
 
+    it('should reject invalid post-logout redirect URI', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          postLogoutRedirectUris: ['javascript:alert(1)'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+        }),
+      ).rejects.toThrow('Invalid post-logout redirect URI')
+    })
+
+    it('should reject a back-channel logout URI with a fragment', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          backchannelLogoutUri: 'https://example.com/logout#fragment',
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+        }),
+      ).rejects.toThrow('Invalid backchannel logout URI')
+    })
+
+    it('should reject a JWKS containing private key material', async () => {
+      const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          jwks: { keys: [privateKey.export({ format: 'jwk' })] },
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+        }),
+      ).rejects.toThrow('Invalid JWKS')
+    })
+
+    it('should require jwks for clients that require signed request objects', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          requireSignedRequestObject: true,
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+        }),
+      ).rejects.toThrow('Invalid JWKS')
+    })
+
+    it('should require jwks for private_key_jwt clients', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          tokenEndpointAuthMethod: 'private_key_jwt',
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+        }),
+      ).rejects.toThrow('Invalid JWKS')
+    })
+
+    it('should keep the plaintext secret only for client_secret_jwt clients', async () => {
+      vi.mocked(storage.insertClient).mockImplementation(async (input) => ({
+        ...input,
+        client_id: 'client-uuid-123',
+        client_secret_hash: 'hashed-secret',
+        client_secret: input.client_secret ?? null,
+        response_modes: input.response_modes ?? null,
+        post_logout_redirect_uris: input.post_logout_redirect_uris ?? [],
+        token_endpoint_auth_method: 'client_secret_jwt',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+
+      const client = await registerClient({
+        name: 'Test',
+        redirectUris: ['https://example.com/callback'],
+        tokenEndpointAuthMethod: 'client_secret_jwt',
+        grantTypes: ['authorization_code'],
+        responseTypes: ['code'],
+        scopes: ['openid'],
+      })
+
+      expect(storage.insertClient).toHaveBeenCalledWith(
+        expect.objectContaining({ client_secret: client.secret }),
+        expect.any(String),
+      )
+    })
+
     it('should reject invalid grant type', async () => {
       await expect(
         registerClient({
@@ -125,6 +309,285 @@ describe('Client Service', () => {
         }),
       ).rejects.toThrow('Invalid scope')
     })
+
+    it('should accept custom scopes from the scope registry', async () => {
+      vi.mocked(scopeStorage.findAllScopes).mockResolvedValue([
+        ...registeredScopes,
+        { ...registeredScopes[0], scope: 'orders:read' },
+      ])
+      vi.mocked(storage.insertClient).mockImplementation(async (input) => ({
+        ...input,
+        client_id: 'client-uuid-123',
+        client_secret_hash: 'hashed-secret',
+        client_secret: null,
+        response_modes: input.response_modes ?? null,
+        post_logout_redirect_uris: [],
+        token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+
+      const client = await registerClient({
+        name: 'Orders',
+        redirectUris: ['https://example.com/callback'],
+        grantTypes: ['authorization_code'],
+        responseTypes: ['code'],
+        scopes: ['openid', 'orders:read'],
+      })
+
+      expect(client.scopes).toEqual(['openid', 'orders:read'])
+    })
+
+    it('should reject token lifetimes outside the allowed bounds', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          accessTokenLifetimeSeconds: 10,
+        }),
+      ).rejects.toThrow(
+        'Invalid token lifetime: accessTokenLifetimeSeconds must be an integer between 60 and 86400',
+      )
+    })
+
+    it('should reject a refresh idle timeout longer than the refresh token lifetime', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code', 'refresh_token'],
+          responseTypes: ['code'],
+          scopes: ['openid', 'offline_access'],
+          refreshTokenLifetimeSeconds: 3600,
+          refreshTokenIdleTimeoutSeconds: 7200,
+        }),
+      ).rejects.toThrow(
+        'Invalid token lifetime: refreshTokenIdleTimeoutSeconds must not exceed refreshTokenLifetimeSeconds',
+      )
+      expect(storage.insertClient).not.toHaveBeenCalled()
+    })
+
+    it('should reject a sector identifier URI that is not https', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          subjectType: 'pairwise',
+          sectorIdentifierUri: 'http://example.com/sector.json',
+        }),
+      ).rejects.toThrow(
+        'Invalid sector identifier URI: http://example.com/sector.json',
+      )
+    })
+
+    it('should accept a sector identifier document that lists every redirect URI', async () => {
+      vi.mocked(sectorIdentifier.fetchSectorRedirectUris).mockResolvedValue([
+        'https://a.example.com/callback',
+        'https://b.example.com/callback',
+      ])
+      vi.mocked(storage.insertClient).mockImplementation(async (input) => ({
+        ...input,
+        client_id: 'client-uuid-123',
+        client_secret_hash: 'hashed-secret',
+        client_secret: null,
+        response_modes: input.response_modes ?? null,
+        post_logout_redirect_uris: [],
+        token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: input.subject_type ?? 'public',
+        sector_identifier_uri: input.sector_identifier_uri ?? null,
+        require_verified_email: false,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+
+      const client = await registerClient({
+        name: 'Test',
+        redirectUris: [
+          'https://a.example.com/callback',
+          'https://b.example.com/callback',
+        ],
+        grantTypes: ['authorization_code'],
+        responseTypes: ['code'],
+        scopes: ['openid'],
+        subjectType: 'pairwise',
+        sectorIdentifierUri: 'https://sector.example.com/uris.json',
+      })
+
+      expect(client.sectorIdentifierUri).toBe(
+        'https://sector.example.com/uris.json',
+      )
+      expect(sectorIdentifier.fetchSectorRedirectUris).toHaveBeenCalledWith(
+        'https://sector.example.com/uris.json',
+      )
+    })
+
+    it('should reject a sector identifier document that omits a redirect URI', async () => {
+      vi.mocked(sectorIdentifier.fetchSectorRedirectUris).mockResolvedValue([
+        'https://a.example.com/callback',
+      ])
+
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: [
+            'https://a.example.com/callback',
+            'https://evil.example.net/callback',
+          ],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          subjectType: 'pairwise',
+          sectorIdentifierUri: 'https://sector.example.com/uris.json',
+        }),
+      ).rejects.toThrow(
+        'Invalid sector identifier URI: https://sector.example.com/uris.json does not list https://evil.example.net/callback',
+      )
+      expect(storage.insertClient).not.toHaveBeenCalled()
+    })
+
+    it('should reject a sector identifier URI whose document cannot be fetched', async () => {
+      vi.mocked(sectorIdentifier.fetchSectorRedirectUris).mockResolvedValue(
+        null,
+      )
+
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          subjectType: 'pairwise',
+          sectorIdentifierUri: 'https://sector.example.com/uris.json',
+        }),
+      ).rejects.toThrow(
+        'Invalid sector identifier URI: https://sector.example.com/uris.json did not return a JSON array of redirect URIs',
+      )
+      expect(storage.insertClient).not.toHaveBeenCalled()
+    })
+
+    it('should reject pairwise clients when pairwise subjects are not configured', async () => {
+      delete process.env.OIDC_PAIRWISE_SUBJECT_SECRET
+      clearConfigCache()
+
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          subjectType: 'pairwise',
+        }),
+      ).rejects.toThrow(
+        'Invalid subject_type: pairwise subjects are not configured',
+      )
+    })
+
+    it('should require a sector identifier URI for pairwise clients on several hosts', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: [
+            'https://a.example.com/callback',
+            'https://b.example.com/callback',
+          ],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          subjectType: 'pairwise',
+        }),
+      ).rejects.toThrow('Invalid sector identifier URI')
+      expect(storage.insertClient).not.toHaveBeenCalled()
+    })
+
+    it('should reject an unsupported subject type', async () => {
+      await expect(
+        registerClient({
+          name: 'Test',
+          redirectUris: ['https://example.com/callback'],
+          grantTypes: ['authorization_code'],
+          responseTypes: ['code'],
+          scopes: ['openid'],
+          subjectType: 'random' as 'public',
+        }),
+      ).rejects.toThrow('Invalid subject_type: random')
+    })
+  })
+
+  describe('updateClientById', () => {
+    it('should check a new idle timeout against the stored refresh token lifetime', async () => {
+      vi.mocked(storage.findClientById).mockResolvedValue({
+        client_id: 'client-123',
+        client_secret_hash: 'hash',
+        client_secret: null,
+        client_name: 'Test',
+        redirect_uris: ['https://example.com/callback'],
+        post_logout_redirect_uris: [],
+        grant_types: ['authorization_code', 'refresh_token'],
+        response_types: ['code'],
+        response_modes: null,
+        scopes: ['openid', 'offline_access'],
+        token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: 3600,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+
+      await expect(
+        updateClientById('client-123', {
+          refreshTokenIdleTimeoutSeconds: 7200,
+        }),
+      ).rejects.toThrow('Invalid token lifetime')
+      expect(storage.updateClient).not.toHaveBeenCalled()
+    })
   })
 
   describe('getClientById', () => {
@@ -132,12 +595,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: 'hash',
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -150,6 +630,47 @@ describe('Client Service', () => {
       expect(client?.name).toBe('Test')
     })
 
+    it('should expose only the token lifetimes the client configured', async () => {
+      vi.mocked(storage.findClientById).mockResolvedValue({
+        client_id: 'client-123',
+        client_secret_hash: 'hash',
+        client_secret: null,
+        client_name: 'Mobile',
+        redirect_uris: [],
+        post_logout_redirect_uris: [],
+        grant_types: [],
+        response_types: [],
+        response_modes: null,
+        scopes: [],
+        token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: 600,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: 90 * 24 * 60 * 60,
+        is_refresh_token_rotation_disabled: true,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+
+      const client = await getClientById('client-123')
+
+      expect(client?.accessTokenLifetimeSeconds).toBe(600)
+      expect(client?.refreshTokenIdleTimeoutSeconds).toBe(90 * 24 * 60 * 60)
+      expect(client?.isRefreshTokenRotationDisabled).toBe(true)
+      expect(client).not.toHaveProperty('idTokenLifetimeSeconds')
+      expect(client).not.toHaveProperty('refreshTokenLifetimeSeconds')
+    })
+
     it('should return null when client not found', async () => {
       vi.mocked(storage.findClientById).mockResolvedValue(null)
 
@@ -162,12 +683,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: 'hash',
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: false,
         created_at: new Date(),
         updated_at: new Date(),
@@ -187,12 +725,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: hash,
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -203,12 +758,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: hashClientSecret('correct-secret'),
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -225,12 +797,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: hashClientSecret('correct-secret'),
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'client_secret_post',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -250,17 +839,126 @@ describe('Client Service', () => {
     })
   })
 
+  describe('authenticateClientAssertion', () => {
+    const secretJwtClient: OAuthClient = {
+      client_id: 'client-123',
+      client_secret_hash: 'hashed-secret',
+      client_secret: 'shared-client-secret',
+      client_name: 'Test',
+      redirect_uris: [],
+      post_logout_redirect_uris: [],
+      grant_types: ['client_credentials'],
+      response_types: [],
+      response_modes: null,
+      scopes: [],
+      token_endpoint_auth_method: 'client_secret_jwt',
+      backchannel_logout_uri: null,
+      backchannel_logout_session_required: false,
+      require_pushed_authorization_requests: false,
+      jwks: null,
+      require_signed_request_object: false,
+      access_token_lifetime_seconds: null,
+      id_token_lifetime_seconds: null,
+      refresh_token_lifetime_seconds: null,
+      refresh_token_idle_timeout_seconds: null,
+      is_refresh_token_rotation_disabled: false,
+      is_trusted: false,
+      subject_type: 'public',
+      sector_identifier_uri: null,
+      require_verified_email: false,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date(),
+    }
+    const audiences = ['http://localhost:3000/token']
+
+    const signAssertion = () =>
+      signJwt(
+        {
+          iss: 'client-123',
+          sub: 'client-123',
+          aud: 'http://localhost:3000/token',
+          jti: 'assertion-1',
+          exp: Math.floor(Date.now() / 1000) + 60,
+        },
+        'shared-client-secret',
+        'HS256',
+      )
+
+    beforeEach(() => {
+      process.env.OIDC_ISSUER = 'http://localhost:3000'
+      clearConfigCache()
+      vi.mocked(storage.findClientById).mockResolvedValue(secretJwtClient)
+      vi.mocked(assertionStorage.recordClientAssertionJti).mockResolvedValue(
+        true,
+      )
+    })
+
+    it('should authenticate a valid assertion and record its jti', async () => {
+      const client = await authenticateClientAssertion(
+        signAssertion(),
+        audiences,
+      )
+
+      expect(client?.id).toBe('client-123')
+      expect(assertionStorage.recordClientAssertionJti).toHaveBeenCalledWith(
+        'client-123',
+        'assertion-1',
+        expect.any(Date),
+      )
+    })
+
+    it('should reject a replayed assertion', async () => {
+      vi.mocked(assertionStorage.recordClientAssertionJti).mockResolvedValue(
+        false,
+      )
+
+      expect(
+        await authenticateClientAssertion(signAssertion(), audiences),
+      ).toBeNull()
+    })
+
+    it('should reject assertions from inactive clients', async () => {
+      vi.mocked(storage.findClientById).mockResolvedValue({
+        ...secretJwtClient,
+        is_active: false,
+      })
+
+      expect(
+        await authenticateClientAssertion(signAssertion(), audiences),
+      ).toBeNull()
+      expect(assertionStorage.recordClientAssertionJti).not.toHaveBeenCalled()
+    })
+  })
+
   describe('isRedirectUriAllowed', () => {
     it('should return true when URI is in allowed list', async () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: null,
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: ['https://example.com/callback'],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'none',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -278,12 +976,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: null,
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: ['https://example.com/callback'],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: [],
         token_endpoint_auth_method: 'none',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -303,12 +1018,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: null,
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: ['openid', 'profile', 'email'],
         token_endpoint_auth_method: 'none',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -324,12 +1056,29 @@ describe('Client Service', () => {
       vi.mocked(storage.findClientById).mockResolvedValue({
         client_id: 'client-123',
         client_secret_hash: null,
+        client_secret: null,
         client_name: 'Test',
         redirect_uris: [],
+        post_logout_redirect_uris: [],
         grant_types: [],
         response_types: [],
+        response_modes: null,
         scopes: ['openid', 'profile'],
         token_endpoint_auth_method: 'none',
+        backchannel_logout_uri: null,
+        backchannel_logout_session_required: false,
+        require_pushed_authorization_requests: false,
+        jwks: null,
+        require_signed_request_object: false,
+        access_token_lifetime_seconds: null,
+        id_token_lifetime_seconds: null,
+        refresh_token_lifetime_seconds: null,
+        refresh_token_idle_timeout_seconds: null,
+        is_refresh_token_rotation_disabled: false,
+        is_trusted: false,
+        subject_type: 'public',
+        sector_identifier_uri: null,
+        require_verified_email: false,
         is_active: true,
         created_at: new Date(),
         updated_at: new Date(),
@@ -0,0 +1,34 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+/**
+ * Remember a client assertion's jti until the assertion expires.
+ * Returns false when the client already used this jti, i.e. the assertion is a replay.
+ */
+export const recordClientAssertionJti = async (
+  clientId: string,
+  jti: string,
+  expiresAt: Date,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const ttlSeconds = Math.max(
+    1,
+    Math.ceil((expiresAt.getTime() - Date.now()) / 1000),
+  )
+
+  const result = await client.execute(
+    `INSERT INTO ${keyspace}.client_assertion_jtis (client_id, jti, expires_at)
+     VALUES (?, ?, ?)
+     IF NOT EXISTS
+     USING TTL ?`,
+    [clientId, jti, expiresAt, ttlSeconds],
+    { prepare: true },
+  )
+
+  return result.wasApplied()
+}
@@ -0,0 +1,106 @@
+import type { KeyObject } from 'node:crypto'
+import type { OAuthClient } from '../database/types/oauth-client.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import type { JwtAlgorithm } from '../tokens/jwt.ts'
+import { parseJwt, verifyJwt } from '../tokens/jwt.ts'
+import { findClientSigningKey } from './jwks.ts'
+import type { ClientJwks } from './types/client.ts'
+
+export const JWT_BEARER_CLIENT_ASSERTION_TYPE =
+  'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+
+/** Assertions must be short-lived; this also bounds how long a jti is remembered */
+const MAX_CLIENT_ASSERTION_LIFETIME_SECONDS = 10 * 60
+
+export interface ClientAssertionClaims {
+  jti: string
+  /** Unix timestamp */
+  exp: number
+}
+
+/**
+ * The client an assertion claims to come from (iss, which must equal sub), read before
+ * the signature is checked so the client's key can be looked up. Null if malformed.
+ */
+export const getClientAssertionSubject = (assertion: string): string | null => {
+  try {
+    const { payload } = parseJwt(assertion)
+    return typeof payload.sub === 'string' && payload.iss === payload.sub
+      ? payload.sub
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The key that verifies this client's assertions: the registered JWKS for private_key_jwt,
+ * the client secret (HMAC) for client_secret_jwt. The algorithm family must match the
+ * method, so a public key can never be used as an HMAC secret.
+ */
+const getAssertionKey = (
+  client: OAuthClient,
+  algorithm: JwtAlgorithm,
+  kid: unknown,
+): KeyObject | string | null => {
+  const isHmac = algorithm.startsWith('HS')
+  if (client.token_endpoint_auth_method === 'client_secret_jwt') {
+    return isHmac ? client.client_secret : null
+  }
+  if (client.token_endpoint_auth_method === 'private_key_jwt') {
+    return !isHmac && client.jwks
+      ? findClientSigningKey(JSON.parse(client.jwks) as ClientJwks, kid)
+      : null
+  }
+  return null
+}
+
+const hasAudience = (aud: unknown, audiences: string[]): boolean =>
+  Array.isArray(aud)
+    ? aud.some((value) => audiences.includes(value))
+    : typeof aud === 'string' && audiences.includes(aud)
+
+/**
+ * Verify a client_secret_jwt or private_key_jwt assertion (RFC 7523 §3).
+ * iss and sub must be the client, aud must name this server (one of audiences),
+ * and jti and exp are required; exp may be at most 10 minutes away.
+ * Replay protection (jti) is left to the caller.
+ */
+export const verifyClientAssertion = (
+  assertion: string,
+  client: OAuthClient,
+  audiences: string[],
+): ClientAssertionClaims | null => {
+  const config = getOidcConfig()
+  try {
+    const { header } = parseJwt(assertion)
+    const algorithm = header.alg as JwtAlgorithm
+    if (
+      !config.tokenEndpointAuthSigningAlgValuesSupported.includes(algorithm)
+    ) {
+      return null
+    }
+    const key = getAssertionKey(client, algorithm, header.kid)
+    if (!key) {
+      return null
+    }
+
+    const { payload } = verifyJwt(assertion, key, algorithm)
+    const now = Math.floor(Date.now() / 1000)
+    if (
+      payload.iss !== client.client_id ||
+      payload.sub !== client.client_id ||
+      !hasAudience(payload.aud, audiences) ||
+      typeof payload.jti !== 'string' ||
+      payload.jti.length === 0 ||
+      typeof payload.exp !== 'number' ||
+      payload.exp - now > MAX_CLIENT_ASSERTION_LIFETIME_SECONDS
+    ) {
+      return null
+    }
+
+    return { jti: payload.jti, exp: payload.exp }
+  } catch {
+    return null
+  }
+}
@@ -1,3 +1,8 @@
+import { getOidcConfig } from '../oidc/config.ts'
+import { JWT_BEARER_CLIENT_ASSERTION_TYPE } from './assertion.ts'
+import { authenticateClient, authenticateClientAssertion } from './service.ts'
+import type { ClientAuthenticationResult } from './types/client-authentication.ts'
+
 /**
  * Extract client credentials from URL-encoded form data (client_secret_post).
  */
@@ -39,3 +44,95 @@ export const extractClientCredentialsFromBasicAuthHeader = (
   }
   return null
 }
+
+const authenticationFailure = (
+  error: 'invalid_client' | 'invalid_request',
+  errorDescription: string,
+): ClientAuthenticationResult => ({
+  isValid: false,
+  error,
+  errorDescription,
+  status: error === 'invalid_client' ? 401 : 400,
+})
+
+/**
+ * Authenticate the client of an endpoint request by whichever method it used:
+ * a JWT assertion (client_secret_jwt / private_key_jwt, RFC 7523), the secret in the form
+ * body (client_secret_post) or a Basic header (client_secret_basic).
+ * endpointUrl is the endpoint being called; assertions may name it, the issuer or the
+ * token endpoint as aud. A client_id in the body must match the authenticated client.
+ * Deciding whether an unauthenticated (public) client may proceed is left to the endpoint.
+ */
+export const authenticateClientRequest = async (
+  params: URLSearchParams,
+  authorizationHeader: string | undefined,
+  endpointUrl: string,
+): Promise<ClientAuthenticationResult> => {
+  const clientId = params.get('client_id')
+  const assertionType = params.get('client_assertion_type')
+  const assertion = params.get('client_assertion')
+  const credentials =
+    extractClientCredentialsFromForm(params) ??
+    extractClientCredentialsFromBasicAuthHeader(authorizationHeader)
+
+  if (assertionType || assertion) {
+    // RFC 6749 §2.3: a client must not use more than one authentication method
+    if (credentials) {
+      return authenticationFailure(
+        'invalid_request',
+        'Only one client authentication method may be used',
+      )
+    }
+    if (!assertionType || !assertion) {
+      return authenticationFailure(
+        'invalid_request',
+        'client_assertion_type and client_assertion are both required',
+      )
+    }
+    if (assertionType !== JWT_BEARER_CLIENT_ASSERTION_TYPE) {
+      return authenticationFailure(
+        'invalid_client',
+        'Unsupported client_assertion_type',
+      )
+    }
+
+    const config = getOidcConfig()
+    const client = await authenticateClientAssertion(assertion, [
+      config.issuer,
+      config.tokenEndpoint,
+      endpointUrl,
+    ])
+    if (!client) {
+      return authenticationFailure('invalid_client', 'Invalid client assertion')
+    }
+    if (clientId && clientId !== client.id) {
+      return authenticationFailure(
+        'invalid_request',
+        'client_id in body must match the client assertion',
+      )
+    }
+    return { isValid: true, client }
+  }
+
+  if (credentials) {
+    const client = await authenticateClient(
+      credentials.clientId,
+      credentials.clientSecret,
+    )
+    if (!client) {
+      return authenticationFailure(
+        'invalid_client',
+        'Invalid client credentials',
+      )
+    }
+    if (clientId && credentials.clientId !== clientId) {
+      return authenticationFailure(
+        'invalid_request',
+        'client_id in body must match Authorization header',
+      )
+    }
+    return { isValid: true, client }
+  }
+
+  return { isValid: true, client: null }
+}
@@ -0,0 +1,26 @@
+import type { KeyObject } from 'node:crypto'
+import { createPublicKey } from 'node:crypto'
+import type { ClientJwks } from './types/client.ts'
+
+/**
+ * Pick the client signing key named by a JWT header's kid.
+ * Without a kid the client must have registered exactly one signing key.
+ */
+export const findClientSigningKey = (
+  jwks: ClientJwks,
+  kid: unknown,
+): KeyObject | null => {
+  const candidates = jwks.keys.filter(
+    (jwk) =>
+      (jwk.use === undefined || jwk.use === 'sig') &&
+      (kid === undefined || jwk.kid === kid),
+  )
+  if (candidates.length !== 1) {
+    return null
+  }
+  try {
+    return createPublicKey({ key: candidates[0], format: 'jwk' })
+  } catch {
+    return null
+  }
+}
@@ -1,4 +1,5 @@
 import { Hono } from 'hono'
+import { resolveAccountId } from '../subjects/service.ts'
 import {
   deactivateClientById,
   getClientById,
@@ -27,10 +28,28 @@ clients.post('/', async (c) => {
         id: client.id,
         name: client.name,
         redirectUris: client.redirectUris,
+        postLogoutRedirectUris: client.postLogoutRedirectUris,
         grantTypes: client.grantTypes,
         responseTypes: client.responseTypes,
+        responseModes: client.responseModes,
         scopes: client.scopes,
         tokenEndpointAuthMethod: client.tokenEndpointAuthMethod,
+        backchannelLogoutUri: client.backchannelLogoutUri,
+        backchannelLogoutSessionRequired:
+          client.backchannelLogoutSessionRequired,
+        requirePushedAuthorizationRequests:
+          client.requirePushedAuthorizationRequests,
+        jwks: client.jwks,
+        requireSignedRequestObject: client.requireSignedRequestObject,
+        accessTokenLifetimeSeconds: client.accessTokenLifetimeSeconds,
+        idTokenLifetimeSeconds: client.idTokenLifetimeSeconds,
+        refreshTokenLifetimeSeconds: client.refreshTokenLifetimeSeconds,
+        refreshTokenIdleTimeoutSeconds: client.refreshTokenIdleTimeoutSeconds,
+        isRefreshTokenRotationDisabled: client.isRefreshTokenRotationDisabled,
+        isTrusted: client.isTrusted,
+        subjectType: client.subjectType,
+        sectorIdentifierUri: client.sectorIdentifierUri,
+        requireVerifiedEmail: client.requireVerifiedEmail,
         createdAt: client.createdAt.toISOString(),
         updatedAt: client.updatedAt.toISOString(),
         secret: client.secret,
@@ -43,10 +62,17 @@ clients.post('/', async (c) => {
         error.message === 'Client name is required' ||
         error.message === 'At least one redirect URI is required' ||
         error.message.startsWith('Invalid redirect URI') ||
+        error.message.startsWith('Invalid post-logout redirect URI') ||
+        error.message.startsWith('Invalid backchannel logout URI') ||
+        error.message.startsWith('Invalid JWKS') ||
         error.message.startsWith('Invalid grant type') ||
         error.message.startsWith('Invalid response type') ||
+        error.message.startsWith('Invalid response mode') ||
         error.message.startsWith('Invalid scope') ||
-        error.message.startsWith('Invalid token_endpoint_auth_method')
+        error.message.startsWith('Invalid token_endpoint_auth_method') ||
+        error.message.startsWith('Invalid token lifetime') ||
+        error.message.startsWith('Invalid subject_type') ||
+        error.message.startsWith('Invalid sector identifier URI')
       ) {
         return c.json({ error: error.message }, 400)
       }
@@ -73,10 +99,27 @@ clients.get('/:id', async (c) => {
       id: client.id,
       name: client.name,
       redirectUris: client.redirectUris,
+      postLogoutRedirectUris: client.postLogoutRedirectUris,
       grantTypes: client.grantTypes,
       responseTypes: client.responseTypes,
+      responseModes: client.responseModes,
       scopes: client.scopes,
       tokenEndpointAuthMethod: client.tokenEndpointAuthMethod,
+      backchannelLogoutUri: client.backchannelLogoutUri,
+      backchannelLogoutSessionRequired: client.backchannelLogoutSessionRequired,
+      requirePushedAuthorizationRequests:
+        client.requirePushedAuthorizationRequests,
+      jwks: client.jwks,
+      requireSignedRequestObject: client.requireSignedRequestObject,
+      accessTokenLifetimeSeconds: client.accessTokenLifetimeSeconds,
+      idTokenLifetimeSeconds: client.idTokenLifetimeSeconds,
+      refreshTokenLifetimeSeconds: client.refreshTokenLifetimeSeconds,
+      refreshTokenIdleTimeoutSeconds: client.refreshTokenIdleTimeoutSeconds,
+      isRefreshTokenRotationDisabled: client.isRefreshTokenRotationDisabled,
+      isTrusted: client.isTrusted,
+      subjectType: client.subjectType,
+      sectorIdentifierUri: client.sectorIdentifierUri,
+      requireVerifiedEmail: client.requireVerifiedEmail,
       createdAt: client.createdAt.toISOString(),
       updatedAt: client.updatedAt.toISOString(),
     })
@@ -104,10 +147,27 @@ clients.put('/:id', async (c) => {
       id: client.id,
       name: client.name,
       redirectUris: client.redirectUris,
+      postLogoutRedirectUris: client.postLogoutRedirectUris,
       grantTypes: client.grantTypes,
       responseTypes: client.responseTypes,
+      responseModes: client.responseModes,
       scopes: client.scopes,
       tokenEndpointAuthMethod: client.tokenEndpointAuthMethod,
+      backchannelLogoutUri: client.backchannelLogoutUri,
+      backchannelLogoutSessionRequired: client.backchannelLogoutSessionRequired,
+      requirePushedAuthorizationRequests:
+        client.requirePushedAuthorizationRequests,
+      jwks: client.jwks,
+      requireSignedRequestObject: client.requireSignedRequestObject,
+      accessTokenLifetimeSeconds: client.accessTokenLifetimeSeconds,
+      idTokenLifetimeSeconds: client.idTokenLifetimeSeconds,
+      refreshTokenLifetimeSeconds: client.refreshTokenLifetimeSeconds,
+      refreshTokenIdleTimeoutSeconds: client.refreshTokenIdleTimeoutSeconds,
+      isRefreshTokenRotationDisabled: client.isRefreshTokenRotationDisabled,
+      isTrusted: client.isTrusted,
+      subjectType: client.subjectType,
+      sectorIdentifierUri: client.sectorIdentifierUri,
+      requireVerifiedEmail: client.requireVerifiedEmail,
       createdAt: client.createdAt.toISOString(),
       updatedAt: client.updatedAt.toISOString(),
     })
@@ -116,10 +176,17 @@ clients.put('/:id', async (c) => {
       if (
         error.message === 'At least one redirect URI is required' ||
         error.message.startsWith('Invalid redirect URI') ||
+        error.message.startsWith('Invalid post-logout redirect URI') ||
+        error.message.startsWith('Invalid backchannel logout URI') ||
+        error.message.startsWith('Invalid JWKS') ||
         error.message.startsWith('Invalid grant type') ||
         error.message.startsWith('Invalid response type') ||
+        error.message.startsWith('Invalid response mode') ||
         error.message.startsWith('Invalid scope') ||
-        error.message.startsWith('Invalid token_endpoint_auth_method')
+        error.message.startsWith('Invalid token_endpoint_auth_method') ||
+        error.message.startsWith('Invalid token lifetime') ||
+        error.message.startsWith('Invalid subject_type') ||
+        error.message.startsWith('Invalid sector identifier URI')
       ) {
         return c.json({ error: error.message }, 400)
       }
@@ -128,6 +195,31 @@ clients.put('/:id', async (c) => {
   }
 })
 
+/**
+ * GET /clients/:id/subjects/:sub
+ * Resolve a sub issued to the client back to the account id (pairwise subjects)
+ */
+clients.get('/:id/subjects/:sub', async (c) => {
+  try {
+    const client = await getClientById(c.req.param('id'))
+
+    if (!client) {
+      return c.json({ error: 'Client not found' }, 404)
+    }
+
+    const sub = c.req.param('sub')
+    const accountId = await resolveAccountId(client, sub)
+
+    if (!accountId) {
+      return c.json({ error: 'Subject not found' }, 404)
+    }
+
+    return c.json({ sub, accountId })
+  } catch (_error) {
+    return c.json({ error: 'Failed to resolve subject' }, 500)
+  }
+})
+
 /**
  * DELETE /clients/:id
  * Deactivate a client
@@ -0,0 +1,26 @@
+const FETCH_TIMEOUT_MS = 5_000
+
+/**
+ * Fetch the redirect URIs a sector_identifier_uri document lists (OIDC Registration §5):
+ * a JSON array of URIs. Null when the document cannot be fetched or is not such an array.
+ */
+export const fetchSectorRedirectUris = async (
+  sectorIdentifierUri: string,
+): Promise<string[] | null> => {
+  try {
+    const response = await fetch(sectorIdentifierUri, {
+      headers: { Accept: 'application/json' },
+      redirect: 'error',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+    if (!response.ok) {
+      return null
+    }
+    const body: unknown = await response.json()
+    return Array.isArray(body) && body.every((uri) => typeof uri === 'string')
+      ? body
+      : null
+  } catch {
+    return null
+  }
+}
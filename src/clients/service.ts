@@ -1,15 +1,34 @@
-import { randomBytes } from 'node:crypto'
-import type { TokenEndpointAuthMethod } from '../database/types/oauth-client.ts'
+import { createPublicKey, randomBytes } from 'node:crypto'
+import type {
+  ResponseMode,
+  SubjectType,
+  TokenEndpointAuthMethod,
+} from '../database/types/oauth-client.ts'
 import { isValidRedirectUriFormat } from '../flows/input-validation.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { findUnregisteredScopes } from '../scopes/service.ts'
+import {
+  getClientAssertionSubject,
+  verifyClientAssertion,
+} from './assertion.ts'
+import { recordClientAssertionJti } from './assertion-storage.ts'
 import { hashClientSecret, verifyClientSecret } from './credentials.ts'
+import { fetchSectorRedirectUris } from './sector-identifier.ts'
 import {
   deactivateClient,
+  findAllClientIds,
   findClientById,
+  findClientsWithBackchannelLogout,
   insertClient,
   updateClient,
 } from './storage.ts'
+import {
+  DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS,
+  TOKEN_LIFETIME_BOUNDS,
+} from './token-policy.ts'
 import type {
   Client,
+  ClientJwks,
   ClientRegistrationInput,
   ClientUpdateInput,
   ClientWithSecret,
@@ -19,46 +38,229 @@ const ALLOWED_GRANT_TYPES = [
   'authorization_code',
   'refresh_token',
   'client_credentials',
+  'urn:ietf:params:oauth:grant-type:device_code',
   'password',
   'implicit',
 ] as const
 
 const ALLOWED_RESPONSE_TYPES = ['code', 'token', 'id_token'] as const
 
-const ALLOWED_SCOPES = ['openid', 'profile', 'email', 'offline_access'] as const
-
 const AUTH_METHODS: TokenEndpointAuthMethod[] = [
   'client_secret_basic',
   'client_secret_post',
+  'client_secret_jwt',
+  'private_key_jwt',
   'none',
 ]
 
+/** Methods that send the client secret itself (Basic header or form body) */
+const SECRET_AUTH_METHODS: TokenEndpointAuthMethod[] = [
+  'client_secret_basic',
+  'client_secret_post',
+]
+
+const SUBJECT_TYPES: SubjectType[] = ['public', 'pairwise']
+
 const DEFAULT_GRANT_TYPES = ['authorization_code']
 const DEFAULT_RESPONSE_TYPES = ['code']
+const DEFAULT_RESPONSE_MODES: ResponseMode[] = ['query']
 const DEFAULT_SCOPES = ['openid', 'profile', 'email']
 
 const toApiClient = (row: {
   client_id: string
   client_name: string
   redirect_uris: string[]
+  post_logout_redirect_uris: string[]
   grant_types: string[]
   response_types: string[]
+  response_modes: ResponseMode[] | null
   scopes: string[]
   token_endpoint_auth_method: TokenEndpointAuthMethod
+  backchannel_logout_uri: string | null
+  backchannel_logout_session_required: boolean
+  require_pushed_authorization_requests: boolean
+  jwks: string | null
+  require_signed_request_object: boolean
+  access_token_lifetime_seconds: number | null
+  id_token_lifetime_seconds: number | null
+  refresh_token_lifetime_seconds: number | null
+  refresh_token_idle_timeout_seconds: number | null
+  is_refresh_token_rotation_disabled: boolean
+  is_trusted: boolean
+  subject_type: SubjectType
+  sector_identifier_uri: string | null
+  require_verified_email: boolean
   created_at: Date
   updated_at: Date
 }): Client => ({
   id: row.client_id,
   name: row.client_name,
   redirectUris: row.redirect_uris ?? [],
+  postLogoutRedirectUris: row.post_logout_redirect_uris ?? [],
   grantTypes: row.grant_types ?? [],
   responseTypes: row.response_types ?? [],
+  ...(row.response_modes && { responseModes: row.response_modes }),
   scopes: row.scopes ?? [],
   tokenEndpointAuthMethod: row.token_endpoint_auth_method,
+  ...(row.backchannel_logout_uri && {
+    backchannelLogoutUri: row.backchannel_logout_uri,
+    backchannelLogoutSessionRequired: row.backchannel_logout_session_required,
+  }),
+  requirePushedAuthorizationRequests: row.require_pushed_authorization_requests,
+  ...(row.jwks && { jwks: JSON.parse(row.jwks) as ClientJwks }),
+  requireSignedRequestObject: row.require_signed_request_object,
+  ...(row.access_token_lifetime_seconds !== null && {
+    accessTokenLifetimeSeconds: row.access_token_lifetime_seconds,
+  }),
+  ...(row.id_token_lifetime_seconds !== null && {
+    idTokenLifetimeSeconds: row.id_token_lifetime_seconds,
+  }),
+  ...(row.refresh_token_lifetime_seconds !== null && {
+    refreshTokenLifetimeSeconds: row.refresh_token_lifetime_seconds,
+  }),
+  ...(row.refresh_token_idle_timeout_seconds !== null && {
+    refreshTokenIdleTimeoutSeconds: row.refresh_token_idle_timeout_seconds,
+  }),
+  isRefreshTokenRotationDisabled: row.is_refresh_token_rotation_disabled,
+  isTrusted: row.is_trusted,
+  subjectType: row.subject_type,
+  ...(row.sector_identifier_uri && {
+    sectorIdentifierUri: row.sector_identifier_uri,
+  }),
+  requireVerifiedEmail: row.require_verified_email,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
 })
 
+/**
+ * Back-channel logout URIs must be absolute http(s) URLs without a fragment
+ * (OIDC Back-Channel Logout 1.0 §2.2).
+ */
+const isValidBackchannelLogoutUri = (uri: string): boolean =>
+  isValidRedirectUriFormat(uri) && new URL(uri).hash === ''
+
+/**
+ * A JWK Set must hold at least one importable public key; private key material is refused.
+ */
+const isValidJwks = (jwks: ClientJwks): boolean => {
+  if (!Array.isArray(jwks?.keys) || jwks.keys.length === 0) {
+    return false
+  }
+  return jwks.keys.every((jwk) => {
+    if (typeof jwk !== 'object' || jwk === null || 'd' in jwk) {
+      return false
+    }
+    try {
+      return createPublicKey({ key: jwk, format: 'jwk' }).type === 'public'
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Clients may only be allowed scopes defined in the scope registry
+ */
+const assertRegisteredScopes = async (scopes: string[]): Promise<void> => {
+  const [unregistered] = await findUnregisteredScopes(scopes)
+  if (unregistered !== undefined) {
+    throw new Error(`Invalid scope: ${unregistered}`)
+  }
+}
+
+/**
+ * Response modes must be ones this provider supports (per discovery)
+ */
+const assertSupportedResponseModes = (responseModes: string[]): void => {
+  const supported = getOidcConfig().responseModesSupported
+  const unsupported = responseModes.find((mode) => !supported.includes(mode))
+  if (unsupported !== undefined) {
+    throw new Error(`Invalid response mode: ${unsupported}`)
+  }
+}
+
+type TokenLifetimeSetting = keyof typeof TOKEN_LIFETIME_BOUNDS
+
+/**
+ * Lifetimes must be whole seconds within TOKEN_LIFETIME_BOUNDS, and the refresh idle timeout
+ * may not outlast the absolute refresh token lifetime. Unset (null) lifetimes use the defaults.
+ */
+const assertValidTokenLifetimes = (
+  lifetimes: Record<TokenLifetimeSetting, number | null | undefined>,
+): void => {
+  for (const [setting, [min, max]] of Object.entries(TOKEN_LIFETIME_BOUNDS)) {
+    const value = lifetimes[setting as TokenLifetimeSetting]
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(
+        `Invalid token lifetime: ${setting} must be an integer between ${min} and ${max}`,
+      )
+    }
+  }
+
+  const idleTimeout = lifetimes.refreshTokenIdleTimeoutSeconds
+  const refreshLifetime =
+    lifetimes.refreshTokenLifetimeSeconds ??
+    DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS
+  if (idleTimeout && idleTimeout > refreshLifetime) {
+    throw new Error(
+      'Invalid token lifetime: refreshTokenIdleTimeoutSeconds must not exceed refreshTokenLifetimeSeconds',
+    )
+  }
+}
+
+/**
+ * The subject type must be supported, and a sector identifier URI must be an https URL
+ * whose document lists every redirect URI of the client (OIDC Core §8.1), so a client
+ * cannot join another sector. A pairwise client without one uses the host of its
+ * redirect URIs as its sector, so they must all share that host.
+ */
+const assertValidSubjectSettings = async (
+  subjectType: SubjectType,
+  sectorIdentifierUri: string | null | undefined,
+  redirectUris: string[],
+): Promise<void> => {
+  if (!SUBJECT_TYPES.includes(subjectType)) {
+    throw new Error(`Invalid subject_type: ${subjectType}`)
+  }
+  if (subjectType === 'pairwise' && !getOidcConfig().pairwiseSubjectSecret) {
+    throw new Error(
+      'Invalid subject_type: pairwise subjects are not configured',
+    )
+  }
+
+  if (sectorIdentifierUri) {
+    if (
+      !URL.canParse(sectorIdentifierUri) ||
+      new URL(sectorIdentifierUri).protocol !== 'https:'
+    ) {
+      throw new Error(`Invalid sector identifier URI: ${sectorIdentifierUri}`)
+    }
+    const listedUris = await fetchSectorRedirectUris(sectorIdentifierUri)
+    if (!listedUris) {
+      throw new Error(
+        `Invalid sector identifier URI: ${sectorIdentifierUri} did not return a JSON array of redirect URIs`,
+      )
+    }
+    const unlistedUri = redirectUris.find((uri) => !listedUris.includes(uri))
+    if (unlistedUri) {
+      throw new Error(
+        `Invalid sector identifier URI: ${sectorIdentifierUri} does not list ${unlistedUri}`,
+      )
+    }
+    return
+  }
+
+  const hosts = new Set(redirectUris.map((uri) => new URL(uri).host))
+  if (subjectType === 'pairwise' && hosts.size > 1) {
+    throw new Error(
+      'Invalid sector identifier URI: pairwise clients with redirect URIs on several hosts need one',
+    )
+  }
+}
+
 /**
  * Generate a random client secret (32 bytes, base64url encoded)
  */
@@ -86,6 +288,46 @@ export const registerClient = async (
     }
   }
 
+  const postLogoutRedirectUris = input.postLogoutRedirectUris ?? []
+  for (const uri of postLogoutRedirectUris) {
+    if (!isValidRedirectUriFormat(uri)) {
+      throw new Error(`Invalid post-logout redirect URI: ${uri}`)
+    }
+  }
+
+  if (
+    input.backchannelLogoutUri !== undefined &&
+    !isValidBackchannelLogoutUri(input.backchannelLogoutUri)
+  ) {
+    throw new Error(
+      `Invalid backchannel logout URI: ${input.backchannelLogoutUri}`,
+    )
+  }
+
+  if (input.jwks && !isValidJwks(input.jwks)) {
+    throw new Error('Invalid JWKS: expected a JWK Set of public keys')
+  }
+
+  if (input.requireSignedRequestObject && !input.jwks) {
+    throw new Error(
+      'Invalid JWKS: requireSignedRequestObject needs registered jwks',
+    )
+  }
+
+  assertValidTokenLifetimes({
+    accessTokenLifetimeSeconds: input.accessTokenLifetimeSeconds,
+    idTokenLifetimeSeconds: input.idTokenLifetimeSeconds,
+    refreshTokenLifetimeSeconds: input.refreshTokenLifetimeSeconds,
+    refreshTokenIdleTimeoutSeconds: input.refreshTokenIdleTimeoutSeconds,
+  })
+
+  const subjectType = input.subjectType ?? 'public'
+  await assertValidSubjectSettings(
+    subjectType,
+    input.sectorIdentifierUri,
+    input.redirectUris,
+  )
+
   const grantTypes = input.grantTypes?.length
     ? input.grantTypes
     : DEFAULT_GRANT_TYPES
@@ -110,19 +352,24 @@ export const registerClient = async (
     }
   }
 
+  const responseModes = input.responseModes?.length
+    ? input.responseModes
+    : DEFAULT_RESPONSE_MODES
+  assertSupportedResponseModes(responseModes)
+
   const scopes = input.scopes?.length ? input.scopes : DEFAULT_SCOPES
-  for (const s of scopes) {
-    if (!ALLOWED_SCOPES.includes(s as (typeof ALLOWED_SCOPES)[number])) {
-      throw new Error(`Invalid scope: ${s}`)
-    }
-  }
+  await assertRegisteredScopes(scopes)
 
   const authMethod = input.tokenEndpointAuthMethod ?? 'client_secret_post'
   if (!AUTH_METHODS.includes(authMethod)) {
     throw new Error(`Invalid token_endpoint_auth_method: ${authMethod}`)
   }
 
-  const needsSecret = authMethod !== 'none'
+  if (authMethod === 'private_key_jwt' && !input.jwks) {
+    throw new Error('Invalid JWKS: private_key_jwt needs registered jwks')
+  }
+
+  const needsSecret = authMethod !== 'none' && authMethod !== 'private_key_jwt'
   const clientSecret = needsSecret ? generateClientSecret() : ''
   const clientSecretHash = needsSecret ? hashClientSecret(clientSecret) : null
 
@@ -130,10 +377,31 @@ export const registerClient = async (
     {
       client_name: input.name.trim(),
       redirect_uris: input.redirectUris,
+      post_logout_redirect_uris: postLogoutRedirectUris,
       grant_types: grantTypes,
       response_types: responseTypes,
+      response_modes: responseModes,
       scopes,
       token_endpoint_auth_method: authMethod,
+      backchannel_logout_uri: input.backchannelLogoutUri ?? null,
+      backchannel_logout_session_required:
+        input.backchannelLogoutSessionRequired ?? false,
+      require_pushed_authorization_requests:
+        input.requirePushedAuthorizationRequests ?? false,
+      jwks: input.jwks ? JSON.stringify(input.jwks) : null,
+      require_signed_request_object: input.requireSignedRequestObject ?? false,
+      access_token_lifetime_seconds: input.accessTokenLifetimeSeconds ?? null,
+      id_token_lifetime_seconds: input.idTokenLifetimeSeconds ?? null,
+      refresh_token_lifetime_seconds: input.refreshTokenLifetimeSeconds ?? null,
+      refresh_token_idle_timeout_seconds:
+        input.refreshTokenIdleTimeoutSeconds ?? null,
+      is_refresh_token_rotation_disabled:
+        input.isRefreshTokenRotationDisabled ?? false,
+      is_trusted: input.isTrusted ?? false,
+      subject_type: subjectType,
+      sector_identifier_uri: input.sectorIdentifierUri ?? null,
+      require_verified_email: input.requireVerifiedEmail ?? false,
+      client_secret: authMethod === 'client_secret_jwt' ? clientSecret : null,
     },
     clientSecretHash,
   )
@@ -157,6 +425,19 @@ export const getClientById = async (
   return toApiClient(oauthClient)
 }
 
+/**
+ * Get active clients that registered a back-channel logout URI
+ */
+export const getBackchannelLogoutClients = async (): Promise<Client[]> => {
+  const oauthClients = await findClientsWithBackchannelLogout()
+  return oauthClients.map(toApiClient)
+}
+
+/**
+ * Get the IDs of all clients, including deactivated ones
+ */
+export const listClientIds = async (): Promise<string[]> => findAllClientIds()
+
 /**
  * Update client
  */
@@ -180,6 +461,70 @@ export const updateClientById = async (
     }
   }
 
+  if (input.postLogoutRedirectUris !== undefined) {
+    for (const uri of input.postLogoutRedirectUris) {
+      if (!isValidRedirectUriFormat(uri)) {
+        throw new Error(`Invalid post-logout redirect URI: ${uri}`)
+      }
+    }
+  }
+
+  if (
+    input.backchannelLogoutUri &&
+    !isValidBackchannelLogoutUri(input.backchannelLogoutUri)
+  ) {
+    throw new Error(
+      `Invalid backchannel logout URI: ${input.backchannelLogoutUri}`,
+    )
+  }
+
+  if (input.jwks && !isValidJwks(input.jwks)) {
+    throw new Error('Invalid JWKS: expected a JWK Set of public keys')
+  }
+
+  const hasJwks =
+    input.jwks !== undefined ? Boolean(input.jwks) : existing.jwks !== null
+  const tokenEndpointAuthMethod =
+    input.tokenEndpointAuthMethod ?? existing.token_endpoint_auth_method
+  if (tokenEndpointAuthMethod === 'private_key_jwt' && !hasJwks) {
+    throw new Error('Invalid JWKS: private_key_jwt needs registered jwks')
+  }
+  const requireSignedRequestObject =
+    input.requireSignedRequestObject ?? existing.require_signed_request_object
+  if (requireSignedRequestObject && !hasJwks) {
+    throw new Error(
+      'Invalid JWKS: requireSignedRequestObject needs registered jwks',
+    )
+  }
+
+  assertValidTokenLifetimes({
+    accessTokenLifetimeSeconds: input.accessTokenLifetimeSeconds,
+    idTokenLifetimeSeconds: input.idTokenLifetimeSeconds,
+    refreshTokenLifetimeSeconds:
+      input.refreshTokenLifetimeSeconds !== undefined
+        ? input.refreshTokenLifetimeSeconds
+        : existing.refresh_token_lifetime_seconds,
+    refreshTokenIdleTimeoutSeconds:
+      input.refreshTokenIdleTimeoutSeconds !== undefined
+        ? input.refreshTokenIdleTimeoutSeconds
+        : existing.refresh_token_idle_timeout_seconds,
+  })
+
+  // Only re-fetch the sector document when a setting it vouches for changes
+  if (
+    input.subjectType !== undefined ||
+    input.sectorIdentifierUri !== undefined ||
+    input.redirectUris !== undefined
+  ) {
+    await assertValidSubjectSettings(
+      input.subjectType ?? existing.subject_type,
+      input.sectorIdentifierUri !== undefined
+        ? input.sectorIdentifierUri
+        : existing.sector_identifier_uri,
+      input.redirectUris ?? existing.redirect_uris,
+    )
+  }
+
   if (input.grantTypes !== undefined) {
     for (const gt of input.grantTypes) {
       if (
@@ -204,12 +549,15 @@ export const updateClientById = async (
     }
   }
 
-  if (input.scopes !== undefined) {
-    for (const s of input.scopes) {
-      if (!ALLOWED_SCOPES.includes(s as (typeof ALLOWED_SCOPES)[number])) {
-        throw new Error(`Invalid scope: ${s}`)
-      }
+  if (input.responseModes !== undefined) {
+    if (!input.responseModes.length) {
+      throw new Error('Invalid response mode: at least one is required')
     }
+    assertSupportedResponseModes(input.responseModes)
+  }
+
+  if (input.scopes !== undefined) {
+    await assertRegisteredScopes(input.scopes)
   }
 
   if (input.tokenEndpointAuthMethod !== undefined) {
@@ -218,6 +566,15 @@ export const updateClientById = async (
         `Invalid token_endpoint_auth_method: ${input.tokenEndpointAuthMethod}`,
       )
     }
+    // Only the hash of an existing secret is stored, which cannot key an HMAC
+    if (
+      input.tokenEndpointAuthMethod === 'client_secret_jwt' &&
+      existing.token_endpoint_auth_method !== 'client_secret_jwt'
+    ) {
+      throw new Error(
+        'Invalid token_endpoint_auth_method: client_secret_jwt must be chosen at registration',
+      )
+    }
   }
 
   const updated = await updateClient(clientId, input)
@@ -248,7 +605,7 @@ export const authenticateClient = async (
     return null
   }
 
-  if (oauthClient.token_endpoint_auth_method === 'none') {
+  if (!SECRET_AUTH_METHODS.includes(oauthClient.token_endpoint_auth_method)) {
     return null
   }
 
@@ -267,6 +624,53 @@ export const authenticateClient = async (
   return toApiClient(oauthClient)
 }
 
+/**
+ * Authenticate a client by a client_secret_jwt or private_key_jwt assertion (RFC 7523).
+ * audiences are the values aud may name: this server's issuer and endpoint URLs.
+ * Each assertion is accepted once; a reused jti is rejected until the assertion expires.
+ */
+export const authenticateClientAssertion = async (
+  assertion: string,
+  audiences: string[],
+): Promise<Client | null> => {
+  const clientId = getClientAssertionSubject(assertion)
+  if (!clientId) {
+    return null
+  }
+
+  const oauthClient = await findClientById(clientId)
+  if (!oauthClient || !oauthClient.is_active) {
+    return null
+  }
+
+  const claims = verifyClientAssertion(assertion, oauthClient, audiences)
+  if (!claims) {
+    return null
+  }
+
+  const isFirstUse = await recordClientAssertionJti(
+    oauthClient.client_id,
+    claims.jti,
+    new Date(claims.exp * 1000),
+  )
+  if (!isFirstUse) {
+    return null
+  }
+
+  return toApiClient(oauthClient)
+}
+
+/**
+ * Remember a request object's jti until the request object expires.
+ * Returns false when the client already used this jti, i.e. the request object is a replay.
+ * Shares the client assertion jti table: a jti names one JWT of the client, whatever it is for.
+ */
+export const recordRequestObjectJti = async (
+  clientId: string,
+  jti: string,
+  expiresAt: Date,
+): Promise<boolean> => recordClientAssertionJti(clientId, jti, expiresAt)
+
 /**
  * Validate redirect URI against client's allowed URIs
  */
@@ -1,10 +1,12 @@
 import { randomUUID } from 'node:crypto'
-import type { Client } from 'cassandra-driver'
+import type { Client, types } from 'cassandra-driver'
 import { getDatabaseClient } from '../database/client.ts'
 import { getDatabaseConfig } from '../database/config.ts'
 import type {
   OAuthClient,
   OAuthClientInput,
+  ResponseMode,
+  SubjectType,
   TokenEndpointAuthMethod,
 } from '../database/types/oauth-client.ts'
 import type { ClientUpdateInput } from './types/client.ts'
@@ -20,30 +22,102 @@ const getKeyspace = (): string => {
 const mapRowToClient = (row: {
   client_id: string
   client_secret_hash: string | null
+  client_secret: string | null
   client_name: string
   redirect_uris: string[]
+  post_logout_redirect_uris: string[] | null
   grant_types: string[]
   response_types: string[]
+  response_modes: string[] | null
   scopes: string[]
   token_endpoint_auth_method: string
+  backchannel_logout_uri: string | null
+  backchannel_logout_session_required: boolean | null
+  require_pushed_authorization_requests: boolean | null
+  jwks: string | null
+  require_signed_request_object: boolean | null
+  access_token_lifetime_seconds: number | null
+  id_token_lifetime_seconds: number | null
+  refresh_token_lifetime_seconds: number | null
+  refresh_token_idle_timeout_seconds: number | null
+  is_refresh_token_rotation_disabled: boolean | null
+  is_trusted: boolean | null
+  subject_type: string | null
+  sector_identifier_uri: string | null
+  require_verified_email: boolean | null
   is_active: boolean
   created_at: Date
   updated_at: Date
 }): OAuthClient => ({
   client_id: String(row.client_id),
   client_secret_hash: row.client_secret_hash,
+  client_secret: row.client_secret ?? null,
   client_name: row.client_name as string,
   redirect_uris: (row.redirect_uris ?? []) as string[],
+  post_logout_redirect_uris: (row.post_logout_redirect_uris ?? []) as string[],
   grant_types: (row.grant_types ?? []) as string[],
   response_types: (row.response_types ?? []) as string[],
+  response_modes: (row.response_modes ?? null) as ResponseMode[] | null,
   scopes: (row.scopes ?? []) as string[],
   token_endpoint_auth_method:
     row.token_endpoint_auth_method as TokenEndpointAuthMethod,
+  backchannel_logout_uri: row.backchannel_logout_uri ?? null,
+  backchannel_logout_session_required:
+    row.backchannel_logout_session_required === true,
+  require_pushed_authorization_requests:
+    row.require_pushed_authorization_requests === true,
+  jwks: row.jwks ?? null,
+  require_signed_request_object: row.require_signed_request_object === true,
+  access_token_lifetime_seconds: row.access_token_lifetime_seconds ?? null,
+  id_token_lifetime_seconds: row.id_token_lifetime_seconds ?? null,
+  refresh_token_lifetime_seconds: row.refresh_token_lifetime_seconds ?? null,
+  refresh_token_idle_timeout_seconds:
+    row.refresh_token_idle_timeout_seconds ?? null,
+  is_refresh_token_rotation_disabled:
+    row.is_refresh_token_rotation_disabled === true,
+  is_trusted: row.is_trusted === true,
+  subject_type: (row.subject_type ?? 'public') as SubjectType,
+  sector_identifier_uri: row.sector_identifier_uri ?? null,
+  require_verified_email: row.require_verified_email === true,
   is_active: row.is_active as boolean,
   created_at: row.created_at as Date,
   updated_at: row.updated_at as Date,
 })
 
+const mapCqlRowToClient = (row: types.Row): OAuthClient =>
+  mapRowToClient({
+    client_id: row.client_id,
+    client_secret_hash: row.client_secret_hash,
+    client_secret: row.client_secret,
+    client_name: row.client_name,
+    redirect_uris: row.redirect_uris ?? [],
+    post_logout_redirect_uris: row.post_logout_redirect_uris ?? [],
+    grant_types: row.grant_types ?? [],
+    response_types: row.response_types ?? [],
+    response_modes: row.response_modes ?? null,
+    scopes: row.scopes ?? [],
+    token_endpoint_auth_method: row.token_endpoint_auth_method,
+    backchannel_logout_uri: row.backchannel_logout_uri,
+    backchannel_logout_session_required:
+      row.backchannel_logout_session_required,
+    require_pushed_authorization_requests:
+      row.require_pushed_authorization_requests,
+    jwks: row.jwks,
+    require_signed_request_object: row.require_signed_request_object,
+    access_token_lifetime_seconds: row.access_token_lifetime_seconds,
+    id_token_lifetime_seconds: row.id_token_lifetime_seconds,
+    refresh_token_lifetime_seconds: row.refresh_token_lifetime_seconds,
+    refresh_token_idle_timeout_seconds: row.refresh_token_idle_timeout_seconds,
+    is_refresh_token_rotation_disabled: row.is_refresh_token_rotation_disabled,
+    is_trusted: row.is_trusted,
+    subject_type: row.subject_type,
+    sector_identifier_uri: row.sector_identifier_uri,
+    require_verified_email: row.require_verified_email,
+    is_active: row.is_active,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  })
+
 /**
  * Insert a new OAuth client
  */
@@ -58,34 +132,74 @@ export const insertClient = async (
 
   await client.execute(
     `INSERT INTO ${keyspace}.clients 
-     (client_id, client_secret_hash, client_name, redirect_uris, grant_types, response_types, scopes, token_endpoint_auth_method, is_active, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+     (client_id, client_secret_hash, client_secret, client_name, redirect_uris, post_logout_redirect_uris, grant_types, response_types, response_modes, scopes, token_endpoint_auth_method, backchannel_logout_uri, backchannel_logout_session_required, require_pushed_authorization_requests, jwks, require_signed_request_object, access_token_lifetime_seconds, id_token_lifetime_seconds, refresh_token_lifetime_seconds, refresh_token_idle_timeout_seconds, is_refresh_token_rotation_disabled, is_trusted, subject_type, sector_identifier_uri, require_verified_email, is_active, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       clientId,
       clientSecretHash,
+      input.client_secret ?? null,
       input.client_name,
       input.redirect_uris,
+      input.post_logout_redirect_uris ?? [],
       input.grant_types,
       input.response_types,
+      input.response_modes ?? null,
       input.scopes,
       input.token_endpoint_auth_method ?? 'client_secret_post',
+      input.backchannel_logout_uri ?? null,
+      input.backchannel_logout_session_required ?? false,
+      input.require_pushed_authorization_requests ?? false,
+      input.jwks ?? null,
+      input.require_signed_request_object ?? false,
+      input.access_token_lifetime_seconds ?? null,
+      input.id_token_lifetime_seconds ?? null,
+      input.refresh_token_lifetime_seconds ?? null,
+      input.refresh_token_idle_timeout_seconds ?? null,
+      input.is_refresh_token_rotation_disabled ?? false,
+      input.is_trusted ?? false,
+      input.subject_type ?? 'public',
+      input.sector_identifier_uri ?? null,
+      input.require_verified_email ?? false,
       true,
       now,
       now,
     ],
+    { prepare: true },
   )
 
   return {
     client_id: clientId,
     client_secret_hash: clientSecretHash,
+    client_secret: input.client_secret ?? null,
     client_name: input.client_name,
     redirect_uris: input.redirect_uris,
+    post_logout_redirect_uris: input.post_logout_redirect_uris ?? [],
     grant_types: input.grant_types,
     response_types: input.response_types,
+    response_modes: input.response_modes ?? null,
     scopes: input.scopes,
     token_endpoint_auth_method:
       (input.token_endpoint_auth_method as TokenEndpointAuthMethod) ??
       'client_secret_post',
+    backchannel_logout_uri: input.backchannel_logout_uri ?? null,
+    backchannel_logout_session_required:
+      input.backchannel_logout_session_required ?? false,
+    require_pushed_authorization_requests:
+      input.require_pushed_authorization_requests ?? false,
+    jwks: input.jwks ?? null,
+    require_signed_request_object: input.require_signed_request_object ?? false,
+    access_token_lifetime_seconds: input.access_token_lifetime_seconds ?? null,
+    id_token_lifetime_seconds: input.id_token_lifetime_seconds ?? null,
+    refresh_token_lifetime_seconds:
+      input.refresh_token_lifetime_seconds ?? null,
+    refresh_token_idle_timeout_seconds:
+      input.refresh_token_idle_timeout_seconds ?? null,
+    is_refresh_token_rotation_disabled:
+      input.is_refresh_token_rotation_disabled ?? false,
+    is_trusted: input.is_trusted ?? false,
+    subject_type: input.subject_type ?? 'public',
+    sector_identifier_uri: input.sector_identifier_uri ?? null,
+    require_verified_email: input.require_verified_email ?? false,
     is_active: true,
     created_at: now,
     updated_at: now,
@@ -110,20 +224,7 @@ export const findClientById = async (
     return null
   }
 
-  const row = result.rows[0]
-  return mapRowToClient({
-    client_id: row.client_id,
-    client_secret_hash: row.client_secret_hash,
-    client_name: row.client_name,
-    redirect_uris: row.redirect_uris ?? [],
-    grant_types: row.grant_types ?? [],
-    response_types: row.response_types ?? [],
-    scopes: row.scopes ?? [],
-    token_endpoint_auth_method: row.token_endpoint_auth_method,
-    is_active: row.is_active,
-    created_at: row.created_at,
-    updated_at: row.updated_at,
-  })
+  return mapCqlRowToClient(result.rows[0])
 }
 
 /**
@@ -144,37 +245,151 @@ export const updateClient = async (
 
   const clientName = input.name ?? existing.client_name
   const redirectUris = input.redirectUris ?? existing.redirect_uris
+  const postLogoutRedirectUris =
+    input.postLogoutRedirectUris ?? existing.post_logout_redirect_uris
   const grantTypes = input.grantTypes ?? existing.grant_types
   const responseTypes = input.responseTypes ?? existing.response_types
+  const responseModes = input.responseModes ?? existing.response_modes
   const scopes = input.scopes ?? existing.scopes
   const tokenEndpointAuthMethod =
     input.tokenEndpointAuthMethod ?? existing.token_endpoint_auth_method
+  const backchannelLogoutUri =
+    input.backchannelLogoutUri !== undefined
+      ? input.backchannelLogoutUri || null
+      : existing.backchannel_logout_uri
+  const backchannelLogoutSessionRequired =
+    input.backchannelLogoutSessionRequired ??
+    existing.backchannel_logout_session_required
+  const requirePushedAuthorizationRequests =
+    input.requirePushedAuthorizationRequests ??
+    existing.require_pushed_authorization_requests
+  const jwks =
+    input.jwks !== undefined
+      ? input.jwks
+        ? JSON.stringify(input.jwks)
+        : null
+      : existing.jwks
+  const requireSignedRequestObject =
+    input.requireSignedRequestObject ?? existing.require_signed_request_object
+  const accessTokenLifetimeSeconds =
+    input.accessTokenLifetimeSeconds !== undefined
+      ? input.accessTokenLifetimeSeconds
+      : existing.access_token_lifetime_seconds
+  const idTokenLifetimeSeconds =
+    input.idTokenLifetimeSeconds !== undefined
+      ? input.idTokenLifetimeSeconds
+      : existing.id_token_lifetime_seconds
+  const refreshTokenLifetimeSeconds =
+    input.refreshTokenLifetimeSeconds !== undefined
+      ? input.refreshTokenLifetimeSeconds
+      : existing.refresh_token_lifetime_seconds
+  const refreshTokenIdleTimeoutSeconds =
+    input.refreshTokenIdleTimeoutSeconds !== undefined
+      ? input.refreshTokenIdleTimeoutSeconds
+      : existing.refresh_token_idle_timeout_seconds
+  const isRefreshTokenRotationDisabled =
+    input.isRefreshTokenRotationDisabled ??
+    existing.is_refresh_token_rotation_disabled
+  const isTrusted = input.isTrusted ?? existing.is_trusted
+  const subjectType = input.subjectType ?? existing.subject_type
+  const sectorIdentifierUri =
+    input.sectorIdentifierUri !== undefined
+      ? input.sectorIdentifierUri || null
+      : existing.sector_identifier_uri
+  const requireVerifiedEmail =
+    input.requireVerifiedEmail ?? existing.require_verified_email
 
   await client.execute(
     `UPDATE ${keyspace}.clients SET
      client_name = ?,
      redirect_uris = ?,
+     post_logout_redirect_uris = ?,
      grant_types = ?,
      response_types = ?,
+     response_modes = ?,
      scopes = ?,
      token_endpoint_auth_method = ?,
+     backchannel_logout_uri = ?,
+     backchannel_logout_session_required = ?,
+     require_pushed_authorization_requests = ?,
+     jwks = ?,
+     require_signed_request_object = ?,
+     access_token_lifetime_seconds = ?,
+     id_token_lifetime_seconds = ?,
+     refresh_token_lifetime_seconds = ?,
+     refresh_token_idle_timeout_seconds = ?,
+     is_refresh_token_rotation_disabled = ?,
+     is_trusted = ?,
+     subject_type = ?,
+     sector_identifier_uri = ?,
+     require_verified_email = ?,
      updated_at = ?
      WHERE client_id = ?`,
     [
       clientName,
       redirectUris,
+      postLogoutRedirectUris,
       grantTypes,
       responseTypes,
+      responseModes,
       scopes,
       tokenEndpointAuthMethod,
+      backchannelLogoutUri,
+      backchannelLogoutSessionRequired,
+      requirePushedAuthorizationRequests,
+      jwks,
+      requireSignedRequestObject,
+      accessTokenLifetimeSeconds,
+      idTokenLifetimeSeconds,
+      refreshTokenLifetimeSeconds,
+      refreshTokenIdleTimeoutSeconds,
+      isRefreshTokenRotationDisabled,
+      isTrusted,
+      subjectType,
+      sectorIdentifierUri,
+      requireVerifiedEmail,
       now,
       clientId,
     ],
+    { prepare: true },
   )
 
   return findClientById(clientId)
 }
 
+/**
+ * Find active clients that registered a back-channel logout URI.
+ * Clients are a small, admin-managed table, so a full scan filtered in code is acceptable
+ * (CQL cannot filter on a non-key column being set).
+ */
+export const findClientsWithBackchannelLogout = async (): Promise<
+  OAuthClient[]
+> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(`SELECT * FROM ${keyspace}.clients`)
+
+  return result.rows
+    .filter((row) => row.is_active === true && row.backchannel_logout_uri)
+    .map(mapCqlRowToClient)
+}
+
+/**
+ * IDs of every client, active or not.
+ * Clients are a small, admin-managed table, so a full scan is acceptable.
+ */
+export const findAllClientIds = async (): Promise<string[]> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT client_id FROM ${keyspace}.clients`,
+  )
+
+  return result.rows.map((row) => String(row.client_id))
+}
+
 /**
  * Soft-disable a client (set is_active = false)
  */
@@ -0,0 +1,57 @@
+import type { RefreshTokenInput } from '../database/types/refresh-token.ts'
+import type { Client, TokenPolicy } from './types/client.ts'
+
+export const DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS = 60 * 60
+export const DEFAULT_ID_TOKEN_LIFETIME_SECONDS = 60 * 60
+export const DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS = 30 * 24 * 60 * 60
+
+const DAY_SECONDS = 24 * 60 * 60
+
+/** Inclusive [min, max] a client may configure for each lifetime, in seconds */
+export const TOKEN_LIFETIME_BOUNDS = {
+  accessTokenLifetimeSeconds: [60, DAY_SECONDS],
+  idTokenLifetimeSeconds: [60, DAY_SECONDS],
+  refreshTokenLifetimeSeconds: [5 * 60, 365 * DAY_SECONDS],
+  refreshTokenIdleTimeoutSeconds: [5 * 60, 365 * DAY_SECONDS],
+} as const satisfies Record<string, readonly [number, number]>
+
+/**
+ * The client's token lifetimes and refresh behaviour, with server defaults for
+ * anything it did not configure.
+ */
+export const resolveTokenPolicy = (client: Client): TokenPolicy => ({
+  accessTokenLifetimeSeconds:
+    client.accessTokenLifetimeSeconds ?? DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS,
+  idTokenLifetimeSeconds:
+    client.idTokenLifetimeSeconds ?? DEFAULT_ID_TOKEN_LIFETIME_SECONDS,
+  refreshTokenLifetimeSeconds:
+    client.refreshTokenLifetimeSeconds ??
+    DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS,
+  refreshTokenIdleTimeoutSeconds: client.refreshTokenIdleTimeoutSeconds ?? null,
+  isRefreshTokenRotationDisabled:
+    client.isRefreshTokenRotationDisabled ?? false,
+})
+
+/**
+ * Expiry of a refresh token issued now.
+ * absoluteExpiresAt is the end of the family: a new grant starts it at now plus the absolute
+ * lifetime, and rotations carry it over. With an idle timeout the token expires earlier unless
+ * it is used again in time.
+ */
+export const refreshTokenExpiry = (
+  policy: TokenPolicy,
+  absoluteExpiresAt: Date | null = null,
+): Pick<RefreshTokenInput, 'expires_at' | 'absolute_expires_at'> => {
+  const now = Date.now()
+  const absolute =
+    absoluteExpiresAt ??
+    new Date(now + policy.refreshTokenLifetimeSeconds * 1000)
+  if (policy.refreshTokenIdleTimeoutSeconds === null) {
+    return { expires_at: absolute, absolute_expires_at: absolute }
+  }
+  const idleExpiresAt = now + policy.refreshTokenIdleTimeoutSeconds * 1000
+  return {
+    expires_at: new Date(Math.min(absolute.getTime(), idleExpiresAt)),
+    absolute_expires_at: absolute,
+  }
+}
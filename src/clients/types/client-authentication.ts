@@ -0,0 +1,14 @@
+import type { Client } from './client.ts'
+
+export type ClientAuthenticationResult =
+  | {
+      isValid: true
+      /** null when the request carried no client credentials (public clients send client_id only) */
+      client: Client | null
+    }
+  | {
+      isValid: false
+      error: 'invalid_client' | 'invalid_request'
+      errorDescription: string
+      status: 400 | 401
+    }
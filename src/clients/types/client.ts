@@ -1,13 +1,55 @@
-import type { TokenEndpointAuthMethod } from '../../database/types/oauth-client.ts'
+import type { webcrypto } from 'node:crypto'
+import type {
+  ResponseMode,
+  SubjectType,
+  TokenEndpointAuthMethod,
+} from '../../database/types/oauth-client.ts'
+
+/** RFC 7591 jwks: the client's public keys */
+export interface ClientJwks {
+  keys: (webcrypto.JsonWebKey & { kid?: string })[]
+}
 
 export interface Client {
   id: string
   name: string
   redirectUris: string[]
+  /** Allowed post_logout_redirect_uri values for RP-Initiated Logout */
+  postLogoutRedirectUris: string[]
   grantTypes: string[]
   responseTypes: string[]
+  /** Response modes the client may request; every mode the provider supports when absent */
+  responseModes?: ResponseMode[]
   scopes: string[]
   tokenEndpointAuthMethod: TokenEndpointAuthMethod
+  /** OIDC Back-Channel Logout: URL that receives logout tokens */
+  backchannelLogoutUri?: string
+  /** When true, logout tokens sent to this client must include sid */
+  backchannelLogoutSessionRequired?: boolean
+  /** RFC 9126: /authorize only accepts this client's requests via a pushed request_uri */
+  requirePushedAuthorizationRequests?: boolean
+  /** Public keys that verify the client's signed request objects */
+  jwks?: ClientJwks
+  /** RFC 9101: /authorize only accepts this client's requests as signed request objects */
+  requireSignedRequestObject?: boolean
+  /** Access token lifetime; the server default when absent */
+  accessTokenLifetimeSeconds?: number
+  /** ID token lifetime; the server default when absent */
+  idTokenLifetimeSeconds?: number
+  /** Absolute refresh token lifetime, counted from the start of the grant; the server default when absent */
+  refreshTokenLifetimeSeconds?: number
+  /** Sliding expiry: a refresh token unused for this long expires. No idle timeout when absent */
+  refreshTokenIdleTimeoutSeconds?: number
+  /** When true, the refresh_token grant keeps the presented refresh token instead of rotating it */
+  isRefreshTokenRotationDisabled?: boolean
+  /** First-party client: users are not asked to consent to its authorization requests */
+  isTrusted?: boolean
+  /** pairwise: the client sees a sub of its own per sector instead of the account id */
+  subjectType?: SubjectType
+  /** Host shared by the clients of one sector; required for pairwise clients with several redirect hosts */
+  sectorIdentifierUri?: string
+  /** When true, users whose email is not verified are refused authorization */
+  requireVerifiedEmail?: boolean
   createdAt: Date
   updatedAt: Date
 }
@@ -20,17 +62,61 @@ export interface ClientWithSecret extends Client {
 export interface ClientRegistrationInput {
   name: string
   redirectUris: string[]
+  postLogoutRedirectUris?: string[]
   grantTypes: string[]
   responseTypes: string[]
+  responseModes?: ResponseMode[]
   scopes: string[]
   tokenEndpointAuthMethod?: TokenEndpointAuthMethod
+  backchannelLogoutUri?: string
+  backchannelLogoutSessionRequired?: boolean
+  requirePushedAuthorizationRequests?: boolean
+  jwks?: ClientJwks | null
+  requireSignedRequestObject?: boolean
+  accessTokenLifetimeSeconds?: number
+  idTokenLifetimeSeconds?: number
+  refreshTokenLifetimeSeconds?: number
+  refreshTokenIdleTimeoutSeconds?: number
+  isRefreshTokenRotationDisabled?: boolean
+  isTrusted?: boolean
+  subjectType?: SubjectType
+  sectorIdentifierUri?: string
+  requireVerifiedEmail?: boolean
 }
 
 export interface ClientUpdateInput {
   name?: string
   redirectUris?: string[]
+  postLogoutRedirectUris?: string[]
   grantTypes?: string[]
   responseTypes?: string[]
+  responseModes?: ResponseMode[]
   scopes?: string[]
   tokenEndpointAuthMethod?: TokenEndpointAuthMethod
+  backchannelLogoutUri?: string
+  backchannelLogoutSessionRequired?: boolean
+  requirePushedAuthorizationRequests?: boolean
+  jwks?: ClientJwks | null
+  requireSignedRequestObject?: boolean
+  /** null restores the server default */
+  accessTokenLifetimeSeconds?: number | null
+  idTokenLifetimeSeconds?: number | null
+  refreshTokenLifetimeSeconds?: number | null
+  /** null removes the idle timeout */
+  refreshTokenIdleTimeoutSeconds?: number | null
+  isRefreshTokenRotationDisabled?: boolean
+  isTrusted?: boolean
+  subjectType?: SubjectType
+  /** null or an empty string removes it */
+  sectorIdentifierUri?: string | null
+  requireVerifiedEmail?: boolean
+}
+
+/** Effective token lifetimes and refresh behaviour for a client, with server defaults applied */
+export interface TokenPolicy {
+  accessTokenLifetimeSeconds: number
+  idTokenLifetimeSeconds: number
+  refreshTokenLifetimeSeconds: number
+  refreshTokenIdleTimeoutSeconds: number | null
+  isRefreshTokenRotationDisabled: boolean
 }
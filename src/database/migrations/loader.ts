@@ -18,6 +18,44 @@ import { migration as migration016 } from './migrations/016-create-oauth-state-t
 import { migration as migration017 } from './migrations/017-create-refresh-tokens-by-user-table.ts'
 import { migration as migration018 } from './migrations/018-add-auth-time-to-refresh-tokens.ts'
 import { migration as migration019 } from './migrations/019-create-rate-limit-counters-table.ts'
+import { migration as migration020 } from './migrations/020-create-device-codes-table.ts'
+import { migration as migration021 } from './migrations/021-add-post-logout-redirect-uris-to-clients.ts'
+import { migration as migration022 } from './migrations/022-add-backchannel-logout-to-clients.ts'
+import { migration as migration023 } from './migrations/023-create-backchannel-logout-deliveries-table.ts'
+import { migration as migration024 } from './migrations/024-create-sessions-table.ts'
+import { migration as migration025 } from './migrations/025-add-sid-to-authorization-codes.ts'
+import { migration as migration026 } from './migrations/026-add-sid-to-refresh-tokens.ts'
+import { migration as migration027 } from './migrations/027-add-require-pushed-authorization-requests-to-clients.ts'
+import { migration as migration028 } from './migrations/028-create-pushed-authorization-requests-table.ts'
+import { migration as migration029 } from './migrations/029-add-request-object-settings-to-clients.ts'
+import { migration as migration030 } from './migrations/030-add-client-secret-to-clients.ts'
+import { migration as migration031 } from './migrations/031-create-client-assertion-jtis-table.ts'
+import { migration as migration032 } from './migrations/032-create-dpop-proof-jtis-table.ts'
+import { migration as migration033 } from './migrations/033-add-dpop-jkt-to-refresh-tokens.ts'
+import { migration as migration034 } from './migrations/034-create-protected-resources-table.ts'
+import { migration as migration035 } from './migrations/035-add-resources-to-authorization-codes.ts'
+import { migration as migration036 } from './migrations/036-add-resources-to-refresh-tokens.ts'
+import { migration as migration037 } from './migrations/037-add-family-to-refresh-tokens.ts'
+import { migration as migration038 } from './migrations/038-create-refresh-tokens-by-family-table.ts'
+import { migration as migration039 } from './migrations/039-create-revoked-access-tokens-table.ts'
+import { migration as migration040 } from './migrations/040-add-token-policy-to-clients.ts'
+import { migration as migration041 } from './migrations/041-add-absolute-expiry-to-refresh-tokens.ts'
+import { migration as migration042 } from './migrations/042-add-is-trusted-to-clients.ts'
+import { migration as migration043 } from './migrations/043-create-consent-grants-table.ts'
+import { migration as migration044 } from './migrations/044-create-scopes-table.ts'
+import { migration as migration045 } from './migrations/045-add-claims-to-authorization-codes.ts'
+import { migration as migration046 } from './migrations/046-add-claims-to-refresh-tokens.ts'
+import { migration as migration047 } from './migrations/047-add-address-to-accounts.ts'
+import { migration as migration048 } from './migrations/048-add-phone-and-address-scopes.ts'
+import { migration as migration049 } from './migrations/049-add-subject-settings-to-clients.ts'
+import { migration as migration050 } from './migrations/050-create-pairwise-subjects-by-subject-table.ts'
+import { migration as migration051 } from './migrations/051-add-return-to-to-magic-link-tokens.ts'
+import { migration as migration052 } from './migrations/052-create-otp-codes-table.ts'
+import { migration as migration053 } from './migrations/053-create-otp-attempts-table.ts'
+import { migration as migration054 } from './migrations/054-add-require-verified-email-to-clients.ts'
+import { migration as migration055 } from './migrations/055-create-password-reset-tokens-table.ts'
+import { migration as migration056 } from './migrations/056-add-response-modes-to-clients.ts'
+import { migration as migration057 } from './migrations/057-create-consent-nonces-table.ts'
 import type { Migration } from './types.ts'
 
 export const loadMigrations = (): Migration[] => {
@@ -41,5 +79,43 @@ export const loadMigrations = (): Migration[] => {
     migration017,
     migration018,
     migration019,
+    migration020,
+    migration021,
+    migration022,
+    migration023,
+    migration024,
+    migration025,
+    migration026,
+    migration027,
+    migration028,
+    migration029,
+    migration030,
+    migration031,
+    migration032,
+    migration033,
+    migration034,
+    migration035,
+    migration036,
+    migration037,
+    migration038,
+    migration039,
+    migration040,
+    migration041,
+    migration042,
+    migration043,
+    migration044,
+    migration045,
+    migration046,
+    migration047,
+    migration048,
+    migration049,
+    migration050,
+    migration051,
+    migration052,
+    migration053,
+    migration054,
+    migration055,
+    migration056,
+    migration057,
   ].sort((a, b) => a.version.localeCompare(b.version))
 }
@@ -0,0 +1,43 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '020',
+  name: 'create_device_codes_table',
+  description:
+    'Create device_codes and device_codes_by_user_code tables for the OAuth 2.0 device authorization grant',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.device_codes (
+        device_code TEXT,
+        user_code TEXT,
+        client_id UUID,
+        scopes LIST<TEXT>,
+        status TEXT,
+        user_id TEXT,
+        auth_time TIMESTAMP,
+        interval INT,
+        last_polled_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP,
+        PRIMARY KEY (device_code)
+      )
+    `)
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.device_codes_by_user_code (
+        user_code TEXT,
+        device_code TEXT,
+        PRIMARY KEY (user_code)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.device_codes_by_user_code`,
+    )
+    await client.execute(`DROP TABLE IF EXISTS ${config.keyspace}.device_codes`)
+  },
+}
@@ -0,0 +1,20 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '021',
+  name: 'add_post_logout_redirect_uris_to_clients',
+  description:
+    'Add post_logout_redirect_uris column to clients for OIDC RP-Initiated Logout',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD post_logout_redirect_uris LIST<TEXT>`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
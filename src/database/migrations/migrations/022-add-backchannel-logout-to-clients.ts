@@ -0,0 +1,23 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '022',
+  name: 'add_backchannel_logout_to_clients',
+  description:
+    'Add backchannel_logout_uri and backchannel_logout_session_required columns to clients for OIDC Back-Channel Logout',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD backchannel_logout_uri TEXT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD backchannel_logout_session_required BOOLEAN`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
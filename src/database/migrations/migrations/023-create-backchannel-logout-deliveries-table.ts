@@ -0,0 +1,34 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '023',
+  name: 'create_backchannel_logout_deliveries_table',
+  description:
+    'Create backchannel_logout_deliveries table to record Back-Channel Logout delivery attempts and status',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.backchannel_logout_deliveries (
+        delivery_id UUID,
+        client_id UUID,
+        user_id TEXT,
+        logout_uri TEXT,
+        status TEXT,
+        attempts INT,
+        last_error TEXT,
+        last_attempt_at TIMESTAMP,
+        delivered_at TIMESTAMP,
+        created_at TIMESTAMP,
+        PRIMARY KEY (delivery_id)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.backchannel_logout_deliveries`,
+    )
+  },
+}
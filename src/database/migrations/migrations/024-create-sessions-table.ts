@@ -0,0 +1,41 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '024',
+  name: 'create_sessions_table',
+  description:
+    'Create sessions and sessions_by_user tables for server-side browser sessions',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.sessions (
+        session_id TEXT,
+        user_id TEXT,
+        auth_time TIMESTAMP,
+        auth_methods LIST<TEXT>,
+        user_agent TEXT,
+        ip_address TEXT,
+        last_seen_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP,
+        PRIMARY KEY (session_id)
+      )
+    `)
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.sessions_by_user (
+        user_id TEXT,
+        session_id TEXT,
+        PRIMARY KEY (user_id, session_id)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.sessions_by_user`,
+    )
+    await client.execute(`DROP TABLE IF EXISTS ${config.keyspace}.sessions`)
+  },
+}
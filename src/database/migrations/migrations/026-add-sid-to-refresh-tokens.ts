@@ -0,0 +1,19 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '026',
+  name: 'add_sid_to_refresh_tokens',
+  description: 'Add sid column to refresh_tokens for the OIDC sid claim',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.refresh_tokens ADD sid TEXT`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
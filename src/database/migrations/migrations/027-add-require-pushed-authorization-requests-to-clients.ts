@@ -0,0 +1,20 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '027',
+  name: 'add_require_pushed_authorization_requests_to_clients',
+  description:
+    'Add require_pushed_authorization_requests column to clients for Pushed Authorization Requests (RFC 9126)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD require_pushed_authorization_requests BOOLEAN`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
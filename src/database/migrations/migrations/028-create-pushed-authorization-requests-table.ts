@@ -0,0 +1,29 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '028',
+  name: 'create_pushed_authorization_requests_table',
+  description:
+    'Create pushed_authorization_requests table for Pushed Authorization Requests (RFC 9126)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.pushed_authorization_requests (
+        request_uri TEXT,
+        client_id UUID,
+        parameters MAP<TEXT, TEXT>,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP,
+        PRIMARY KEY (request_uri)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.pushed_authorization_requests`,
+    )
+  },
+}
@@ -0,0 +1,21 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '029',
+  name: 'add_request_object_settings_to_clients',
+  description:
+    'Add jwks and require_signed_request_object columns to clients for JWT-Secured Authorization Requests (RFC 9101)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`ALTER TABLE ${config.keyspace}.clients ADD jwks TEXT`)
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD require_signed_request_object BOOLEAN`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
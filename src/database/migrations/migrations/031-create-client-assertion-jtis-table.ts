@@ -0,0 +1,27 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '031',
+  name: 'create_client_assertion_jtis_table',
+  description:
+    'Create client_assertion_jtis table to reject replayed client assertions (RFC 7523)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.client_assertion_jtis (
+        client_id TEXT,
+        jti TEXT,
+        expires_at TIMESTAMP,
+        PRIMARY KEY ((client_id, jti))
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.client_assertion_jtis`,
+    )
+  },
+}
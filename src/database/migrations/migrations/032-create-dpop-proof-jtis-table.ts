@@ -0,0 +1,27 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '032',
+  name: 'create_dpop_proof_jtis_table',
+  description:
+    'Create dpop_proof_jtis table to reject replayed DPoP proofs (RFC 9449)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.dpop_proof_jtis (
+        jkt TEXT,
+        jti TEXT,
+        expires_at TIMESTAMP,
+        PRIMARY KEY ((jkt, jti))
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.dpop_proof_jtis`,
+    )
+  },
+}
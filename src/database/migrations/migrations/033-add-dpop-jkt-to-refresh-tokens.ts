@@ -0,0 +1,20 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '033',
+  name: 'add_dpop_jkt_to_refresh_tokens',
+  description:
+    'Add dpop_jkt column to refresh_tokens to bind public client refresh tokens to a DPoP key',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.refresh_tokens ADD dpop_jkt TEXT`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
@@ -0,0 +1,29 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '034',
+  name: 'create_protected_resources_table',
+  description:
+    'Create protected_resources table for the resource indicators (RFC 8707) access tokens may be issued for',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.protected_resources (
+        resource TEXT,
+        resource_name TEXT,
+        scopes LIST<TEXT>,
+        created_at TIMESTAMP,
+        updated_at TIMESTAMP,
+        PRIMARY KEY (resource)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.protected_resources`,
+    )
+  },
+}
@@ -0,0 +1,23 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '037',
+  name: 'add_family_to_refresh_tokens',
+  description:
+    'Add family_id and consumed_at columns to refresh_tokens so replayed rotated tokens can be detected',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.refresh_tokens ADD family_id TEXT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.refresh_tokens ADD consumed_at TIMESTAMP`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
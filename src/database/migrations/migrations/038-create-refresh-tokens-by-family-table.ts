@@ -0,0 +1,28 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '038',
+  name: 'create_refresh_tokens_by_family_table',
+  description:
+    'Create refresh_tokens_by_family table to revoke every token of a rotation chain at once',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.refresh_tokens_by_family (
+        family_id TEXT,
+        token_value TEXT,
+        user_id TEXT,
+        client_id UUID,
+        PRIMARY KEY ((family_id), token_value)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.refresh_tokens_by_family`,
+    )
+  },
+}
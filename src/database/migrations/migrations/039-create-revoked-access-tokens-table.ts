@@ -0,0 +1,28 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '039',
+  name: 'create_revoked_access_tokens_table',
+  description:
+    'Create revoked_access_tokens table, a jti denylist for access tokens revoked before they expire (RFC 7009)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.revoked_access_tokens (
+        jti TEXT,
+        client_id TEXT,
+        revoked_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        PRIMARY KEY (jti)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.revoked_access_tokens`,
+    )
+  },
+}
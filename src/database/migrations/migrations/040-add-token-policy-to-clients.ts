@@ -0,0 +1,32 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '040',
+  name: 'add_token_policy_to_clients',
+  description:
+    'Add per-client token lifetimes and refresh token rotation settings to clients; null means the server default',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD access_token_lifetime_seconds INT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD id_token_lifetime_seconds INT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD refresh_token_lifetime_seconds INT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD refresh_token_idle_timeout_seconds INT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD is_refresh_token_rotation_disabled BOOLEAN`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
@@ -0,0 +1,29 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '043',
+  name: 'create_consent_grants_table',
+  description:
+    'Create consent_grants table: the scopes each user has approved for each client, partitioned by user so a user can list their grants',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.consent_grants (
+        user_id TEXT,
+        client_id TEXT,
+        scopes SET<TEXT>,
+        created_at TIMESTAMP,
+        updated_at TIMESTAMP,
+        PRIMARY KEY ((user_id), client_id)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.consent_grants`,
+    )
+  },
+}
@@ -0,0 +1,62 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+/** The scopes this server has always supported, with the claims each releases */
+const STANDARD_SCOPES = [
+  {
+    scope: 'openid',
+    description: 'Sign you in with your account',
+    claims: ['sub'],
+  },
+  {
+    scope: 'profile',
+    description: 'See your name and profile picture',
+    claims: ['name', 'given_name', 'family_name', 'picture'],
+  },
+  {
+    scope: 'email',
+    description: 'See your email addresses and phone numbers',
+    claims: ['email', 'email_verified', 'emails', 'phone_numbers'],
+  },
+  {
+    scope: 'offline_access',
+    description: 'Keep access to your account while you are not using the app',
+    claims: [],
+  },
+]
+
+export const migration: Migration = {
+  version: '044',
+  name: 'create_scopes_table',
+  description:
+    'Create scopes table, the registry of scopes clients may request with their consent descriptions and claims, seeded with the standard scopes',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.scopes (
+        scope TEXT,
+        description TEXT,
+        claims LIST<TEXT>,
+        created_at TIMESTAMP,
+        updated_at TIMESTAMP,
+        PRIMARY KEY (scope)
+      )
+    `)
+
+    const now = new Date()
+    for (const { scope, description, claims } of STANDARD_SCOPES) {
+      await client.execute(
+        `INSERT INTO ${config.keyspace}.scopes (scope, description, claims, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         IF NOT EXISTS`,
+        [scope, description, claims, now, now],
+        { prepare: true },
+      )
+    }
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`DROP TABLE IF EXISTS ${config.keyspace}.scopes`)
+  },
+}
@@ -0,0 +1,45 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+/** The remaining standard OIDC scopes (OIDC Core §5.4) */
+const PHONE_AND_ADDRESS_SCOPES = [
+  {
+    scope: 'phone',
+    description: 'See your phone number',
+    claims: ['phone_number', 'phone_number_verified'],
+  },
+  {
+    scope: 'address',
+    description: 'See your postal address',
+    claims: ['address'],
+  },
+]
+
+export const migration: Migration = {
+  version: '048',
+  name: 'add_phone_and_address_scopes',
+  description: 'Register the standard phone and address scopes',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    const now = new Date()
+    for (const { scope, description, claims } of PHONE_AND_ADDRESS_SCOPES) {
+      await client.execute(
+        `INSERT INTO ${config.keyspace}.scopes (scope, description, claims, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         IF NOT EXISTS`,
+        [scope, description, claims, now, now],
+        { prepare: true },
+      )
+    }
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    for (const { scope } of PHONE_AND_ADDRESS_SCOPES) {
+      await client.execute(
+        `DELETE FROM ${config.keyspace}.scopes WHERE scope = ?`,
+        [scope],
+      )
+    }
+  },
+}
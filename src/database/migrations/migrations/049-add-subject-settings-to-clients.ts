@@ -0,0 +1,23 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '049',
+  name: 'add_subject_settings_to_clients',
+  description:
+    'Add subject_type and sector_identifier_uri columns to clients for pairwise subject identifiers (OIDC Core §8)',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD subject_type TEXT`,
+    )
+    await client.execute(
+      `ALTER TABLE ${config.keyspace}.clients ADD sector_identifier_uri TEXT`,
+    )
+  },
+  down: async (): Promise<void> => {
+    // Cassandra/ScyllaDB does not support dropping columns in older versions.
+    // Leaving down as no-op; full schema revert would require table recreation.
+  },
+}
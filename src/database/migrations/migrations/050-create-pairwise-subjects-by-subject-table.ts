@@ -0,0 +1,27 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '050',
+  name: 'create_pairwise_subjects_by_subject_table',
+  description:
+    'Create pairwise_subjects_by_subject table: maps a pairwise sub back to the account it was issued for',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.pairwise_subjects_by_subject (
+        sector_identifier TEXT,
+        subject TEXT,
+        account_id TEXT,
+        PRIMARY KEY ((sector_identifier, subject))
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.pairwise_subjects_by_subject`,
+    )
+  },
+}
@@ -0,0 +1,28 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '052',
+  name: 'create_otp_codes_table',
+  description:
+    'Create otp_codes table: single-use numeric sign-in codes, expired by TTL like magic_link_tokens',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.otp_codes (
+        contact_id UUID,
+        code TEXT,
+        expires_at TIMESTAMP,
+        used BOOLEAN,
+        return_to TEXT,
+        created_at TIMESTAMP,
+        PRIMARY KEY (contact_id, code)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`DROP TABLE IF EXISTS ${config.keyspace}.otp_codes`)
+  },
+}
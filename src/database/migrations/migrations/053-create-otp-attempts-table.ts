@@ -0,0 +1,23 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '053',
+  name: 'create_otp_attempts_table',
+  description:
+    'Create otp_attempts table: wrong sign-in code guesses per contact, expired by TTL to end a lockout',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.otp_attempts (
+        contact_id UUID PRIMARY KEY,
+        failed_attempts INT
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`DROP TABLE IF EXISTS ${config.keyspace}.otp_attempts`)
+  },
+}
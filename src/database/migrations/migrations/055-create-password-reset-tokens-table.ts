@@ -0,0 +1,29 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '055',
+  name: 'create_password_reset_tokens_table',
+  description:
+    'Create password_reset_tokens table: single-use password reset tokens, expired by TTL like magic_link_tokens',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.password_reset_tokens (
+        contact_id UUID,
+        reset_token TEXT,
+        expires_at TIMESTAMP,
+        used BOOLEAN,
+        created_at TIMESTAMP,
+        PRIMARY KEY (contact_id, reset_token)
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.password_reset_tokens`,
+    )
+  },
+}
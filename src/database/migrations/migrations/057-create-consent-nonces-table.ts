@@ -0,0 +1,28 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseConfig } from '../../config.ts'
+import type { Migration } from '../types.ts'
+
+export const migration: Migration = {
+  version: '057',
+  name: 'create_consent_nonces_table',
+  description:
+    'Create consent_nonces table: single-use nonces tying each rendered consent form to its session and client, expired by TTL',
+  up: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(`
+      CREATE TABLE IF NOT EXISTS ${config.keyspace}.consent_nonces (
+        session_id TEXT,
+        nonce TEXT,
+        client_id TEXT,
+        created_at TIMESTAMP,
+        PRIMARY KEY ((session_id, nonce))
+      )
+    `)
+  },
+  down: async (client: Client): Promise<void> => {
+    const config = getDatabaseConfig()
+    await client.execute(
+      `DROP TABLE IF EXISTS ${config.keyspace}.consent_nonces`,
+    )
+  },
+}
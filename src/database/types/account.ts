@@ -7,6 +7,8 @@ export interface Account {
   updated_at: Date
   is_active: boolean
   last_login_at?: Date
+  /** OIDC address claim as JSON */
+  address?: string
 }
 
 export interface AccountInput {
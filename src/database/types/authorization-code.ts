@@ -10,6 +10,12 @@ export interface AuthorizationCode {
   expires_at: Date
   created_at: Date
   auth_time: number | null
+  /** Session the code was issued in; becomes the ID token's sid claim */
+  sid: string | null
+  /** Resource indicators (RFC 8707) the user authorized; empty when none were requested */
+  resources: string[]
+  /** Claims request (OIDC Core §5.5) as JSON; null when none was made */
+  claims: string | null
 }
 
 export interface AuthorizationCodeInput {
@@ -21,4 +27,7 @@ export interface AuthorizationCodeInput {
   code_challenge_method?: string | null
   nonce?: string | null
   auth_time: number
+  sid?: string | null
+  resources?: string[]
+  claims?: string | null
 }
@@ -0,0 +1,22 @@
+export type BackchannelLogoutDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface BackchannelLogoutDelivery {
+  delivery_id: string
+  client_id: string
+  user_id: string
+  logout_uri: string
+  status: BackchannelLogoutDeliveryStatus
+  /** Number of POSTs made so far, including the successful one */
+  attempts: number
+  /** Reason the most recent attempt failed (HTTP status or network error) */
+  last_error: string | null
+  last_attempt_at: Date | null
+  delivered_at: Date | null
+  created_at: Date
+}
+
+export interface BackchannelLogoutDeliveryInput {
+  client_id: string
+  user_id: string
+  logout_uri: string
+}
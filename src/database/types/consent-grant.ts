@@ -0,0 +1,8 @@
+export interface ConsentGrant {
+  user_id: string
+  client_id: string
+  /** Every scope the user has approved for the client */
+  scopes: string[]
+  created_at: Date
+  updated_at: Date
+}
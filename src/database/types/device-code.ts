@@ -0,0 +1,23 @@
+export type DeviceCodeStatus = 'pending' | 'approved' | 'denied'
+
+export interface DeviceCode {
+  device_code: string
+  user_code: string
+  client_id: string
+  scopes: string[]
+  status: DeviceCodeStatus
+  /** Set once the user approves the request */
+  user_id: string | null
+  /** Unix timestamp of when the approving user authenticated */
+  auth_time: number | null
+  /** Minimum polling interval in seconds; raised on slow_down */
+  interval: number
+  last_polled_at: Date | null
+  expires_at: Date
+  created_at: Date
+}
+
+export interface DeviceCodeInput {
+  client_id: string
+  scopes: string[]
+}
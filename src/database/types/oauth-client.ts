@@ -1,17 +1,52 @@
 export type TokenEndpointAuthMethod =
   | 'client_secret_basic'
   | 'client_secret_post'
+  | 'client_secret_jwt'
+  | 'private_key_jwt'
   | 'none'
 
+/** How the authorization response is returned to redirect_uri (OAuth 2.0 Multiple Response Types, Form Post) */
+export type ResponseMode = 'query' | 'fragment' | 'form_post'
+
+/** OIDC Core §8: whether every client sees the same sub, or one derived per sector */
+export type SubjectType = 'public' | 'pairwise'
+
 export interface OAuthClient {
   client_id: string
   client_secret_hash: string | null
+  /**
+   * The secret itself, kept only for client_secret_jwt clients: verifying their
+   * HMAC-signed assertions needs the secret, not its hash
+   */
+  client_secret: string | null
   client_name: string
   redirect_uris: string[]
+  post_logout_redirect_uris: string[]
   grant_types: string[]
   response_types: string[]
+  /** Response modes the client may request; null (clients registered before the setting) allows every supported mode */
+  response_modes: ResponseMode[] | null
   scopes: string[]
   token_endpoint_auth_method: TokenEndpointAuthMethod
+  backchannel_logout_uri: string | null
+  backchannel_logout_session_required: boolean
+  require_pushed_authorization_requests: boolean
+  /** JSON-encoded JWK Set */
+  jwks: string | null
+  require_signed_request_object: boolean
+  /** Token lifetimes and refresh idle timeout in seconds; null means the server default */
+  access_token_lifetime_seconds: number | null
+  id_token_lifetime_seconds: number | null
+  refresh_token_lifetime_seconds: number | null
+  refresh_token_idle_timeout_seconds: number | null
+  is_refresh_token_rotation_disabled: boolean
+  /** First-party client: authorization requests skip the consent screen */
+  is_trusted: boolean
+  subject_type: SubjectType
+  /** Groups clients that share pairwise subjects; its host is the sector identifier */
+  sector_identifier_uri: string | null
+  /** Authorization is refused to users whose email is not verified */
+  require_verified_email: boolean
   is_active: boolean
   created_at: Date
   updated_at: Date
@@ -20,8 +55,25 @@ export interface OAuthClient {
 export interface OAuthClientInput {
   client_name: string
   redirect_uris: string[]
+  post_logout_redirect_uris?: string[]
   grant_types: string[]
   response_types: string[]
+  response_modes?: ResponseMode[] | null
   scopes: string[]
   token_endpoint_auth_method?: TokenEndpointAuthMethod
+  backchannel_logout_uri?: string | null
+  backchannel_logout_session_required?: boolean
+  require_pushed_authorization_requests?: boolean
+  jwks?: string | null
+  require_signed_request_object?: boolean
+  access_token_lifetime_seconds?: number | null
+  id_token_lifetime_seconds?: number | null
+  refresh_token_lifetime_seconds?: number | null
+  refresh_token_idle_timeout_seconds?: number | null
+  is_refresh_token_rotation_disabled?: boolean
+  is_trusted?: boolean
+  subject_type?: SubjectType
+  sector_identifier_uri?: string | null
+  require_verified_email?: boolean
+  client_secret?: string | null
 }
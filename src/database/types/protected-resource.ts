@@ -0,0 +1,15 @@
+export interface ProtectedResource {
+  /** Resource indicator (RFC 8707): the absolute URI access tokens are issued for */
+  resource: string
+  resource_name: string
+  /** Scopes an access token for this resource may carry */
+  scopes: string[]
+  created_at: Date
+  updated_at: Date
+}
+
+export interface ProtectedResourceInput {
+  resource: string
+  resource_name: string
+  scopes: string[]
+}
@@ -0,0 +1,9 @@
+export interface PushedAuthorizationRequest {
+  /** urn:ietf:params:oauth:request_uri:<random>; the client sends it to /authorize */
+  request_uri: string
+  client_id: string
+  /** The authorization request parameters as the client pushed them */
+  parameters: Record<string, string>
+  expires_at: Date
+  created_at: Date
+}
@@ -7,6 +7,20 @@ export interface RefreshToken {
   created_at: Date
   /** Unix timestamp of when user originally authenticated. Null for tokens created before this field existed. */
   auth_time: number | null
+  /** Session the token chain started in. Null for tokens created before this field existed. */
+  sid: string | null
+  /** JWK thumbprint of the DPoP key a public client's token is bound to; null when unbound */
+  dpop_jkt: string | null
+  /** Resource indicators (RFC 8707) refreshed access tokens may be issued for; empty when unrestricted */
+  resources: string[]
+  /** Claims request (OIDC Core §5.5) as JSON, carried into refreshed tokens; null when none was made */
+  claims: string | null
+  /** Rotation chain the token belongs to. Null for tokens created before this field existed. */
+  family_id: string | null
+  /** When the token was rotated; a consumed token presented again is a replay */
+  consumed_at: Date | null
+  /** End of the token's family, past which neither rotation nor sliding expiry extends it. Null for tokens created before this field existed. */
+  absolute_expires_at: Date | null
 }
 
 export interface RefreshTokenInput {
@@ -15,4 +29,17 @@ export interface RefreshTokenInput {
   scopes: string[]
   /** Unix timestamp of when user originally authenticated. Required when creating from authorization code grant. */
   auth_time?: number
+  /** Session the token chain started in; carried into refreshed ID tokens */
+  sid?: string | null
+  /** DPoP key thumbprint to bind the token to (public clients only) */
+  dpop_jkt?: string | null
+  /** Resource indicators the grant was authorized for */
+  resources?: string[]
+  /** Claims request the grant was made with, as JSON */
+  claims?: string | null
+  /** Family of the token being rotated; a new family is started when omitted */
+  family_id?: string | null
+  expires_at: Date
+  /** End of the family; never later than expires_at allows once the idle timeout is applied */
+  absolute_expires_at: Date
 }
@@ -0,0 +1,15 @@
+export interface ScopeDefinition {
+  scope: string
+  /** Shown to the user on the consent screen */
+  description: string
+  /** Claims about the user that the scope releases */
+  claims: string[]
+  created_at: Date
+  updated_at: Date
+}
+
+export interface ScopeDefinitionInput {
+  scope: string
+  description: string
+  claims: string[]
+}
@@ -0,0 +1,21 @@
+export interface Session {
+  session_id: string
+  user_id: string
+  /** Unix timestamp of when the user authenticated */
+  auth_time: number
+  /** How the user authenticated: pwd for passwords, otherwise the federated provider name */
+  auth_methods: string[]
+  user_agent: string | null
+  ip_address: string | null
+  last_seen_at: Date
+  /** Idle expiry; pushed forward while the session is in use, capped at the absolute lifetime */
+  expires_at: Date
+  created_at: Date
+}
+
+export interface SessionInput {
+  user_id: string
+  auth_methods: string[]
+  user_agent?: string | null
+  ip_address?: string | null
+}
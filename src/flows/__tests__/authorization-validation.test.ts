@@ -1,11 +1,28 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import * as clientService from '../../clients/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import * as resourceService from '../../resources/service.ts'
+import * as scopeStorage from '../../scopes/storage.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
 import { validateAuthorizationRequest } from '../authorization-validation.ts'
 
 vi.mock('../../clients/service.ts', () => ({
   getClientById: vi.fn(),
 }))
 
+vi.mock('../../resources/service.ts', async () => {
+  const actual = await vi.importActual('../../resources/service.ts')
+  return {
+    ...actual,
+    getResource: vi.fn(),
+  }
+})
+
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
+}))
+
 describe('Authorization Validation', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -13,6 +30,7 @@ describe('Authorization Validation', () => {
       id: 'client-123',
       name: 'Test Client',
       redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
       grantTypes: ['authorization_code'],
       responseTypes: ['code'],
       scopes: ['openid', 'profile', 'email'],
@@ -246,6 +264,7 @@ describe('Authorization Validation', () => {
       id: 'client-123',
       name: 'Public Client',
       redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
       grantTypes: ['authorization_code'],
       responseTypes: ['code'],
       scopes: ['openid'],
@@ -272,6 +291,7 @@ describe('Authorization Validation', () => {
       id: 'client-123',
       name: 'Public Client',
       redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
       grantTypes: ['authorization_code'],
       responseTypes: ['code'],
       scopes: ['openid'],
@@ -296,6 +316,7 @@ describe('Authorization Validation', () => {
       id: 'client-123',
       name: 'Client Credentials Only',
       redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
       grantTypes: ['client_credentials'],
       responseTypes: ['token'],
       scopes: ['openid'],
@@ -315,4 +336,385 @@ describe('Authorization Validation', () => {
       expect(result.error).toBe('unsupported_response_type')
     }
   })
+
+  it('should require a pushed request for clients that registered for PAR', async () => {
+    vi.mocked(clientService.getClientById).mockResolvedValue({
+      id: 'client-123',
+      name: 'PAR Client',
+      redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
+      grantTypes: ['authorization_code'],
+      responseTypes: ['code'],
+      scopes: ['openid'],
+      tokenEndpointAuthMethod: 'client_secret_post',
+      requirePushedAuthorizationRequests: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    const params = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      responseType: 'code',
+      scope: 'openid',
+    }
+
+    const frontChannel = await validateAuthorizationRequest(params)
+    expect(frontChannel.isValid).toBe(false)
+    if (!frontChannel.isValid) {
+      expect(frontChannel.error).toBe('invalid_request')
+      expect(frontChannel.redirectUri).toBe('https://example.com/callback')
+    }
+
+    const pushed = await validateAuthorizationRequest({
+      ...params,
+      isPushed: true,
+    })
+    expect(pushed.isValid).toBe(true)
+  })
+
+  it('should require a signed request object when the client registered for it', async () => {
+    vi.mocked(clientService.getClientById).mockResolvedValue({
+      id: 'client-123',
+      name: 'Signed Requests Client',
+      redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
+      grantTypes: ['authorization_code'],
+      responseTypes: ['code'],
+      scopes: ['openid'],
+      tokenEndpointAuthMethod: 'client_secret_post',
+      requireSignedRequestObject: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    const params = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      responseType: 'code',
+      scope: 'openid',
+    }
+
+    const unsigned = await validateAuthorizationRequest(params)
+    expect(unsigned.isValid).toBe(false)
+    if (!unsigned.isValid) {
+      expect(unsigned.errorDescription).toBe(
+        'This client must use a signed request object',
+      )
+    }
+
+    const signed = await validateAuthorizationRequest({
+      ...params,
+      isSigned: true,
+    })
+    expect(signed.isValid).toBe(true)
+  })
+
+  describe('OIDC authentication parameters', () => {
+    const baseParams = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      responseType: 'code',
+      scope: 'openid',
+      state: 'state-123',
+    }
+
+    beforeEach(() => {
+      process.env.OIDC_ISSUER = 'http://localhost:3000'
+      clearConfigCache()
+      clearKeyStore()
+    })
+
+    afterEach(() => {
+      delete process.env.OIDC_ISSUER
+      clearConfigCache()
+      clearKeyStore()
+    })
+
+    const signIdToken = (aud: string): string => {
+      const keyPair = initializeKeys()
+      const now = Math.floor(Date.now() / 1000)
+      return signJwt(
+        {
+          iss: 'http://localhost:3000',
+          sub: 'user-456',
+          aud,
+          iat: now,
+          exp: now + 60,
+        },
+        keyPair.privateKey,
+        'RS256',
+        keyPair.kid,
+      )
+    }
+
+    it('should parse prompt, max_age, login_hint and id_token_hint', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        prompt: 'login consent',
+        maxAge: '300',
+        loginHint: 'user@example.com',
+        idTokenHint: signIdToken('client-123'),
+      })
+
+      expect(result.isValid).toBe(true)
+      if (result.isValid) {
+        expect(result.data.prompt).toEqual(['login', 'consent'])
+        expect(result.data.maxAge).toBe(300)
+        expect(result.data.loginHint).toBe('user@example.com')
+        expect(result.data.idTokenHintSub).toBe('user-456')
+      }
+    })
+
+    it('should default response_mode to query and accept form_post', async () => {
+      const defaulted = await validateAuthorizationRequest(baseParams)
+      const formPost = await validateAuthorizationRequest({
+        ...baseParams,
+        responseMode: 'form_post',
+      })
+
+      expect(defaulted.isValid && defaulted.data.responseMode).toBe('query')
+      expect(formPost.isValid && formPost.data.responseMode).toBe('form_post')
+    })
+
+    it('should reject an unsupported response_mode', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        responseMode: 'web_message',
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.error).toBe('invalid_request')
+        expect(result.redirectUri).toBe('https://example.com/callback')
+      }
+    })
+
+    it('should reject a response_mode the client did not register', async () => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        id: 'client-123',
+        name: 'Test Client',
+        redirectUris: ['https://example.com/callback'],
+        postLogoutRedirectUris: [],
+        grantTypes: ['authorization_code'],
+        responseTypes: ['code'],
+        responseModes: ['query', 'form_post'],
+        scopes: ['openid', 'profile', 'email'],
+        tokenEndpointAuthMethod: 'client_secret_post',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      const fragment = await validateAuthorizationRequest({
+        ...baseParams,
+        responseMode: 'fragment',
+      })
+      const formPost = await validateAuthorizationRequest({
+        ...baseParams,
+        responseMode: 'form_post',
+      })
+
+      expect(fragment.isValid).toBe(false)
+      if (!fragment.isValid) {
+        expect(fragment.error).toBe('invalid_request')
+        expect(fragment.errorDescription).toBe(
+          'response_mode fragment is not registered for this client',
+        )
+      }
+      expect(formPost.isValid && formPost.data.responseMode).toBe('form_post')
+    })
+
+    it('should reject prompt=none combined with other values', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        prompt: 'none login',
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.error).toBe('invalid_request')
+        expect(result.redirectUri).toBe('https://example.com/callback')
+      }
+    })
+
+    it('should reject unsupported prompt values', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        prompt: 'create',
+      })
+
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should reject a non-numeric max_age', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        maxAge: '-5',
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.errorDescription).toContain('max_age')
+      }
+    })
+
+    it('should reject an id_token_hint issued to another client', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        idTokenHint: signIdToken('other-client'),
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.errorDescription).toContain('id_token_hint')
+      }
+    })
+  })
+
+  describe('resource indicators', () => {
+    const baseParams = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      responseType: 'code',
+      scope: 'openid profile',
+      state: 'state-123',
+    }
+
+    it('should accept a registered resource', async () => {
+      vi.mocked(resourceService.getResource).mockResolvedValue({
+        uri: 'https://orders.example.com',
+        name: 'Orders API',
+        scopes: ['profile'],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        resource: 'https://orders.example.com',
+      })
+
+      expect(result.isValid).toBe(true)
+      if (result.isValid) {
+        expect(result.data.resources).toEqual(['https://orders.example.com'])
+      }
+    })
+
+    it('should reject an unregistered resource with invalid_target', async () => {
+      vi.mocked(resourceService.getResource).mockResolvedValue(null)
+
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        resource: 'https://unknown.example.com',
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.error).toBe('invalid_target')
+        expect(result.redirectUri).toBe('https://example.com/callback')
+        expect(result.state).toBe('state-123')
+      }
+    })
+
+    it('should reject a resource with a fragment', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        resource: 'https://orders.example.com#section',
+      })
+
+      expect(result.isValid).toBe(false)
+      expect(resourceService.getResource).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('claims parameter', () => {
+    const baseParams = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      responseType: 'code',
+      scope: 'openid email',
+      state: 'state-123',
+    }
+
+    const scopeDefinition = (scope: string, claims: string[]) => ({
+      scope,
+      description: scope,
+      claims,
+      created_at: new Date(),
+      updated_at: new Date(),
+    })
+
+    beforeEach(() => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        id: 'client-123',
+        name: 'Test Client',
+        redirectUris: ['https://example.com/callback'],
+        postLogoutRedirectUris: [],
+        grantTypes: ['authorization_code'],
+        responseTypes: ['code'],
+        scopes: ['openid', 'email', 'phone'],
+        tokenEndpointAuthMethod: 'client_secret_post',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      vi.mocked(scopeStorage.findAllScopes).mockResolvedValue([
+        scopeDefinition('openid', ['sub']),
+        scopeDefinition('email', ['email', 'email_verified']),
+        scopeDefinition('phone', ['phone_number', 'phone_number_verified']),
+        scopeDefinition('address', ['address']),
+      ])
+    })
+
+    it('should default to no claims request', async () => {
+      const result = await validateAuthorizationRequest(baseParams)
+
+      expect(result.isValid).toBe(true)
+      if (result.isValid) {
+        expect(result.data.claims).toBeNull()
+        expect(result.data.claimScopes).toEqual([])
+      }
+    })
+
+    it('should keep the claims the client may receive and drop the rest', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        claims: JSON.stringify({
+          id_token: { email: null, address: { essential: true } },
+          userinfo: { phone_number: { essential: true } },
+        }),
+      })
+
+      expect(result.isValid).toBe(true)
+      if (result.isValid) {
+        expect(result.data.claims).toEqual({
+          id_token: { email: null },
+          userinfo: { phone_number: { essential: true } },
+        })
+        expect(result.data.claimScopes).toEqual(['phone'])
+      }
+    })
+
+    it('should reject a claims parameter that is not JSON', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        claims: 'email',
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.error).toBe('invalid_request')
+        expect(result.redirectUri).toBe('https://example.com/callback')
+      }
+    })
+
+    it('should reject a non-boolean essential flag', async () => {
+      const result = await validateAuthorizationRequest({
+        ...baseParams,
+        claims: JSON.stringify({ id_token: { email: { essential: 'yes' } } }),
+      })
+
+      expect(result.isValid).toBe(false)
+      if (!result.isValid) {
+        expect(result.error).toBe('invalid_request')
+      }
+    })
+  })
 })
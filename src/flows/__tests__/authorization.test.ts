@@ -1,23 +1,113 @@
 import { Hono } from 'hono'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import type { Client } from '../../clients/types/client.ts'
 import { clearConfigCache } from '../../oidc/config.ts'
+import * as scopeStorage from '../../scopes/storage.ts'
 import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
-import { handleAuthorization } from '../authorization.ts'
+import * as userStorage from '../../users/storage.ts'
+import { handleAuthorization, handleConsentSubmit } from '../authorization.ts'
 import * as authorizationCodeStorage from '../authorization-code-storage.ts'
 import * as authorizationValidation from '../authorization-validation.ts'
-import { createSessionToken, getSessionCookieName } from '../session.ts'
+import * as consentGrantStorage from '../consent-grant-storage.ts'
+import * as consentNonceStorage from '../consent-nonce-storage.ts'
+import * as pushedAuthorizationRequestStorage from '../pushed-authorization-request-storage.ts'
+import * as requestObject from '../request-object.ts'
+import { getSessionCookieName } from '../session.ts'
+import * as sessionStorage from '../session-storage.ts'
 
-vi.mock('../authorization-validation.ts', () => ({
-  validateAuthorizationRequest: vi.fn(),
+vi.mock('../authorization-validation.ts', async () => {
+  const actual = await vi.importActual('../authorization-validation.ts')
+  return {
+    ...actual,
+    validateAuthorizationRequest: vi.fn(),
+  }
+})
+
+vi.mock('../../clients/service.ts', () => ({
+  getClientById: vi.fn(),
+}))
+
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
 }))
 
 vi.mock('../authorization-code-storage.ts', () => ({
   generateAuthorizationCode: vi.fn(),
 }))
 
+vi.mock('../consent-grant-storage.ts', () => ({
+  findConsentGrant: vi.fn(),
+  saveConsentGrant: vi.fn(),
+}))
+
+vi.mock('../consent-nonce-storage.ts', () => ({
+  createConsentNonce: vi.fn(),
+  consumeConsentNonce: vi.fn(),
+}))
+
+vi.mock('../pushed-authorization-request-storage.ts', () => ({
+  PUSHED_AUTHORIZATION_REQUEST_LOGIN_EXPIRY_SECONDS: 600,
+  createPushedAuthorizationRequest: vi.fn(),
+  deletePushedAuthorizationRequest: vi.fn(),
+  getPushedAuthorizationRequest: vi.fn(),
+}))
+
+vi.mock('../request-object.ts', () => ({
+  resolveRequestObject: vi.fn(async (params) => ({
+    isValid: true,
+    params,
+    isSigned: false,
+  })),
+}))
+
+vi.mock('../../users/storage.ts', () => ({
+  findUserById: vi.fn(),
+}))
+
+vi.mock('../session-storage.ts', () => ({
+  getSession: vi.fn(),
+  touchSession: vi.fn(async (session) => session),
+}))
+
+const session = {
+  session_id: 'session-abc',
+  user_id: 'user-123',
+  auth_time: 1_700_000_000,
+  auth_methods: ['pwd'],
+  user_agent: null,
+  ip_address: null,
+  last_seen_at: new Date(),
+  expires_at: new Date(Date.now() + 900_000),
+  created_at: new Date(),
+}
+
+const client: Client = {
+  id: 'client-123',
+  name: 'Partner App',
+  redirectUris: ['https://example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'profile', 'email'],
+  tokenEndpointAuthMethod: 'client_secret_basic',
+  isTrusted: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const consentGrant = {
+  user_id: 'user-123',
+  client_id: 'client-123',
+  scopes: ['openid', 'profile'],
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
 const createAuthorizationApp = () => {
   const app = new Hono()
   app.get('/authorize', handleAuthorization)
+  app.post('/authorize/consent', handleConsentSubmit)
   return app
 }
 
@@ -31,6 +121,10 @@ describe('Authorization Endpoint', () => {
     clearKeyStore()
     initializeKeys()
     vi.clearAllMocks()
+    vi.mocked(clientService.getClientById).mockResolvedValue(client)
+    vi.mocked(consentGrantStorage.findConsentGrant).mockResolvedValue(
+      consentGrant,
+    )
   })
 
   afterEach(() => {
@@ -53,6 +147,14 @@ describe('Authorization Endpoint', () => {
         codeChallenge: null,
         codeChallengeMethod: null,
         nonce: null,
+        responseMode: 'query',
+        prompt: [],
+        maxAge: null,
+        loginHint: null,
+        idTokenHintSub: null,
+        resources: [],
+        claims: null,
+        claimScopes: [],
       },
     })
 
@@ -81,20 +183,28 @@ describe('Authorization Endpoint', () => {
         codeChallenge: null,
         codeChallengeMethod: null,
         nonce: null,
+        responseMode: 'query',
+        prompt: [],
+        maxAge: null,
+        loginHint: null,
+        idTokenHintSub: null,
+        resources: [],
+        claims: null,
+        claimScopes: [],
       },
     })
     vi.mocked(
       authorizationCodeStorage.generateAuthorizationCode,
     ).mockResolvedValue('auth-code-789')
 
-    const sessionToken = createSessionToken('user-123')
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
     const cookieName = getSessionCookieName()
 
     const app = createAuthorizationApp()
     const res = await app.request(
       '/authorize?client_id=client-123&redirect_uri=https%3A%2F%2Fexample.com%2Fcallback&response_type=code&scope=openid%20profile&state=state-456',
       {
-        headers: { Cookie: `${cookieName}=${sessionToken}` },
+        headers: { Cookie: `${cookieName}=session-abc` },
       },
     )
 
@@ -103,6 +213,54 @@ describe('Authorization Endpoint', () => {
     expect(location).toContain('https://example.com/callback')
     expect(location).toContain('code=auth-code-789')
     expect(location).toContain('state=state-456')
+    expect(sessionStorage.getSession).toHaveBeenCalledWith('session-abc')
+    expect(
+      authorizationCodeStorage.generateAuthorizationCode,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user_id: 'user-123',
+        auth_time: 1_700_000_000,
+        sid: 'session-abc',
+      }),
+    )
+  })
+
+  it('should redirect to login when the session has expired', async () => {
+    vi.mocked(
+      authorizationValidation.validateAuthorizationRequest,
+    ).mockResolvedValue({
+      isValid: true,
+      data: {
+        clientId: 'client-123',
+        redirectUri: 'https://example.com/callback',
+        scopes: ['openid'],
+        state: 'state-123',
+        codeChallenge: null,
+        codeChallengeMethod: null,
+        nonce: null,
+        responseMode: 'query',
+        prompt: [],
+        maxAge: null,
+        loginHint: null,
+        idTokenHintSub: null,
+        resources: [],
+        claims: null,
+        claimScopes: [],
+      },
+    })
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(null)
+
+    const app = createAuthorizationApp()
+    const res = await app.request(
+      '/authorize?client_id=client-123&redirect_uri=https%3A%2F%2Fexample.com%2Fcallback&response_type=code&scope=openid&state=state-123',
+      { headers: { Cookie: `${getSessionCookieName()}=expired-session` } },
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toContain('/login')
+    expect(
+      authorizationCodeStorage.generateAuthorizationCode,
+    ).not.toHaveBeenCalled()
   })
 
   it('should redirect to redirect_uri with error when validation fails and redirect_uri is valid', async () => {
@@ -147,4 +305,931 @@ describe('Authorization Endpoint', () => {
     expect(body).toContain('Authorization Error')
     expect(body).toContain('invalid_client')
   })
+
+  describe('prompt, max_age and hints', () => {
+    const validData = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      scopes: ['openid'],
+      state: 'state-123',
+      codeChallenge: null,
+      codeChallengeMethod: null,
+      nonce: null,
+      responseMode: 'query' as const,
+      prompt: [],
+      maxAge: null,
+      loginHint: null,
+      idTokenHintSub: null,
+      resources: [],
+      claims: null,
+      claimScopes: [],
+    }
+
+    const requestAuthorization = (query: string, isSignedIn = true) =>
+      createAuthorizationApp().request(
+        `/authorize?client_id=client-123&response_type=code&scope=openid${query}`,
+        isSignedIn
+          ? { headers: { Cookie: `${getSessionCookieName()}=session-abc` } }
+          : {},
+      )
+
+    beforeEach(() => {
+      vi.mocked(sessionStorage.getSession).mockResolvedValue({
+        ...session,
+        auth_time: Math.floor(Date.now() / 1000) - 600,
+      })
+      vi.mocked(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).mockResolvedValue('auth-code-789')
+    })
+
+    it('should return login_required for prompt=none without a session', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['none'] },
+      })
+
+      const res = await requestAuthorization('&prompt=none', false)
+
+      expect(res.status).toBe(302)
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.origin + location.pathname).toBe(
+        'https://example.com/callback',
+      )
+      expect(location.searchParams.get('error')).toBe('login_required')
+      expect(location.searchParams.get('state')).toBe('state-123')
+    })
+
+    it('should issue a code silently for prompt=none with a session', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['none'] },
+      })
+
+      const res = await requestAuthorization('&prompt=none')
+
+      expect(res.headers.get('Location')).toContain('code=auth-code-789')
+    })
+
+    it('should force login for prompt=login and push the request for the return trip', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['login'] },
+      })
+      vi.mocked(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: 'urn:ietf:params:oauth:request_uri:login',
+        client_id: 'client-123',
+        parameters: {},
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(),
+      })
+
+      const res = await requestAuthorization('&prompt=login')
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.pathname).toBe('/login')
+      const returnTo = location.searchParams.get('return_to') ?? ''
+      expect(returnTo).toContain(
+        encodeURIComponent('urn:ietf:params:oauth:request_uri:login'),
+      )
+      expect(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).toHaveBeenCalledWith(
+        'client-123',
+        expect.objectContaining({ prompt: 'login' }),
+        600,
+      )
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should accept prompt=login once the user signed in after the request was pushed', async () => {
+      vi.mocked(
+        pushedAuthorizationRequestStorage.getPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: 'urn:ietf:params:oauth:request_uri:login',
+        client_id: 'client-123',
+        parameters: { prompt: 'login' },
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(Date.now() - 900_000),
+      })
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['login'] },
+      })
+
+      const res = await requestAuthorization(
+        `&request_uri=${encodeURIComponent('urn:ietf:params:oauth:request_uri:login')}`,
+      )
+
+      expect(res.headers.get('Location')).toContain('code=auth-code-789')
+    })
+
+    it('should force login for prompt=login when the session predates the pushed request', async () => {
+      vi.mocked(
+        pushedAuthorizationRequestStorage.getPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: 'urn:ietf:params:oauth:request_uri:login',
+        client_id: 'client-123',
+        parameters: { prompt: 'login' },
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(Date.now() - 60_000),
+      })
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['login'] },
+      })
+      vi.mocked(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: 'urn:ietf:params:oauth:request_uri:again',
+        client_id: 'client-123',
+        parameters: { prompt: 'login' },
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(),
+      })
+
+      const res = await requestAuthorization(
+        `&request_uri=${encodeURIComponent('urn:ietf:params:oauth:request_uri:login')}`,
+      )
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.pathname).toBe('/login')
+    })
+
+    it('should force login when the session is older than max_age', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, maxAge: 300 },
+      })
+
+      const res = await requestAuthorization('&max_age=300')
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.pathname).toBe('/login')
+      expect(location.searchParams.get('return_to')).toContain('max_age=300')
+    })
+
+    it('should accept a session within max_age', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, maxAge: 3600 },
+      })
+
+      const res = await requestAuthorization('&max_age=3600')
+
+      expect(res.headers.get('Location')).toContain('code=auth-code-789')
+    })
+
+    it('should return login_required when id_token_hint names another user', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['none'], idTokenHintSub: 'other-user' },
+      })
+
+      const res = await requestAuthorization('&prompt=none')
+
+      expect(res.headers.get('Location')).toContain('error=login_required')
+    })
+
+    it('should pass login_hint to the login page', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, loginHint: 'user@example.com' },
+      })
+
+      const res = await requestAuthorization(
+        '&login_hint=user%40example.com',
+        false,
+      )
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.searchParams.get('login_hint')).toBe('user@example.com')
+    })
+  })
+
+  describe('response_mode', () => {
+    const validData = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      scopes: ['openid'],
+      state: 'state-"<123>',
+      codeChallenge: null,
+      codeChallengeMethod: null,
+      nonce: null,
+      responseMode: 'query' as const,
+      prompt: [],
+      maxAge: null,
+      loginHint: null,
+      idTokenHintSub: null,
+      resources: [],
+      claims: null,
+      claimScopes: [],
+    }
+
+    beforeEach(() => {
+      vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+      vi.mocked(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).mockResolvedValue('auth-code-789')
+    })
+
+    const requestAuthorization = (query = '') =>
+      createAuthorizationApp().request(
+        `/authorize?client_id=client-123${query}`,
+        {
+          headers: { Cookie: `${getSessionCookieName()}=session-abc` },
+        },
+      )
+
+    it('should return the code in the fragment for response_mode=fragment', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, responseMode: 'fragment' },
+      })
+
+      const res = await requestAuthorization('&response_mode=fragment')
+
+      expect(res.status).toBe(302)
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.search).toBe('')
+      const fragment = new URLSearchParams(location.hash.slice(1))
+      expect(fragment.get('code')).toBe('auth-code-789')
+      expect(fragment.get('state')).toBe('state-"<123>')
+    })
+
+    it('should render an auto-submitting form for response_mode=form_post', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, responseMode: 'form_post' },
+      })
+
+      const res = await requestAuthorization('&response_mode=form_post')
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('Cache-Control')).toBe('no-store')
+      const html = await res.text()
+      expect(html).toContain('action="https://example.com/callback"')
+      expect(html).toContain('document.forms[0].submit()')
+      expect(html).toContain('name="code" value="auth-code-789"')
+      expect(html).toContain('value="state-&quot;&lt;123&gt;"')
+      expect(html).not.toContain('state-"<123>')
+    })
+
+    it('should return errors with the requested response_mode', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: false,
+        error: 'invalid_scope',
+        errorDescription: 'Scope not allowed',
+        redirectUri: 'https://example.com/callback',
+        state: 'my-state',
+      })
+
+      const res = await requestAuthorization('&response_mode=form_post')
+
+      expect(res.status).toBe(200)
+      const html = await res.text()
+      expect(html).toContain('name="error" value="invalid_scope"')
+      expect(html).toContain('name="state" value="my-state"')
+    })
+
+    it('should fall back to query for errors with an unsupported response_mode', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: false,
+        error: 'invalid_request',
+        errorDescription: 'Unsupported response_mode: web_message',
+        redirectUri: 'https://example.com/callback',
+        state: 'my-state',
+      })
+
+      const res = await requestAuthorization('&response_mode=web_message')
+
+      expect(res.status).toBe(302)
+      expect(res.headers.get('Location')).toContain('?error=invalid_request')
+    })
+  })
+
+  describe('pushed authorization requests', () => {
+    const requestUri = 'urn:ietf:params:oauth:request_uri:abc'
+    const pushedRequest = {
+      request_uri: requestUri,
+      client_id: 'client-123',
+      parameters: {
+        client_id: 'client-123',
+        redirect_uri: 'https://example.com/callback',
+        response_type: 'code',
+        scope: 'openid',
+        state: 'pushed-state',
+      },
+      expires_at: new Date(Date.now() + 60_000),
+      created_at: new Date(),
+    }
+    const validData = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      scopes: ['openid'],
+      state: 'pushed-state',
+      codeChallenge: null,
+      codeChallengeMethod: null,
+      nonce: null,
+      responseMode: 'query' as const,
+      prompt: [],
+      maxAge: null,
+      loginHint: null,
+      idTokenHintSub: null,
+      resources: [],
+      claims: null,
+      claimScopes: [],
+    }
+
+    const requestAuthorization = (query: string, isSignedIn = true) =>
+      createAuthorizationApp().request(
+        `/authorize?${query}`,
+        isSignedIn
+          ? { headers: { Cookie: `${getSessionCookieName()}=session-abc` } }
+          : {},
+      )
+
+    beforeEach(() => {
+      vi.mocked(
+        pushedAuthorizationRequestStorage.getPushedAuthorizationRequest,
+      ).mockResolvedValue(pushedRequest)
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({ isValid: true, data: validData })
+      vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+      vi.mocked(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).mockResolvedValue('auth-code-789')
+    })
+
+    it('should validate the pushed parameters and use the request_uri once', async () => {
+      const res = await requestAuthorization(
+        `client_id=client-123&request_uri=${encodeURIComponent(requestUri)}&scope=openid%20email`,
+      )
+
+      expect(
+        authorizationValidation.validateAuthorizationRequest,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          clientId: 'client-123',
+          scope: 'openid',
+          state: 'pushed-state',
+          isPushed: true,
+        }),
+      )
+      expect(res.headers.get('Location')).toBe(
+        'https://example.com/callback?code=auth-code-789&state=pushed-state',
+      )
+      expect(
+        pushedAuthorizationRequestStorage.deletePushedAuthorizationRequest,
+      ).toHaveBeenCalledWith(requestUri)
+    })
+
+    it('should reject an unknown or expired request_uri', async () => {
+      vi.mocked(
+        pushedAuthorizationRequestStorage.getPushedAuthorizationRequest,
+      ).mockResolvedValue(null)
+
+      const res = await requestAuthorization(
+        `client_id=client-123&request_uri=${encodeURIComponent(requestUri)}`,
+      )
+
+      expect(res.status).toBe(400)
+      expect(await res.text()).toContain('invalid_request_uri')
+      expect(
+        authorizationValidation.validateAuthorizationRequest,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should reject a request_uri pushed by another client', async () => {
+      const res = await requestAuthorization(
+        `client_id=other-client&request_uri=${encodeURIComponent(requestUri)}`,
+      )
+
+      expect(res.status).toBe(400)
+      expect(await res.text()).toContain('invalid_request_uri')
+    })
+
+    it('should re-push the request for the return trip from login', async () => {
+      vi.mocked(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        ...pushedRequest,
+        request_uri: 'urn:ietf:params:oauth:request_uri:def',
+      })
+
+      const res = await requestAuthorization(
+        `client_id=client-123&request_uri=${encodeURIComponent(requestUri)}`,
+        false,
+      )
+
+      expect(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).toHaveBeenCalledWith('client-123', pushedRequest.parameters, 600)
+      expect(
+        pushedAuthorizationRequestStorage.deletePushedAuthorizationRequest,
+      ).toHaveBeenCalledWith(requestUri)
+      const location = new URL(res.headers.get('Location') ?? '')
+      const returnTo = location.searchParams.get('return_to') ?? ''
+      expect(returnTo).toContain(
+        encodeURIComponent('urn:ietf:params:oauth:request_uri:def'),
+      )
+      expect(returnTo).not.toContain('redirect_uri')
+    })
+  })
+
+  describe('request objects', () => {
+    const validData = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      scopes: ['openid'],
+      state: 'signed-state',
+      codeChallenge: null,
+      codeChallengeMethod: null,
+      nonce: null,
+      responseMode: 'query' as const,
+      prompt: [],
+      maxAge: null,
+      loginHint: null,
+      idTokenHintSub: null,
+      resources: [],
+      claims: null,
+      claimScopes: [],
+    }
+    const signedParams = {
+      client_id: 'client-123',
+      redirect_uri: 'https://example.com/callback',
+      response_type: 'code',
+      scope: 'openid',
+      state: 'signed-state',
+    }
+
+    beforeEach(() => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({ isValid: true, data: validData })
+    })
+
+    it('should return invalid_request_object when the request object fails verification', async () => {
+      vi.mocked(requestObject.resolveRequestObject).mockResolvedValueOnce({
+        isValid: false,
+        errorDescription: 'Request object could not be verified',
+      })
+
+      const res = await createAuthorizationApp().request(
+        '/authorize?client_id=client-123&request=a.b.c',
+      )
+
+      expect(res.status).toBe(400)
+      expect(await res.text()).toContain('invalid_request_object')
+      expect(
+        authorizationValidation.validateAuthorizationRequest,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should validate the signed parameters and push them for the return from login', async () => {
+      vi.mocked(requestObject.resolveRequestObject).mockResolvedValueOnce({
+        isValid: true,
+        params: signedParams,
+        isSigned: true,
+      })
+      vi.mocked(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: 'urn:ietf:params:oauth:request_uri:signed',
+        client_id: 'client-123',
+        parameters: signedParams,
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(),
+      })
+
+      const res = await createAuthorizationApp().request(
+        '/authorize?client_id=client-123&request=a.b.c',
+      )
+
+      expect(
+        authorizationValidation.validateAuthorizationRequest,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'signed-state', isSigned: true }),
+      )
+      expect(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).toHaveBeenCalledWith('client-123', signedParams, 600)
+      const returnTo =
+        new URL(res.headers.get('Location') ?? '').searchParams.get(
+          'return_to',
+        ) ?? ''
+      expect(returnTo).toContain('request_uri=')
+      expect(returnTo).not.toContain('request=')
+    })
+  })
+
+  describe('consent', () => {
+    const validData = {
+      clientId: 'client-123',
+      redirectUri: 'https://example.com/callback',
+      scopes: ['openid', 'profile', 'email'],
+      state: 'consent-state',
+      codeChallenge: null,
+      codeChallengeMethod: null,
+      nonce: null,
+      responseMode: 'query' as const,
+      prompt: [],
+      maxAge: null,
+      loginHint: null,
+      idTokenHintSub: null,
+      resources: [],
+      claims: null,
+      claimScopes: [],
+    }
+    const query =
+      'client_id=client-123&redirect_uri=https%3A%2F%2Fexample.com%2Fcallback&response_type=code&scope=openid%20profile%20email&state=consent-state'
+    const cookie = { Cookie: `${getSessionCookieName()}=session-abc` }
+
+    const submitConsent = (
+      decision: string,
+      headers = cookie,
+      nonceField = '&consent_nonce=consent-nonce-1',
+    ) =>
+      createAuthorizationApp().request('/authorize/consent', {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: `${query}&decision=${decision}${nonceField}`,
+      })
+
+    beforeEach(() => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({ isValid: true, data: validData })
+      vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+      vi.mocked(consentNonceStorage.createConsentNonce).mockResolvedValue(
+        'consent-nonce-1',
+      )
+      vi.mocked(consentNonceStorage.consumeConsentNonce).mockResolvedValue(true)
+      vi.mocked(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).mockResolvedValue('auth-code-789')
+      vi.mocked(scopeStorage.findAllScopes).mockResolvedValue([
+        {
+          scope: 'email',
+          description: 'See your email addresses',
+          claims: ['email'],
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+      ])
+    })
+
+    it('should show the consent page for scopes the user has not granted', async () => {
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}`,
+        {
+          headers: cookie,
+        },
+      )
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('Cache-Control')).toBe('no-store')
+      const html = await res.text()
+      expect(html).toContain('Partner App')
+      expect(html).toContain('<li title="email">See your email addresses</li>')
+      expect(html).toContain('<li title="profile">profile</li>')
+      expect(html).toContain('action="/authorize/consent"')
+      expect(html).toContain('name="state" value="consent-state"')
+      expect(html).toContain('name="consent_nonce" value="consent-nonce-1"')
+      expect(consentNonceStorage.createConsentNonce).toHaveBeenCalledWith(
+        session.session_id,
+        'client-123',
+      )
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should show the consent page when there is no grant', async () => {
+      vi.mocked(consentGrantStorage.findConsentGrant).mockResolvedValue(null)
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, scopes: ['openid'] },
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}`,
+        {
+          headers: cookie,
+        },
+      )
+
+      expect(res.status).toBe(200)
+      expect(await res.text()).toContain('Authorize access')
+    })
+
+    it('should skip consent for trusted clients', async () => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        ...client,
+        isTrusted: true,
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}`,
+        {
+          headers: cookie,
+        },
+      )
+
+      expect(res.status).toBe(302)
+      expect(res.headers.get('Location')).toContain('code=auth-code-789')
+      expect(consentGrantStorage.findConsentGrant).not.toHaveBeenCalled()
+    })
+
+    it('should refuse users with an unverified email when the client requires one', async () => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        ...client,
+        requireVerifiedEmail: true,
+      })
+      vi.mocked(userStorage.findUserById).mockResolvedValue({
+        sub: 'user-123',
+        email: 'user@example.com',
+        emailVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}`,
+        { headers: cookie },
+      )
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.searchParams.get('error')).toBe('access_denied')
+      expect(location.searchParams.get('state')).toBe('consent-state')
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should authorize users with a verified email when the client requires one', async () => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        ...client,
+        isTrusted: true,
+        requireVerifiedEmail: true,
+      })
+      vi.mocked(userStorage.findUserById).mockResolvedValue({
+        sub: 'user-123',
+        email: 'user@example.com',
+        emailVerified: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}`,
+        { headers: cookie },
+      )
+
+      expect(res.headers.get('Location')).toContain('code=auth-code-789')
+    })
+
+    it('should ask again for prompt=consent even when the scopes were granted', async () => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        ...client,
+        isTrusted: true,
+      })
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, scopes: ['openid'], prompt: ['consent'] },
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}&prompt=consent`,
+        { headers: cookie },
+      )
+
+      expect(res.status).toBe(200)
+      expect(await res.text()).toContain('Authorize access')
+    })
+
+    it('should return consent_required for prompt=none', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: { ...validData, prompt: ['none'] },
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}&prompt=none`,
+        { headers: cookie },
+      )
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.searchParams.get('error')).toBe('consent_required')
+      expect(location.searchParams.get('state')).toBe('consent-state')
+    })
+
+    it('should record the grant and issue a code when the user allows', async () => {
+      const res = await submitConsent('allow')
+
+      expect(consentGrantStorage.saveConsentGrant).toHaveBeenCalledWith(
+        'user-123',
+        'client-123',
+        ['openid', 'profile', 'email'],
+      )
+      expect(res.headers.get('Location')).toBe(
+        'https://example.com/callback?code=auth-code-789&state=consent-state',
+      )
+    })
+
+    it('should ask consent for the scopes behind individually requested claims', async () => {
+      vi.mocked(consentGrantStorage.findConsentGrant).mockResolvedValue({
+        user_id: 'user-123',
+        client_id: 'client-123',
+        scopes: ['openid', 'profile', 'email'],
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: {
+          ...validData,
+          claims: { userinfo: { phone_number: { essential: true } } },
+          claimScopes: ['phone'],
+        },
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?${query}`,
+        { headers: cookie },
+      )
+
+      expect(res.status).toBe(200)
+      const html = await res.text()
+      expect(html).toContain('<li title="phone">phone</li>')
+      expect(html).toContain('Partner App says it needs: phone_number')
+    })
+
+    it('should record the claim scopes with the grant', async () => {
+      vi.mocked(
+        authorizationValidation.validateAuthorizationRequest,
+      ).mockResolvedValue({
+        isValid: true,
+        data: {
+          ...validData,
+          claims: { id_token: { phone_number: null } },
+          claimScopes: ['phone'],
+        },
+      })
+
+      await submitConsent('allow')
+
+      expect(consentGrantStorage.saveConsentGrant).toHaveBeenCalledWith(
+        'user-123',
+        'client-123',
+        ['openid', 'profile', 'email', 'phone'],
+      )
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          claims: JSON.stringify({ id_token: { phone_number: null } }),
+        }),
+      )
+    })
+
+    it('should reject a submission without a consent nonce', async () => {
+      const res = await submitConsent('allow', cookie, '')
+
+      expect(res.status).toBe(403)
+      expect(consentNonceStorage.consumeConsentNonce).not.toHaveBeenCalled()
+      expect(consentGrantStorage.saveConsentGrant).not.toHaveBeenCalled()
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should reject a consent nonce not issued to this session and client', async () => {
+      vi.mocked(consentNonceStorage.consumeConsentNonce).mockResolvedValue(
+        false,
+      )
+
+      const res = await submitConsent('allow')
+
+      expect(res.status).toBe(403)
+      expect(consentNonceStorage.consumeConsentNonce).toHaveBeenCalledWith(
+        session.session_id,
+        'consent-nonce-1',
+        'client-123',
+      )
+      expect(consentGrantStorage.saveConsentGrant).not.toHaveBeenCalled()
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should return access_denied when the user denies', async () => {
+      const res = await submitConsent('deny')
+
+      const location = new URL(res.headers.get('Location') ?? '')
+      expect(location.searchParams.get('error')).toBe('access_denied')
+      expect(consentGrantStorage.saveConsentGrant).not.toHaveBeenCalled()
+      expect(
+        authorizationCodeStorage.generateAuthorizationCode,
+      ).not.toHaveBeenCalled()
+    })
+
+    it('should send the request back through /authorize without a session', async () => {
+      const res = await submitConsent('allow', { Cookie: '' })
+
+      expect(res.status).toBe(302)
+      const location = res.headers.get('Location') ?? ''
+      expect(location).toMatch(/^\/authorize\?/)
+      expect(location).toContain('state=consent-state')
+      expect(location).not.toContain('decision')
+      expect(location).not.toContain('consent_nonce')
+      expect(consentGrantStorage.saveConsentGrant).not.toHaveBeenCalled()
+    })
+
+    it('should re-push a pushed request so the consent form can resume it', async () => {
+      const requestUri = 'urn:ietf:params:oauth:request_uri:abc'
+      const parameters = {
+        client_id: 'client-123',
+        redirect_uri: 'https://example.com/callback',
+        response_type: 'code',
+        scope: 'openid profile email',
+      }
+      vi.mocked(
+        pushedAuthorizationRequestStorage.getPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: requestUri,
+        client_id: 'client-123',
+        parameters,
+        expires_at: new Date(Date.now() + 60_000),
+        created_at: new Date(),
+      })
+      vi.mocked(
+        pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+      ).mockResolvedValue({
+        request_uri: 'urn:ietf:params:oauth:request_uri:consent',
+        client_id: 'client-123',
+        parameters,
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(),
+      })
+
+      const res = await createAuthorizationApp().request(
+        `/authorize?client_id=client-123&request_uri=${encodeURIComponent(requestUri)}`,
+        { headers: cookie },
+      )
+
+      const html = await res.text()
+      expect(html).toContain(
+        'name="request_uri" value="urn:ietf:params:oauth:request_uri:consent"',
+      )
+      expect(html).not.toContain('name="redirect_uri"')
+      expect(
+        pushedAuthorizationRequestStorage.deletePushedAuthorizationRequest,
+      ).toHaveBeenCalledWith(requestUri)
+    })
+  })
 })
@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import type { Client } from '../../clients/types/client.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { parseJwt, verifyJwt } from '../../tokens/jwt.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
+import {
+  BACKCHANNEL_LOGOUT_EVENT,
+  createLogoutToken,
+  deliverBackchannelLogout,
+  notifyBackchannelLogout,
+} from '../backchannel-logout.ts'
+import * as deliveryStorage from '../backchannel-logout-storage.ts'
+import * as refreshTokenStorage from '../refresh-token-storage.ts'
+
+vi.mock('../../clients/service.ts', () => ({
+  getBackchannelLogoutClients: vi.fn(),
+}))
+
+vi.mock('../backchannel-logout-storage.ts', () => ({
+  createBackchannelLogoutDelivery: vi.fn(),
+  recordBackchannelLogoutAttempt: vi.fn(),
+}))
+
+vi.mock('../refresh-token-storage.ts', () => ({
+  hasRefreshTokensForClient: vi.fn(),
+}))
+
+const client: Client = {
+  id: 'client-123',
+  name: 'Test Client',
+  redirectUris: ['https://rp.example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code', 'refresh_token'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'offline_access'],
+  tokenEndpointAuthMethod: 'client_secret_post',
+  backchannelLogoutUri: 'https://rp.example.com/backchannel-logout',
+  backchannelLogoutSessionRequired: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const delivery = {
+  delivery_id: 'delivery-1',
+  client_id: 'client-123',
+  user_id: 'user-456',
+  logout_uri: 'https://rp.example.com/backchannel-logout',
+  status: 'pending' as const,
+  attempts: 0,
+  last_error: null,
+  last_attempt_at: null,
+  delivered_at: null,
+  created_at: new Date(),
+}
+
+describe('Back-Channel Logout', () => {
+  const originalEnv = process.env
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    clearKeyStore()
+    initializeKeys()
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', mockFetch)
+    vi.mocked(
+      deliveryStorage.createBackchannelLogoutDelivery,
+    ).mockResolvedValue(delivery)
+    vi.mocked(
+      deliveryStorage.recordBackchannelLogoutAttempt,
+    ).mockResolvedValue()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    clearKeyStore()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('createLogoutToken', () => {
+    it('should sign a logout+jwt with the back-channel logout event', () => {
+      const token = createLogoutToken(client, { sub: 'user-456' })
+
+      const { header } = parseJwt(token)
+      expect(header.typ).toBe('logout+jwt')
+
+      const keyPair = initializeKeys()
+      const { payload } = verifyJwt(token, keyPair.publicKey, 'RS256')
+      expect(payload.iss).toBe('http://localhost:3000')
+      expect(payload.aud).toBe('client-123')
+      expect(payload.sub).toBe('user-456')
+      expect(payload.jti).toBeDefined()
+      expect(payload.events).toEqual({ [BACKCHANNEL_LOGOUT_EVENT]: {} })
+      expect(payload.nonce).toBeUndefined()
+      expect(payload.sid).toBeUndefined()
+    })
+
+    it('should include sid when the session is known', () => {
+      const token = createLogoutToken(client, {
+        sub: 'user-456',
+        sid: 'session-1',
+      })
+
+      expect(parseJwt(token).payload.sid).toBe('session-1')
+    })
+  })
+
+  describe('deliverBackchannelLogout', () => {
+    it('should POST the logout token and record the delivery', async () => {
+      mockFetch.mockResolvedValue(new Response(null, { status: 200 }))
+
+      const isDelivered = await deliverBackchannelLogout(client, {
+        sub: 'user-456',
+      })
+
+      expect(isDelivered).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://rp.example.com/backchannel-logout')
+      expect(init.method).toBe('POST')
+      expect(init.headers['Content-Type']).toBe(
+        'application/x-www-form-urlencoded',
+      )
+      expect(new URLSearchParams(init.body).get('logout_token')).toBeTruthy()
+      expect(
+        deliveryStorage.recordBackchannelLogoutAttempt,
+      ).toHaveBeenCalledWith(delivery, 'delivered', 1, null)
+    })
+
+    it('should retry failed deliveries and record each attempt', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+        .mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+      const promise = deliverBackchannelLogout(client, { sub: 'user-456' })
+      await vi.runAllTimersAsync()
+
+      expect(await promise).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      const attempts = vi.mocked(deliveryStorage.recordBackchannelLogoutAttempt)
+        .mock.calls
+      expect(
+        attempts.map(([, status, count, error]) => [status, count, error]),
+      ).toEqual([
+        ['pending', 1, 'HTTP 503'],
+        ['pending', 2, 'connect ECONNREFUSED'],
+        ['delivered', 3, null],
+      ])
+    })
+
+    it('should mark the delivery failed after the last attempt', async () => {
+      vi.useFakeTimers()
+      mockFetch.mockResolvedValue(new Response(null, { status: 500 }))
+
+      const promise = deliverBackchannelLogout(client, { sub: 'user-456' })
+      await vi.runAllTimersAsync()
+
+      expect(await promise).toBe(false)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(
+        deliveryStorage.recordBackchannelLogoutAttempt,
+      ).toHaveBeenLastCalledWith(delivery, 'failed', 3, 'HTTP 500')
+    })
+  })
+
+  describe('notifyBackchannelLogout', () => {
+    it('should only notify clients the user holds refresh tokens for', async () => {
+      const otherClient = {
+        ...client,
+        id: 'client-789',
+        backchannelLogoutUri: 'https://other.example.com/logout',
+      }
+      vi.mocked(clientService.getBackchannelLogoutClients).mockResolvedValue([
+        client,
+        otherClient,
+      ])
+      vi.mocked(
+        refreshTokenStorage.hasRefreshTokensForClient,
+      ).mockImplementation(
+        async (_userId, clientId) => clientId === 'client-123',
+      )
+      mockFetch.mockResolvedValue(new Response(null, { status: 200 }))
+
+      await notifyBackchannelLogout({ sub: 'user-456' })
+
+      expect(
+        refreshTokenStorage.hasRefreshTokensForClient,
+      ).toHaveBeenCalledWith('user-456', 'client-789')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://rp.example.com/backchannel-logout',
+      )
+    })
+
+    it('should notify precomputed targets without looking up refresh tokens', async () => {
+      mockFetch.mockResolvedValue(new Response(null, { status: 200 }))
+
+      await notifyBackchannelLogout({ sub: 'user-456' }, [client])
+
+      expect(clientService.getBackchannelLogoutClients).not.toHaveBeenCalled()
+      expect(
+        refreshTokenStorage.hasRefreshTokensForClient,
+      ).not.toHaveBeenCalled()
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send a client that requires a sid one token per ended session', async () => {
+      const sessionClient = {
+        ...client,
+        backchannelLogoutSessionRequired: true,
+      }
+      mockFetch.mockResolvedValue(new Response(null, { status: 200 }))
+
+      await notifyBackchannelLogout(
+        { sub: 'user-456', sessionIds: ['session-1', 'session-2'] },
+        [sessionClient],
+      )
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      const sids = mockFetch.mock.calls.map(([, init]) => {
+        const logoutToken = new URLSearchParams(init.body).get('logout_token')
+        return parseJwt(logoutToken as string).payload.sid
+      })
+      expect(sids).toEqual(['session-1', 'session-2'])
+    })
+
+    it('should skip clients that require a sid when no session was ended', async () => {
+      const sessionClient = {
+        ...client,
+        id: 'client-789',
+        backchannelLogoutSessionRequired: true,
+      }
+      mockFetch.mockResolvedValue(new Response(null, { status: 200 }))
+
+      await notifyBackchannelLogout({ sub: 'user-456' }, [
+        client,
+        sessionClient,
+      ])
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(
+        deliveryStorage.createBackchannelLogoutDelivery,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ client_id: 'client-123' }),
+      )
+    })
+  })
+})
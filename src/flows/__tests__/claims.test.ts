@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as scopeStorage from '../../scopes/storage.ts'
+import * as userStorage from '../../users/storage.ts'
+import type { User } from '../../users/types/user.ts'
+import {
+  buildUserClaims,
+  listEssentialClaims,
+  listRequestedClaims,
+  parseClaimsRequest,
+  restrictClaimsRequest,
+} from '../claims.ts'
+
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
+}))
+
+vi.mock('../../users/storage.ts', () => ({
+  findContactMethodsByAccountId: vi.fn(),
+}))
+
+const scopeDefinition = (scope: string, claims: string[]) => ({
+  scope,
+  description: scope,
+  claims,
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const user: User = {
+  sub: 'user-123',
+  email: 'user@example.com',
+  emailVerified: true,
+  name: 'Test User',
+  givenName: 'Test',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+}
+
+const contact = (
+  contactType: 'email' | 'phone',
+  value: string,
+  isPrimary: boolean,
+  verifiedAt?: Date,
+) => ({
+  account_id: 'user-123',
+  contact_id: value,
+  contact_type: contactType,
+  contact_value: value,
+  is_primary: isPrimary,
+  verified_at: verifiedAt,
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+describe('Claims', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(scopeStorage.findAllScopes).mockResolvedValue([
+      scopeDefinition('openid', ['sub']),
+      scopeDefinition('profile', [
+        'name',
+        'given_name',
+        'family_name',
+        'picture',
+      ]),
+      scopeDefinition('email', [
+        'email',
+        'email_verified',
+        'emails',
+        'phone_numbers',
+      ]),
+      scopeDefinition('phone', ['phone_number', 'phone_number_verified']),
+      scopeDefinition('address', ['address']),
+    ])
+    vi.mocked(userStorage.findContactMethodsByAccountId).mockResolvedValue([
+      contact('email', 'user@example.com', true, new Date()),
+      contact('phone', '+15550000000', false),
+      contact('phone', '+15551234567', true, new Date()),
+    ])
+  })
+
+  describe('parseClaimsRequest', () => {
+    it('should parse the id_token and userinfo members', () => {
+      expect(
+        parseClaimsRequest(
+          JSON.stringify({
+            id_token: { email: { essential: true } },
+            userinfo: { name: null, picture: { values: ['a', 'b'] } },
+            other: { ignored: null },
+          }),
+        ),
+      ).toEqual({
+        id_token: { email: { essential: true } },
+        userinfo: { name: null, picture: { values: ['a', 'b'] } },
+      })
+    })
+
+    it('should reject values that are not JSON objects', () => {
+      expect(parseClaimsRequest('not json')).toBeNull()
+      expect(parseClaimsRequest('["email"]')).toBeNull()
+      expect(parseClaimsRequest('null')).toBeNull()
+    })
+
+    it('should reject malformed targets and claim requests', () => {
+      expect(parseClaimsRequest('{"id_token":["email"]}')).toBeNull()
+      expect(parseClaimsRequest('{"userinfo":{"email":true}}')).toBeNull()
+      expect(
+        parseClaimsRequest('{"userinfo":{"email":{"values":"a"}}}'),
+      ).toBeNull()
+    })
+  })
+
+  describe('restrictClaimsRequest', () => {
+    it('should drop claims outside the allowed set', () => {
+      expect(
+        restrictClaimsRequest(
+          {
+            id_token: { email: null, address: null },
+            userinfo: { address: { essential: true } },
+          },
+          ['email'],
+        ),
+      ).toEqual({ id_token: { email: null }, userinfo: {} })
+    })
+  })
+
+  describe('listRequestedClaims and listEssentialClaims', () => {
+    const request = {
+      id_token: { email: { essential: true }, name: null },
+      userinfo: { email: null, address: { essential: false } },
+    }
+
+    it('should list each requested claim once', () => {
+      expect(listRequestedClaims(request)).toEqual(['email', 'name', 'address'])
+      expect(listRequestedClaims(null)).toEqual([])
+    })
+
+    it('should list only the essential claims', () => {
+      expect(listEssentialClaims(request)).toEqual(['email'])
+    })
+  })
+
+  describe('buildUserClaims', () => {
+    it('should release the claims of the granted scopes without sub', async () => {
+      const claims = await buildUserClaims(
+        user,
+        ['openid', 'profile'],
+        null,
+        'id_token',
+      )
+
+      expect(claims).toEqual({ name: 'Test User', given_name: 'Test' })
+      expect(userStorage.findContactMethodsByAccountId).not.toHaveBeenCalled()
+    })
+
+    it('should return the contact lists from /userinfo only', async () => {
+      const userinfo = await buildUserClaims(
+        user,
+        ['openid', 'email'],
+        null,
+        'userinfo',
+      )
+      const idToken = await buildUserClaims(
+        user,
+        ['openid', 'email'],
+        null,
+        'id_token',
+      )
+
+      expect(userinfo.emails).toEqual([
+        { value: 'user@example.com', verified: true, primary: true },
+      ])
+      expect(userinfo.phone_numbers).toHaveLength(2)
+      expect(idToken).toEqual({
+        email: 'user@example.com',
+        email_verified: true,
+      })
+    })
+
+    it('should use the primary phone for the phone scope', async () => {
+      expect(
+        await buildUserClaims(user, ['openid', 'phone'], null, 'userinfo'),
+      ).toEqual({ phone_number: '+15551234567', phone_number_verified: true })
+    })
+
+    it('should add claims requested for the target only', async () => {
+      const request = {
+        id_token: { phone_number: { essential: true } },
+        userinfo: { name: null },
+      }
+
+      expect(
+        await buildUserClaims(user, ['openid'], request, 'id_token'),
+      ).toEqual({ phone_number: '+15551234567' })
+      expect(
+        await buildUserClaims(user, ['openid'], request, 'userinfo'),
+      ).toEqual({ name: 'Test User' })
+    })
+
+    it('should omit claims the user has no value for', async () => {
+      vi.mocked(userStorage.findContactMethodsByAccountId).mockResolvedValue([])
+
+      expect(
+        await buildUserClaims(
+          user,
+          ['openid', 'phone', 'address'],
+          null,
+          'userinfo',
+        ),
+      ).toEqual({})
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientModule from '../../database/client.ts'
+import {
+  deleteConsentGrant,
+  findConsentGrant,
+  listConsentGrantsByUser,
+  saveConsentGrant,
+} from '../consent-grant-storage.ts'
+
+const mockExecute = vi.fn()
+
+vi.mock('../../database/client.ts', () => ({
+  getDatabaseClient: vi.fn(),
+}))
+
+vi.mock('../../database/config.ts', () => ({
+  getDatabaseConfig: vi.fn(() => ({ keyspace: 'jlj2_users' })),
+}))
+
+const grantRow = (overrides: Record<string, unknown> = {}) => ({
+  user_id: 'user-456',
+  client_id: 'client-123',
+  scopes: ['openid', 'profile'],
+  created_at: new Date(1_700_000_000_000),
+  updated_at: new Date(1_700_000_000_000),
+  ...overrides,
+})
+
+describe('Consent Grant Storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(clientModule.getDatabaseClient).mockReturnValue({
+      execute: mockExecute,
+    } as never)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('findConsentGrant', () => {
+    it('should return the grant for the user and client', async () => {
+      mockExecute.mockResolvedValue({ rows: [grantRow()] })
+
+      const grant = await findConsentGrant('user-456', 'client-123')
+
+      expect(grant?.scopes).toEqual(['openid', 'profile'])
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('FROM jlj2_users.consent_grants'),
+        ['user-456', 'client-123'],
+      )
+    })
+
+    it('should return null when there is no grant', async () => {
+      mockExecute.mockResolvedValue({ rows: [] })
+
+      expect(await findConsentGrant('user-456', 'client-123')).toBeNull()
+    })
+  })
+
+  describe('saveConsentGrant', () => {
+    it('should add new scopes to the existing grant and keep created_at', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ rows: [grantRow()] })
+        .mockResolvedValueOnce({ rows: [] })
+
+      const grant = await saveConsentGrant('user-456', 'client-123', [
+        'openid',
+        'email',
+      ])
+
+      expect(grant.scopes).toEqual(['openid', 'profile', 'email'])
+      expect(grant.created_at).toEqual(new Date(1_700_000_000_000))
+      expect(mockExecute).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO jlj2_users.consent_grants'),
+        [
+          'user-456',
+          'client-123',
+          ['openid', 'profile', 'email'],
+          new Date(1_700_000_000_000),
+          grant.updated_at,
+        ],
+        { prepare: true },
+      )
+    })
+
+    it('should create a grant when the user has none', async () => {
+      mockExecute.mockResolvedValue({ rows: [] })
+
+      const grant = await saveConsentGrant('user-456', 'client-123', ['openid'])
+
+      expect(grant.scopes).toEqual(['openid'])
+      expect(grant.created_at).toBe(grant.updated_at)
+    })
+  })
+
+  describe('listConsentGrantsByUser', () => {
+    it('should list grants most recently updated first', async () => {
+      mockExecute.mockResolvedValue({
+        rows: [
+          grantRow({ client_id: 'older', updated_at: new Date(1_000) }),
+          grantRow({ client_id: 'newer', updated_at: new Date(2_000) }),
+        ],
+      })
+
+      const grants = await listConsentGrantsByUser('user-456')
+
+      expect(grants.map((g) => g.client_id)).toEqual(['newer', 'older'])
+    })
+  })
+
+  describe('deleteConsentGrant', () => {
+    it('should delete the grant row', async () => {
+      mockExecute.mockResolvedValue({ rows: [] })
+
+      await deleteConsentGrant('user-456', 'client-123')
+
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.consent_grants'),
+        ['user-456', 'client-123'],
+      )
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Client } from '../../clients/types/client.ts'
+import {
+  isConsentRequired,
+  renderConsentPage,
+  revokeConsentGrant,
+} from '../consent.ts'
+import * as consentGrantStorage from '../consent-grant-storage.ts'
+import * as refreshTokenStorage from '../refresh-token-storage.ts'
+
+vi.mock('../consent-grant-storage.ts', () => ({
+  deleteConsentGrant: vi.fn(),
+  findConsentGrant: vi.fn(),
+}))
+
+vi.mock('../refresh-token-storage.ts', () => ({
+  revokeRefreshTokensByUser: vi.fn(),
+}))
+
+const client: Client = {
+  id: 'client-123',
+  name: 'Partner App',
+  redirectUris: ['https://partner.example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'profile', 'email'],
+  tokenEndpointAuthMethod: 'client_secret_basic',
+  isTrusted: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const grant = {
+  user_id: 'user-456',
+  client_id: 'client-123',
+  scopes: ['openid', 'profile'],
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+describe('Consent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(consentGrantStorage.findConsentGrant).mockResolvedValue(grant)
+  })
+
+  describe('isConsentRequired', () => {
+    it('should not ask again for scopes the user already granted', async () => {
+      expect(await isConsentRequired(client, 'user-456', ['openid'], [])).toBe(
+        false,
+      )
+    })
+
+    it('should ask for scopes beyond the grant', async () => {
+      expect(
+        await isConsentRequired(client, 'user-456', ['openid', 'email'], []),
+      ).toBe(true)
+    })
+
+    it('should ask when the user has no grant', async () => {
+      vi.mocked(consentGrantStorage.findConsentGrant).mockResolvedValue(null)
+
+      expect(await isConsentRequired(client, 'user-456', ['openid'], [])).toBe(
+        true,
+      )
+    })
+
+    it('should never ask for trusted clients unless prompt=consent', async () => {
+      const trusted = { ...client, isTrusted: true }
+
+      expect(await isConsentRequired(trusted, 'user-456', ['email'], [])).toBe(
+        false,
+      )
+      expect(
+        await isConsentRequired(trusted, 'user-456', ['openid'], ['consent']),
+      ).toBe(true)
+    })
+  })
+
+  describe('renderConsentPage', () => {
+    it('should escape the client name, scopes and request fields', () => {
+      const html = renderConsentPage(
+        '<Partner>',
+        [{ name: 'openid', description: 'Sign you in <now>' }],
+        [],
+        new URLSearchParams({ state: '"><script>' }),
+        'nonce-1',
+      )
+
+      expect(html).toContain('&lt;Partner&gt;')
+      expect(html).toContain('<li title="openid">Sign you in &lt;now&gt;</li>')
+      expect(html).toContain('value="&quot;&gt;&lt;script&gt;"')
+      expect(html).not.toContain('<script>')
+      expect(html).not.toContain('says it needs')
+    })
+
+    it('should carry the consent nonce in the form', () => {
+      const html = renderConsentPage(
+        'Partner',
+        [{ name: 'openid', description: 'Sign you in' }],
+        [],
+        new URLSearchParams({ state: 'xyz' }),
+        'nonce-1',
+      )
+
+      expect(html).toContain(
+        '<input type="hidden" name="consent_nonce" value="nonce-1" />',
+      )
+    })
+
+    it('should list the claims the client marked essential', () => {
+      const html = renderConsentPage(
+        'Partner',
+        [{ name: 'phone', description: 'See your phone number' }],
+        ['phone_number', 'address'],
+        new URLSearchParams(),
+        'nonce-1',
+      )
+
+      expect(html).toContain(
+        '<p>Partner says it needs: phone_number, address</p>',
+      )
+    })
+  })
+
+  describe('revokeConsentGrant', () => {
+    it('should delete the grant and revoke the refresh tokens issued under it', async () => {
+      expect(await revokeConsentGrant('user-456', 'client-123')).toBe(true)
+
+      expect(consentGrantStorage.deleteConsentGrant).toHaveBeenCalledWith(
+        'user-456',
+        'client-123',
+      )
+      expect(
+        refreshTokenStorage.revokeRefreshTokensByUser,
+      ).toHaveBeenCalledWith('client-123', 'user-456')
+    })
+
+    it('should return false when there is no grant', async () => {
+      vi.mocked(consentGrantStorage.findConsentGrant).mockResolvedValue(null)
+
+      expect(await revokeConsentGrant('user-456', 'client-123')).toBe(false)
+      expect(
+        refreshTokenStorage.revokeRefreshTokensByUser,
+      ).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import { Hono } from 'hono'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { handleDeviceAuthorizationRequest } from '../device-authorization.ts'
+import * as deviceCodeStorage from '../device-code-storage.ts'
+
+vi.mock('../device-code-storage.ts', () => ({
+  DEVICE_CODE_EXPIRY_SECONDS: 600,
+  formatUserCode: (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`,
+  generateDeviceCode: vi.fn(),
+}))
+
+vi.mock('../../clients/service.ts', () => ({
+  authenticateClient: vi.fn(),
+  getClientById: vi.fn(),
+}))
+
+const createDeviceAuthorizationApp = () => {
+  const app = new Hono()
+  app.post('/device_authorization', handleDeviceAuthorizationRequest)
+  return app
+}
+
+const formBody = (params: Record<string, string>): string =>
+  new URLSearchParams(params).toString()
+
+const publicDeviceClient = {
+  id: 'device-client',
+  name: 'CLI',
+  redirectUris: ['https://example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['urn:ietf:params:oauth:grant-type:device_code'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'profile', 'email'],
+  tokenEndpointAuthMethod: 'none' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const requestDeviceCode = (params: Record<string, string>) =>
+  createDeviceAuthorizationApp().request('/device_authorization', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: formBody(params),
+  })
+
+describe('Device Authorization Endpoint', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    vi.clearAllMocks()
+
+    vi.mocked(clientService.getClientById).mockResolvedValue(publicDeviceClient)
+    vi.mocked(deviceCodeStorage.generateDeviceCode).mockImplementation(
+      async (input) => ({
+        device_code: 'device-code-abc',
+        user_code: 'BCDFGHJK',
+        client_id: input.client_id,
+        scopes: input.scopes,
+        status: 'pending',
+        user_id: null,
+        auth_time: null,
+        interval: 5,
+        last_polled_at: null,
+        expires_at: new Date(Date.now() + 600_000),
+        created_at: new Date(),
+      }),
+    )
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    vi.restoreAllMocks()
+  })
+
+  it('should return device_code, user_code and verification URIs', async () => {
+    const res = await requestDeviceCode({
+      client_id: 'device-client',
+      scope: 'openid email',
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Cache-Control')).toBe('no-store')
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({
+      device_code: 'device-code-abc',
+      user_code: 'BCDF-GHJK',
+      verification_uri: 'http://localhost:3000/device',
+      verification_uri_complete:
+        'http://localhost:3000/device?user_code=BCDF-GHJK',
+      expires_in: 600,
+      interval: 5,
+    })
+    expect(deviceCodeStorage.generateDeviceCode).toHaveBeenCalledWith({
+      client_id: 'device-client',
+      scopes: ['openid', 'email'],
+    })
+  })
+
+  it('should default to the client registered scopes', async () => {
+    await requestDeviceCode({ client_id: 'device-client' })
+
+    expect(deviceCodeStorage.generateDeviceCode).toHaveBeenCalledWith({
+      client_id: 'device-client',
+      scopes: ['openid', 'profile', 'email'],
+    })
+  })
+
+  it('should return 400 invalid_scope for unregistered scopes', async () => {
+    const res = await requestDeviceCode({
+      client_id: 'device-client',
+      scope: 'openid offline_access',
+    })
+
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_scope')
+  })
+
+  it('should return 400 unauthorized_client when the client lacks the grant', async () => {
+    vi.mocked(clientService.getClientById).mockResolvedValue({
+      ...publicDeviceClient,
+      grantTypes: ['authorization_code'],
+    })
+
+    const res = await requestDeviceCode({ client_id: 'device-client' })
+
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('unauthorized_client')
+  })
+
+  it('should return 401 when a confidential client does not authenticate', async () => {
+    vi.mocked(clientService.getClientById).mockResolvedValue({
+      ...publicDeviceClient,
+      tokenEndpointAuthMethod: 'client_secret_basic',
+    })
+
+    const res = await requestDeviceCode({ client_id: 'device-client' })
+
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_client')
+  })
+})
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientModule from '../../database/client.ts'
+import {
+  approveDeviceCode,
+  deleteDeviceCode,
+  formatUserCode,
+  generateDeviceCode,
+  getDeviceCodeByUserCode,
+  normalizeUserCode,
+} from '../device-code-storage.ts'
+
+const mockExecute = vi.fn()
+
+vi.mock('../../database/client.ts', () => ({
+  getDatabaseClient: vi.fn(),
+}))
+
+vi.mock('../../database/config.ts', () => ({
+  getDatabaseConfig: vi.fn(() => ({ keyspace: 'jlj2_users' })),
+}))
+
+const deviceCodeRow = {
+  device_code: 'device-code-abc',
+  user_code: 'BCDFGHJK',
+  client_id: 'client-uuid',
+  scopes: ['openid'],
+  status: 'pending',
+  user_id: null,
+  auth_time: null,
+  interval: 5,
+  last_polled_at: null,
+  expires_at: new Date(Date.now() + 600_000),
+  created_at: new Date(),
+}
+
+describe('Device Code Storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(clientModule.getDatabaseClient).mockReturnValue({
+      execute: mockExecute,
+    } as never)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('normalizeUserCode / formatUserCode', () => {
+    it('should normalize case and separators', () => {
+      expect(normalizeUserCode('bcdf-ghjk')).toBe('BCDFGHJK')
+      expect(normalizeUserCode(' BCDF GHJK ')).toBe('BCDFGHJK')
+    })
+
+    it('should format as two groups of four', () => {
+      expect(formatUserCode('BCDFGHJK')).toBe('BCDF-GHJK')
+    })
+  })
+
+  describe('generateDeviceCode', () => {
+    it('should reserve a user code and store a pending device code', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ wasApplied: () => true })
+        .mockResolvedValueOnce({})
+
+      const result = await generateDeviceCode({
+        client_id: 'client-uuid',
+        scopes: ['openid'],
+      })
+
+      expect(result.status).toBe('pending')
+      expect(result.user_code).toMatch(/^[BCDFGHJKLMNPQRSTVWXZ]{8}$/)
+      expect(result.interval).toBe(5)
+      expect(mockExecute).toHaveBeenCalledTimes(2)
+      expect(mockExecute.mock.calls[0][0]).toContain('IF NOT EXISTS')
+      expect(mockExecute.mock.calls[1][0]).toContain('USING TTL')
+    })
+
+    it('should retry when the user code is already taken', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ wasApplied: () => false })
+        .mockResolvedValueOnce({ wasApplied: () => true })
+        .mockResolvedValueOnce({})
+
+      await generateDeviceCode({ client_id: 'client-uuid', scopes: ['openid'] })
+
+      expect(mockExecute).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('getDeviceCodeByUserCode', () => {
+    it('should return null for malformed codes without querying', async () => {
+      const result = await getDeviceCodeByUserCode('ABC')
+
+      expect(result).toBeNull()
+      expect(mockExecute).not.toHaveBeenCalled()
+    })
+
+    it('should look up by normalized user code', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ rows: [{ device_code: 'device-code-abc' }] })
+        .mockResolvedValueOnce({ rows: [deviceCodeRow] })
+
+      const result = await getDeviceCodeByUserCode('bcdf-ghjk')
+
+      expect(mockExecute.mock.calls[0][1]).toEqual(['BCDFGHJK'])
+      expect(result?.device_code).toBe('device-code-abc')
+      expect(result?.status).toBe('pending')
+    })
+
+    it('should return null when the device code has expired', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ rows: [{ device_code: 'device-code-abc' }] })
+        .mockResolvedValueOnce({
+          rows: [{ ...deviceCodeRow, expires_at: new Date(Date.now() - 1000) }],
+        })
+
+      const result = await getDeviceCodeByUserCode('BCDFGHJK')
+
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('approveDeviceCode', () => {
+    it('should only approve pending device codes', async () => {
+      mockExecute.mockResolvedValueOnce({ wasApplied: () => false })
+
+      const result = await approveDeviceCode(
+        { ...deviceCodeRow, status: 'pending' },
+        'user-id',
+        100,
+      )
+
+      expect(result).toBe(false)
+      expect(mockExecute.mock.calls[0][0]).toContain('IF status = ?')
+    })
+  })
+
+  describe('deleteDeviceCode', () => {
+    it('should return false when the conditional delete is not applied', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ wasApplied: () => false })
+        .mockResolvedValueOnce({})
+
+      const result = await deleteDeviceCode(
+        {
+          ...deviceCodeRow,
+          status: 'approved',
+          user_id: 'user-id',
+          auth_time: 100,
+        },
+        'approved',
+      )
+
+      expect(result).toBe(false)
+    })
+  })
+})
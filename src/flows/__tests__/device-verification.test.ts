@@ -0,0 +1,197 @@
+import { Hono } from 'hono'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
+import * as deviceCodeStorage from '../device-code-storage.ts'
+import {
+  handleDeviceVerificationPage,
+  handleDeviceVerificationSubmit,
+} from '../device-verification.ts'
+import { getSessionCookieName } from '../session.ts'
+import * as sessionStorage from '../session-storage.ts'
+
+vi.mock('../device-code-storage.ts', () => ({
+  formatUserCode: (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`,
+  getDeviceCodeByUserCode: vi.fn(),
+  approveDeviceCode: vi.fn(),
+  denyDeviceCode: vi.fn(),
+}))
+
+vi.mock('../../clients/service.ts', () => ({
+  getClientById: vi.fn(),
+}))
+
+vi.mock('../session-storage.ts', () => ({
+  getSession: vi.fn(),
+  touchSession: vi.fn(async (session) => session),
+}))
+
+const createDeviceApp = () => {
+  const app = new Hono()
+  app.get('/device', handleDeviceVerificationPage)
+  app.post('/device', handleDeviceVerificationSubmit)
+  return app
+}
+
+const pendingDeviceCode = {
+  device_code: 'device-code-abc',
+  user_code: 'BCDFGHJK',
+  client_id: 'device-client',
+  scopes: ['openid', 'email'],
+  status: 'pending' as const,
+  user_id: null,
+  auth_time: null,
+  interval: 5,
+  last_polled_at: null,
+  expires_at: new Date(Date.now() + 600_000),
+  created_at: new Date(),
+}
+
+describe('Device Verification Page', () => {
+  const originalEnv = process.env
+  let sessionCookie: string
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    clearKeyStore()
+    initializeKeys()
+    vi.clearAllMocks()
+    sessionCookie = `${getSessionCookieName()}=session-abc`
+    vi.mocked(sessionStorage.getSession).mockResolvedValue({
+      session_id: 'session-abc',
+      user_id: 'user-456',
+      auth_time: 1_700_000_000,
+      auth_methods: ['pwd'],
+      user_agent: null,
+      ip_address: null,
+      last_seen_at: new Date(),
+      expires_at: new Date(Date.now() + 900_000),
+      created_at: new Date(),
+    })
+
+    vi.mocked(clientService.getClientById).mockResolvedValue({
+      id: 'device-client',
+      name: 'Living Room TV',
+      redirectUris: ['https://example.com/callback'],
+      postLogoutRedirectUris: [],
+      grantTypes: ['urn:ietf:params:oauth:grant-type:device_code'],
+      responseTypes: ['code'],
+      scopes: ['openid', 'email'],
+      tokenEndpointAuthMethod: 'none',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    clearKeyStore()
+    vi.restoreAllMocks()
+  })
+
+  it('should redirect to login with return_to when there is no session', async () => {
+    const res = await createDeviceApp().request('/device?user_code=BCDF-GHJK')
+
+    expect(res.status).toBe(302)
+    const location = new URL(res.headers.get('Location') ?? '')
+    expect(location.pathname).toBe('/login')
+    expect(location.searchParams.get('return_to')).toBe(
+      '/device?user_code=BCDF-GHJK',
+    )
+  })
+
+  it('should show the code entry form when no user_code is given', async () => {
+    const res = await createDeviceApp().request('/device', {
+      headers: { Cookie: sessionCookie },
+    })
+
+    expect(res.status).toBe(200)
+    const html = await res.text()
+    expect(html).toContain('name="user_code"')
+  })
+
+  it('should show the approval prompt for a pending code', async () => {
+    vi.mocked(deviceCodeStorage.getDeviceCodeByUserCode).mockResolvedValue(
+      pendingDeviceCode,
+    )
+
+    const res = await createDeviceApp().request('/device?user_code=bcdf-ghjk', {
+      headers: { Cookie: sessionCookie },
+    })
+
+    expect(res.status).toBe(200)
+    const html = await res.text()
+    expect(html).toContain('Living Room TV')
+    expect(html).toContain('BCDF-GHJK')
+    expect(html).toContain('value="approve"')
+  })
+
+  it('should show an error for an unknown code', async () => {
+    vi.mocked(deviceCodeStorage.getDeviceCodeByUserCode).mockResolvedValue(null)
+
+    const res = await createDeviceApp().request('/device?user_code=XXXX-XXXX', {
+      headers: { Cookie: sessionCookie },
+    })
+
+    expect(res.status).toBe(400)
+    const html = await res.text()
+    expect(html).toContain('invalid or has expired')
+  })
+
+  it('should approve the device code for the signed-in user', async () => {
+    vi.mocked(deviceCodeStorage.getDeviceCodeByUserCode).mockResolvedValue(
+      pendingDeviceCode,
+    )
+    vi.mocked(deviceCodeStorage.approveDeviceCode).mockResolvedValue(true)
+
+    const res = await createDeviceApp().request('/device', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Cookie: sessionCookie,
+      },
+      body: new URLSearchParams({
+        user_code: 'BCDFGHJK',
+        action: 'approve',
+      }).toString(),
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toContain('Device connected')
+    expect(deviceCodeStorage.approveDeviceCode).toHaveBeenCalledWith(
+      pendingDeviceCode,
+      'user-456',
+      expect.any(Number),
+    )
+  })
+
+  it('should deny the device code', async () => {
+    vi.mocked(deviceCodeStorage.getDeviceCodeByUserCode).mockResolvedValue(
+      pendingDeviceCode,
+    )
+    vi.mocked(deviceCodeStorage.denyDeviceCode).mockResolvedValue(true)
+
+    const res = await createDeviceApp().request('/device', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Cookie: sessionCookie,
+      },
+      body: new URLSearchParams({
+        user_code: 'BCDFGHJK',
+        action: 'deny',
+      }).toString(),
+    })
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toContain('Request denied')
+    expect(deviceCodeStorage.denyDeviceCode).toHaveBeenCalledWith(
+      pendingDeviceCode,
+    )
+    expect(deviceCodeStorage.approveDeviceCode).not.toHaveBeenCalled()
+  })
+})
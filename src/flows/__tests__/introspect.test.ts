@@ -0,0 +1,292 @@
+import { Hono } from 'hono'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import * as accessTokenDenylist from '../../tokens/access-token-denylist.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
+import { handleIntrospectRequest } from '../introspect.ts'
+import * as refreshTokenStorage from '../refresh-token-storage.ts'
+
+vi.mock('../refresh-token-storage.ts', () => ({
+  findRefreshToken: vi.fn(),
+}))
+
+vi.mock('../../tokens/access-token-denylist.ts', () => ({
+  isAccessTokenRevoked: vi.fn(),
+}))
+
+vi.mock('../../clients/service.ts', () => ({
+  authenticateClient: vi.fn(),
+}))
+
+const createIntrospectApp = () => {
+  const app = new Hono()
+  app.post('/introspect', handleIntrospectRequest)
+  return app
+}
+
+const formBody = (params: Record<string, string>): string =>
+  new URLSearchParams(params).toString()
+
+const basicAuth = (credentials: string): string =>
+  `Basic ${Buffer.from(credentials).toString('base64')}`
+
+const resourceServerClient = {
+  id: 'resource-server',
+  name: 'Resource Server',
+  redirectUris: ['https://api.example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['client_credentials'],
+  responseTypes: ['code'],
+  scopes: ['profile'],
+  tokenEndpointAuthMethod: 'client_secret_basic' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const introspect = (params: Record<string, string>) =>
+  createIntrospectApp().request('/introspect', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: basicAuth('resource-server:secret'),
+    },
+    body: formBody(params),
+  })
+
+const signAccessToken = (overrides: Record<string, unknown> = {}): string => {
+  const keyPair = initializeKeys()
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt(
+    {
+      iss: 'http://localhost:3000',
+      sub: 'user-456',
+      aud: 'https://api.example.com',
+      exp: now + 3600,
+      iat: now,
+      scope: 'openid email',
+      client_id: 'client-123',
+      ...overrides,
+    },
+    keyPair.privateKey,
+    'RS256',
+    keyPair.kid,
+    'at+jwt',
+  )
+}
+
+describe('Introspection Endpoint', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    clearKeyStore()
+    initializeKeys()
+    vi.clearAllMocks()
+
+    vi.mocked(clientService.authenticateClient).mockResolvedValue(
+      resourceServerClient,
+    )
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(false)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    clearKeyStore()
+    vi.restoreAllMocks()
+  })
+
+  it('should return 401 when the caller does not authenticate', async () => {
+    const res = await createIntrospectApp().request('/introspect', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: formBody({ token: 'anything', client_id: 'resource-server' }),
+    })
+
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_client')
+  })
+
+  it('should return 401 when client credentials are invalid', async () => {
+    vi.mocked(clientService.authenticateClient).mockResolvedValue(null)
+
+    const res = await introspect({ token: 'anything' })
+
+    expect(res.status).toBe(401)
+  })
+
+  it('should return 400 when token is missing', async () => {
+    const res = await introspect({})
+
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_request')
+  })
+
+  it('should describe a valid access token', async () => {
+    const token = signAccessToken()
+
+    const res = await introspect({ token })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Cache-Control')).toBe('no-store')
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.active).toBe(true)
+    expect(body.scope).toBe('openid email')
+    expect(body.client_id).toBe('client-123')
+    expect(body.sub).toBe('user-456')
+    expect(body.aud).toBe('https://api.example.com')
+    expect(typeof body.exp).toBe('number')
+    expect(typeof body.iat).toBe('number')
+    expect(refreshTokenStorage.findRefreshToken).not.toHaveBeenCalled()
+  })
+
+  it('should report the key a DPoP-bound access token is confirmed by', async () => {
+    const token = signAccessToken({ cnf: { jkt: 'key-thumbprint' } })
+
+    const res = await introspect({ token })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.active).toBe(true)
+    expect(body.token_type).toBe('DPoP')
+    expect(body.cnf).toEqual({ jkt: 'key-thumbprint' })
+  })
+
+  it('should report an expired access token as inactive', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const token = signAccessToken({ exp: now - 60, iat: now - 3660 })
+
+    const res = await introspect({ token })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+  })
+
+  it('should report a revoked access token as inactive', async () => {
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(true)
+    const token = signAccessToken({ jti: 'revoked-jti' })
+
+    const res = await introspect({ token })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+    expect(accessTokenDenylist.isAccessTokenRevoked).toHaveBeenCalledWith(
+      'revoked-jti',
+    )
+  })
+
+  it('should report an access token from another issuer as inactive', async () => {
+    const token = signAccessToken({ iss: 'https://evil.example.com' })
+
+    const res = await introspect({ token })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+  })
+
+  it('should report an ID token as inactive', async () => {
+    const keyPair = initializeKeys()
+    const now = Math.floor(Date.now() / 1000)
+    const idToken = signJwt(
+      {
+        iss: 'http://localhost:3000',
+        sub: 'user-456',
+        aud: 'client-123',
+        azp: 'client-123',
+        exp: now + 3600,
+        iat: now,
+        nonce: 'n-0S6_WzA2Mj',
+      },
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+    )
+
+    const res = await introspect({ token: idToken })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+  })
+
+  it('should report a token without a client_id as inactive', async () => {
+    const token = signAccessToken({ client_id: undefined })
+
+    const res = await introspect({ token })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+  })
+
+  it('should describe a live refresh token owned by the caller', async () => {
+    vi.mocked(refreshTokenStorage.findRefreshToken).mockResolvedValue({
+      token: 'refresh-abc',
+      client_id: 'resource-server',
+      user_id: 'user-456',
+      scopes: ['openid', 'offline_access'],
+      expires_at: new Date('2030-01-01T00:00:00Z'),
+      created_at: new Date('2029-12-01T00:00:00Z'),
+      auth_time: null,
+      sid: null,
+      dpop_jkt: null,
+      resources: [],
+      claims: null,
+      family_id: null,
+      consumed_at: null,
+      absolute_expires_at: null,
+    })
+
+    const res = await introspect({
+      token: 'refresh-abc',
+      token_type_hint: 'refresh_token',
+    })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({
+      active: true,
+      token_type: 'refresh_token',
+      scope: 'openid offline_access',
+      client_id: 'resource-server',
+      sub: 'user-456',
+      exp: 1893456000,
+      iat: 1890777600,
+    })
+  })
+
+  it('should report a refresh token issued to another client as inactive', async () => {
+    vi.mocked(refreshTokenStorage.findRefreshToken).mockResolvedValue({
+      token: 'refresh-abc',
+      client_id: 'client-123',
+      user_id: 'user-456',
+      scopes: ['openid', 'offline_access'],
+      expires_at: new Date(Date.now() + 60000),
+      created_at: new Date(),
+      auth_time: null,
+      sid: null,
+      dpop_jkt: null,
+      resources: [],
+      claims: null,
+      family_id: null,
+      consumed_at: null,
+      absolute_expires_at: null,
+    })
+
+    const res = await introspect({ token: 'refresh-abc' })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+  })
+
+  it('should report an unknown refresh token as inactive', async () => {
+    vi.mocked(refreshTokenStorage.findRefreshToken).mockResolvedValue(null)
+
+    const res = await introspect({ token: 'unknown' })
+
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body).toEqual({ active: false })
+  })
+})
@@ -0,0 +1,312 @@
+import { Hono } from 'hono'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
+import { notifyBackchannelLogoutInBackground } from '../backchannel-logout.ts'
+import { handleLogout } from '../logout.ts'
+import * as sessionStorage from '../session-storage.ts'
+
+vi.mock('../../clients/service.ts', () => ({
+  getClientById: vi.fn(),
+}))
+
+vi.mock('../backchannel-logout.ts', () => ({
+  notifyBackchannelLogoutInBackground: vi.fn(),
+}))
+
+vi.mock('../session-storage.ts', () => ({
+  getSession: vi.fn(),
+  touchSession: vi.fn(async (session) => session),
+  deleteSession: vi.fn(),
+}))
+
+const session = {
+  session_id: 'session-abc',
+  user_id: 'user-456',
+  auth_time: 1_700_000_000,
+  auth_methods: ['pwd'],
+  user_agent: null,
+  ip_address: null,
+  last_seen_at: new Date(),
+  expires_at: new Date(Date.now() + 900_000),
+  created_at: new Date(),
+}
+
+const createLogoutApp = () => {
+  const app = new Hono()
+  app.get('/logout', handleLogout)
+  app.post('/logout', handleLogout)
+  return app
+}
+
+const client = {
+  id: 'client-123',
+  name: 'Test Client',
+  redirectUris: ['https://example.com/callback'],
+  postLogoutRedirectUris: ['https://example.com/signed-out'],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid'],
+  tokenEndpointAuthMethod: 'client_secret_post' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const signIdToken = (
+  overrides: Record<string, unknown> = {},
+  typ?: string,
+): string => {
+  const keyPair = initializeKeys()
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt(
+    {
+      iss: 'http://localhost:3000',
+      sub: 'user-456',
+      aud: 'client-123',
+      exp: now + 3600,
+      iat: now,
+      ...overrides,
+    },
+    keyPair.privateKey,
+    'RS256',
+    keyPair.kid,
+    typ,
+  )
+}
+
+describe('Logout Endpoint', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    clearKeyStore()
+    initializeKeys()
+    vi.clearAllMocks()
+    vi.mocked(clientService.getClientById).mockResolvedValue(client)
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(null)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    clearKeyStore()
+    vi.restoreAllMocks()
+  })
+
+  it('should show a confirmation page when no id_token_hint is given', async () => {
+    const res = await createLogoutApp().request('/logout')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Set-Cookie')).toBeNull()
+    const html = await res.text()
+    expect(html).toContain('Do you want to sign out?')
+    expect(html).toContain('name="confirm"')
+  })
+
+  it('should clear the session cookie after confirmation', async () => {
+    const res = await createLogoutApp().request('/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ confirm: 'yes' }).toString(),
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Set-Cookie')).toContain('oidc_session=;')
+    expect(res.headers.get('Set-Cookie')).toContain('Max-Age=0')
+    expect(await res.text()).toContain('You have been signed out')
+  })
+
+  it('should redirect to a registered post_logout_redirect_uri with state', async () => {
+    const idToken = signIdToken()
+    const query = new URLSearchParams({
+      id_token_hint: idToken,
+      post_logout_redirect_uri: 'https://example.com/signed-out',
+      state: 'xyz',
+    })
+
+    const res = await createLogoutApp().request(`/logout?${query}`)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      'https://example.com/signed-out?state=xyz',
+    )
+    expect(res.headers.get('Set-Cookie')).toContain('Max-Age=0')
+    expect(clientService.getClientById).toHaveBeenCalledWith('client-123')
+  })
+
+  it('should ask for confirmation before acting on an expired id_token_hint', async () => {
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+    const now = Math.floor(Date.now() / 1000)
+    const idToken = signIdToken({
+      exp: now - 60,
+      iat: now - 3660,
+      sid: 'session-abc',
+    })
+
+    const res = await createLogoutApp().request(
+      `/logout?id_token_hint=${idToken}`,
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Set-Cookie')).toBeNull()
+    const html = await res.text()
+    expect(html).toContain('Do you want to sign out?')
+    expect(html).toContain(`name="id_token_hint" value="${idToken}"`)
+    expect(sessionStorage.deleteSession).not.toHaveBeenCalled()
+  })
+
+  it('should accept an expired id_token_hint once confirmed', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const idToken = signIdToken({ exp: now - 60, iat: now - 3660 })
+
+    const res = await createLogoutApp().request('/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        id_token_hint: idToken,
+        confirm: 'yes',
+      }).toString(),
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Set-Cookie')).toContain('Max-Age=0')
+  })
+
+  it('should reject other tokens of this provider as id_token_hint', async () => {
+    for (const typ of ['at+jwt', 'logout+jwt', 'email-verification+jwt']) {
+      const res = await createLogoutApp().request(
+        `/logout?id_token_hint=${signIdToken({}, typ)}`,
+      )
+
+      expect(res.status).toBe(400)
+      expect(res.headers.get('Set-Cookie')).toBeNull()
+    }
+  })
+
+  it('should end the cookie session and notify with its sid', async () => {
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+
+    const res = await createLogoutApp().request(
+      `/logout?id_token_hint=${signIdToken()}`,
+      { headers: { Cookie: 'oidc_session=session-abc' } },
+    )
+
+    expect(res.status).toBe(200)
+    expect(sessionStorage.getSession).toHaveBeenCalledWith('session-abc')
+    expect(sessionStorage.deleteSession).toHaveBeenCalledWith(session)
+    expect(notifyBackchannelLogoutInBackground).toHaveBeenCalledWith({
+      sub: 'user-456',
+      sid: 'session-abc',
+    })
+  })
+
+  it('should end the session named by the id_token_hint sid without a cookie', async () => {
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+
+    const res = await createLogoutApp().request(
+      `/logout?id_token_hint=${signIdToken({ sid: 'session-abc' })}`,
+    )
+
+    expect(res.status).toBe(200)
+    expect(sessionStorage.deleteSession).toHaveBeenCalledWith(session)
+  })
+
+  it('should notify by subject when the session is already gone', async () => {
+    const res = await createLogoutApp().request(
+      `/logout?id_token_hint=${signIdToken()}`,
+    )
+
+    expect(res.status).toBe(200)
+    expect(sessionStorage.deleteSession).not.toHaveBeenCalled()
+    expect(notifyBackchannelLogoutInBackground).toHaveBeenCalledWith({
+      sub: 'user-456',
+    })
+  })
+
+  it('should not end the session before confirmation', async () => {
+    vi.mocked(sessionStorage.getSession).mockResolvedValue(session)
+
+    await createLogoutApp().request('/logout', {
+      headers: { Cookie: 'oidc_session=session-abc' },
+    })
+
+    expect(sessionStorage.deleteSession).not.toHaveBeenCalled()
+    expect(notifyBackchannelLogoutInBackground).not.toHaveBeenCalled()
+  })
+
+  it('should reject an id_token_hint from another issuer', async () => {
+    const idToken = signIdToken({ iss: 'https://evil.example.com' })
+
+    const res = await createLogoutApp().request(
+      `/logout?id_token_hint=${idToken}`,
+    )
+
+    expect(res.status).toBe(400)
+    expect(res.headers.get('Set-Cookie')).toBeNull()
+  })
+
+  it('should reject an unregistered post_logout_redirect_uri', async () => {
+    const query = new URLSearchParams({
+      id_token_hint: signIdToken(),
+      post_logout_redirect_uri: 'https://evil.example.com/',
+    })
+
+    const res = await createLogoutApp().request(`/logout?${query}`)
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('not registered')
+  })
+
+  it('should reject post_logout_redirect_uri without a client', async () => {
+    const query = new URLSearchParams({
+      post_logout_redirect_uri: 'https://example.com/signed-out',
+    })
+
+    const res = await createLogoutApp().request(`/logout?${query}`)
+
+    expect(res.status).toBe(400)
+  })
+
+  it('should reject a client_id that does not match id_token_hint', async () => {
+    const query = new URLSearchParams({
+      id_token_hint: signIdToken(),
+      client_id: 'other-client',
+    })
+
+    const res = await createLogoutApp().request(`/logout?${query}`)
+
+    expect(res.status).toBe(400)
+  })
+
+  it('should carry client_id and redirect through the confirmation form', async () => {
+    const query = new URLSearchParams({
+      client_id: 'client-123',
+      post_logout_redirect_uri: 'https://example.com/signed-out',
+      state: 'abc',
+    })
+
+    const page = await createLogoutApp().request(`/logout?${query}`)
+    const html = await page.text()
+    expect(html).toContain('value="https://example.com/signed-out"')
+
+    const res = await createLogoutApp().request('/logout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: 'client-123',
+        post_logout_redirect_uri: 'https://example.com/signed-out',
+        state: 'abc',
+        confirm: 'yes',
+      }).toString(),
+    })
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      'https://example.com/signed-out?state=abc',
+    )
+  })
+})
@@ -0,0 +1,247 @@
+import { Hono } from 'hono'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as userService from '../../users/service.ts'
+import {
+  handleMagicLinkPage,
+  handleMagicLinkRequestSubmit,
+  handleMagicLinkSubmit,
+  handleOtpSubmit,
+} from '../magic-link-login.ts'
+import { getSessionCookieName } from '../session.ts'
+import * as sessionStorage from '../session-storage.ts'
+
+vi.mock('../../users/service.ts', () => ({
+  MAGIC_LINK_EXPIRY_MINUTES: 15,
+  OTP_EXPIRY_MINUTES: 10,
+  authenticateWithMagicLink: vi.fn(),
+  authenticateWithOtp: vi.fn(),
+  requestMagicLink: vi.fn(),
+}))
+
+vi.mock('../session-storage.ts', () => ({
+  SESSION_MAX_LIFETIME_SECONDS: 86_400,
+  createSession: vi.fn(),
+}))
+
+const createApp = () => {
+  const app = new Hono()
+  app.post('/login/magic-link', handleMagicLinkRequestSubmit)
+  app.get('/login/magic', handleMagicLinkPage)
+  app.post('/login/magic', handleMagicLinkSubmit)
+  app.post('/login/otp', handleOtpSubmit)
+  return app
+}
+
+const form = (params: Record<string, string>) => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  body: new URLSearchParams(params).toString(),
+})
+
+const user = {
+  sub: 'user-456',
+  email: 'user@example.com',
+  emailVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+}
+
+describe('Magic link login pages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(sessionStorage.createSession).mockResolvedValue({
+      session_id: 'session-abc',
+      user_id: 'user-456',
+      auth_time: 1_700_000_000,
+      auth_methods: ['magic_link'],
+      user_agent: null,
+      ip_address: null,
+      last_seen_at: new Date(),
+      expires_at: new Date(Date.now() + 900_000),
+      created_at: new Date(),
+    })
+  })
+
+  it('should send a link with the sanitized return_to from the login page', async () => {
+    vi.mocked(userService.requestMagicLink).mockResolvedValue({
+      contactId: 'contact-1',
+      contactType: 'email',
+      method: 'link',
+    })
+
+    const res = await createApp().request(
+      '/login/magic-link',
+      form({
+        contact: 'user@example.com',
+        return_to: '/authorize?client_id=abc',
+      }),
+    )
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toContain('Check your email')
+    expect(userService.requestMagicLink).toHaveBeenCalledWith({
+      email: 'user@example.com',
+      locale: undefined,
+      returnTo: '/authorize?client_id=abc',
+    })
+  })
+
+  it('should send the user back to the login page for an invalid email', async () => {
+    vi.mocked(userService.requestMagicLink).mockRejectedValue(
+      new Error('Invalid email address'),
+    )
+
+    const res = await createApp().request(
+      '/login/magic-link',
+      form({ contact: 'bad@', return_to: '//evil.example.com' }),
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      '/login?return_to=%2F&error=invalid_email',
+    )
+  })
+
+  it('should render a confirm button without consuming the token', async () => {
+    const res = await createApp().request(
+      '/login/magic?contact_id=contact-1&token=link-token',
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Cache-Control')).toBe('no-store')
+    const html = await res.text()
+    expect(html).toContain('<form method="POST" action="/login/magic">')
+    expect(html).toContain('name="token" value="link-token"')
+    expect(userService.authenticateWithMagicLink).not.toHaveBeenCalled()
+  })
+
+  it('should start a session and redirect to the stored return_to', async () => {
+    vi.mocked(userService.authenticateWithMagicLink).mockResolvedValue({
+      user,
+      returnTo: '/authorize?client_id=abc',
+    })
+
+    const res = await createApp().request(
+      '/login/magic',
+      form({ contact_id: 'contact-1', token: 'link-token' }),
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/authorize?client_id=abc')
+    expect(res.headers.get('Set-Cookie')).toContain(
+      `${getSessionCookieName()}=session-abc`,
+    )
+    expect(sessionStorage.createSession).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user_id: 'user-456',
+        auth_methods: ['magic_link'],
+      }),
+    )
+  })
+
+  it('should not redirect off-site even if an external return_to was stored', async () => {
+    vi.mocked(userService.authenticateWithMagicLink).mockResolvedValue({
+      user,
+      returnTo: 'https://evil.example.com',
+    })
+
+    const res = await createApp().request(
+      '/login/magic',
+      form({ contact_id: 'contact-1', token: 'link-token' }),
+    )
+
+    expect(res.headers.get('Location')).toBe('/')
+  })
+
+  it('should send the user to the login page for an invalid or used link', async () => {
+    vi.mocked(userService.authenticateWithMagicLink).mockRejectedValue(
+      new Error('Invalid or expired magic link token'),
+    )
+
+    const res = await createApp().request(
+      '/login/magic',
+      form({ contact_id: 'contact-1', token: 'used-token' }),
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      '/login?return_to=%2F&error=invalid_magic_link',
+    )
+    expect(sessionStorage.createSession).not.toHaveBeenCalled()
+  })
+
+  it('should ask for the code sent to a phone number', async () => {
+    vi.mocked(userService.requestMagicLink).mockResolvedValue({
+      contactId: 'contact-2',
+      contactType: 'phone',
+      method: 'code',
+    })
+
+    const res = await createApp().request(
+      '/login/magic-link',
+      form({ contact: '+1 555 123 4567', return_to: '/account' }),
+    )
+
+    expect(res.status).toBe(200)
+    expect(userService.requestMagicLink).toHaveBeenCalledWith({
+      phone: '+1 555 123 4567',
+      locale: undefined,
+      returnTo: '/account',
+    })
+    const html = await res.text()
+    expect(html).toContain('<form method="POST" action="/login/otp">')
+    expect(html).toContain('name="contact_id" value="contact-2"')
+  })
+
+  it('should start a session with a valid code', async () => {
+    vi.mocked(userService.authenticateWithOtp).mockResolvedValue({
+      user,
+      returnTo: '/account',
+    })
+
+    const res = await createApp().request(
+      '/login/otp',
+      form({ contact_id: 'contact-2', code: '042917' }),
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/account')
+    expect(sessionStorage.createSession).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'user-456', auth_methods: ['otp'] }),
+    )
+  })
+
+  it('should show the code form again after a wrong code', async () => {
+    vi.mocked(userService.authenticateWithOtp).mockRejectedValue(
+      new Error('Invalid or expired code'),
+    )
+
+    const res = await createApp().request(
+      '/login/otp',
+      form({ contact_id: 'contact-2', code: '000000' }),
+    )
+
+    expect(res.status).toBe(400)
+    const html = await res.text()
+    expect(html).toContain('That code is incorrect, expired or already used.')
+    expect(html).toContain('name="contact_id" value="contact-2"')
+  })
+
+  it('should send a locked out user back to the login page', async () => {
+    vi.mocked(userService.authenticateWithOtp).mockRejectedValue(
+      new Error('Too many failed attempts'),
+    )
+
+    const res = await createApp().request(
+      '/login/otp',
+      form({ contact_id: 'contact-2', code: '123456' }),
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      '/login?return_to=%2F&error=otp_locked',
+    )
+    expect(sessionStorage.createSession).not.toHaveBeenCalled()
+  })
+})
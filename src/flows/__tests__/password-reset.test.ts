@@ -0,0 +1,187 @@
+import { Hono } from 'hono'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as userService from '../../users/service.ts'
+import {
+  handleForgotPasswordPage,
+  handleForgotPasswordSubmit,
+  handleResetPasswordPage,
+  handleResetPasswordSubmit,
+} from '../password-reset.ts'
+
+vi.mock('../../users/service.ts', () => ({
+  PASSWORD_RESET_EXPIRY_MINUTES: 30,
+  requestPasswordReset: vi.fn(),
+  resetPassword: vi.fn(),
+}))
+
+const createApp = () => {
+  const app = new Hono()
+  app.get('/login/forgot-password', handleForgotPasswordPage)
+  app.post('/login/forgot-password', handleForgotPasswordSubmit)
+  app.get('/login/reset-password', handleResetPasswordPage)
+  app.post('/login/reset-password', handleResetPasswordSubmit)
+  return app
+}
+
+const form = (params: Record<string, string>) => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  body: new URLSearchParams(params).toString(),
+})
+
+const user = {
+  sub: 'user-456',
+  email: 'user@example.com',
+  emailVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+}
+
+describe('Password reset pages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should link back to the login page with the sanitized return_to', async () => {
+    const res = await createApp().request(
+      '/login/forgot-password?return_to=%2Fauthorize%3Fclient_id%3Dabc',
+    )
+
+    expect(res.status).toBe(200)
+    const html = await res.text()
+    expect(html).toContain('action="/login/forgot-password"')
+    expect(html).toContain(
+      'href="/login?return_to=%2Fauthorize%3Fclient_id%3Dabc"',
+    )
+  })
+
+  it('should confirm a reset request without saying whether the address exists', async () => {
+    vi.mocked(userService.requestPasswordReset).mockResolvedValue(undefined)
+
+    const res = await createApp().request(
+      '/login/forgot-password',
+      form({ email: 'user@example.com' }),
+    )
+
+    expect(res.status).toBe(200)
+    expect(userService.requestPasswordReset).toHaveBeenCalledWith({
+      email: 'user@example.com',
+      locale: undefined,
+    })
+    const html = await res.text()
+    expect(html).toContain('If this address belongs to an account')
+    expect(html).toContain('30 minutes')
+  })
+
+  it('should show the form again for an invalid email', async () => {
+    vi.mocked(userService.requestPasswordReset).mockRejectedValue(
+      new Error('Invalid email address'),
+    )
+
+    const res = await createApp().request(
+      '/login/forgot-password',
+      form({ email: 'not-an-email' }),
+    )
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('Enter a valid email address.')
+  })
+
+  it('should refuse a reset request over the per-address limit', async () => {
+    vi.mocked(userService.requestPasswordReset).mockRejectedValue(
+      new Error('Too many password reset emails'),
+    )
+
+    const res = await createApp().request(
+      '/login/forgot-password',
+      form({ email: 'user@example.com' }),
+    )
+
+    expect(res.status).toBe(429)
+  })
+
+  it('should render the reset form without consuming the token', async () => {
+    const res = await createApp().request(
+      '/login/reset-password?contact_id=contact-1&token=tok%22en',
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Cache-Control')).toBe('no-store')
+    expect(res.headers.get('Referrer-Policy')).toBe('no-referrer')
+    const html = await res.text()
+    expect(html).toContain('name="contact_id" value="contact-1"')
+    expect(html).toContain('name="token" value="tok&quot;en"')
+    expect(userService.resetPassword).not.toHaveBeenCalled()
+  })
+
+  it('should redirect to the login page when the reset link is incomplete', async () => {
+    const res = await createApp().request(
+      '/login/reset-password?contact_id=contact-1',
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      '/login?return_to=%2F&error=invalid_reset_link',
+    )
+  })
+
+  it('should reset the password', async () => {
+    vi.mocked(userService.resetPassword).mockResolvedValue(user)
+
+    const res = await createApp().request(
+      '/login/reset-password',
+      form({
+        contact_id: 'contact-1',
+        token: 'token-abc',
+        password: 'new-password',
+        password_confirmation: 'new-password',
+      }),
+    )
+
+    expect(res.status).toBe(200)
+    expect(userService.resetPassword).toHaveBeenCalledWith({
+      contactId: 'contact-1',
+      token: 'token-abc',
+      password: 'new-password',
+    })
+    expect(await res.text()).toContain('Password changed')
+  })
+
+  it('should show the form again when the passwords do not match', async () => {
+    const res = await createApp().request(
+      '/login/reset-password',
+      form({
+        contact_id: 'contact-1',
+        token: 'token-abc',
+        password: 'new-password',
+        password_confirmation: 'other-password',
+      }),
+    )
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('The passwords do not match.')
+    expect(userService.resetPassword).not.toHaveBeenCalled()
+  })
+
+  it('should redirect to the login page with an error for a used or expired link', async () => {
+    vi.mocked(userService.resetPassword).mockRejectedValue(
+      new Error('Invalid or expired reset link'),
+    )
+
+    const res = await createApp().request(
+      '/login/reset-password',
+      form({
+        contact_id: 'contact-1',
+        token: 'token-abc',
+        password: 'new-password',
+        password_confirmation: 'new-password',
+      }),
+    )
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe(
+      '/login?return_to=%2F&error=invalid_reset_link',
+    )
+  })
+})
@@ -0,0 +1,162 @@
+import { Hono } from 'hono'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { handlePushedAuthorizationRequest } from '../pushed-authorization.ts'
+import * as pushedAuthorizationRequestStorage from '../pushed-authorization-request-storage.ts'
+
+vi.mock('../pushed-authorization-request-storage.ts', () => ({
+  PUSHED_AUTHORIZATION_REQUEST_EXPIRY_SECONDS: 60,
+  createPushedAuthorizationRequest: vi.fn(),
+}))
+
+vi.mock('../../clients/service.ts', () => ({
+  authenticateClient: vi.fn(),
+  getClientById: vi.fn(),
+}))
+
+const createPushedAuthorizationApp = () => {
+  const app = new Hono()
+  app.post('/par', handlePushedAuthorizationRequest)
+  return app
+}
+
+const confidentialClient = {
+  id: 'client-123',
+  name: 'Web App',
+  redirectUris: ['https://example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'profile', 'email'],
+  tokenEndpointAuthMethod: 'client_secret_basic' as const,
+  requirePushedAuthorizationRequests: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const basicAuth = `Basic ${btoa('client-123:secret')}`
+
+const pushRequest = (
+  params: Record<string, string>,
+  headers: Record<string, string> = { Authorization: basicAuth },
+) =>
+  createPushedAuthorizationApp().request('/par', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...headers,
+    },
+    body: new URLSearchParams(params).toString(),
+  })
+
+const authorizationParams = {
+  redirect_uri: 'https://example.com/callback',
+  response_type: 'code',
+  scope: 'openid email',
+  state: 'state-123',
+}
+
+describe('Pushed Authorization Request Endpoint', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    vi.clearAllMocks()
+
+    vi.mocked(clientService.authenticateClient).mockResolvedValue(
+      confidentialClient,
+    )
+    vi.mocked(clientService.getClientById).mockResolvedValue(confidentialClient)
+    vi.mocked(
+      pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+    ).mockImplementation(async (clientId, parameters) => ({
+      request_uri: 'urn:ietf:params:oauth:request_uri:abc',
+      client_id: clientId,
+      parameters,
+      expires_at: new Date(Date.now() + 60_000),
+      created_at: new Date(),
+    }))
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    vi.restoreAllMocks()
+  })
+
+  it('should store a valid request and return a request_uri', async () => {
+    const res = await pushRequest(authorizationParams)
+
+    expect(res.status).toBe(201)
+    expect(res.headers.get('Cache-Control')).toBe('no-store')
+    expect(await res.json()).toEqual({
+      request_uri: 'urn:ietf:params:oauth:request_uri:abc',
+      expires_in: 60,
+    })
+    expect(
+      pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+    ).toHaveBeenCalledWith('client-123', {
+      ...authorizationParams,
+      client_id: 'client-123',
+    })
+  })
+
+  it('should not store client_secret with the request', async () => {
+    await pushRequest(
+      { ...authorizationParams, client_id: 'client-123', client_secret: 's' },
+      {},
+    )
+
+    const [, parameters] = vi.mocked(
+      pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+    ).mock.calls[0]
+    expect(parameters.client_secret).toBeUndefined()
+  })
+
+  it('should return 401 for invalid client credentials', async () => {
+    vi.mocked(clientService.authenticateClient).mockResolvedValue(null)
+
+    const res = await pushRequest(authorizationParams)
+
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_client')
+  })
+
+  it('should return 401 when a confidential client does not authenticate', async () => {
+    const res = await pushRequest(
+      { ...authorizationParams, client_id: 'client-123' },
+      {},
+    )
+
+    expect(res.status).toBe(401)
+  })
+
+  it('should return the validation error instead of redirecting', async () => {
+    const res = await pushRequest({
+      ...authorizationParams,
+      scope: 'openid admin',
+    })
+
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_scope')
+    expect(
+      pushedAuthorizationRequestStorage.createPushedAuthorizationRequest,
+    ).not.toHaveBeenCalled()
+  })
+
+  it('should reject a request_uri parameter', async () => {
+    const res = await pushRequest({
+      ...authorizationParams,
+      request_uri: 'urn:ietf:params:oauth:request_uri:other',
+    })
+
+    expect(res.status).toBe(400)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_request')
+  })
+})
@@ -1,11 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import * as clientModule from '../../database/client.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
 import * as loggerModule from '../../plumbing/logger.ts'
 import {
   consumeRefreshToken,
+  extendRefreshToken,
+  findRefreshToken,
   generateRefreshToken,
+  hasRefreshTokensForClient,
+  listRefreshTokensByUser,
   revokeRefreshToken,
   revokeRefreshTokensByUser,
+  revokeRefreshTokensForClients,
+  verifyRefreshToken,
 } from '../refresh-token-storage.ts'
 
 const mockExecute = vi.fn()
@@ -22,8 +29,17 @@ vi.mock('../../plumbing/logger.ts', () => ({
   log: vi.fn(),
 }))
 
+const tokenExpiry = (expiresInMs = 86400000) => {
+  const expiresAt = new Date(Date.now() + expiresInMs)
+  return { expires_at: expiresAt, absolute_expires_at: expiresAt }
+}
+
 describe('Refresh Token Storage', () => {
+  const originalEnv = process.env
+
   beforeEach(() => {
+    process.env = { ...originalEnv }
+    clearConfigCache()
     vi.clearAllMocks()
     vi.mocked(clientModule.getDatabaseClient).mockReturnValue({
       execute: mockExecute,
@@ -31,10 +47,50 @@ describe('Refresh Token Storage', () => {
   })
 
   afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
     vi.restoreAllMocks()
   })
 
   describe('generateRefreshToken', () => {
+    it('should keep the family of the token being rotated', async () => {
+      mockExecute.mockResolvedValue(undefined)
+
+      const token = await generateRefreshToken({
+        client_id: 'client-uuid',
+        user_id: 'user-id',
+        scopes: ['openid', 'offline_access'],
+        family_id: 'family-1',
+        ...tokenExpiry(),
+      })
+
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'INSERT INTO jlj2_users.refresh_tokens_by_family',
+        ),
+        ['family-1', token, 'user-id', 'client-uuid'],
+      )
+    })
+
+    it('should expire the token and its lookup rows at expires_at', async () => {
+      mockExecute.mockResolvedValue(undefined)
+      const absoluteExpiresAt = new Date(Date.now() + 90 * 86400000)
+
+      await generateRefreshToken({
+        client_id: 'client-uuid',
+        user_id: 'user-id',
+        scopes: ['openid', 'offline_access'],
+        expires_at: new Date(Date.now() + 3600 * 1000),
+        absolute_expires_at: absoluteExpiresAt,
+      })
+
+      expect(mockExecute).toHaveBeenCalledTimes(3)
+      for (const [query] of mockExecute.mock.calls) {
+        expect(query).toContain('USING TTL 3600')
+      }
+      expect(mockExecute.mock.calls[0][1]).toContain(absoluteExpiresAt)
+    })
+
     it('should return a non-empty token string', async () => {
       mockExecute.mockResolvedValue(undefined)
 
@@ -42,6 +98,7 @@ describe('Refresh Token Storage', () => {
         client_id: 'client-uuid',
         user_id: 'user-id',
         scopes: ['openid', 'offline_access'],
+        ...tokenExpiry(),
       })
 
       expect(token).toBeDefined()
@@ -56,6 +113,7 @@ describe('Refresh Token Storage', () => {
         client_id: 'client-uuid',
         user_id: 'user-id',
         scopes: ['openid', 'offline_access'],
+        ...tokenExpiry(),
       })
 
       mockExecute.mockReset()
@@ -118,6 +176,31 @@ describe('Refresh Token Storage', () => {
       })
     })
 
+    it('should return null without consuming a token bound to another DPoP key', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'valid-token',
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid'],
+            expires_at: new Date(Date.now() + 86400000),
+            created_at: new Date(),
+            dpop_jkt: 'bound-key',
+          },
+        ],
+      })
+
+      const result = await consumeRefreshToken(
+        'valid-token',
+        'client-uuid',
+        'other-key',
+      )
+
+      expect(result).toBeNull()
+      expect(mockExecute).toHaveBeenCalledTimes(1)
+    })
+
     it('should return null when token expired', async () => {
       mockExecute
         .mockResolvedValueOnce({
@@ -140,8 +223,41 @@ describe('Refresh Token Storage', () => {
       expect(result).toBeNull()
     })
 
-    it('should return null and log when token already used (replay attempt)', async () => {
-      const expiresAt = new Date(Date.now() + 86400000)
+    it('should rotate a consumed token again within the grace window', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'valid-token',
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid', 'offline_access'],
+            expires_at: new Date(Date.now() + 86400000),
+            created_at: new Date(),
+            family_id: 'family-1',
+            consumed_at: new Date(Date.now() - 2000),
+          },
+        ],
+      })
+      mockExecute.mockResolvedValueOnce({
+        rows: [{ token_value: 'valid-token' }],
+      })
+
+      const result = await consumeRefreshToken('valid-token', 'client-uuid')
+
+      expect(result?.family_id).toBe('family-1')
+      expect(mockExecute).toHaveBeenCalledTimes(2)
+      expect(mockExecute).toHaveBeenLastCalledWith(
+        expect.stringContaining('FROM jlj2_users.refresh_tokens_by_family'),
+        ['family-1', 'valid-token'],
+      )
+      expect(loggerModule.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Refresh token reused within grace window',
+        }),
+      )
+    })
+
+    it('should not rotate a consumed token within the grace window once its family is revoked', async () => {
       mockExecute
         .mockResolvedValueOnce({
           rows: [
@@ -150,23 +266,113 @@ describe('Refresh Token Storage', () => {
               client_id: 'client-uuid',
               user_id: 'user-id',
               scopes: ['openid', 'offline_access'],
-              expires_at: expiresAt,
+              expires_at: new Date(Date.now() + 86400000),
               created_at: new Date(),
+              family_id: 'family-1',
+              consumed_at: new Date(Date.now() - 2000),
             },
           ],
         })
-        .mockResolvedValueOnce({ wasApplied: () => false })
+        .mockResolvedValueOnce({ rows: [] })
 
       const result = await consumeRefreshToken('valid-token', 'client-uuid')
 
       expect(result).toBeNull()
+      expect(loggerModule.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Refresh token reused after its family was revoked',
+        }),
+      )
+    })
+
+    it('should revoke the whole family when a consumed token is replayed', async () => {
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              token_value: 'stolen-token',
+              client_id: 'client-uuid',
+              user_id: 'user-id',
+              scopes: ['openid', 'offline_access'],
+              expires_at: new Date(Date.now() + 86400000),
+              created_at: new Date(),
+              family_id: 'family-1',
+              consumed_at: new Date(Date.now() - 60000),
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              token_value: 'stolen-token',
+              user_id: 'user-id',
+              client_id: 'client-uuid',
+            },
+            {
+              token_value: 'current-token',
+              user_id: 'user-id',
+              client_id: 'client-uuid',
+            },
+          ],
+        })
+        .mockResolvedValue(undefined)
+
+      const result = await consumeRefreshToken('stolen-token', 'client-uuid')
+
+      expect(result).toBeNull()
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.refresh_tokens '),
+        ['current-token'],
+      )
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('refresh_tokens_by_family WHERE family_id'),
+        ['family-1'],
+      )
       expect(loggerModule.log).toHaveBeenCalledWith({
-        message: 'Refresh token already used (replay attempt)',
+        message:
+          'Refresh token reuse detected, family revoked (security event)',
         userId: 'user-id',
         clientId: 'client-uuid',
+        familyId: 'family-1',
+        revokedCount: 2,
       })
     })
 
+    it('should treat a token consumed by a concurrent request as reused', async () => {
+      process.env.OIDC_REFRESH_TOKEN_REUSE_GRACE_SECONDS = '0'
+      clearConfigCache()
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              token_value: 'valid-token',
+              client_id: 'client-uuid',
+              user_id: 'user-id',
+              scopes: ['openid', 'offline_access'],
+              expires_at: new Date(Date.now() + 86400000),
+              created_at: new Date(),
+              family_id: 'family-1',
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          wasApplied: () => false,
+          rows: [{ consumed_at: new Date(Date.now() - 1000) }],
+        })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValue(undefined)
+
+      const result = await consumeRefreshToken('valid-token', 'client-uuid')
+
+      expect(result).toBeNull()
+      expect(loggerModule.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message:
+            'Refresh token reuse detected, family revoked (security event)',
+        }),
+      )
+    })
+
     it('should return token data when valid and consume successfully', async () => {
       const expiresAt = new Date(Date.now() + 86400000)
       mockExecute
@@ -187,6 +393,11 @@ describe('Refresh Token Storage', () => {
 
       const result = await consumeRefreshToken('valid-token', 'client-uuid')
 
+      expect(mockExecute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('SET consumed_at = ?'),
+        [expect.any(Date), 'valid-token'],
+      )
       expect(result).not.toBeNull()
       expect(result?.user_id).toBe('user-id')
       expect(result?.client_id).toBe('client-uuid')
@@ -194,6 +405,239 @@ describe('Refresh Token Storage', () => {
     })
   })
 
+  describe('verifyRefreshToken', () => {
+    it('should return the token without consuming it', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'valid-token',
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid', 'offline_access'],
+            expires_at: new Date(Date.now() + 86400000),
+            created_at: new Date(),
+          },
+        ],
+      })
+
+      const result = await verifyRefreshToken('valid-token', 'client-uuid')
+
+      expect(result?.user_id).toBe('user-id')
+      expect(mockExecute).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return null when client_id does not match', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'valid-token',
+            client_id: 'other-client',
+            user_id: 'user-id',
+            scopes: ['openid'],
+            expires_at: new Date(Date.now() + 86400000),
+            created_at: new Date(),
+          },
+        ],
+      })
+
+      const result = await verifyRefreshToken('valid-token', 'client-uuid')
+
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('extendRefreshToken', () => {
+    const stored = {
+      token: 'valid-token',
+      client_id: 'client-uuid',
+      user_id: 'user-id',
+      scopes: ['openid', 'offline_access'],
+      expires_at: new Date(Date.now() + 3600 * 1000),
+      created_at: new Date(),
+      auth_time: null,
+      sid: null,
+      dpop_jkt: null,
+      resources: [],
+      claims: null,
+      family_id: 'family-1',
+      consumed_at: null,
+      absolute_expires_at: new Date(Date.now() + 90 * 86400000),
+    }
+
+    it('should rewrite the token and its lookup rows with the later expiry', async () => {
+      mockExecute.mockResolvedValue(undefined)
+      const expiresAt = new Date(Date.now() + 7200 * 1000)
+
+      await extendRefreshToken(stored, expiresAt, stored.absolute_expires_at)
+
+      expect(mockExecute).toHaveBeenCalledTimes(3)
+      expect(mockExecute.mock.calls[0][0]).toContain('USING TTL 7200')
+      expect(mockExecute.mock.calls[0][1]).toContain(expiresAt)
+    })
+
+    it('should leave the token alone when the expiry would not move later', async () => {
+      await extendRefreshToken(
+        stored,
+        new Date(Date.now() + 60 * 1000),
+        stored.absolute_expires_at,
+      )
+
+      expect(mockExecute).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('hasRefreshTokensForClient', () => {
+    it('should query the refresh_tokens_by_user partition', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [{ token_value: 'token' }] })
+
+      const result = await hasRefreshTokensForClient('user-id', 'client-uuid')
+
+      expect(result).toBe(true)
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('refresh_tokens_by_user'),
+        ['user-id', 'client-uuid'],
+      )
+    })
+
+    it('should return false when the user has no tokens for the client', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [] })
+
+      expect(await hasRefreshTokensForClient('user-id', 'client-uuid')).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('revokeRefreshTokensForClients', () => {
+    it("should revoke the user's tokens in each client partition", async () => {
+      mockExecute.mockImplementation(async (query: string, params: string[]) =>
+        query.startsWith('SELECT') && params[1] === 'client-a'
+          ? { rows: [{ token_value: 'token-1' }, { token_value: 'token-2' }] }
+          : { rows: [] },
+      )
+
+      const count = await revokeRefreshTokensForClients('user-id', [
+        'client-a',
+        'client-b',
+      ])
+
+      expect(count).toBe(2)
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.refresh_tokens WHERE'),
+        ['token-2'],
+      )
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'DELETE FROM jlj2_users.refresh_tokens_by_user',
+        ),
+        ['user-id', 'client-b'],
+      )
+    })
+  })
+
+  describe('findRefreshToken', () => {
+    it('should return null when token not found', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [] })
+
+      const result = await findRefreshToken('unknown-token')
+
+      expect(result).toBeNull()
+    })
+
+    it('should return null when token is expired', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'expired-token',
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid'],
+            expires_at: new Date(Date.now() - 1000),
+            created_at: new Date(),
+            auth_time: null,
+          },
+        ],
+      })
+
+      const result = await findRefreshToken('expired-token')
+
+      expect(result).toBeNull()
+    })
+
+    it('should return the token without deleting it', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'live-token',
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid', 'offline_access'],
+            expires_at: new Date(Date.now() + 60000),
+            created_at: new Date(),
+            auth_time: null,
+          },
+        ],
+      })
+
+      const result = await findRefreshToken('live-token')
+
+      expect(result?.client_id).toBe('client-uuid')
+      expect(result?.scopes).toEqual(['openid', 'offline_access'])
+      expect(mockExecute).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return null when token was already consumed', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          {
+            token_value: 'rotated-token',
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid', 'offline_access'],
+            expires_at: new Date(Date.now() + 60000),
+            created_at: new Date(),
+            consumed_at: new Date(),
+          },
+        ],
+      })
+
+      expect(await findRefreshToken('rotated-token')).toBeNull()
+    })
+  })
+
+  describe('listRefreshTokensByUser', () => {
+    it('should return the active tokens with their family, newest first', async () => {
+      const tokenRow = (token: string, familyId: string, createdAt: Date) => ({
+        rows: [
+          {
+            token_value: token,
+            client_id: 'client-uuid',
+            user_id: 'user-id',
+            scopes: ['openid', 'offline_access'],
+            expires_at: new Date(Date.now() + 60000),
+            created_at: createdAt,
+            family_id: familyId,
+          },
+        ],
+      })
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [{ token_value: 'token-1' }, { token_value: 'token-2' }],
+        })
+        .mockResolvedValueOnce(
+          tokenRow('token-1', 'family-1', new Date(Date.now() - 60000)),
+        )
+        .mockResolvedValueOnce(tokenRow('token-2', 'family-2', new Date()))
+
+      const tokens = await listRefreshTokensByUser('user-id', 'client-uuid')
+
+      expect(tokens.map((token) => token.family_id)).toEqual([
+        'family-2',
+        'family-1',
+      ])
+    })
+  })
+
   describe('revokeRefreshToken', () => {
     it('should return false when token not found', async () => {
       mockExecute.mockResolvedValueOnce({ rows: [] })
@@ -241,6 +685,10 @@ describe('Refresh Token Storage', () => {
       const result = await revokeRefreshToken('valid-token', 'client-uuid')
 
       expect(result).toBe(true)
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.refresh_tokens '),
+        ['valid-token'],
+      )
 
       mockExecute.mockReset()
       mockExecute.mockResolvedValueOnce({ rows: [] })
@@ -252,6 +700,50 @@ describe('Refresh Token Storage', () => {
 
       expect(consumeResult).toBeNull()
     })
+
+    it('should revoke the rest of the token family', async () => {
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              token_value: 'current-token',
+              client_id: 'client-uuid',
+              user_id: 'user-id',
+              scopes: ['openid', 'offline_access'],
+              expires_at: new Date(Date.now() + 86400000),
+              created_at: new Date(),
+              family_id: 'family-1',
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              token_value: 'consumed-token',
+              user_id: 'user-id',
+              client_id: 'client-uuid',
+            },
+            {
+              token_value: 'current-token',
+              user_id: 'user-id',
+              client_id: 'client-uuid',
+            },
+          ],
+        })
+        .mockResolvedValue(undefined)
+
+      const result = await revokeRefreshToken('current-token', 'client-uuid')
+
+      expect(result).toBe(true)
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.refresh_tokens '),
+        ['consumed-token'],
+      )
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('refresh_tokens_by_family WHERE family_id'),
+        ['family-1'],
+      )
+    })
   })
 
   describe('revokeRefreshTokensByUser', () => {
@@ -270,7 +762,7 @@ describe('Refresh Token Storage', () => {
         .mockResolvedValueOnce({
           rows: [{ token_value: 'token-1' }, { token_value: 'token-2' }],
         })
-        .mockResolvedValue(undefined)
+        .mockResolvedValue({ rows: [] })
 
       const count = await revokeRefreshTokensByUser('client-uuid', 'user-id')
 
@@ -282,7 +774,7 @@ describe('Refresh Token Storage', () => {
         .mockResolvedValueOnce({
           rows: [{ token_value: 'revoked-token' }],
         })
-        .mockResolvedValue(undefined)
+        .mockResolvedValue({ rows: [] })
 
       const count = await revokeRefreshTokensByUser('client-uuid', 'user-id')
 
@@ -295,5 +787,42 @@ describe('Refresh Token Storage', () => {
 
       expect(result).toBeNull()
     })
+
+    it('should revoke consumed tokens along with their family', async () => {
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [{ token_value: 'current-token' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [{ family_id: 'family-1' }],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              token_value: 'consumed-token',
+              user_id: 'user-id',
+              client_id: 'client-uuid',
+            },
+            {
+              token_value: 'current-token',
+              user_id: 'user-id',
+              client_id: 'client-uuid',
+            },
+          ],
+        })
+        .mockResolvedValue(undefined)
+
+      const count = await revokeRefreshTokensByUser('client-uuid', 'user-id')
+
+      expect(count).toBe(2)
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.refresh_tokens '),
+        ['consumed-token'],
+      )
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('refresh_tokens_by_family WHERE family_id'),
+        ['family-1'],
+      )
+    })
   })
 })
@@ -0,0 +1,294 @@
+import { generateKeyPairSync, randomUUID } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
+import type { Client } from '../../clients/types/client.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import { resolveRequestObject } from '../request-object.ts'
+
+vi.mock('../../clients/service.ts', () => ({
+  getClientById: vi.fn(),
+  recordRequestObjectJti: vi.fn(),
+}))
+
+const clientKeys = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const otherKeys = generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+const client: Client = {
+  id: 'client-123',
+  name: 'Partner',
+  redirectUris: ['https://partner.example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'profile'],
+  tokenEndpointAuthMethod: 'client_secret_basic',
+  jwks: {
+    keys: [
+      { ...clientKeys.publicKey.export({ format: 'jwk' }), kid: 'partner-1' },
+    ],
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const signRequestObject = (
+  claims: Record<string, unknown>,
+  privateKey = clientKeys.privateKey,
+  kid = 'partner-1',
+) => {
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt(
+    {
+      iss: 'client-123',
+      aud: 'http://localhost:3000',
+      iat: now,
+      exp: now + 300,
+      jti: randomUUID(),
+      ...claims,
+    },
+    privateKey,
+    'RS256',
+    kid,
+  )
+}
+
+describe('Request Objects', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    vi.clearAllMocks()
+    vi.mocked(clientService.getClientById).mockResolvedValue(client)
+    vi.mocked(clientService.recordRequestObjectJti).mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    vi.restoreAllMocks()
+  })
+
+  it('should pass parameters through when there is no request object', async () => {
+    const params = { client_id: 'client-123', scope: 'openid' }
+
+    expect(await resolveRequestObject(params)).toEqual({
+      isValid: true,
+      params,
+      isSigned: false,
+    })
+    expect(clientService.getClientById).not.toHaveBeenCalled()
+  })
+
+  it('should use only the verified claims as parameters', async () => {
+    const request = signRequestObject({
+      client_id: 'client-123',
+      response_type: 'code',
+      redirect_uri: 'https://partner.example.com/callback',
+      scope: 'openid profile',
+      state: 'signed-state',
+      max_age: 300,
+    })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      response_type: 'code',
+      scope: 'openid',
+      state: 'query-state',
+      request,
+    })
+
+    expect(result).toEqual({
+      isValid: true,
+      isSigned: true,
+      params: {
+        client_id: 'client-123',
+        response_type: 'code',
+        redirect_uri: 'https://partner.example.com/callback',
+        scope: 'openid profile',
+        state: 'signed-state',
+        max_age: '300',
+      },
+    })
+  })
+
+  it('should ignore parameters the signer left out', async () => {
+    const request = signRequestObject({
+      response_type: 'code',
+      redirect_uri: 'https://partner.example.com/callback',
+      scope: 'openid',
+    })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      nonce: 'injected-nonce',
+      code_challenge: 'injected-challenge',
+      claims: '{"id_token":{"email":null}}',
+      request,
+    })
+
+    expect(result.isValid).toBe(true)
+    if (result.isValid) {
+      expect(result.params).toEqual({
+        client_id: 'client-123',
+        response_type: 'code',
+        redirect_uri: 'https://partner.example.com/callback',
+        scope: 'openid',
+      })
+    }
+  })
+
+  it('should record the jti until the request object expires', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 300
+    const request = signRequestObject({ jti: 'request-jti', exp })
+
+    await resolveRequestObject({ client_id: 'client-123', request })
+
+    expect(clientService.recordRequestObjectJti).toHaveBeenCalledWith(
+      'client-123',
+      'request-jti',
+      new Date(exp * 1000),
+    )
+  })
+
+  it('should reject a replayed request object', async () => {
+    vi.mocked(clientService.recordRequestObjectJti).mockResolvedValue(false)
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request: signRequestObject({}),
+    })
+
+    expect(result).toEqual({
+      isValid: false,
+      errorDescription: 'Request object has already been used',
+    })
+  })
+
+  it('should reject a request object without a jti', async () => {
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request: signRequestObject({ jti: undefined }),
+    })
+
+    expect(result.isValid).toBe(false)
+    expect(clientService.recordRequestObjectJti).not.toHaveBeenCalled()
+  })
+
+  it('should reject a request object valid for more than 60 minutes', async () => {
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request: signRequestObject({
+        exp: Math.floor(Date.now() / 1000) + 2 * 60 * 60,
+      }),
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should pass a claims object on as a JSON string', async () => {
+    const claims = { userinfo: { phone_number: { essential: true } } }
+    const request = signRequestObject({ client_id: 'client-123', claims })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(true)
+    if (result.isValid) {
+      expect(result.params.claims).toBe(JSON.stringify(claims))
+    }
+  })
+
+  it('should reject a request object signed with an unregistered key', async () => {
+    const request = signRequestObject({}, otherKeys.privateKey)
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should reject a request object with an unknown kid', async () => {
+    const request = signRequestObject({}, clientKeys.privateKey, 'unknown')
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should reject a request object issued by another client', async () => {
+    const request = signRequestObject({ iss: 'client-456' })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should reject a request object for another audience', async () => {
+    const request = signRequestObject({ aud: 'https://other.example.com' })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should reject an expired request object', async () => {
+    const request = signRequestObject({
+      exp: Math.floor(Date.now() / 1000) - 60,
+    })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should reject HMAC-signed request objects', async () => {
+    const request = signJwt(
+      { iss: 'client-123', aud: 'http://localhost:3000' },
+      'shared-secret',
+      'HS256',
+    )
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request,
+    })
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it('should reject request objects from clients without registered keys', async () => {
+    vi.mocked(clientService.getClientById).mockResolvedValue({
+      ...client,
+      jwks: undefined,
+    })
+
+    const result = await resolveRequestObject({
+      client_id: 'client-123',
+      request: signRequestObject({}),
+    })
+
+    expect(result).toEqual({
+      isValid: false,
+      errorDescription: 'Client has no registered keys for request objects',
+    })
+  })
+})
@@ -2,6 +2,9 @@ import { Hono } from 'hono'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import * as clientService from '../../clients/service.ts'
 import { clearConfigCache } from '../../oidc/config.ts'
+import * as accessTokenDenylist from '../../tokens/access-token-denylist.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
 import * as refreshTokenStorage from '../refresh-token-storage.ts'
 import { handleRevokeRequest } from '../revoke.ts'
 
@@ -9,6 +12,10 @@ vi.mock('../refresh-token-storage.ts', () => ({
   revokeRefreshToken: vi.fn(),
 }))
 
+vi.mock('../../tokens/access-token-denylist.ts', () => ({
+  revokeAccessToken: vi.fn(),
+}))
+
 vi.mock('../../clients/service.ts', () => ({
   authenticateClient: vi.fn(),
   getClientById: vi.fn(),
@@ -30,6 +37,7 @@ const confidentialClient = {
   id: 'client-123',
   name: 'Test Client',
   redirectUris: ['https://example.com/callback'],
+  postLogoutRedirectUris: [],
   grantTypes: ['authorization_code', 'refresh_token'],
   responseTypes: ['code'],
   scopes: ['openid', 'profile', 'email'],
@@ -38,6 +46,28 @@ const confidentialClient = {
   updatedAt: new Date(),
 }
 
+const signAccessToken = (overrides: Record<string, unknown> = {}): string => {
+  const keyPair = initializeKeys()
+  const now = Math.floor(Date.now() / 1000)
+  return signJwt(
+    {
+      iss: 'http://localhost:3000',
+      sub: 'user-456',
+      aud: 'https://api.example.com',
+      exp: now + 3600,
+      iat: now,
+      scope: 'openid email',
+      client_id: 'client-123',
+      jti: 'access-jti',
+      ...overrides,
+    },
+    keyPair.privateKey,
+    'RS256',
+    keyPair.kid,
+    'at+jwt',
+  )
+}
+
 describe('Revoke Endpoint', () => {
   const originalEnv = process.env
 
@@ -45,6 +75,8 @@ describe('Revoke Endpoint', () => {
     process.env = { ...originalEnv }
     process.env.OIDC_ISSUER = 'http://localhost:3000'
     clearConfigCache()
+    clearKeyStore()
+    initializeKeys()
     vi.clearAllMocks()
 
     vi.mocked(clientService.authenticateClient).mockResolvedValue(
@@ -56,6 +88,7 @@ describe('Revoke Endpoint', () => {
   afterEach(() => {
     process.env = originalEnv
     clearConfigCache()
+    clearKeyStore()
     vi.restoreAllMocks()
   })
 
@@ -184,4 +217,61 @@ describe('Revoke Endpoint', () => {
       'client-123',
     )
   })
+
+  it('should denylist an access token issued to the caller', async () => {
+    const token = signAccessToken()
+
+    const app = createRevokeApp()
+    const res = await app.request('/revoke', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: basicAuth('client-123:secret'),
+      },
+      body: formBody({ token, token_type_hint: 'access_token' }),
+    })
+
+    expect(res.status).toBe(200)
+    expect(accessTokenDenylist.revokeAccessToken).toHaveBeenCalledWith(
+      'access-jti',
+      'client-123',
+      expect.any(Number),
+    )
+    expect(refreshTokenStorage.revokeRefreshToken).not.toHaveBeenCalled()
+  })
+
+  it('should ignore access tokens issued to another client', async () => {
+    const token = signAccessToken({ client_id: 'client-999' })
+
+    const app = createRevokeApp()
+    const res = await app.request('/revoke', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: basicAuth('client-123:secret'),
+      },
+      body: formBody({ token }),
+    })
+
+    expect(res.status).toBe(200)
+    expect(accessTokenDenylist.revokeAccessToken).not.toHaveBeenCalled()
+  })
+
+  it('should ignore access tokens that fail verification', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const token = signAccessToken({ exp: now - 60, iat: now - 3660 })
+
+    const app = createRevokeApp()
+    const res = await app.request('/revoke', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: basicAuth('client-123:secret'),
+      },
+      body: formBody({ token }),
+    })
+
+    expect(res.status).toBe(200)
+    expect(accessTokenDenylist.revokeAccessToken).not.toHaveBeenCalled()
+  })
 })
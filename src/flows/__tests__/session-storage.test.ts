@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientModule from '../../database/client.ts'
+import {
+  createSession,
+  deleteSessionsByUser,
+  getSession,
+  listSessionsByUser,
+  SESSION_IDLE_TIMEOUT_SECONDS,
+  SESSION_MAX_LIFETIME_SECONDS,
+  touchSession,
+} from '../session-storage.ts'
+
+const mockExecute = vi.fn()
+
+vi.mock('../../database/client.ts', () => ({
+  getDatabaseClient: vi.fn(),
+}))
+
+vi.mock('../../database/config.ts', () => ({
+  getDatabaseConfig: vi.fn(() => ({ keyspace: 'jlj2_users' })),
+}))
+
+const sessionRow = (overrides: Record<string, unknown> = {}) => ({
+  session_id: 'session-abc',
+  user_id: 'user-456',
+  auth_time: new Date(1_700_000_000_000),
+  auth_methods: ['pwd'],
+  user_agent: 'Mozilla/5.0',
+  ip_address: '203.0.113.7',
+  last_seen_at: new Date(),
+  expires_at: new Date(Date.now() + 600_000),
+  created_at: new Date(),
+  ...overrides,
+})
+
+describe('Session Storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(clientModule.getDatabaseClient).mockReturnValue({
+      execute: mockExecute,
+    } as never)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('createSession', () => {
+    it('should store the session and index it by user', async () => {
+      mockExecute.mockResolvedValue({ rows: [] })
+
+      const session = await createSession({
+        user_id: 'user-456',
+        auth_methods: ['pwd'],
+        user_agent: 'Mozilla/5.0',
+        ip_address: '203.0.113.7',
+      })
+
+      expect(session.session_id).toMatch(/^[A-Za-z0-9_-]{43}$/)
+      expect(session.auth_methods).toEqual(['pwd'])
+      expect(session.expires_at.getTime() - session.created_at.getTime()).toBe(
+        SESSION_IDLE_TIMEOUT_SECONDS * 1000,
+      )
+      expect(mockExecute).toHaveBeenCalledTimes(2)
+      expect(mockExecute.mock.calls[0][0]).toContain(
+        'INSERT INTO jlj2_users.sessions',
+      )
+      expect(mockExecute.mock.calls[0][0]).toContain(
+        `USING TTL ${SESSION_MAX_LIFETIME_SECONDS}`,
+      )
+      expect(mockExecute.mock.calls[1][0]).toContain('sessions_by_user')
+      expect(mockExecute.mock.calls[1][1]).toEqual([
+        'user-456',
+        session.session_id,
+      ])
+    })
+  })
+
+  describe('getSession', () => {
+    it('should return the session', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [sessionRow()] })
+
+      const session = await getSession('session-abc')
+
+      expect(session?.user_id).toBe('user-456')
+      expect(session?.auth_time).toBe(1_700_000_000)
+    })
+
+    it('should return null for an idle-expired session', async () => {
+      mockExecute.mockResolvedValueOnce({
+        rows: [sessionRow({ expires_at: new Date(Date.now() - 1000) })],
+      })
+
+      expect(await getSession('session-abc')).toBeNull()
+    })
+
+    it('should return null for an unknown session', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [] })
+
+      expect(await getSession('unknown')).toBeNull()
+    })
+  })
+
+  describe('touchSession', () => {
+    it('should not write when the session was just seen', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [sessionRow()] })
+      const session = await getSession('session-abc')
+      mockExecute.mockClear()
+
+      if (!session) throw new Error('expected session')
+      expect(await touchSession(session)).toBe(session)
+      expect(mockExecute).not.toHaveBeenCalled()
+    })
+
+    it('should extend the idle expiry, capped at the absolute lifetime', async () => {
+      const createdAt = new Date(
+        Date.now() - (SESSION_MAX_LIFETIME_SECONDS - 60) * 1000,
+      )
+      mockExecute.mockResolvedValueOnce({
+        rows: [
+          sessionRow({
+            created_at: createdAt,
+            last_seen_at: new Date(Date.now() - 5 * 60 * 1000),
+          }),
+        ],
+      })
+      const session = await getSession('session-abc')
+      mockExecute.mockClear()
+      mockExecute.mockResolvedValueOnce({ rows: [] })
+
+      if (!session) throw new Error('expected session')
+      const touched = await touchSession(session)
+
+      expect(touched.expires_at.getTime()).toBe(
+        createdAt.getTime() + SESSION_MAX_LIFETIME_SECONDS * 1000,
+      )
+      expect(mockExecute.mock.calls[0][0]).toContain(
+        'UPDATE jlj2_users.sessions USING TTL',
+      )
+    })
+  })
+
+  describe('listSessionsByUser', () => {
+    it('should skip expired sessions', async () => {
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [{ session_id: 'session-abc' }, { session_id: 'session-old' }],
+        })
+        .mockResolvedValueOnce({ rows: [sessionRow()] })
+        .mockResolvedValueOnce({ rows: [] })
+
+      const sessions = await listSessionsByUser('user-456')
+
+      expect(sessions.map((s) => s.session_id)).toEqual(['session-abc'])
+    })
+  })
+
+  describe('deleteSessionsByUser', () => {
+    it('should delete every session and the user index', async () => {
+      mockExecute
+        .mockResolvedValueOnce({
+          rows: [{ session_id: 'session-1' }, { session_id: 'session-2' }],
+        })
+        .mockResolvedValue({ rows: [] })
+
+      const count = await deleteSessionsByUser('user-456')
+
+      expect(count).toBe(2)
+      expect(mockExecute).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.sessions WHERE'),
+        ['session-2'],
+      )
+      expect(mockExecute).toHaveBeenLastCalledWith(
+        expect.stringContaining('DELETE FROM jlj2_users.sessions_by_user'),
+        ['user-456'],
+      )
+    })
+  })
+})
@@ -2,10 +2,16 @@ import { Hono } from 'hono'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import * as clientService from '../../clients/service.ts'
 import { clearConfigCache } from '../../oidc/config.ts'
+import * as resourceStorage from '../../resources/storage.ts'
+import * as scopeStorage from '../../scopes/storage.ts'
+import * as subjectStorage from '../../subjects/storage.ts'
+import * as dpop from '../../tokens/dpop.ts'
 import { parseJwt } from '../../tokens/jwt.ts'
 import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
 import * as userService from '../../users/service.ts'
+import * as userStorage from '../../users/storage.ts'
 import * as authorizationCodeStorage from '../authorization-code-storage.ts'
+import * as deviceCodeStorage from '../device-code-storage.ts'
 import { generateCodeChallenge } from '../pkce.ts'
 import * as refreshTokenStorage from '../refresh-token-storage.ts'
 import { handleTokenRequest } from '../token.ts'
@@ -14,20 +20,77 @@ vi.mock('../authorization-code-storage.ts', () => ({
   consumeAuthorizationCode: vi.fn(),
 }))
 
+vi.mock('../device-code-storage.ts', () => ({
+  DEVICE_CODE_SLOW_DOWN_INCREMENT_SECONDS: 5,
+  getDeviceCode: vi.fn(),
+  recordDeviceCodePoll: vi.fn(),
+  deleteDeviceCode: vi.fn(),
+}))
+
 vi.mock('../refresh-token-storage.ts', () => ({
   consumeRefreshToken: vi.fn(),
+  extendRefreshToken: vi.fn(),
   generateRefreshToken: vi.fn(),
+  verifyRefreshToken: vi.fn(),
 }))
 
 vi.mock('../../clients/service.ts', () => ({
   authenticateClient: vi.fn(),
+  authenticateClientAssertion: vi.fn(),
   getClientById: vi.fn(),
 }))
 
+vi.mock('../../resources/storage.ts', () => ({
+  findResource: vi.fn(),
+}))
+
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
+}))
+
+vi.mock('../../subjects/storage.ts', () => ({
+  savePairwiseSubject: vi.fn(),
+  findAccountIdByPairwiseSubject: vi.fn(),
+}))
+
+vi.mock('../../tokens/dpop.ts', async () => {
+  const actual = await vi.importActual('../../tokens/dpop.ts')
+  return {
+    ...actual,
+    validateDpopProof: vi.fn(),
+  }
+})
+
 vi.mock('../../users/service.ts', () => ({
   getUserById: vi.fn(),
 }))
 
+vi.mock('../../users/storage.ts', () => ({
+  findContactMethodsByAccountId: vi.fn(),
+}))
+
+const scopeDefinition = (scope: string, claims: string[]) => ({
+  scope,
+  description: scope,
+  claims,
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const registeredScopes = [
+  scopeDefinition('openid', ['sub']),
+  scopeDefinition('profile', ['name', 'given_name', 'family_name', 'picture']),
+  scopeDefinition('email', [
+    'email',
+    'email_verified',
+    'emails',
+    'phone_numbers',
+  ]),
+  scopeDefinition('phone', ['phone_number', 'phone_number_verified']),
+  scopeDefinition('address', ['address']),
+  scopeDefinition('offline_access', []),
+]
+
 const createTokenApp = () => {
   const app = new Hono()
   app.post('/token', handleTokenRequest)
@@ -44,6 +107,7 @@ const confidentialClient = {
   id: 'client-123',
   name: 'Test Client',
   redirectUris: ['https://example.com/callback'],
+  postLogoutRedirectUris: [],
   grantTypes: ['authorization_code', 'refresh_token'],
   responseTypes: ['code'],
   scopes: ['openid', 'profile', 'email', 'offline_access'],
@@ -80,6 +144,7 @@ describe('Token Endpoint', () => {
       confidentialClient,
     )
     vi.mocked(userService.getUserById).mockResolvedValue(activeUser)
+    vi.mocked(scopeStorage.findAllScopes).mockResolvedValue(registeredScopes)
     vi.mocked(refreshTokenStorage.generateRefreshToken).mockResolvedValue(
       'new-refresh-token',
     )
@@ -132,7 +197,7 @@ describe('Token Endpoint', () => {
           Authorization: basicAuth('client-123:secret'),
         },
         body: formBody({
-          grant_type: 'client_credentials',
+          grant_type: 'password',
           client_id: 'client-123',
         }),
       })
@@ -225,6 +290,9 @@ describe('Token Endpoint', () => {
         expires_at: new Date(Date.now() + 60000),
         created_at: new Date(),
         auth_time: Math.floor(Date.now() / 1000),
+        sid: null,
+        resources: [],
+        claims: null,
       })
 
       const app = createTokenApp()
@@ -262,6 +330,9 @@ describe('Token Endpoint', () => {
         expires_at: new Date(Date.now() + 60000),
         created_at: new Date(),
         auth_time: Math.floor(Date.now() / 1000),
+        sid: null,
+        resources: [],
+        claims: null,
       })
 
       const app = createTokenApp()
@@ -297,6 +368,97 @@ describe('Token Endpoint', () => {
       )
     })
 
+    it('should include the session id as the sid claim', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({
+        code: 'auth-code',
+        client_id: 'client-123',
+        redirect_uri: 'https://example.com/callback',
+        scopes: ['openid'],
+        user_id: 'user-456',
+        code_challenge: null,
+        code_challenge_method: null,
+        nonce: null,
+        expires_at: new Date(Date.now() + 60000),
+        created_at: new Date(),
+        auth_time: Math.floor(Date.now() / 1000),
+        sid: 'session-abc',
+        resources: [],
+        claims: null,
+      })
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({
+          grant_type: 'authorization_code',
+          code: 'auth-code',
+          redirect_uri: 'https://example.com/callback',
+        }),
+      })
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(parseJwt(body.id_token as string).payload.sid).toBe('session-abc')
+    })
+
+    it('should issue the pairwise sub to pairwise clients', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue({
+        ...confidentialClient,
+        subjectType: 'pairwise',
+      })
+      process.env.OIDC_PAIRWISE_SUBJECT_SECRET =
+        'pairwise-secret-0123456789abcdefghij'
+      clearConfigCache()
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({
+        code: 'auth-code',
+        client_id: 'client-123',
+        redirect_uri: 'https://example.com/callback',
+        scopes: ['openid'],
+        user_id: 'user-456',
+        code_challenge: null,
+        code_challenge_method: null,
+        nonce: null,
+        expires_at: new Date(Date.now() + 60000),
+        created_at: new Date(),
+        auth_time: Math.floor(Date.now() / 1000),
+        sid: null,
+        resources: [],
+        claims: null,
+      })
+
+      const res = await createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({
+          grant_type: 'authorization_code',
+          code: 'auth-code',
+          redirect_uri: 'https://example.com/callback',
+        }),
+      })
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      const sub = parseJwt(body.id_token as string).payload.sub
+      expect(sub).not.toBe('user-456')
+      expect(parseJwt(body.access_token as string).payload.sub).toBe(sub)
+      expect(subjectStorage.savePairwiseSubject).toHaveBeenCalledWith(
+        'example.com',
+        sub,
+        'user-456',
+      )
+    })
+
     it('should return refresh_token when offline_access scope granted', async () => {
       const authTime = Math.floor(Date.now() / 1000)
       vi.mocked(
@@ -313,6 +475,9 @@ describe('Token Endpoint', () => {
         expires_at: new Date(Date.now() + 60000),
         created_at: new Date(),
         auth_time: authTime,
+        sid: null,
+        resources: [],
+        claims: null,
       })
 
       const app = createTokenApp()
@@ -360,6 +525,9 @@ describe('Token Endpoint', () => {
         expires_at: new Date(Date.now() + 60000),
         created_at: new Date(),
         auth_time: Math.floor(Date.now() / 1000),
+        sid: null,
+        resources: [],
+        claims: null,
       })
 
       const app = createTokenApp()
@@ -456,6 +624,13 @@ describe('Token Endpoint', () => {
         expires_at: new Date(Date.now() + 86400000),
         created_at: new Date(),
         auth_time: originalAuthTime,
+        sid: null,
+        dpop_jkt: null,
+        resources: [],
+        claims: null,
+        family_id: 'family-abc',
+        consumed_at: null,
+        absolute_expires_at: null,
       })
 
       const app = createTokenApp()
@@ -481,6 +656,9 @@ describe('Token Endpoint', () => {
 
       const idTokenPayload = parseJwt(body.id_token as string).payload
       expect(idTokenPayload.auth_time).toBe(originalAuthTime)
+      expect(refreshTokenStorage.generateRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ family_id: 'family-abc' }),
+      )
     })
 
     it('should use created_at as auth_time when refresh token has no auth_time (legacy token)', async () => {
@@ -493,6 +671,13 @@ describe('Token Endpoint', () => {
         expires_at: new Date(Date.now() + 86400000),
         created_at: createdDate,
         auth_time: null,
+        sid: null,
+        dpop_jkt: null,
+        resources: [],
+        claims: null,
+        family_id: 'family-abc',
+        consumed_at: null,
+        absolute_expires_at: null,
       })
 
       const app = createTokenApp()
@@ -515,4 +700,919 @@ describe('Token Endpoint', () => {
       expect(idTokenPayload.auth_time).toBe(expectedAuthTime)
     })
   })
+
+  describe('client_credentials grant', () => {
+    const machineClient = {
+      ...confidentialClient,
+      grantTypes: ['client_credentials'],
+      scopes: ['openid', 'profile', 'email'],
+    }
+
+    it('should return 200 with an access token that has no sub', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue(
+        machineClient,
+      )
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({ grant_type: 'client_credentials' }),
+      })
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.token_type).toBe('Bearer')
+      expect(body.expires_in).toBe(3600)
+      expect(body.scope).toBe('profile email')
+      expect(body.id_token).toBeUndefined()
+      expect(body.refresh_token).toBeUndefined()
+
+      const payload = parseJwt(body.access_token as string).payload
+      expect(payload.sub).toBeUndefined()
+      expect(payload.client_id).toBe('client-123')
+      expect(payload.scope).toBe('profile email')
+      expect(userService.getUserById).not.toHaveBeenCalled()
+    })
+
+    it('should authenticate the client by a JWT assertion', async () => {
+      vi.mocked(clientService.authenticateClientAssertion).mockResolvedValue({
+        ...machineClient,
+        tokenEndpointAuthMethod: 'private_key_jwt',
+      })
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: formBody({
+          grant_type: 'client_credentials',
+          client_assertion_type:
+            'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+          client_assertion: 'signed-assertion',
+        }),
+      })
+
+      expect(res.status).toBe(200)
+      expect(clientService.authenticateClientAssertion).toHaveBeenCalledWith(
+        'signed-assertion',
+        [
+          'http://localhost:3000',
+          'http://localhost:3000/token',
+          'http://localhost:3000/token',
+        ],
+      )
+      expect(clientService.authenticateClient).not.toHaveBeenCalled()
+    })
+
+    it('should return 401 for an invalid or replayed client assertion', async () => {
+      vi.mocked(clientService.authenticateClientAssertion).mockResolvedValue(
+        null,
+      )
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: formBody({
+          grant_type: 'client_credentials',
+          client_assertion_type:
+            'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+          client_assertion: 'replayed-assertion',
+        }),
+      })
+
+      expect(res.status).toBe(401)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_client')
+    })
+
+    it('should reject a request that uses two client authentication methods', async () => {
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({
+          grant_type: 'client_credentials',
+          client_assertion_type:
+            'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+          client_assertion: 'signed-assertion',
+        }),
+      })
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_request')
+    })
+
+    it('should limit the token to the requested subset of registered scopes', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue(
+        machineClient,
+      )
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({ grant_type: 'client_credentials', scope: 'email' }),
+      })
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.scope).toBe('email')
+    })
+
+    it('should return 400 invalid_scope for scopes the client is not registered for', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue(
+        machineClient,
+      )
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({
+          grant_type: 'client_credentials',
+          scope: 'email offline_access',
+        }),
+      })
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_scope')
+      expect(body.error_description).toContain('offline_access')
+    })
+
+    it('should return 400 unauthorized_client when grant is not registered', async () => {
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({ grant_type: 'client_credentials' }),
+      })
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('unauthorized_client')
+    })
+
+    it('should return 401 when client does not authenticate', async () => {
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: formBody({
+          grant_type: 'client_credentials',
+          client_id: 'client-123',
+        }),
+      })
+
+      expect(res.status).toBe(401)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_client')
+      expect(clientService.getClientById).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('device_code grant', () => {
+    const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code'
+
+    const deviceClient = {
+      ...confidentialClient,
+      id: 'device-client',
+      grantTypes: [DEVICE_CODE_GRANT, 'refresh_token'],
+      tokenEndpointAuthMethod: 'none' as const,
+    }
+
+    const storedDeviceCode = {
+      device_code: 'device-code-abc',
+      user_code: 'BCDFGHJK',
+      client_id: 'device-client',
+      scopes: ['openid', 'email', 'offline_access'],
+      status: 'pending' as const,
+      user_id: null,
+      auth_time: null,
+      interval: 5,
+      last_polled_at: null,
+      expires_at: new Date(Date.now() + 600_000),
+      created_at: new Date(),
+    }
+
+    const pollDeviceToken = () =>
+      createTokenApp().request('/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: formBody({
+          grant_type: DEVICE_CODE_GRANT,
+          client_id: 'device-client',
+          device_code: 'device-code-abc',
+        }),
+      })
+
+    beforeEach(() => {
+      vi.mocked(clientService.getClientById).mockResolvedValue(deviceClient)
+      vi.mocked(deviceCodeStorage.deleteDeviceCode).mockResolvedValue(true)
+    })
+
+    it('should return authorization_pending while the user has not responded', async () => {
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue(
+        storedDeviceCode,
+      )
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('authorization_pending')
+      expect(deviceCodeStorage.recordDeviceCodePoll).toHaveBeenCalledWith(
+        storedDeviceCode,
+        5,
+      )
+    })
+
+    it('should return slow_down and raise the interval when polling too fast', async () => {
+      const recentlyPolled = {
+        ...storedDeviceCode,
+        last_polled_at: new Date(Date.now() - 1000),
+      }
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue(
+        recentlyPolled,
+      )
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('slow_down')
+      expect(deviceCodeStorage.recordDeviceCodePoll).toHaveBeenCalledWith(
+        recentlyPolled,
+        10,
+      )
+    })
+
+    it('should return access_denied when the user denied the request', async () => {
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue({
+        ...storedDeviceCode,
+        status: 'denied',
+      })
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('access_denied')
+      expect(deviceCodeStorage.deleteDeviceCode).toHaveBeenCalled()
+    })
+
+    it('should return expired_token after the device_code expires', async () => {
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue({
+        ...storedDeviceCode,
+        expires_at: new Date(Date.now() - 1000),
+      })
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('expired_token')
+    })
+
+    it('should return invalid_grant for a device_code issued to another client', async () => {
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue({
+        ...storedDeviceCode,
+        client_id: 'other-client',
+      })
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_grant')
+    })
+
+    it('should issue tokens once the user approves', async () => {
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue({
+        ...storedDeviceCode,
+        status: 'approved',
+        user_id: 'user-456',
+        auth_time: 1_700_000_000,
+      })
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.token_type).toBe('Bearer')
+      expect(body.scope).toBe('openid email offline_access')
+      expect(body.refresh_token).toBe('new-refresh-token')
+      expect(deviceCodeStorage.deleteDeviceCode).toHaveBeenCalledWith(
+        expect.objectContaining({ device_code: 'device-code-abc' }),
+        'approved',
+      )
+
+      const idToken = parseJwt(body.id_token as string).payload
+      expect(idToken.sub).toBe('user-456')
+      expect(idToken.aud).toBe('device-client')
+      expect(idToken.auth_time).toBe(1_700_000_000)
+      expect(idToken.email).toBe('user@example.com')
+    })
+
+    it('should return invalid_grant when an approved code was already exchanged', async () => {
+      vi.mocked(deviceCodeStorage.getDeviceCode).mockResolvedValue({
+        ...storedDeviceCode,
+        status: 'approved',
+        user_id: 'user-456',
+        auth_time: 1_700_000_000,
+      })
+      vi.mocked(deviceCodeStorage.deleteDeviceCode).mockResolvedValue(false)
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_grant')
+    })
+
+    it('should return 400 unauthorized_client when the client lacks the grant', async () => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        ...deviceClient,
+        grantTypes: ['authorization_code'],
+      })
+
+      const res = await pollDeviceToken()
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('unauthorized_client')
+    })
+  })
+
+  describe('DPoP', () => {
+    const publicClient = {
+      ...confidentialClient,
+      tokenEndpointAuthMethod: 'none' as const,
+    }
+
+    const refreshTokenData = {
+      token: 'old-refresh-token',
+      client_id: 'client-123',
+      user_id: 'user-456',
+      scopes: ['openid', 'offline_access'],
+      expires_at: new Date(Date.now() + 86400000),
+      created_at: new Date(),
+      auth_time: null,
+      sid: null,
+      dpop_jkt: 'key-thumbprint',
+      resources: [],
+      claims: null,
+      family_id: 'family-abc',
+      consumed_at: null,
+      absolute_expires_at: null,
+    }
+
+    const refreshAsPublicClient = (headers: Record<string, string> = {}) =>
+      createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...headers,
+        },
+        body: formBody({
+          grant_type: 'refresh_token',
+          client_id: 'client-123',
+          refresh_token: 'old-refresh-token',
+        }),
+      })
+
+    beforeEach(() => {
+      vi.mocked(dpop.validateDpopProof).mockResolvedValue({
+        isValid: true,
+        jkt: 'key-thumbprint',
+      })
+    })
+
+    it('should bind the access token to the proof key', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue({
+        ...confidentialClient,
+        grantTypes: ['client_credentials'],
+      })
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+          DPoP: 'proof',
+        },
+        body: formBody({ grant_type: 'client_credentials' }),
+      })
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.token_type).toBe('DPoP')
+      const payload = parseJwt(body.access_token as string).payload
+      expect(payload.cnf).toEqual({ jkt: 'key-thumbprint' })
+      expect(dpop.validateDpopProof).toHaveBeenCalledWith('proof', {
+        method: 'POST',
+        url: 'http://localhost:3000/token',
+      })
+    })
+
+    it('should return invalid_dpop_proof for an invalid proof', async () => {
+      vi.mocked(dpop.validateDpopProof).mockResolvedValue({
+        isValid: false,
+        errorDescription: 'DPoP proof has already been used',
+      })
+
+      const app = createTokenApp()
+      const res = await app.request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+          DPoP: 'replayed-proof',
+        },
+        body: formBody({ grant_type: 'client_credentials' }),
+      })
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_dpop_proof')
+    })
+
+    it('should bind refresh tokens issued to public clients', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue(null)
+      vi.mocked(clientService.getClientById).mockResolvedValue(publicClient)
+      vi.mocked(refreshTokenStorage.consumeRefreshToken).mockResolvedValue(
+        refreshTokenData,
+      )
+
+      const res = await refreshAsPublicClient({ DPoP: 'proof' })
+
+      expect(res.status).toBe(200)
+      expect(refreshTokenStorage.consumeRefreshToken).toHaveBeenCalledWith(
+        'old-refresh-token',
+        'client-123',
+        'key-thumbprint',
+      )
+      expect(refreshTokenStorage.generateRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ dpop_jkt: 'key-thumbprint' }),
+      )
+    })
+
+    it('should not bind refresh tokens issued to confidential clients', async () => {
+      vi.mocked(refreshTokenStorage.consumeRefreshToken).mockResolvedValue({
+        ...refreshTokenData,
+        dpop_jkt: null,
+        resources: [],
+        claims: null,
+        family_id: 'family-abc',
+        consumed_at: null,
+        absolute_expires_at: null,
+      })
+
+      const res = await createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+          DPoP: 'proof',
+        },
+        body: formBody({
+          grant_type: 'refresh_token',
+          refresh_token: 'old-refresh-token',
+        }),
+      })
+
+      expect(res.status).toBe(200)
+      expect(refreshTokenStorage.generateRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ dpop_jkt: null }),
+      )
+    })
+
+    it('should reject an unbound refresh token from a public client', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue(null)
+      vi.mocked(clientService.getClientById).mockResolvedValue(publicClient)
+      vi.mocked(refreshTokenStorage.consumeRefreshToken).mockResolvedValue({
+        ...refreshTokenData,
+        dpop_jkt: null,
+        resources: [],
+        claims: null,
+        family_id: 'family-abc',
+        consumed_at: null,
+        absolute_expires_at: null,
+      })
+
+      const res = await refreshAsPublicClient({ DPoP: 'proof' })
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_grant')
+    })
+  })
+
+  describe('resource indicators', () => {
+    const ordersApi = {
+      resource: 'https://orders.example.com',
+      resource_name: 'Orders API',
+      scopes: ['profile', 'offline_access'],
+      created_at: new Date(),
+      updated_at: new Date(),
+    }
+
+    const codeData = {
+      code: 'auth-code',
+      client_id: 'client-123',
+      redirect_uri: 'https://example.com/callback',
+      scopes: ['openid', 'profile', 'offline_access'],
+      user_id: 'user-456',
+      code_challenge: null,
+      code_challenge_method: null,
+      nonce: null,
+      expires_at: new Date(Date.now() + 60000),
+      created_at: new Date(),
+      auth_time: Math.floor(Date.now() / 1000),
+      sid: null,
+      resources: ['https://orders.example.com'],
+      claims: null,
+    }
+
+    const exchangeCode = (extra: [string, string][] = []) =>
+      createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: new URLSearchParams([
+          ['grant_type', 'authorization_code'],
+          ['code', 'auth-code'],
+          ['redirect_uri', 'https://example.com/callback'],
+          ...extra,
+        ]).toString(),
+      })
+
+    beforeEach(() => {
+      vi.mocked(resourceStorage.findResource).mockImplementation(
+        async (resource) =>
+          resource === ordersApi.resource
+            ? ordersApi
+            : resource === 'https://billing.example.com'
+              ? {
+                  ...ordersApi,
+                  resource,
+                  resource_name: 'Billing API',
+                  scopes: ['email'],
+                }
+              : null,
+      )
+    })
+
+    it('should issue an at+jwt for the default audience when no resource is given', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({ ...codeData, resources: [] })
+
+      const res = await exchangeCode()
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      const { header, payload } = parseJwt(body.access_token as string)
+      expect(header.typ).toBe('at+jwt')
+      expect(payload.aud).toBe('jlj-squared-development')
+      expect(payload.scope).toBe('openid profile offline_access')
+      expect(resourceStorage.findResource).not.toHaveBeenCalled()
+    })
+
+    it('should use OIDC_DEFAULT_AUDIENCE as the fallback audience', async () => {
+      process.env.OIDC_DEFAULT_AUDIENCE = 'https://api.example.com'
+      clearConfigCache()
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({ ...codeData, resources: [] })
+
+      const res = await exchangeCode()
+
+      const body = (await res.json()) as Record<string, unknown>
+      expect(parseJwt(body.access_token as string).payload.aud).toBe(
+        'https://api.example.com',
+      )
+    })
+
+    it('should issue the token for the authorized resource with its scopes', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue(codeData)
+
+      const res = await exchangeCode()
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.scope).toBe('profile offline_access')
+      const payload = parseJwt(body.access_token as string).payload
+      expect(payload.aud).toBe('https://orders.example.com')
+      expect(payload.scope).toBe('profile offline_access')
+      expect(parseJwt(body.id_token as string).payload.aud).toBe('client-123')
+      expect(refreshTokenStorage.generateRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          scopes: ['openid', 'profile', 'offline_access'],
+          resources: ['https://orders.example.com'],
+        }),
+      )
+    })
+
+    it('should reject a resource the grant was not authorized for', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue(codeData)
+
+      const res = await exchangeCode([
+        ['resource', 'https://billing.example.com'],
+      ])
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_target')
+    })
+
+    it('should reject an unregistered resource', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({ ...codeData, resources: [] })
+
+      const res = await exchangeCode([
+        ['resource', 'https://unknown.example.com'],
+      ])
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_target')
+    })
+
+    it('should reject a resource that allows none of the granted scopes', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({ ...codeData, resources: [] })
+
+      const res = await exchangeCode([
+        ['resource', 'https://billing.example.com'],
+      ])
+
+      expect(res.status).toBe(400)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.error).toBe('invalid_scope')
+    })
+
+    it('should accept repeated resource parameters for client_credentials', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue({
+        ...confidentialClient,
+        grantTypes: ['client_credentials'],
+        scopes: ['profile', 'email'],
+      })
+
+      const res = await createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: new URLSearchParams([
+          ['grant_type', 'client_credentials'],
+          ['resource', 'https://orders.example.com'],
+          ['resource', 'https://billing.example.com'],
+        ]).toString(),
+      })
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      const payload = parseJwt(body.access_token as string).payload
+      expect(payload.aud).toEqual([
+        'https://orders.example.com',
+        'https://billing.example.com',
+      ])
+      expect(payload.scope).toBe('profile email')
+    })
+  })
+
+  describe('claims request', () => {
+    const codeData = {
+      code: 'auth-code',
+      client_id: 'client-123',
+      redirect_uri: 'https://example.com/callback',
+      scopes: ['openid', 'email', 'offline_access'],
+      user_id: 'user-456',
+      code_challenge: null,
+      code_challenge_method: null,
+      nonce: null,
+      expires_at: new Date(Date.now() + 60000),
+      created_at: new Date(),
+      auth_time: Math.floor(Date.now() / 1000),
+      sid: null,
+      resources: [],
+      claims: JSON.stringify({
+        id_token: { phone_number: { essential: true } },
+        userinfo: { address: null },
+      }),
+    }
+
+    const exchangeCode = () =>
+      createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({
+          grant_type: 'authorization_code',
+          code: 'auth-code',
+          redirect_uri: 'https://example.com/callback',
+        }),
+      })
+
+    beforeEach(() => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue(codeData)
+      vi.mocked(userStorage.findContactMethodsByAccountId).mockResolvedValue([
+        {
+          account_id: 'user-456',
+          contact_id: 'contact-1',
+          contact_type: 'phone',
+          contact_value: '+15551234567',
+          is_primary: true,
+          verified_at: new Date(),
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+      ])
+    })
+
+    it('should add claims requested for the ID token to the scope claims', async () => {
+      const res = await exchangeCode()
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      const { payload } = parseJwt(body.id_token as string)
+      expect(payload.email).toBe('user@example.com')
+      expect(payload.phone_number).toBe('+15551234567')
+      expect(payload.address).toBeUndefined()
+    })
+
+    it('should keep the multi-valued email scope claims out of the ID token', async () => {
+      const res = await exchangeCode()
+
+      const body = (await res.json()) as Record<string, unknown>
+      const { payload } = parseJwt(body.id_token as string)
+      expect(payload.emails).toBeUndefined()
+      expect(payload.phone_numbers).toBeUndefined()
+    })
+
+    it('should carry the userinfo claims in the access token', async () => {
+      const res = await exchangeCode()
+
+      const body = (await res.json()) as Record<string, unknown>
+      const { payload } = parseJwt(body.access_token as string)
+      expect(payload.claims).toEqual({ userinfo: { address: null } })
+    })
+
+    it('should store the claims request with the refresh token', async () => {
+      await exchangeCode()
+
+      expect(refreshTokenStorage.generateRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ claims: codeData.claims }),
+      )
+    })
+
+    it('should omit the claims claim from access tokens without a userinfo request', async () => {
+      vi.mocked(
+        authorizationCodeStorage.consumeAuthorizationCode,
+      ).mockResolvedValue({ ...codeData, claims: null })
+
+      const res = await exchangeCode()
+
+      const body = (await res.json()) as Record<string, unknown>
+      const { payload } = parseJwt(body.access_token as string)
+      expect(payload.claims).toBeUndefined()
+    })
+  })
+
+  describe('per-client token policy', () => {
+    const storedRefreshToken = {
+      token: 'old-refresh-token',
+      client_id: 'client-123',
+      user_id: 'user-456',
+      scopes: ['openid', 'offline_access'],
+      expires_at: new Date(Date.now() + 86400000),
+      created_at: new Date(),
+      auth_time: null,
+      sid: null,
+      dpop_jkt: null,
+      resources: [],
+      claims: null,
+      family_id: 'family-abc',
+      consumed_at: null,
+      absolute_expires_at: new Date(Date.now() + 2 * 86400000),
+    }
+
+    const refresh = () =>
+      createTokenApp().request('/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: basicAuth('client-123:secret'),
+        },
+        body: formBody({
+          grant_type: 'refresh_token',
+          refresh_token: 'old-refresh-token',
+        }),
+      })
+
+    it('should sign access and ID tokens with the client lifetimes', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue({
+        ...confidentialClient,
+        accessTokenLifetimeSeconds: 600,
+        idTokenLifetimeSeconds: 300,
+      })
+      vi.mocked(refreshTokenStorage.consumeRefreshToken).mockResolvedValue(
+        storedRefreshToken,
+      )
+
+      const res = await refresh()
+
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.expires_in).toBe(600)
+      const accessToken = parseJwt(body.access_token as string).payload
+      expect((accessToken.exp as number) - (accessToken.iat as number)).toBe(
+        600,
+      )
+      const idToken = parseJwt(body.id_token as string).payload
+      expect((idToken.exp as number) - (idToken.iat as number)).toBe(300)
+    })
+
+    it('should keep the family absolute expiry and apply the idle timeout on rotation', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue({
+        ...confidentialClient,
+        refreshTokenIdleTimeoutSeconds: 3600,
+      })
+      vi.mocked(refreshTokenStorage.consumeRefreshToken).mockResolvedValue(
+        storedRefreshToken,
+      )
+
+      const before = Date.now()
+      await refresh()
+
+      const input = vi.mocked(refreshTokenStorage.generateRefreshToken).mock
+        .calls[0][0]
+      expect(input.absolute_expires_at).toEqual(
+        storedRefreshToken.absolute_expires_at,
+      )
+      expect(input.expires_at.getTime()).toBeGreaterThanOrEqual(
+        before + 3600 * 1000,
+      )
+      expect(input.expires_at.getTime()).toBeLessThan(
+        storedRefreshToken.absolute_expires_at.getTime(),
+      )
+    })
+
+    it('should keep and extend the refresh token when rotation is disabled', async () => {
+      vi.mocked(clientService.authenticateClient).mockResolvedValue({
+        ...confidentialClient,
+        refreshTokenIdleTimeoutSeconds: 3600,
+        isRefreshTokenRotationDisabled: true,
+      })
+      vi.mocked(refreshTokenStorage.verifyRefreshToken).mockResolvedValue(
+        storedRefreshToken,
+      )
+
+      const res = await refresh()
+
+      expect(res.status).toBe(200)
+      const body = (await res.json()) as Record<string, unknown>
+      expect(body.access_token).toBeDefined()
+      expect(body.refresh_token).toBeUndefined()
+      expect(refreshTokenStorage.consumeRefreshToken).not.toHaveBeenCalled()
+      expect(refreshTokenStorage.generateRefreshToken).not.toHaveBeenCalled()
+      expect(refreshTokenStorage.extendRefreshToken).toHaveBeenCalledWith(
+        storedRefreshToken,
+        expect.any(Date),
+        storedRefreshToken.absolute_expires_at,
+      )
+    })
+  })
 })
@@ -1,13 +1,33 @@
 import { Hono } from 'hono'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientService from '../../clients/service.ts'
 import { requireAccessToken } from '../../middleware/require-access-token.ts'
 import { clearConfigCache, getOidcConfig } from '../../oidc/config.ts'
+import * as scopeStorage from '../../scopes/storage.ts'
+import * as subjectStorage from '../../subjects/storage.ts'
+import * as accessTokenDenylist from '../../tokens/access-token-denylist.ts'
 import { signJwt } from '../../tokens/jwt.ts'
 import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
 import * as userService from '../../users/service.ts'
 import * as userStorage from '../../users/storage.ts'
 import { handleUserInfo } from '../userinfo.ts'
 
+vi.mock('../../clients/service.ts', () => ({
+  getClientById: vi.fn(),
+}))
+
+vi.mock('../../subjects/storage.ts', () => ({
+  findAccountIdByPairwiseSubject: vi.fn(),
+}))
+
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
+}))
+
+vi.mock('../../tokens/access-token-denylist.ts', () => ({
+  isAccessTokenRevoked: vi.fn(),
+}))
+
 vi.mock('../../users/service.ts', () => ({
   getUserById: vi.fn(),
 }))
@@ -16,6 +36,52 @@ vi.mock('../../users/storage.ts', () => ({
   findContactMethodsByAccountId: vi.fn(),
 }))
 
+const scopeDefinition = (scope: string, claims: string[]) => ({
+  scope,
+  description: scope,
+  claims,
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const registeredScopes = [
+  scopeDefinition('openid', ['sub']),
+  scopeDefinition('profile', ['name', 'given_name', 'family_name', 'picture']),
+  scopeDefinition('email', [
+    'email',
+    'email_verified',
+    'emails',
+    'phone_numbers',
+  ]),
+  scopeDefinition('phone', ['phone_number', 'phone_number_verified']),
+  scopeDefinition('address', ['address']),
+]
+
+const client = {
+  id: 'client-456',
+  name: 'Test Client',
+  redirectUris: ['https://app.example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid', 'profile', 'email'],
+  tokenEndpointAuthMethod: 'client_secret_post' as const,
+  subjectType: 'public' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const phoneContact = {
+  account_id: 'user-123',
+  contact_id: 'c2',
+  contact_type: 'phone' as const,
+  contact_value: '+15551234567',
+  is_primary: true,
+  verified_at: undefined,
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
 describe('UserInfo endpoint', () => {
   const originalEnv = process.env
 
@@ -26,6 +92,9 @@ describe('UserInfo endpoint', () => {
     clearKeyStore()
     initializeKeys()
     vi.clearAllMocks()
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(false)
+    vi.mocked(scopeStorage.findAllScopes).mockResolvedValue(registeredScopes)
+    vi.mocked(clientService.getClientById).mockResolvedValue(client)
   })
 
   afterEach(() => {
@@ -41,7 +110,10 @@ describe('UserInfo endpoint', () => {
     return app
   }
 
-  const createValidToken = (scope: string) => {
+  const createValidToken = (
+    scope: string,
+    extraClaims: Record<string, unknown> = {},
+  ) => {
     const keyPair = initializeKeys()
     const issuer = getOidcConfig().issuer
     const now = Math.floor(Date.now() / 1000)
@@ -49,15 +121,18 @@ describe('UserInfo endpoint', () => {
       {
         iss: issuer,
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now + 3600,
         iat: now,
         scope,
         client_id: 'client-456',
+        jti: 'access-jti',
+        ...extraClaims,
       },
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
   }
 
@@ -76,6 +151,58 @@ describe('UserInfo endpoint', () => {
     expect(res.status).toBe(401)
   })
 
+  it('should return 401 when token has no sub (client_credentials token)', async () => {
+    const keyPair = initializeKeys()
+    const now = Math.floor(Date.now() / 1000)
+    const token = signJwt(
+      {
+        iss: getOidcConfig().issuer,
+        aud: 'https://api.example.com',
+        exp: now + 3600,
+        iat: now,
+        scope: 'email',
+        client_id: 'client-456',
+      },
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+      'at+jwt',
+    )
+
+    const app = createApp()
+    const res = await app.request('/userinfo', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_token')
+    expect(userService.getUserById).not.toHaveBeenCalled()
+  })
+
+  it('should return 401 when token has been revoked', async () => {
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(true)
+
+    const app = createApp()
+    const res = await app.request('/userinfo', {
+      headers: { Authorization: `Bearer ${createValidToken('openid')}` },
+    })
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_token')
+    expect(userService.getUserById).not.toHaveBeenCalled()
+  })
+
+  it('should return 401 when the client that holds the token is gone', async () => {
+    vi.mocked(clientService.getClientById).mockResolvedValue(null)
+
+    const res = await createApp().request('/userinfo', {
+      headers: { Authorization: `Bearer ${createValidToken('openid')}` },
+    })
+
+    expect(res.status).toBe(401)
+    expect(userService.getUserById).not.toHaveBeenCalled()
+  })
+
   it('should return 404 when user is not found', async () => {
     vi.mocked(userService.getUserById).mockResolvedValue(null)
 
@@ -397,4 +524,122 @@ describe('UserInfo endpoint', () => {
     expect(res.headers.get('Cache-Control')).toBe('no-store')
     expect(res.headers.get('Pragma')).toBe('no-cache')
   })
+
+  describe('phone, address and the claims request', () => {
+    const address = {
+      street_address: '1 Main St',
+      locality: 'Springfield',
+      country: 'US',
+    }
+
+    beforeEach(() => {
+      vi.mocked(userService.getUserById).mockResolvedValue({
+        sub: 'user-123',
+        email: 'user@example.com',
+        emailVerified: true,
+        name: 'Test User',
+        address,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+      vi.mocked(userStorage.findContactMethodsByAccountId).mockResolvedValue([
+        {
+          ...phoneContact,
+          contact_id: 'c3',
+          contact_value: '+15550000000',
+          is_primary: false,
+        },
+        phoneContact,
+      ])
+    })
+
+    it('should return the primary phone number when phone scope is granted', async () => {
+      const token = createValidToken('openid phone')
+      const res = await createApp().request('/userinfo', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({
+        sub: 'user-123',
+        phone_number: '+15551234567',
+        phone_number_verified: false,
+      })
+    })
+
+    it('should return the address when address scope is granted', async () => {
+      const token = createValidToken('openid address')
+      const res = await createApp().request('/userinfo', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      expect(await res.json()).toEqual({ sub: 'user-123', address })
+      expect(userStorage.findContactMethodsByAccountId).not.toHaveBeenCalled()
+    })
+
+    it('should add claims requested individually for userinfo', async () => {
+      const token = createValidToken('openid', {
+        claims: { userinfo: { name: { essential: true }, address: null } },
+      })
+      const res = await createApp().request('/userinfo', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      expect(await res.json()).toEqual({
+        sub: 'user-123',
+        name: 'Test User',
+        address,
+      })
+    })
+  })
+
+  describe('pairwise subjects', () => {
+    beforeEach(() => {
+      vi.mocked(clientService.getClientById).mockResolvedValue({
+        ...client,
+        subjectType: 'pairwise',
+      })
+      vi.mocked(userService.getUserById).mockResolvedValue({
+        sub: 'user-123',
+        email: 'user@example.com',
+        emailVerified: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+    })
+
+    it('should look up the account behind a pairwise sub and return the pairwise sub', async () => {
+      vi.mocked(
+        subjectStorage.findAccountIdByPairwiseSubject,
+      ).mockResolvedValue('user-123')
+
+      const token = createValidToken('openid', { sub: 'pairwise-sub' })
+      const res = await createApp().request('/userinfo', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({ sub: 'pairwise-sub' })
+      expect(
+        subjectStorage.findAccountIdByPairwiseSubject,
+      ).toHaveBeenCalledWith('app.example.com', 'pairwise-sub')
+      expect(userService.getUserById).toHaveBeenCalledWith('user-123')
+    })
+
+    it('should return 401 for an unknown pairwise sub', async () => {
+      vi.mocked(
+        subjectStorage.findAccountIdByPairwiseSubject,
+      ).mockResolvedValue(null)
+
+      const token = createValidToken('openid', { sub: 'unknown-sub' })
+      const res = await createApp().request('/userinfo', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+
+      expect(res.status).toBe(401)
+      expect(userService.getUserById).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -26,8 +26,8 @@ export const generateAuthorizationCode = async (
 
   await client.execute(
     `INSERT INTO ${keyspace}.authorization_codes
-     (code, client_id, redirect_uri, scopes, user_id, code_challenge, code_challenge_method, nonce, expires_at, created_at, auth_time)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     (code, client_id, redirect_uri, scopes, user_id, code_challenge, code_challenge_method, nonce, expires_at, created_at, auth_time, sid, resources, claims)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
      USING TTL ${CODE_TTL_SECONDS}`,
     [
       code,
@@ -41,6 +41,9 @@ export const generateAuthorizationCode = async (
       expiresAt,
       now,
       authTimeDate,
+      input.sid ?? null,
+      input.resources ?? [],
+      input.claims ?? null,
     ],
   )
 
@@ -83,6 +86,9 @@ export const consumeAuthorizationCode = async (
     expires_at: row.expires_at as Date,
     created_at: row.created_at as Date,
     auth_time: authTime,
+    sid: (row.sid as string | null) ?? null,
+    resources: (row.resources ?? []) as string[],
+    claims: (row.claims as string | null) ?? null,
   }
 
   if (stored.client_id !== clientId || stored.redirect_uri !== redirectUri) {
@@ -1,11 +1,47 @@
 import { getClientById } from '../clients/service.ts'
+import type { ResponseMode } from '../database/types/oauth-client.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { getResource, isValidResourceIndicator } from '../resources/service.ts'
+import {
+  findScopesReleasingClaims,
+  listScopeClaims,
+} from '../scopes/service.ts'
+import type { ClaimsRequest } from './claims.ts'
+import {
+  listRequestedClaims,
+  parseClaimsRequest,
+  restrictClaimsRequest,
+} from './claims.ts'
+import { verifyIdTokenHint } from './id-token-hint.ts'
 import {
   isCodeChallengeWithinLimit,
+  isLoginHintWithinLimit,
   isScopeWithinLimit,
   isStateWithinLimit,
   isValidRedirectUriFormat,
 } from './input-validation.ts'
 
+/**
+ * Whether response_mode names a mode this provider supports (per discovery).
+ */
+export const isSupportedResponseMode = (
+  value: string | undefined,
+): value is ResponseMode =>
+  value !== undefined && getOidcConfig().responseModesSupported.includes(value)
+
+export type AuthorizationPrompt =
+  | 'none'
+  | 'login'
+  | 'consent'
+  | 'select_account'
+
+const SUPPORTED_PROMPTS: readonly string[] = [
+  'none',
+  'login',
+  'consent',
+  'select_account',
+]
+
 export interface ValidatedAuthorizationRequest {
   clientId: string
   redirectUri: string
@@ -14,18 +50,71 @@ export interface ValidatedAuthorizationRequest {
   codeChallenge: string | null
   codeChallengeMethod: string | null
   nonce: string | null
+  /** How the response is returned to redirect_uri; query unless response_mode says otherwise */
+  responseMode: ResponseMode
+  /** Requested prompt values; empty when prompt was not sent */
+  prompt: AuthorizationPrompt[]
+  /** Maximum seconds since the user last authenticated */
+  maxAge: number | null
+  loginHint: string | null
+  /** Subject of a verified id_token_hint; the session must belong to this user */
+  idTokenHintSub: string | null
+  /** Registered resource indicators (RFC 8707) the access tokens are for */
+  resources: string[]
+  /** Individually requested claims (OIDC Core §5.5), limited to those the client may receive */
+  claims: ClaimsRequest | null
+  /** Further client scopes releasing the requested claims; the user consents to these too */
+  claimScopes: string[]
 }
 
-export const validateAuthorizationRequest = async (params: {
+export interface AuthorizationRequestParams {
   clientId?: string
   redirectUri?: string
   responseType?: string
+  responseMode?: string
   scope?: string
   state?: string
   codeChallenge?: string
   codeChallengeMethod?: string
   nonce?: string
-}): Promise<
+  prompt?: string
+  maxAge?: string
+  loginHint?: string
+  idTokenHint?: string
+  resource?: string
+  claims?: string
+  /** The request arrived through a pushed request_uri (RFC 9126) */
+  isPushed?: boolean
+  /** The parameters came from a verified request object (RFC 9101) */
+  isSigned?: boolean
+}
+
+/**
+ * Map raw authorization request parameters (query string or /par form body) to validation input.
+ */
+export const readAuthorizationRequestParams = (
+  raw: Record<string, string | undefined>,
+): AuthorizationRequestParams => ({
+  clientId: raw.client_id,
+  redirectUri: raw.redirect_uri,
+  responseType: raw.response_type,
+  responseMode: raw.response_mode,
+  scope: raw.scope,
+  state: raw.state,
+  codeChallenge: raw.code_challenge,
+  codeChallengeMethod: raw.code_challenge_method,
+  nonce: raw.nonce,
+  prompt: raw.prompt,
+  maxAge: raw.max_age,
+  loginHint: raw.login_hint,
+  idTokenHint: raw.id_token_hint,
+  resource: raw.resource,
+  claims: raw.claims,
+})
+
+export const validateAuthorizationRequest = async (
+  params: AuthorizationRequestParams,
+): Promise<
   | { isValid: true; data: ValidatedAuthorizationRequest }
   | {
       isValid: false
@@ -92,6 +181,52 @@ export const validateAuthorizationRequest = async (params: {
     }
   }
 
+  if (client.requirePushedAuthorizationRequests && !params.isPushed) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription:
+        'This client must use a pushed authorization request (request_uri)',
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  if (client.requireSignedRequestObject && !params.isSigned) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: 'This client must use a signed request object',
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  if (params.responseMode && !isSupportedResponseMode(params.responseMode)) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: `Unsupported response_mode: ${params.responseMode}`,
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  // Clients registered before response modes were per client have none listed and keep every mode
+  if (
+    params.responseMode &&
+    client.responseModes &&
+    !client.responseModes.includes(params.responseMode as ResponseMode)
+  ) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: `response_mode ${params.responseMode} is not registered for this client`,
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
   if (params.responseType !== 'code') {
     return {
       isValid: false,
@@ -185,6 +320,104 @@ export const validateAuthorizationRequest = async (params: {
     }
   }
 
+  const prompt = params.prompt?.split(/\s+/).filter((p) => p.length > 0) ?? []
+  const unsupportedPrompts = prompt.filter(
+    (p) => !SUPPORTED_PROMPTS.includes(p),
+  )
+  if (unsupportedPrompts.length > 0) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: `Unsupported prompt value(s): ${unsupportedPrompts.join(', ')}`,
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  if (prompt.includes('none') && prompt.length > 1) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: 'prompt=none cannot be combined with other values',
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  const maxAgeParam = params.maxAge?.trim()
+  if (maxAgeParam && !/^\d+$/.test(maxAgeParam)) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: 'max_age must be a non-negative integer',
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  if (!isLoginHintWithinLimit(params.loginHint)) {
+    return {
+      isValid: false,
+      error: 'invalid_request',
+      errorDescription: 'login_hint exceeds maximum length',
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  let idTokenHintSub: string | null = null
+  if (params.idTokenHint?.trim()) {
+    const hintClaims = await verifyIdTokenHint(params.idTokenHint.trim())
+    if (!hintClaims || hintClaims.clientId !== client.id) {
+      return {
+        isValid: false,
+        error: 'invalid_request',
+        errorDescription: 'id_token_hint is invalid for this client',
+        redirectUri: params.redirectUri,
+        state: params.state ?? null,
+      }
+    }
+    idTokenHintSub = hintClaims.sub
+  }
+
+  const resource = params.resource?.trim()
+  if (
+    resource &&
+    (!isValidResourceIndicator(resource) || !(await getResource(resource)))
+  ) {
+    return {
+      isValid: false,
+      error: 'invalid_target',
+      errorDescription: 'resource is not a registered protected resource',
+      redirectUri: params.redirectUri,
+      state: params.state ?? null,
+    }
+  }
+
+  let claims: ClaimsRequest | null = null
+  let claimScopes: string[] = []
+  if (params.claims?.trim()) {
+    const requested = parseClaimsRequest(params.claims)
+    if (!requested) {
+      return {
+        isValid: false,
+        error: 'invalid_request',
+        errorDescription: 'claims is not a valid claims request',
+        redirectUri: params.redirectUri,
+        state: params.state ?? null,
+      }
+    }
+    claims = restrictClaimsRequest(
+      requested,
+      await listScopeClaims(client.scopes),
+    )
+    const scopeClaims = await listScopeClaims(scopes)
+    claimScopes = await findScopesReleasingClaims(
+      listRequestedClaims(claims).filter((c) => !scopeClaims.includes(c)),
+      client.scopes.filter((s) => !scopes.includes(s)),
+    )
+  }
+
   return {
     isValid: true,
     data: {
@@ -195,6 +428,16 @@ export const validateAuthorizationRequest = async (params: {
       codeChallenge: params.codeChallenge?.trim() || null,
       codeChallengeMethod: params.codeChallengeMethod?.trim() || null,
       nonce: params.nonce?.trim() || null,
+      responseMode: isSupportedResponseMode(params.responseMode)
+        ? params.responseMode
+        : 'query',
+      prompt: prompt as AuthorizationPrompt[],
+      maxAge: maxAgeParam ? Number(maxAgeParam) : null,
+      loginHint: params.loginHint?.trim() || null,
+      idTokenHintSub,
+      resources: resource ? [resource] : [],
+      claims,
+      claimScopes,
     },
   }
 }
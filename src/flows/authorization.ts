@@ -1,33 +1,101 @@
 import type { Context } from 'hono'
+import { getClientById } from '../clients/service.ts'
+import type { Client } from '../clients/types/client.ts'
+import type { ResponseMode } from '../database/types/oauth-client.ts'
+import type { Session } from '../database/types/session.ts'
 import { getOidcConfig } from '../oidc/config.ts'
+import { describeScopes } from '../scopes/service.ts'
+import { findUserById } from '../users/storage.ts'
 import { generateAuthorizationCode } from './authorization-code-storage.ts'
-import { validateAuthorizationRequest } from './authorization-validation.ts'
+import type { ValidatedAuthorizationRequest } from './authorization-validation.ts'
+import {
+  isSupportedResponseMode,
+  readAuthorizationRequestParams,
+  validateAuthorizationRequest,
+} from './authorization-validation.ts'
+import { listEssentialClaims } from './claims.ts'
+import { isConsentRequired, renderConsentPage } from './consent.ts'
+import { saveConsentGrant } from './consent-grant-storage.ts'
+import {
+  consumeConsentNonce,
+  createConsentNonce,
+} from './consent-nonce-storage.ts'
 import { escapeHtml } from './escape-html.ts'
-import { getSessionCookieName, verifySessionToken } from './session.ts'
-
-const buildRedirectUrl = (
-  baseUrl: string,
-  params: {
-    code?: string
-    error?: string
-    error_description?: string
-    state?: string | null
-  },
+import {
+  createPushedAuthorizationRequest,
+  deletePushedAuthorizationRequest,
+  getPushedAuthorizationRequest,
+  PUSHED_AUTHORIZATION_REQUEST_LOGIN_EXPIRY_SECONDS,
+} from './pushed-authorization-request-storage.ts'
+import { resolveRequestObject } from './request-object.ts'
+import { getSessionFromCookieHeader } from './session.ts'
+
+interface AuthorizationResponseParams {
+  code?: string
+  error?: string
+  error_description?: string
+  state?: string | null
+}
+
+const toResponseEntries = (
+  params: AuthorizationResponseParams,
+): [string, string][] =>
+  Object.entries(params).filter(
+    (entry): entry is [string, string] =>
+      typeof entry[1] === 'string' && entry[1].length > 0,
+  )
+
+/**
+ * OAuth 2.0 Form Post Response Mode: an auto-submitting form that POSTs the response to redirect_uri.
+ */
+const renderFormPost = (
+  redirectUri: string,
+  params: AuthorizationResponseParams,
 ): string => {
-  const url = new URL(baseUrl)
-  if (params.code) {
-    url.searchParams.set('code', params.code)
-  }
-  if (params.error) {
-    url.searchParams.set('error', params.error)
-  }
-  if (params.error_description) {
-    url.searchParams.set('error_description', params.error_description)
+  const fields = toResponseEntries(params)
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}" />`,
+    )
+    .join('\n    ')
+  return `<!DOCTYPE html>
+<html>
+<head><title>Submit This Form</title></head>
+<body onload="document.forms[0].submit()">
+  <form method="POST" action="${escapeHtml(redirectUri)}">
+    ${fields}
+    <noscript><button type="submit">Continue</button></noscript>
+  </form>
+</body>
+</html>`
+}
+
+/**
+ * Return an authorization response (success or error) to the client's redirect_uri
+ * using the requested response_mode: query string, URL fragment, or form_post.
+ */
+const sendAuthorizationResponse = (
+  c: Context,
+  redirectUri: string,
+  responseMode: ResponseMode,
+  params: AuthorizationResponseParams,
+): Response => {
+  if (responseMode === 'form_post') {
+    const res = c.html(renderFormPost(redirectUri, params))
+    res.headers.set('Cache-Control', 'no-store')
+    return res
   }
-  if (params.state !== undefined && params.state !== null) {
-    url.searchParams.set('state', params.state)
+
+  const url = new URL(redirectUri)
+  const entries = toResponseEntries(params)
+  if (responseMode === 'fragment') {
+    url.hash = new URLSearchParams(entries).toString()
+  } else {
+    for (const [name, value] of entries) {
+      url.searchParams.set(name, value)
+    }
   }
-  return url.toString()
+  return c.redirect(url.toString(), 302)
 }
 
 /**
@@ -50,75 +118,443 @@ const renderAuthorizationError = (
 </html>`
 }
 
-export const handleAuthorization = async (c: Context): Promise<Response> => {
-  const params = c.req.query()
+const isLoginPrompted = (data: ValidatedAuthorizationRequest): boolean =>
+  data.prompt.includes('login') || data.prompt.includes('select_account')
+
+/**
+ * Whether an existing session is not enough and the user must sign in again:
+ * prompt=login or select_account, unless the user signed in after the request was pushed,
+ * a session older than max_age, or a session for a different user than id_token_hint names.
+ */
+const isReauthenticationRequired = (
+  session: Session,
+  data: ValidatedAuthorizationRequest,
+  pushedAt: Date | null,
+): boolean => {
+  if (
+    isLoginPrompted(data) &&
+    (!pushedAt || session.auth_time < Math.floor(pushedAt.getTime() / 1000))
+  ) {
+    return true
+  }
+  if (data.maxAge !== null) {
+    const elapsed = Math.floor(Date.now() / 1000) - session.auth_time
+    if (elapsed > data.maxAge) {
+      return true
+    }
+  }
+  return data.idTokenHintSub !== null && data.idTokenHintSub !== session.user_id
+}
+
+/**
+ * Query that resumes this authorization request once the user comes back to /authorize.
+ * Pushed and signed requests cannot be rebuilt from a query string, so they are pushed
+ * (or re-pushed, as the original would expire while the user is away) and resumed by request_uri.
+ * So are requests with prompt=login or select_account: the time they were pushed is what
+ * tells the return trip that the user has signed in since.
+ */
+const toResumableQuery = async (
+  data: ValidatedAuthorizationRequest,
+  params: Record<string, string>,
+  pushedRequestUri: string | null,
+  isSigned: boolean,
+): Promise<URLSearchParams> => {
+  if (!pushedRequestUri && !isSigned && !isLoginPrompted(data)) {
+    return new URLSearchParams(params)
+  }
+
+  const pushed = await createPushedAuthorizationRequest(
+    data.clientId,
+    params,
+    PUSHED_AUTHORIZATION_REQUEST_LOGIN_EXPIRY_SECONDS,
+  )
+  if (pushedRequestUri) {
+    await deletePushedAuthorizationRequest(pushedRequestUri)
+  }
+  return new URLSearchParams({
+    client_id: data.clientId,
+    request_uri: pushed.request_uri,
+  })
+}
+
+/**
+ * Send the user to /login, returning to this request afterwards.
+ * The return trip keeps prompt and max_age, so they are still enforced; the fresh
+ * sign-in satisfies them.
+ */
+const redirectToLogin = async (
+  c: Context,
+  data: ValidatedAuthorizationRequest,
+  params: Record<string, string>,
+  pushedRequestUri: string | null,
+  isSigned: boolean,
+): Promise<Response> => {
+  const config = getOidcConfig()
+  const returnQuery = await toResumableQuery(
+    data,
+    params,
+    pushedRequestUri,
+    isSigned,
+  )
+
+  const loginUrl = new URL(`${config.issuer}/login`)
+  loginUrl.searchParams.set(
+    'return_to',
+    `${new URL(c.req.url).pathname}?${returnQuery.toString()}`,
+  )
+  if (data.loginHint) {
+    loginUrl.searchParams.set('login_hint', data.loginHint)
+  }
+  return c.redirect(loginUrl.toString(), 302)
+}
+
+type ResolvedAuthorizationRequest =
+  | {
+      isValid: true
+      data: ValidatedAuthorizationRequest
+      /** Authorization request parameters, after the pushed request or request object is applied */
+      params: Record<string, string>
+      pushedRequestUri: string | null
+      /** When the pushed request was created; a sign-in since then satisfies prompt=login */
+      pushedAt: Date | null
+      isSigned: boolean
+    }
+  | { isValid: false; response: Response }
+
+/**
+ * Load a pushed request (request_uri), apply a request object (request) and validate the result.
+ * Invalid requests come back with the response to send: an error page, or an error
+ * returned to redirect_uri when that could be validated.
+ */
+const resolveAuthorizationRequest = async (
+  c: Context,
+  query: Record<string, string>,
+): Promise<ResolvedAuthorizationRequest> => {
+  let params = query
+  let pushedRequestUri: string | null = null
+  let pushedAt: Date | null = null
+  if (query.request_uri) {
+    const pushed = await getPushedAuthorizationRequest(query.request_uri)
+    if (!pushed || pushed.client_id !== query.client_id) {
+      return {
+        isValid: false,
+        response: c.html(
+          renderAuthorizationError(
+            'invalid_request_uri',
+            'request_uri is invalid or has expired',
+          ),
+          400,
+        ),
+      }
+    }
+    params = { ...pushed.parameters, client_id: pushed.client_id }
+    pushedRequestUri = pushed.request_uri
+    pushedAt = pushed.created_at
+  }
+
+  const requestObject = await resolveRequestObject(params)
+  if (!requestObject.isValid) {
+    return {
+      isValid: false,
+      response: c.html(
+        renderAuthorizationError(
+          'invalid_request_object',
+          requestObject.errorDescription,
+        ),
+        400,
+      ),
+    }
+  }
+  params = requestObject.params
+
+  // A pushed request's request object, if it had one, was verified at /par
   const validation = await validateAuthorizationRequest({
-    clientId: params.client_id,
-    redirectUri: params.redirect_uri,
-    responseType: params.response_type,
-    scope: params.scope,
-    state: params.state,
-    codeChallenge: params.code_challenge,
-    codeChallengeMethod: params.code_challenge_method,
-    nonce: params.nonce,
+    ...readAuthorizationRequestParams(params),
+    isPushed: pushedRequestUri !== null,
+    isSigned: requestObject.isSigned || pushedRequestUri !== null,
   })
 
   if (!validation.isValid) {
     if (validation.redirectUri) {
-      return c.redirect(
-        buildRedirectUrl(validation.redirectUri, {
-          error: validation.error,
-          error_description: validation.errorDescription,
-          state: validation.state ?? undefined,
-        }),
-        302,
-      )
+      return {
+        isValid: false,
+        response: sendAuthorizationResponse(
+          c,
+          validation.redirectUri,
+          isSupportedResponseMode(params.response_mode)
+            ? params.response_mode
+            : 'query',
+          {
+            error: validation.error,
+            error_description: validation.errorDescription,
+            state: validation.state,
+          },
+        ),
+      }
+    }
+    return {
+      isValid: false,
+      response: c.html(
+        renderAuthorizationError(validation.error, validation.errorDescription),
+        400,
+      ),
     }
-    return c.html(
-      renderAuthorizationError(validation.error, validation.errorDescription),
-      400,
-    )
   }
 
-  const { data } = validation
-  const sessionCookie = c.req.header('Cookie')
-  const cookieMatch = sessionCookie
-    ?.split(';')
-    .map((s) => s.trim())
-    .find((s) => s.startsWith(`${getSessionCookieName()}=`))
-  const sessionToken = cookieMatch
-    ? cookieMatch.substring(cookieMatch.indexOf('=') + 1).trim()
-    : null
+  return {
+    isValid: true,
+    data: validation.data,
+    params,
+    pushedRequestUri,
+    pushedAt,
+    isSigned: requestObject.isSigned,
+  }
+}
 
-  const session = sessionToken ? verifySessionToken(sessionToken) : null
+/**
+ * Return an error to the client, using up the request_uri of a pushed request.
+ */
+const rejectAuthorizationRequest = async (
+  c: Context,
+  data: ValidatedAuthorizationRequest,
+  pushedRequestUri: string | null,
+  error: string,
+  errorDescription: string,
+): Promise<Response> => {
+  if (pushedRequestUri) {
+    await deletePushedAuthorizationRequest(pushedRequestUri)
+  }
+  return sendAuthorizationResponse(c, data.redirectUri, data.responseMode, {
+    error,
+    error_description: errorDescription,
+    state: data.state,
+  })
+}
 
-  if (!session) {
-    const config = getOidcConfig()
-    const currentUrl = new URL(c.req.url)
-    const loginUrl = new URL(`${config.issuer}/login`)
-    loginUrl.searchParams.set(
-      'return_to',
-      currentUrl.pathname + currentUrl.search,
-    )
-    return c.redirect(loginUrl.toString(), 302)
+/**
+ * Whether the client refuses the user because their email address is not verified.
+ */
+const isUnverifiedEmailRefused = async (
+  client: Client,
+  userId: string,
+): Promise<boolean> => {
+  if (!client.requireVerifiedEmail) {
+    return false
   }
+  const user = await findUserById(userId)
+  return !user?.emailVerified
+}
 
+/**
+ * Issue an authorization code for the signed-in user and return it to the client.
+ */
+const issueAuthorizationCode = async (
+  c: Context,
+  data: ValidatedAuthorizationRequest,
+  session: Session,
+  pushedRequestUri: string | null,
+): Promise<Response> => {
   const code = await generateAuthorizationCode({
     client_id: data.clientId,
     redirect_uri: data.redirectUri,
     scopes: data.scopes,
-    user_id: session.sub,
+    user_id: session.user_id,
     code_challenge: data.codeChallenge,
     code_challenge_method: data.codeChallengeMethod,
     nonce: data.nonce,
-    auth_time: session.iat,
+    auth_time: session.auth_time,
+    sid: session.session_id,
+    resources: data.resources,
+    claims: data.claims && JSON.stringify(data.claims),
   })
 
-  return c.redirect(
-    buildRedirectUrl(data.redirectUri, {
-      code,
-      state: data.state,
-    }),
-    302,
-  )
+  // RFC 9126 §4: a request_uri is used once
+  if (pushedRequestUri) {
+    await deletePushedAuthorizationRequest(pushedRequestUri)
+  }
+
+  return sendAuthorizationResponse(c, data.redirectUri, data.responseMode, {
+    code,
+    state: data.state,
+  })
+}
+
+/**
+ * OIDC authorization endpoint (GET /authorize).
+ * Honors prompt (none, login, consent, select_account), max_age, login_hint and id_token_hint.
+ * prompt=none never shows UI: it returns login_required or consent_required to the client instead.
+ *
+ * A signed-in user is shown the consent screen unless the client is trusted or the user has
+ * already approved every requested scope for it; prompt=consent always shows it. Scopes
+ * releasing claims requested through the claims parameter are consented to as well.
+ * Clients with requireVerifiedEmail get access_denied for users whose email is not verified.
+ *
+ * With request_uri (RFC 9126), the parameters come from the pushed request and only
+ * client_id is read from the query string; it must match the client that pushed the request.
+ * With request (RFC 9101), the request object is verified against the client's JWKS and its
+ * claims override the query parameters.
+ */
+export const handleAuthorization = async (c: Context): Promise<Response> => {
+  const resolved = await resolveAuthorizationRequest(c, c.req.query())
+  if (!resolved.isValid) {
+    return resolved.response
+  }
+
+  const { data, params, pushedRequestUri, pushedAt, isSigned } = resolved
+  const session = await getSessionFromCookieHeader(c.req.header('Cookie'))
+
+  if (!session || isReauthenticationRequired(session, data, pushedAt)) {
+    if (!data.prompt.includes('none')) {
+      return redirectToLogin(c, data, params, pushedRequestUri, isSigned)
+    }
+    return rejectAuthorizationRequest(
+      c,
+      data,
+      pushedRequestUri,
+      'login_required',
+      'User authentication is required',
+    )
+  }
+
+  const client = await getClientById(data.clientId)
+  if (!client) {
+    return c.html(
+      renderAuthorizationError('invalid_client', 'Unknown client'),
+      400,
+    )
+  }
+
+  if (await isUnverifiedEmailRefused(client, session.user_id)) {
+    return rejectAuthorizationRequest(
+      c,
+      data,
+      pushedRequestUri,
+      'access_denied',
+      'The user has not verified their email address',
+    )
+  }
+
+  const consentScopes = [...data.scopes, ...data.claimScopes]
+  if (
+    await isConsentRequired(client, session.user_id, consentScopes, data.prompt)
+  ) {
+    if (data.prompt.includes('none')) {
+      return rejectAuthorizationRequest(
+        c,
+        data,
+        pushedRequestUri,
+        'consent_required',
+        'User consent is required',
+      )
+    }
+    const requestQuery = await toResumableQuery(
+      data,
+      params,
+      pushedRequestUri,
+      isSigned,
+    )
+    const scopes = await describeScopes(consentScopes)
+    const consentNonce = await createConsentNonce(session.session_id, client.id)
+    const res = c.html(
+      renderConsentPage(
+        client.name,
+        scopes,
+        listEssentialClaims(data.claims),
+        requestQuery,
+        consentNonce,
+      ),
+    )
+    res.headers.set('Cache-Control', 'no-store')
+    return res
+  }
+
+  return issueAuthorizationCode(c, data, session, pushedRequestUri)
+}
+
+/**
+ * Consent screen submission (POST /authorize/consent).
+ * The form carries the authorization request, which is resolved and validated again.
+ * Its consent_nonce must be the unused one issued to this session and client when the
+ * page was rendered, so another site cannot submit the form on the user's behalf.
+ * Allow records the approved scopes for the user and client and issues the code;
+ * deny returns access_denied to the client. Without a valid session the request is
+ * sent back through GET /authorize, which signs the user in and asks again.
+ */
+export const handleConsentSubmit = async (c: Context): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const { decision, consent_nonce: consentNonce, ...fields } = body
+  const query: Record<string, string> = {}
+  for (const [name, value] of Object.entries(fields)) {
+    if (typeof value === 'string') {
+      query[name] = value
+    }
+  }
+
+  const session = await getSessionFromCookieHeader(c.req.header('Cookie'))
+  const retryAuthorization = () =>
+    c.redirect(`/authorize?${new URLSearchParams(query).toString()}`, 302)
+  if (!session) {
+    return retryAuthorization()
+  }
+
+  const resolved = await resolveAuthorizationRequest(c, query)
+  if (!resolved.isValid) {
+    return resolved.response
+  }
+
+  const { data, pushedRequestUri, pushedAt } = resolved
+  if (isReauthenticationRequired(session, data, pushedAt)) {
+    return retryAuthorization()
+  }
+
+  if (
+    typeof consentNonce !== 'string' ||
+    !consentNonce ||
+    !(await consumeConsentNonce(
+      session.session_id,
+      consentNonce,
+      data.clientId,
+    ))
+  ) {
+    return c.html(
+      renderAuthorizationError(
+        'invalid_request',
+        'The consent form has expired or was not issued to you. Start again from the application.',
+      ),
+      403,
+    )
+  }
+
+  if (decision !== 'allow' && decision !== 'deny') {
+    return c.html(
+      renderAuthorizationError('invalid_request', 'Choose Allow or Deny'),
+      400,
+    )
+  }
+  if (decision === 'deny') {
+    return rejectAuthorizationRequest(
+      c,
+      data,
+      pushedRequestUri,
+      'access_denied',
+      'The user denied the request',
+    )
+  }
+
+  const client = await getClientById(data.clientId)
+  if (client && (await isUnverifiedEmailRefused(client, session.user_id))) {
+    return rejectAuthorizationRequest(
+      c,
+      data,
+      pushedRequestUri,
+      'access_denied',
+      'The user has not verified their email address',
+    )
+  }
+
+  await saveConsentGrant(session.user_id, data.clientId, [
+    ...data.scopes,
+    ...data.claimScopes,
+  ])
+  return issueAuthorizationCode(c, data, session, pushedRequestUri)
 }
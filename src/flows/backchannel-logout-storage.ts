@@ -0,0 +1,128 @@
+import { randomUUID } from 'node:crypto'
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type {
+  BackchannelLogoutDelivery,
+  BackchannelLogoutDeliveryInput,
+  BackchannelLogoutDeliveryStatus,
+} from '../database/types/backchannel-logout-delivery.ts'
+
+/** Delivery records are kept for a week for troubleshooting, then expire */
+const DELIVERY_RETENTION_SECONDS = 7 * 24 * 60 * 60
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const rowToDelivery = (row: types.Row): BackchannelLogoutDelivery => ({
+  delivery_id: String(row.delivery_id),
+  client_id: String(row.client_id),
+  user_id: row.user_id as string,
+  logout_uri: row.logout_uri as string,
+  status: row.status as BackchannelLogoutDeliveryStatus,
+  attempts: (row.attempts as number | null) ?? 0,
+  last_error: (row.last_error as string | null) ?? null,
+  last_attempt_at: (row.last_attempt_at as Date | null) ?? null,
+  delivered_at: (row.delivered_at as Date | null) ?? null,
+  created_at: row.created_at as Date,
+})
+
+/**
+ * Record a pending back-channel logout delivery before the first attempt.
+ */
+export const createBackchannelLogoutDelivery = async (
+  input: BackchannelLogoutDeliveryInput,
+): Promise<BackchannelLogoutDelivery> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const deliveryId = randomUUID()
+  const now = new Date()
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.backchannel_logout_deliveries
+     (delivery_id, client_id, user_id, logout_uri, status, attempts, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     USING TTL ${DELIVERY_RETENTION_SECONDS}`,
+    [
+      deliveryId,
+      input.client_id,
+      input.user_id,
+      input.logout_uri,
+      'pending',
+      0,
+      now,
+    ],
+    { prepare: true },
+  )
+
+  return {
+    delivery_id: deliveryId,
+    client_id: input.client_id,
+    user_id: input.user_id,
+    logout_uri: input.logout_uri,
+    status: 'pending',
+    attempts: 0,
+    last_error: null,
+    last_attempt_at: null,
+    delivered_at: null,
+    created_at: now,
+  }
+}
+
+/**
+ * Record the outcome of a delivery attempt.
+ * The update carries the row's remaining TTL so its cells expire with the row.
+ */
+export const recordBackchannelLogoutAttempt = async (
+  delivery: BackchannelLogoutDelivery,
+  status: BackchannelLogoutDeliveryStatus,
+  attempts: number,
+  lastError: string | null,
+): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+  const remainingTtl = Math.max(
+    1,
+    Math.ceil(
+      (delivery.created_at.getTime() +
+        DELIVERY_RETENTION_SECONDS * 1000 -
+        now.getTime()) /
+        1000,
+    ),
+  )
+
+  await client.execute(
+    `UPDATE ${keyspace}.backchannel_logout_deliveries USING TTL ${remainingTtl}
+     SET status = ?, attempts = ?, last_error = ?, last_attempt_at = ?, delivered_at = ?
+     WHERE delivery_id = ?`,
+    [
+      status,
+      attempts,
+      lastError,
+      now,
+      status === 'delivered' ? now : null,
+      delivery.delivery_id,
+    ],
+    { prepare: true },
+  )
+}
+
+export const getBackchannelLogoutDelivery = async (
+  deliveryId: string,
+): Promise<BackchannelLogoutDelivery | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.backchannel_logout_deliveries WHERE delivery_id = ?`,
+    [deliveryId],
+    { prepare: true },
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return rowToDelivery(result.rows[0])
+}
@@ -0,0 +1,218 @@
+import { randomUUID } from 'node:crypto'
+import { getBackchannelLogoutClients } from '../clients/service.ts'
+import type { Client } from '../clients/types/client.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { log } from '../plumbing/logger.ts'
+import { resolveSubject } from '../subjects/service.ts'
+import { signJwt } from '../tokens/jwt.ts'
+import { initializeKeys } from '../tokens/key-management.ts'
+import {
+  createBackchannelLogoutDelivery,
+  recordBackchannelLogoutAttempt,
+} from './backchannel-logout-storage.ts'
+import { hasRefreshTokensForClient } from './refresh-token-storage.ts'
+
+export const BACKCHANNEL_LOGOUT_EVENT =
+  'http://schemas.openid.net/event/backchannel-logout'
+
+/** OIDC Back-Channel Logout 1.0 §2.4: logout tokens should be explicitly typed */
+const LOGOUT_TOKEN_TYP = 'logout+jwt'
+const LOGOUT_TOKEN_EXPIRY_SECONDS = 2 * 60
+
+const DELIVERY_TIMEOUT_MS = 5_000
+/** Delay before each retry; the number of entries caps the attempts at 1 + retries */
+const DELIVERY_RETRY_DELAYS_MS = [1_000, 5_000]
+
+export interface BackchannelLogoutSubject {
+  /** The account id; each client's logout token carries the sub that client was issued */
+  sub: string
+  /** Session ID to include as the sid claim, when the session is known */
+  sid?: string
+  /** Without a sid, the ended sessions to notify clients that require a sid about */
+  sessionIds?: string[]
+}
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Build a signed logout token for one client (OIDC Back-Channel Logout 1.0 §2.4).
+ * Logout tokens never carry a nonce, so they cannot be replayed as ID tokens.
+ */
+export const createLogoutToken = (
+  client: Client,
+  subject: BackchannelLogoutSubject,
+): string => {
+  const config = getOidcConfig()
+  const keyPair = initializeKeys()
+  const now = Math.floor(Date.now() / 1000)
+
+  return signJwt(
+    {
+      iss: config.issuer,
+      sub: subject.sub,
+      aud: client.id,
+      iat: now,
+      exp: now + LOGOUT_TOKEN_EXPIRY_SECONDS,
+      jti: randomUUID(),
+      events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+      ...(subject.sid && { sid: subject.sid }),
+    },
+    keyPair.privateKey,
+    'RS256',
+    keyPair.kid,
+    LOGOUT_TOKEN_TYP,
+  )
+}
+
+/**
+ * POST the logout token once. Returns null on success (2xx), otherwise the reason it failed.
+ */
+const postLogoutToken = async (
+  logoutUri: string,
+  logoutToken: string,
+): Promise<string | null> => {
+  try {
+    const response = await fetch(logoutUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ logout_token: logoutToken }).toString(),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+    return response.ok ? null : `HTTP ${response.status}`
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Deliver a logout token to one client, retrying failed attempts with backoff.
+ * Every attempt is recorded in backchannel_logout_deliveries.
+ * Returns whether the client acknowledged the logout.
+ */
+export const deliverBackchannelLogout = async (
+  client: Client,
+  subject: BackchannelLogoutSubject,
+): Promise<boolean> => {
+  if (!client.backchannelLogoutUri) {
+    return false
+  }
+
+  const delivery = await createBackchannelLogoutDelivery({
+    client_id: client.id,
+    user_id: subject.sub,
+    logout_uri: client.backchannelLogoutUri,
+  })
+  const logoutToken = createLogoutToken(client, {
+    ...subject,
+    sub: await resolveSubject(client, subject.sub),
+  })
+  const maxAttempts = DELIVERY_RETRY_DELAYS_MS.length + 1
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const error = await postLogoutToken(
+      client.backchannelLogoutUri,
+      logoutToken,
+    )
+
+    if (!error) {
+      await recordBackchannelLogoutAttempt(delivery, 'delivered', attempt, null)
+      return true
+    }
+
+    const isLastAttempt = attempt === maxAttempts
+    await recordBackchannelLogoutAttempt(
+      delivery,
+      isLastAttempt ? 'failed' : 'pending',
+      attempt,
+      error,
+    )
+
+    if (isLastAttempt) {
+      log({
+        message: 'Back-channel logout delivery failed',
+        deliveryId: delivery.delivery_id,
+        clientId: client.id,
+        attempts: attempt,
+        error,
+      })
+      return false
+    }
+
+    await wait(DELIVERY_RETRY_DELAYS_MS[attempt - 1])
+  }
+
+  return false
+}
+
+/**
+ * The clients to notify when the user signs out: those that registered a
+ * backchannelLogoutUri and that the user holds refresh tokens for.
+ */
+export const findBackchannelLogoutTargets = async (
+  sub: string,
+): Promise<Client[]> => {
+  const clients = await getBackchannelLogoutClients()
+
+  const targets: Client[] = []
+  for (const client of clients) {
+    if (await hasRefreshTokensForClient(sub, client.id)) {
+      targets.push(client)
+    }
+  }
+  return targets
+}
+
+/**
+ * The logout tokens a client should receive. Clients with backchannelLogoutSessionRequired
+ * need a sid claim: without a known sid they get one token per ended session, and none
+ * when no session was ended.
+ */
+const getClientLogoutSubjects = (
+  client: Client,
+  subject: BackchannelLogoutSubject,
+): BackchannelLogoutSubject[] => {
+  if (!client.backchannelLogoutSessionRequired || subject.sid) {
+    return [{ sub: subject.sub, sid: subject.sid }]
+  }
+  return (subject.sessionIds ?? []).map((sid) => ({ sub: subject.sub, sid }))
+}
+
+/**
+ * Notify every client the user holds refresh tokens for that registered a
+ * backchannelLogoutUri. Clients are notified in parallel; one failing client
+ * does not affect the others.
+ *
+ * Callers about to revoke the user's refresh tokens pass the targets found beforehand,
+ * since the lookup goes by refresh tokens.
+ */
+export const notifyBackchannelLogout = async (
+  subject: BackchannelLogoutSubject,
+  targets?: Client[],
+): Promise<void> => {
+  const clients = targets ?? (await findBackchannelLogoutTargets(subject.sub))
+
+  await Promise.allSettled(
+    clients.flatMap((client) =>
+      getClientLogoutSubjects(client, subject).map((clientSubject) =>
+        deliverBackchannelLogout(client, clientSubject),
+      ),
+    ),
+  )
+}
+
+/**
+ * Start notifyBackchannelLogout without waiting for it; failures are logged.
+ * Sign-out responses should not wait on relying parties.
+ */
+export const notifyBackchannelLogoutInBackground = (
+  subject: BackchannelLogoutSubject,
+  targets?: Client[],
+): void => {
+  void notifyBackchannelLogout(subject, targets).catch((error: unknown) => {
+    log({
+      message: 'Back-channel logout notification failed',
+      error: error instanceof Error ? error.message : String(error),
+    })
+  })
+}
@@ -0,0 +1,181 @@
+import type { ContactMethod } from '../database/types/contact-method.ts'
+import { listScopeClaims } from '../scopes/service.ts'
+import { findContactMethodsByAccountId } from '../users/storage.ts'
+import type { User } from '../users/types/user.ts'
+
+/**
+ * How an individual claim is requested (OIDC Core §5.5.1).
+ * null requests the claim in the default manner.
+ */
+export interface ClaimRequest {
+  essential?: boolean
+  value?: unknown
+  values?: unknown[]
+}
+
+export type RequestedClaims = Record<string, ClaimRequest | null>
+
+/** The claims request parameter: individual claims asked for in the ID token or from /userinfo */
+export interface ClaimsRequest {
+  id_token?: RequestedClaims
+  userinfo?: RequestedClaims
+}
+
+export type ClaimsTarget = keyof ClaimsRequest
+
+const CLAIMS_TARGETS: readonly ClaimsTarget[] = ['id_token', 'userinfo']
+
+/** Multi-valued extensions to the email scope; only in ID tokens when asked for by name */
+const USERINFO_ONLY_CLAIMS: readonly string[] = ['emails', 'phone_numbers']
+
+/** Claims whose values come from the user's contact methods */
+const CONTACT_CLAIMS: readonly string[] = [
+  'emails',
+  'phone_numbers',
+  'phone_number',
+  'phone_number_verified',
+]
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isValidClaimRequest = (value: unknown): boolean =>
+  value === null ||
+  (isPlainObject(value) &&
+    (value.essential === undefined || typeof value.essential === 'boolean') &&
+    (value.values === undefined || Array.isArray(value.values)))
+
+/**
+ * Parse the claims request parameter. Returns null when it is not a JSON object whose
+ * id_token and userinfo members map claim names to null or a claim request.
+ * Other members are ignored.
+ */
+export const parseClaimsRequest = (value: string): ClaimsRequest | null => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    return null
+  }
+  if (!isPlainObject(parsed)) {
+    return null
+  }
+
+  const request: ClaimsRequest = {}
+  for (const target of CLAIMS_TARGETS) {
+    const member = parsed[target]
+    if (member === undefined) {
+      continue
+    }
+    if (
+      !isPlainObject(member) ||
+      !Object.values(member).every(isValidClaimRequest)
+    ) {
+      return null
+    }
+    request[target] = member as RequestedClaims
+  }
+  return request
+}
+
+/**
+ * Drop requested claims outside `claims`. Unsupported claims are ignored, not an error (OIDC Core §5.5).
+ */
+export const restrictClaimsRequest = (
+  request: ClaimsRequest,
+  claims: string[],
+): ClaimsRequest => {
+  const restricted: ClaimsRequest = {}
+  for (const target of CLAIMS_TARGETS) {
+    const member = request[target]
+    if (member) {
+      restricted[target] = Object.fromEntries(
+        Object.entries(member).filter(([name]) => claims.includes(name)),
+      )
+    }
+  }
+  return restricted
+}
+
+/**
+ * Every claim named in the request, for either target.
+ */
+export const listRequestedClaims = (
+  request: ClaimsRequest | null,
+): string[] => [
+  ...new Set(
+    CLAIMS_TARGETS.flatMap((target) => Object.keys(request?.[target] ?? {})),
+  ),
+]
+
+/**
+ * The claims the request marks essential, for either target.
+ */
+export const listEssentialClaims = (
+  request: ClaimsRequest | null,
+): string[] => [
+  ...new Set(
+    CLAIMS_TARGETS.flatMap((target) =>
+      Object.entries(request?.[target] ?? {})
+        .filter(([, claim]) => claim?.essential === true)
+        .map(([name]) => name),
+    ),
+  ),
+]
+
+const toContactList = (contacts: ContactMethod[]) =>
+  contacts.map((cm) => ({
+    value: cm.contact_value,
+    verified: cm.verified_at != null,
+    primary: cm.is_primary,
+  }))
+
+/**
+ * Claims about the user for an ID token or the /userinfo response: those released by the
+ * granted scopes (per the scope registry) plus those the claims request asks for in the
+ * target. sub is left to the caller. Claims the user has no value for are omitted.
+ */
+export const buildUserClaims = async (
+  user: User,
+  scopes: string[],
+  claimsRequest: ClaimsRequest | null,
+  target: ClaimsTarget,
+): Promise<Record<string, unknown>> => {
+  const scopeClaims = (await listScopeClaims(scopes)).filter(
+    (name) => target === 'userinfo' || !USERINFO_ONLY_CLAIMS.includes(name),
+  )
+  const names = new Set([
+    ...scopeClaims,
+    ...Object.keys(claimsRequest?.[target] ?? {}),
+  ])
+  names.delete('sub')
+
+  const contacts = [...names].some((name) => CONTACT_CLAIMS.includes(name))
+    ? await findContactMethodsByAccountId(user.sub)
+    : []
+  const emails = contacts.filter((cm) => cm.contact_type === 'email')
+  const phones = contacts.filter((cm) => cm.contact_type === 'phone')
+  const phone = phones.find((cm) => cm.is_primary) ?? phones[0]
+
+  const values: Record<string, unknown> = {
+    email: user.email,
+    email_verified: user.emailVerified,
+    emails: toContactList(emails),
+    phone_numbers: toContactList(phones),
+    phone_number: phone?.contact_value,
+    phone_number_verified: phone && phone.verified_at != null,
+    name: user.name,
+    given_name: user.givenName,
+    family_name: user.familyName,
+    picture: user.picture,
+    address: user.address,
+  }
+
+  const claims: Record<string, unknown> = {}
+  for (const name of names) {
+    if (values[name] !== undefined) {
+      claims[name] = values[name]
+    }
+  }
+  return claims
+}
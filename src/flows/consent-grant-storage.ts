@@ -0,0 +1,104 @@
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type { ConsentGrant } from '../database/types/consent-grant.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const rowToConsentGrant = (row: types.Row): ConsentGrant => ({
+  user_id: row.user_id as string,
+  client_id: row.client_id as string,
+  scopes: (row.scopes ?? []) as string[],
+  created_at: row.created_at as Date,
+  updated_at: row.updated_at as Date,
+})
+
+/**
+ * Look up the scopes a user has approved for a client. Null when there is no grant.
+ */
+export const findConsentGrant = async (
+  userId: string,
+  clientId: string,
+): Promise<ConsentGrant | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.consent_grants WHERE user_id = ? AND client_id = ?`,
+    [userId, clientId],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return rowToConsentGrant(result.rows[0])
+}
+
+/**
+ * Record that a user approved scopes for a client.
+ * The scopes are added to any the user approved before; created_at keeps the first approval.
+ */
+export const saveConsentGrant = async (
+  userId: string,
+  clientId: string,
+  scopes: string[],
+): Promise<ConsentGrant> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+  const existing = await findConsentGrant(userId, clientId)
+  const grantedScopes = [...new Set([...(existing?.scopes ?? []), ...scopes])]
+  const createdAt = existing?.created_at ?? now
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.consent_grants (user_id, client_id, scopes, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [userId, clientId, grantedScopes, createdAt, now],
+    { prepare: true },
+  )
+
+  return {
+    user_id: userId,
+    client_id: clientId,
+    scopes: grantedScopes,
+    created_at: createdAt,
+    updated_at: now,
+  }
+}
+
+/**
+ * List the clients a user has granted access to, most recently updated first.
+ */
+export const listConsentGrantsByUser = async (
+  userId: string,
+): Promise<ConsentGrant[]> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.consent_grants WHERE user_id = ?`,
+    [userId],
+  )
+
+  return result.rows
+    .map(rowToConsentGrant)
+    .sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime())
+}
+
+/**
+ * Remove a user's grant for a client.
+ */
+export const deleteConsentGrant = async (
+  userId: string,
+  clientId: string,
+): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.consent_grants WHERE user_id = ? AND client_id = ?`,
+    [userId, clientId],
+  )
+}
@@ -0,0 +1,51 @@
+import { randomBytes } from 'node:crypto'
+import type { Client } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+
+/** How long a rendered consent form can be submitted */
+const CONSENT_NONCE_TTL_SECONDS = 10 * 60
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+/**
+ * Issue a nonce for one rendering of the consent form, bound to the session and client.
+ */
+export const createConsentNonce = async (
+  sessionId: string,
+  clientId: string,
+): Promise<string> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const nonce = randomBytes(32).toString('base64url')
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.consent_nonces (session_id, nonce, client_id, created_at)
+     VALUES (?, ?, ?, ?)
+     USING TTL ${CONSENT_NONCE_TTL_SECONDS}`,
+    [sessionId, nonce, clientId, new Date()],
+  )
+
+  return nonce
+}
+
+/**
+ * Atomically use up a consent nonce (DELETE … IF). Returns false when the nonce is unknown,
+ * expired, already used, or was issued to another session or client.
+ */
+export const consumeConsentNonce = async (
+  sessionId: string,
+  nonce: string,
+  clientId: string,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `DELETE FROM ${keyspace}.consent_nonces WHERE session_id = ? AND nonce = ? IF client_id = ?`,
+    [sessionId, nonce, clientId],
+  )
+
+  return result.wasApplied()
+}
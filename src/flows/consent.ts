@@ -0,0 +1,94 @@
+import type { Client } from '../clients/types/client.ts'
+import type { AuthorizationPrompt } from './authorization-validation.ts'
+import {
+  deleteConsentGrant,
+  findConsentGrant,
+} from './consent-grant-storage.ts'
+import { escapeHtml } from './escape-html.ts'
+import { revokeRefreshTokensByUser } from './refresh-token-storage.ts'
+
+/**
+ * Whether the user must approve this authorization request on the consent screen.
+ * prompt=consent always asks. Otherwise trusted clients never do, and other clients
+ * only when the request includes scopes the user has not approved for them before.
+ */
+export const isConsentRequired = async (
+  client: Client,
+  userId: string,
+  scopes: string[],
+  prompt: AuthorizationPrompt[],
+): Promise<boolean> => {
+  if (prompt.includes('consent')) {
+    return true
+  }
+  if (client.isTrusted) {
+    return false
+  }
+  const grant = await findConsentGrant(userId, client.id)
+  return !grant || scopes.some((scope) => !grant.scopes.includes(scope))
+}
+
+/**
+ * The consent screen: the client's name, what each requested scope allows, the claims the
+ * client marked essential, and an Allow/Deny form that POSTs the authorization request back
+ * to /authorize/consent as hidden fields, along with the nonce issued for this rendering.
+ */
+export const renderConsentPage = (
+  clientName: string,
+  scopes: { name: string; description: string }[],
+  essentialClaims: string[],
+  requestQuery: URLSearchParams,
+  consentNonce: string,
+): string => {
+  const scopeItems = scopes
+    .map(
+      (s) =>
+        `<li title="${escapeHtml(s.name)}">${escapeHtml(s.description)}</li>`,
+    )
+    .join('')
+  const essential =
+    essentialClaims.length > 0
+      ? `\n  <p>${escapeHtml(clientName)} says it needs: ${escapeHtml(essentialClaims.join(', '))}</p>`
+      : ''
+  const fields = [...requestQuery]
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}" />`,
+    )
+    .join('\n    ')
+  return `<!DOCTYPE html>
+<html>
+<head><title>Authorize access</title></head>
+<body>
+  <h1>Authorize access</h1>
+  <p><strong>${escapeHtml(clientName)}</strong> is requesting access to your account.</p>
+  <ul>${scopeItems}</ul>${essential}
+  <form method="POST" action="/authorize/consent">
+    ${fields}
+    <input type="hidden" name="consent_nonce" value="${escapeHtml(consentNonce)}" />
+    <p>
+      <button type="submit" name="decision" value="allow">Allow</button>
+      <button type="submit" name="decision" value="deny">Deny</button>
+    </p>
+  </form>
+</body>
+</html>`
+}
+
+/**
+ * Withdraw a user's grant to a client, along with the refresh tokens issued under it.
+ * Returns false when the user had no grant for the client.
+ */
+export const revokeConsentGrant = async (
+  userId: string,
+  clientId: string,
+): Promise<boolean> => {
+  const grant = await findConsentGrant(userId, clientId)
+  if (!grant) {
+    return false
+  }
+
+  await deleteConsentGrant(userId, clientId)
+  await revokeRefreshTokensByUser(clientId, userId)
+  return true
+}
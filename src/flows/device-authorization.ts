@@ -0,0 +1,152 @@
+import type { Context } from 'hono'
+import { authenticateClientRequest } from '../clients/auth.ts'
+import { getClientById } from '../clients/service.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import {
+  DEVICE_CODE_EXPIRY_SECONDS,
+  formatUserCode,
+  generateDeviceCode,
+} from './device-code-storage.ts'
+import { isScopeWithinLimit } from './input-validation.ts'
+
+export const DEVICE_CODE_GRANT_TYPE =
+  'urn:ietf:params:oauth:grant-type:device_code'
+
+const deviceAuthorizationError = (
+  error: string,
+  errorDescription?: string,
+  status = 400,
+): Response =>
+  new Response(
+    JSON.stringify({
+      error,
+      ...(errorDescription && { error_description: errorDescription }),
+    }),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        Pragma: 'no-cache',
+      },
+    },
+  )
+
+/**
+ * RFC 8628 Device Authorization endpoint.
+ * POST /device_authorization with client_id (or client authentication) and optional scope.
+ * Returns a device_code for the device to poll with and a user_code for the user to enter at /device.
+ */
+export const handleDeviceAuthorizationRequest = async (
+  c: Context,
+): Promise<Response> => {
+  const contentType = c.req.header('Content-Type') ?? ''
+  if (!contentType.includes('application/x-www-form-urlencoded')) {
+    return deviceAuthorizationError(
+      'invalid_request',
+      'Content-Type must be application/x-www-form-urlencoded',
+    )
+  }
+
+  const formData = await c.req.parseBody()
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(formData)) {
+    if (typeof value === 'string') {
+      params.set(key, value)
+    }
+  }
+
+  const config = getOidcConfig()
+  const clientId = params.get('client_id')
+  const authentication = await authenticateClientRequest(
+    params,
+    c.req.header('Authorization'),
+    config.deviceAuthorizationEndpoint,
+  )
+  if (!authentication.isValid) {
+    return deviceAuthorizationError(
+      authentication.error,
+      authentication.errorDescription,
+      authentication.status,
+    )
+  }
+
+  let client = authentication.client
+
+  if (!client) {
+    if (!clientId) {
+      return deviceAuthorizationError(
+        'invalid_request',
+        'client_id is required for public clients',
+      )
+    }
+    client = await getClientById(clientId)
+    if (!client) {
+      return deviceAuthorizationError('invalid_client', 'Unknown client', 401)
+    }
+    if (client.tokenEndpointAuthMethod !== 'none') {
+      return deviceAuthorizationError(
+        'invalid_client',
+        'Client authentication required',
+        401,
+      )
+    }
+  }
+
+  if (!client.grantTypes.includes(DEVICE_CODE_GRANT_TYPE)) {
+    return deviceAuthorizationError(
+      'unauthorized_client',
+      'Client is not authorized for the device_code grant',
+    )
+  }
+
+  const scopeParam = params.get('scope') ?? undefined
+  if (!isScopeWithinLimit(scopeParam)) {
+    return deviceAuthorizationError(
+      'invalid_scope',
+      'scope exceeds maximum length',
+    )
+  }
+
+  const requestedScopes =
+    scopeParam?.split(/\s+/).filter((s) => s.length > 0) ?? []
+  const invalidScopes = requestedScopes.filter(
+    (s) => !client.scopes.includes(s),
+  )
+  if (invalidScopes.length > 0) {
+    return deviceAuthorizationError(
+      'invalid_scope',
+      `Invalid scope(s): ${invalidScopes.join(', ')}`,
+    )
+  }
+
+  const scopes = requestedScopes.length > 0 ? requestedScopes : client.scopes
+
+  const deviceCode = await generateDeviceCode({
+    client_id: client.id,
+    scopes,
+  })
+
+  const userCode = formatUserCode(deviceCode.user_code)
+  const verificationUriComplete = new URL(config.deviceVerificationEndpoint)
+  verificationUriComplete.searchParams.set('user_code', userCode)
+
+  return new Response(
+    JSON.stringify({
+      device_code: deviceCode.device_code,
+      user_code: userCode,
+      verification_uri: config.deviceVerificationEndpoint,
+      verification_uri_complete: verificationUriComplete.toString(),
+      expires_in: DEVICE_CODE_EXPIRY_SECONDS,
+      interval: deviceCode.interval,
+    }),
+    {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        Pragma: 'no-cache',
+      },
+    },
+  )
+}
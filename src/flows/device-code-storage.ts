@@ -0,0 +1,295 @@
+import { randomBytes, randomInt } from 'node:crypto'
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type {
+  DeviceCode,
+  DeviceCodeInput,
+  DeviceCodeStatus,
+} from '../database/types/device-code.ts'
+
+export const DEVICE_CODE_EXPIRY_SECONDS = 10 * 60
+export const DEVICE_CODE_DEFAULT_INTERVAL_SECONDS = 5
+/** RFC 8628 §3.5: on slow_down the client must add 5 seconds to its interval */
+export const DEVICE_CODE_SLOW_DOWN_INCREMENT_SECONDS = 5
+
+/**
+ * Rows outlive their expiry so a late poll gets expired_token instead of invalid_grant.
+ */
+const DEVICE_CODE_RETENTION_SECONDS = 10 * 60
+const DEVICE_CODE_TTL_SECONDS =
+  DEVICE_CODE_EXPIRY_SECONDS + DEVICE_CODE_RETENTION_SECONDS
+
+/** RFC 8628 §6.1: consonants only, no ambiguous characters, case-insensitive */
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ'
+const USER_CODE_LENGTH = 8
+const USER_CODE_MAX_ATTEMPTS = 5
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const generateUserCode = (): string => {
+  let code = ''
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    code += USER_CODE_ALPHABET[randomInt(USER_CODE_ALPHABET.length)]
+  }
+  return code
+}
+
+/**
+ * Normalize user input: uppercase, strip separators and whitespace.
+ * "bcdf-ghjk" and "BCDF GHJK" both become "BCDFGHJK".
+ */
+export const normalizeUserCode = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z]/g, '')
+
+/**
+ * Format a normalized user code for display (XXXX-XXXX).
+ */
+export const formatUserCode = (userCode: string): string =>
+  `${userCode.slice(0, USER_CODE_LENGTH / 2)}-${userCode.slice(USER_CODE_LENGTH / 2)}`
+
+const rowToDeviceCode = (row: types.Row): DeviceCode => {
+  const authTimeRaw = row.auth_time as Date | null | undefined
+  return {
+    device_code: row.device_code as string,
+    user_code: row.user_code as string,
+    client_id: String(row.client_id),
+    scopes: (row.scopes ?? []) as string[],
+    status: row.status as DeviceCodeStatus,
+    user_id: (row.user_id as string | null) ?? null,
+    auth_time:
+      authTimeRaw != null ? Math.floor(authTimeRaw.getTime() / 1000) : null,
+    interval:
+      (row.interval as number | null) ?? DEVICE_CODE_DEFAULT_INTERVAL_SECONDS,
+    last_polled_at: (row.last_polled_at as Date | null) ?? null,
+    expires_at: row.expires_at as Date,
+    created_at: row.created_at as Date,
+  }
+}
+
+/**
+ * Updates must carry the row's remaining TTL; cells written without one would outlive the row.
+ */
+const getRemainingTtlSeconds = (deviceCode: DeviceCode): number =>
+  Math.max(
+    1,
+    Math.ceil(
+      (deviceCode.created_at.getTime() +
+        DEVICE_CODE_TTL_SECONDS * 1000 -
+        Date.now()) /
+        1000,
+    ),
+  )
+
+/**
+ * Create a pending device authorization with a unique user_code.
+ */
+export const generateDeviceCode = async (
+  input: DeviceCodeInput,
+): Promise<DeviceCode> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const deviceCode = randomBytes(32).toString('base64url')
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + DEVICE_CODE_EXPIRY_SECONDS * 1000)
+
+  let userCode: string | null = null
+  for (let attempt = 0; attempt < USER_CODE_MAX_ATTEMPTS; attempt++) {
+    const candidate = generateUserCode()
+    const result = await client.execute(
+      `INSERT INTO ${keyspace}.device_codes_by_user_code (user_code, device_code)
+       VALUES (?, ?)
+       IF NOT EXISTS
+       USING TTL ${DEVICE_CODE_EXPIRY_SECONDS}`,
+      [candidate, deviceCode],
+    )
+    if (result.wasApplied()) {
+      userCode = candidate
+      break
+    }
+  }
+
+  if (!userCode) {
+    throw new Error('Failed to allocate a unique user code')
+  }
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.device_codes
+     (device_code, user_code, client_id, scopes, status, interval, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     USING TTL ${DEVICE_CODE_TTL_SECONDS}`,
+    [
+      deviceCode,
+      userCode,
+      input.client_id,
+      input.scopes,
+      'pending',
+      DEVICE_CODE_DEFAULT_INTERVAL_SECONDS,
+      expiresAt,
+      now,
+    ],
+    { prepare: true },
+  )
+
+  return {
+    device_code: deviceCode,
+    user_code: userCode,
+    client_id: input.client_id,
+    scopes: input.scopes,
+    status: 'pending',
+    user_id: null,
+    auth_time: null,
+    interval: DEVICE_CODE_DEFAULT_INTERVAL_SECONDS,
+    last_polled_at: null,
+    expires_at: expiresAt,
+    created_at: now,
+  }
+}
+
+export const getDeviceCode = async (
+  deviceCode: string,
+): Promise<DeviceCode | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.device_codes WHERE device_code = ?`,
+    [deviceCode],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return rowToDeviceCode(result.rows[0])
+}
+
+/**
+ * Look up a device authorization by the code the user typed on the verification page.
+ * Returns null for unknown or expired codes.
+ */
+export const getDeviceCodeByUserCode = async (
+  userCode: string,
+): Promise<DeviceCode | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const normalized = normalizeUserCode(userCode)
+  if (normalized.length !== USER_CODE_LENGTH) {
+    return null
+  }
+
+  const lookup = await client.execute(
+    `SELECT device_code FROM ${keyspace}.device_codes_by_user_code WHERE user_code = ?`,
+    [normalized],
+  )
+
+  if (lookup.rows.length === 0) {
+    return null
+  }
+
+  const deviceCode = await getDeviceCode(lookup.rows[0].device_code as string)
+  if (!deviceCode || deviceCode.expires_at < new Date()) {
+    return null
+  }
+
+  return deviceCode
+}
+
+/**
+ * Approve a pending device authorization on behalf of the signed-in user.
+ * Returns false when the request is no longer pending.
+ */
+export const approveDeviceCode = async (
+  deviceCode: DeviceCode,
+  userId: string,
+  authTime: number,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `UPDATE ${keyspace}.device_codes USING TTL ${getRemainingTtlSeconds(deviceCode)}
+     SET status = ?, user_id = ?, auth_time = ?
+     WHERE device_code = ?
+     IF status = ?`,
+    [
+      'approved',
+      userId,
+      new Date(authTime * 1000),
+      deviceCode.device_code,
+      'pending',
+    ],
+  )
+
+  return result.wasApplied()
+}
+
+/**
+ * Deny a pending device authorization. Returns false when it is no longer pending.
+ */
+export const denyDeviceCode = async (
+  deviceCode: DeviceCode,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `UPDATE ${keyspace}.device_codes USING TTL ${getRemainingTtlSeconds(deviceCode)}
+     SET status = ?
+     WHERE device_code = ?
+     IF status = ?`,
+    ['denied', deviceCode.device_code, 'pending'],
+  )
+
+  return result.wasApplied()
+}
+
+/**
+ * Record a token endpoint poll, optionally raising the polling interval (slow_down).
+ */
+export const recordDeviceCodePoll = async (
+  deviceCode: DeviceCode,
+  interval: number,
+): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `UPDATE ${keyspace}.device_codes USING TTL ${getRemainingTtlSeconds(deviceCode)}
+     SET last_polled_at = ?, interval = ?
+     WHERE device_code = ?`,
+    [new Date(), interval, deviceCode.device_code],
+    { prepare: true },
+  )
+}
+
+/**
+ * Delete a device authorization once it reaches a final state.
+ * When expectedStatus is given the delete is conditional (LWT), so an approved
+ * device_code can be exchanged for tokens exactly once.
+ */
+export const deleteDeviceCode = async (
+  deviceCode: DeviceCode,
+  expectedStatus?: DeviceCodeStatus,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = expectedStatus
+    ? await client.execute(
+        `DELETE FROM ${keyspace}.device_codes WHERE device_code = ? IF status = ?`,
+        [deviceCode.device_code, expectedStatus],
+      )
+    : await client.execute(
+        `DELETE FROM ${keyspace}.device_codes WHERE device_code = ?`,
+        [deviceCode.device_code],
+      )
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.device_codes_by_user_code WHERE user_code = ?`,
+    [deviceCode.user_code],
+  )
+
+  return expectedStatus ? result.wasApplied() : true
+}
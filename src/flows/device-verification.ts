@@ -0,0 +1,150 @@
+import type { Context } from 'hono'
+import { getClientById } from '../clients/service.ts'
+import type { DeviceCode } from '../database/types/device-code.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import {
+  approveDeviceCode,
+  denyDeviceCode,
+  formatUserCode,
+  getDeviceCodeByUserCode,
+} from './device-code-storage.ts'
+import { escapeHtml } from './escape-html.ts'
+import { getSessionFromCookieHeader } from './session.ts'
+
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)}</title></head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+</body>
+</html>`
+
+const renderUserCodeForm = (errorMessage?: string): string =>
+  renderPage(
+    'Connect a device',
+    `${errorMessage ? `<p style="color: #c00;">${escapeHtml(errorMessage)}</p>` : ''}
+  <form method="GET" action="/device">
+    <p>
+      <label>Enter the code shown on your device: <input type="text" name="user_code" autocomplete="off" required /></label>
+    </p>
+    <p><button type="submit">Continue</button></p>
+  </form>`,
+  )
+
+const renderConfirmation = (
+  deviceCode: DeviceCode,
+  clientName: string,
+): string => {
+  const scopeItems = deviceCode.scopes
+    .map((s) => `<li>${escapeHtml(s)}</li>`)
+    .join('')
+  return renderPage(
+    'Connect a device',
+    `<p><strong>${escapeHtml(clientName)}</strong> is requesting access to your account.</p>
+  <p>Confirm that this code matches the one on your device: <strong>${escapeHtml(formatUserCode(deviceCode.user_code))}</strong></p>
+  <ul>${scopeItems}</ul>
+  <form method="POST" action="/device">
+    <input type="hidden" name="user_code" value="${escapeHtml(deviceCode.user_code)}" />
+    <p>
+      <button type="submit" name="action" value="approve">Allow</button>
+      <button type="submit" name="action" value="deny">Deny</button>
+    </p>
+  </form>`,
+  )
+}
+
+const INVALID_CODE_MESSAGE =
+  'That code is invalid or has expired. Check your device and try again.'
+
+const redirectToLogin = (c: Context, userCode: string | undefined) => {
+  const config = getOidcConfig()
+  const returnTo = userCode
+    ? `/device?user_code=${encodeURIComponent(userCode)}`
+    : '/device'
+  const loginUrl = new URL(`${config.issuer}/login`)
+  loginUrl.searchParams.set('return_to', returnTo)
+  return c.redirect(loginUrl.toString(), 302)
+}
+
+/**
+ * RFC 8628 verification page (GET /device).
+ * Requires a signed-in user; shows the user_code entry form, or the approval prompt
+ * when user_code is present (verification_uri_complete).
+ */
+export const handleDeviceVerificationPage = async (
+  c: Context,
+): Promise<Response> => {
+  const userCode = c.req.query('user_code')?.trim() || undefined
+  const session = await getSessionFromCookieHeader(c.req.header('Cookie'))
+  if (!session) {
+    return redirectToLogin(c, userCode)
+  }
+
+  if (!userCode) {
+    return c.html(renderUserCodeForm())
+  }
+
+  const deviceCode = await getDeviceCodeByUserCode(userCode)
+  if (!deviceCode || deviceCode.status !== 'pending') {
+    return c.html(renderUserCodeForm(INVALID_CODE_MESSAGE), 400)
+  }
+
+  const client = await getClientById(deviceCode.client_id)
+  if (!client) {
+    return c.html(renderUserCodeForm(INVALID_CODE_MESSAGE), 400)
+  }
+
+  return c.html(renderConfirmation(deviceCode, client.name))
+}
+
+/**
+ * Approve or deny a device authorization (POST /device).
+ */
+export const handleDeviceVerificationSubmit = async (
+  c: Context,
+): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const userCode = (body.user_code as string | undefined)?.trim() || undefined
+  const action = body.action as string | undefined
+
+  const session = await getSessionFromCookieHeader(c.req.header('Cookie'))
+  if (!session) {
+    return redirectToLogin(c, userCode)
+  }
+
+  if (!userCode || (action !== 'approve' && action !== 'deny')) {
+    return c.html(renderUserCodeForm(INVALID_CODE_MESSAGE), 400)
+  }
+
+  const deviceCode = await getDeviceCodeByUserCode(userCode)
+  if (!deviceCode || deviceCode.status !== 'pending') {
+    return c.html(renderUserCodeForm(INVALID_CODE_MESSAGE), 400)
+  }
+
+  if (action === 'deny') {
+    await denyDeviceCode(deviceCode)
+    return c.html(
+      renderPage(
+        'Request denied',
+        '<p>The device was not connected. You can close this window.</p>',
+      ),
+    )
+  }
+
+  const isApproved = await approveDeviceCode(
+    deviceCode,
+    session.user_id,
+    session.auth_time,
+  )
+  if (!isApproved) {
+    return c.html(renderUserCodeForm(INVALID_CODE_MESSAGE), 400)
+  }
+
+  return c.html(
+    renderPage(
+      'Device connected',
+      '<p>You can return to your device. This window can be closed.</p>',
+    ),
+  )
+}
@@ -0,0 +1,74 @@
+import { getClientById } from '../clients/service.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { resolveAccountId } from '../subjects/service.ts'
+import { parseJwt, verifyJwt } from '../tokens/jwt.ts'
+import {
+  getActiveKeyPair,
+  getLatestActiveKey,
+} from '../tokens/key-management.ts'
+
+/** ID tokens are signed with the default typ; explicitly typed tokens (at+jwt, logout+jwt, ...) are not hints */
+const ID_TOKEN_TYP = 'JWT'
+
+export interface IdTokenHintClaims {
+  /** The account id, resolved from the pairwise sub for pairwise clients */
+  sub: string
+  clientId: string
+  sid?: string
+  /** Whether the ID token has expired; callers should not act on it without the user's confirmation */
+  isExpired: boolean
+}
+
+/**
+ * Verify an id_token_hint issued by this provider.
+ * Expired ID tokens are accepted and flagged: the hint identifies the user and client, it does not authorize anything.
+ * Other tokens signed by this provider, hints issued to clients that are no longer active,
+ * and hints naming an unknown pairwise sub are rejected.
+ */
+export const verifyIdTokenHint = async (
+  token: string,
+): Promise<IdTokenHintClaims | null> => {
+  try {
+    const { header } = parseJwt(token)
+    const kid = header.kid as string | undefined
+    const keyPair = kid ? getActiveKeyPair(kid) : getLatestActiveKey('RS256')
+    if (!keyPair) {
+      return null
+    }
+
+    const verified = verifyJwt(token, keyPair.publicKey, keyPair.algorithm, {
+      isExpiryIgnored: true,
+    })
+    const { payload } = verified
+
+    if (
+      verified.header.typ !== undefined &&
+      verified.header.typ !== ID_TOKEN_TYP
+    ) {
+      return null
+    }
+    if (payload.iss !== getOidcConfig().issuer) {
+      return null
+    }
+    const aud = Array.isArray(payload.aud) ? payload.aud[0] : payload.aud
+    if (typeof payload.sub !== 'string' || typeof aud !== 'string') {
+      return null
+    }
+
+    const client = await getClientById(aud)
+    const accountId = client && (await resolveAccountId(client, payload.sub))
+    if (!accountId) {
+      return null
+    }
+
+    return {
+      sub: accountId,
+      clientId: aud,
+      ...(typeof payload.sid === 'string' && { sid: payload.sid }),
+      isExpired:
+        typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now(),
+    }
+  } catch {
+    return null
+  }
+}
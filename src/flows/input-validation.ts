@@ -6,6 +6,7 @@
 export const MAX_STATE_LENGTH = 512
 export const MAX_SCOPE_LENGTH = 2048
 export const MAX_CODE_CHALLENGE_LENGTH = 128
+export const MAX_LOGIN_HINT_LENGTH = 256
 
 /**
  * Validates redirect_uri format per OAuth 2.0.
@@ -37,3 +38,10 @@ export const isCodeChallengeWithinLimit = (
   if (!challenge) return true
   return challenge.length <= MAX_CODE_CHALLENGE_LENGTH
 }
+
+export const isLoginHintWithinLimit = (
+  loginHint: string | undefined,
+): boolean => {
+  if (!loginHint) return true
+  return loginHint.length <= MAX_LOGIN_HINT_LENGTH
+}
@@ -0,0 +1,148 @@
+import type { Context } from 'hono'
+import { authenticateClientRequest } from '../clients/auth.ts'
+import type { Client } from '../clients/types/client.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { resolveSubject } from '../subjects/service.ts'
+import { isAccessTokenRevoked } from '../tokens/access-token-denylist.ts'
+import { DPOP_TOKEN_TYPE } from '../tokens/dpop.ts'
+import { isJwtFormat, verifyAccessToken } from '../tokens/validation.ts'
+import { findRefreshToken } from './refresh-token-storage.ts'
+
+const introspectionResponse = (
+  body: Record<string, unknown>,
+  status = 200,
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      Pragma: 'no-cache',
+    },
+  })
+
+const introspectError = (
+  error: string,
+  errorDescription: string,
+  status = 400,
+): Response =>
+  introspectionResponse({ error, error_description: errorDescription }, status)
+
+const INACTIVE = { active: false }
+
+/**
+ * Only access tokens are described. verifyAccessToken requires typ at+jwt, and the
+ * client_id claim, which ID tokens and logout tokens never carry, is required as well,
+ * so another JWT signed with the same keys cannot pass for an access token.
+ */
+const introspectAccessToken = async (
+  token: string,
+): Promise<Record<string, unknown>> => {
+  try {
+    const payload = verifyAccessToken(token)
+    if (!payload.client_id) {
+      return INACTIVE
+    }
+    if (payload.jti && (await isAccessTokenRevoked(payload.jti))) {
+      return INACTIVE
+    }
+    return {
+      active: true,
+      token_type: payload.cnf ? DPOP_TOKEN_TYPE : 'Bearer',
+      scope: payload.scope,
+      client_id: payload.client_id,
+      ...(payload.sub && { sub: payload.sub }),
+      aud: payload.aud,
+      exp: payload.exp,
+      iat: payload.iat,
+      ...(payload.cnf && { cnf: payload.cnf }),
+    }
+  } catch {
+    return INACTIVE
+  }
+}
+
+/**
+ * Refresh tokens are only reported active to the client they were issued to,
+ * so one client cannot probe another client's refresh tokens.
+ * sub is the one the client's ID and access tokens carry, pairwise for pairwise clients.
+ */
+const introspectRefreshToken = async (
+  token: string,
+  client: Client,
+): Promise<Record<string, unknown>> => {
+  const stored = await findRefreshToken(token)
+  if (!stored || stored.client_id !== client.id) {
+    return INACTIVE
+  }
+  return {
+    active: true,
+    token_type: 'refresh_token',
+    scope: stored.scopes.join(' '),
+    client_id: stored.client_id,
+    sub: await resolveSubject(client, stored.user_id),
+    exp: Math.floor(stored.expires_at.getTime() / 1000),
+    iat: Math.floor(stored.created_at.getTime() / 1000),
+  }
+}
+
+/**
+ * RFC 7662 Token Introspection endpoint.
+ * POST /introspect with token, optional token_type_hint, and client authentication
+ * (client_secret_basic, client_secret_post or a JWT assertion; public clients cannot introspect).
+ * Access tokens are verified against the key store and the revocation denylist; refresh tokens
+ * are looked up in refresh_tokens.
+ * Unknown, expired or invalid tokens return { active: false }.
+ */
+export const handleIntrospectRequest = async (
+  c: Context,
+): Promise<Response> => {
+  const contentType = c.req.header('Content-Type') ?? ''
+  if (!contentType.includes('application/x-www-form-urlencoded')) {
+    return introspectError(
+      'invalid_request',
+      'Content-Type must be application/x-www-form-urlencoded',
+    )
+  }
+
+  const formData = await c.req.parseBody()
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(formData)) {
+    if (typeof value === 'string') {
+      params.set(key, value)
+    }
+  }
+
+  const authentication = await authenticateClientRequest(
+    params,
+    c.req.header('Authorization'),
+    getOidcConfig().introspectionEndpoint,
+  )
+  if (!authentication.isValid) {
+    return introspectError(
+      authentication.error,
+      authentication.errorDescription,
+      authentication.status,
+    )
+  }
+
+  const { client } = authentication
+  if (!client) {
+    return introspectError(
+      'invalid_client',
+      'Client authentication required',
+      401,
+    )
+  }
+
+  const token = params.get('token')?.trim()
+  if (!token) {
+    return introspectError('invalid_request', 'token is required')
+  }
+
+  if (isJwtFormat(token)) {
+    return introspectionResponse(await introspectAccessToken(token))
+  }
+
+  return introspectionResponse(await introspectRefreshToken(token, client))
+}
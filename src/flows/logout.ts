@@ -0,0 +1,166 @@
+import type { Context } from 'hono'
+import { buildExpiredSessionCookie } from '../auth/auth-utils.ts'
+import { getClientById } from '../clients/service.ts'
+import type { Session } from '../database/types/session.ts'
+import { notifyBackchannelLogoutInBackground } from './backchannel-logout.ts'
+import { escapeHtml } from './escape-html.ts'
+import type { IdTokenHintClaims } from './id-token-hint.ts'
+import { verifyIdTokenHint } from './id-token-hint.ts'
+import { endSession, getSessionFromCookieHeader } from './session.ts'
+import { getSession } from './session-storage.ts'
+
+interface LogoutParams {
+  idTokenHint?: string
+  postLogoutRedirectUri?: string
+  state?: string
+  clientId?: string
+  isConfirmed: boolean
+}
+
+const renderLogoutPage = (title: string, body: string): string =>
+  `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)}</title></head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+</body>
+</html>`
+
+const renderLogoutError = (message: string): string =>
+  renderLogoutPage('Sign out failed', `<p>${escapeHtml(message)}</p>`)
+
+const renderLogoutConfirmation = (params: LogoutParams): string => {
+  const hiddenField = (name: string, value: string | undefined): string =>
+    value
+      ? `<input type="hidden" name="${name}" value="${escapeHtml(value)}" />`
+      : ''
+  return renderLogoutPage(
+    'Sign out',
+    `<p>Do you want to sign out?</p>
+  <form method="POST" action="/logout">
+    ${hiddenField('id_token_hint', params.idTokenHint)}
+    ${hiddenField('client_id', params.clientId)}
+    ${hiddenField('post_logout_redirect_uri', params.postLogoutRedirectUri)}
+    ${hiddenField('state', params.state)}
+    <input type="hidden" name="confirm" value="yes" />
+    <p><button type="submit">Sign out</button></p>
+  </form>`,
+  )
+}
+
+/**
+ * The session named by the hint's sid, when the browser no longer has the cookie.
+ */
+const findHintedSession = async (
+  hintClaims: IdTokenHintClaims | null,
+): Promise<Session | null> => {
+  if (!hintClaims?.sid) {
+    return null
+  }
+  const session = await getSession(hintClaims.sid)
+  return session?.user_id === hintClaims.sub ? session : null
+}
+
+const readLogoutParams = async (c: Context): Promise<LogoutParams> => {
+  const raw: Record<string, string | undefined> =
+    c.req.method === 'POST'
+      ? Object.fromEntries(
+          Object.entries(await c.req.parseBody()).filter(
+            (entry): entry is [string, string] => typeof entry[1] === 'string',
+          ),
+        )
+      : c.req.query()
+  const value = (key: string): string | undefined =>
+    raw[key]?.trim() || undefined
+
+  return {
+    idTokenHint: value('id_token_hint'),
+    postLogoutRedirectUri: value('post_logout_redirect_uri'),
+    state: value('state'),
+    clientId: value('client_id'),
+    isConfirmed: c.req.method === 'POST' && value('confirm') === 'yes',
+  }
+}
+
+/**
+ * OIDC RP-Initiated Logout 1.0 end_session endpoint (GET or POST /logout).
+ *
+ * - id_token_hint identifies the user and client; without it, or when it has expired,
+ *   the user must confirm on a page.
+ * - post_logout_redirect_uri must be registered in the client's postLogoutRedirectUris;
+ *   the client comes from id_token_hint (aud) or client_id, which must agree when both are sent.
+ * - Expires the oidc_session cookie, then redirects (with state) or shows a signed-out page.
+ * - Ends the server-side session: the one in the cookie, else the one named by the hint's sid.
+ * - Back-channel logout notifications are sent in the background; the response does not wait for them.
+ */
+export const handleLogout = async (c: Context): Promise<Response> => {
+  const params = await readLogoutParams(c)
+
+  let hintClaims: IdTokenHintClaims | null = null
+  if (params.idTokenHint) {
+    hintClaims = await verifyIdTokenHint(params.idTokenHint)
+    if (!hintClaims) {
+      return c.html(renderLogoutError('Invalid id_token_hint.'), 400)
+    }
+    if (params.clientId && params.clientId !== hintClaims.clientId) {
+      return c.html(
+        renderLogoutError('client_id does not match id_token_hint.'),
+        400,
+      )
+    }
+  }
+
+  const clientId = hintClaims?.clientId ?? params.clientId
+  if (params.postLogoutRedirectUri) {
+    if (!clientId) {
+      return c.html(
+        renderLogoutError(
+          'post_logout_redirect_uri requires id_token_hint or client_id.',
+        ),
+        400,
+      )
+    }
+    const client = await getClientById(clientId)
+    if (
+      !client ||
+      !client.postLogoutRedirectUris.includes(params.postLogoutRedirectUri)
+    ) {
+      return c.html(
+        renderLogoutError('post_logout_redirect_uri is not registered.'),
+        400,
+      )
+    }
+  }
+
+  if ((!hintClaims || hintClaims.isExpired) && !params.isConfirmed) {
+    return c.html(renderLogoutConfirmation(params))
+  }
+
+  const session =
+    (await getSessionFromCookieHeader(c.req.header('Cookie'))) ??
+    (await findHintedSession(hintClaims))
+  if (session) {
+    await endSession(session)
+  } else if (hintClaims) {
+    notifyBackchannelLogoutInBackground({ sub: hintClaims.sub })
+  }
+
+  const expiredCookie = buildExpiredSessionCookie(c)
+
+  if (params.postLogoutRedirectUri) {
+    const redirectUrl = new URL(params.postLogoutRedirectUri)
+    if (params.state) {
+      redirectUrl.searchParams.set('state', params.state)
+    }
+    const res = c.redirect(redirectUrl.toString(), 302)
+    res.headers.set('Set-Cookie', expiredCookie)
+    return res
+  }
+
+  const res = c.html(
+    renderLogoutPage('Signed out', '<p>You have been signed out.</p>'),
+  )
+  res.headers.set('Set-Cookie', expiredCookie)
+  return res
+}
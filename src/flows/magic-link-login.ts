@@ -0,0 +1,206 @@
+import type { Context } from 'hono'
+import {
+  sanitizeReturnTo,
+  setSessionCookieAndRedirect,
+} from '../auth/auth-utils.ts'
+import { log } from '../plumbing/logger.ts'
+import {
+  authenticateWithMagicLink,
+  authenticateWithOtp,
+  MAGIC_LINK_EXPIRY_MINUTES,
+  OTP_EXPIRY_MINUTES,
+  requestMagicLink,
+} from '../users/service.ts'
+import { escapeHtml } from './escape-html.ts'
+
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)}</title></head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+</body>
+</html>`
+
+const redirectToLogin = (c: Context, returnTo: string, error: string) =>
+  c.redirect(
+    `/login?return_to=${encodeURIComponent(returnTo)}&error=${error}`,
+    302,
+  )
+
+/** The form a one-time code is typed into; it POSTs to /login/otp */
+const renderCodePage = (contactId: string, error?: string): string =>
+  renderPage(
+    'Enter your code',
+    `${error ? `<p style="color: #c00;">${escapeHtml(error)}</p>` : ''}
+  <p>We sent you a sign-in code. It expires in ${OTP_EXPIRY_MINUTES} minutes and can be used once.</p>
+  <form method="POST" action="/login/otp">
+    <input type="hidden" name="contact_id" value="${escapeHtml(contactId)}" />
+    <p>
+      <label>Code: <input type="text" name="code" inputmode="numeric" autocomplete="one-time-code" required /></label>
+    </p>
+    <p><button type="submit">Sign in</button></p>
+  </form>`,
+  )
+
+/**
+ * Send a sign-in link or code from the login page (POST /login/magic-link).
+ * An email address gets a link and a phone number a code, which is asked for on the next page.
+ * The return_to is stored with the link or code, so signing in finishes the original flow.
+ */
+export const handleMagicLinkRequestSubmit = async (
+  c: Context,
+): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const contact = (body.contact as string | undefined)?.trim()
+  const returnTo = sanitizeReturnTo(body.return_to as string | undefined)
+
+  if (!contact) {
+    return redirectToLogin(c, returnTo, 'missing_contact')
+  }
+
+  let result: Awaited<ReturnType<typeof requestMagicLink>>
+  try {
+    result = await requestMagicLink({
+      ...(contact.includes('@') ? { email: contact } : { phone: contact }),
+      locale: c.req.header('Accept-Language'),
+      returnTo,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid email address') {
+      return redirectToLogin(c, returnTo, 'invalid_email')
+    }
+    if (error instanceof Error && error.message === 'Invalid phone number') {
+      return redirectToLogin(c, returnTo, 'invalid_phone')
+    }
+    if (
+      error instanceof Error &&
+      error.message === 'Too many failed attempts'
+    ) {
+      return redirectToLogin(c, returnTo, 'otp_locked')
+    }
+    log({
+      message: 'Magic link request from login page failed',
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return redirectToLogin(c, returnTo, 'magic_link_failed')
+  }
+
+  if (result.method === 'code') {
+    c.header('Cache-Control', 'no-store')
+    return c.html(renderCodePage(result.contactId))
+  }
+  return c.html(
+    renderPage(
+      'Check your email',
+      `<p>We sent you a sign-in link. It expires in ${MAGIC_LINK_EXPIRY_MINUTES} minutes and can be used once. You can close this window.</p>`,
+    ),
+  )
+}
+
+/**
+ * Landing page for a sign-in link (GET /login/magic?contact_id=&token=).
+ * It never consumes the token: link previews and mail scanners fetch links before the
+ * user does, so signing in takes a button press that POSTs the token back.
+ */
+export const handleMagicLinkPage = (c: Context): Response => {
+  const contactId = c.req.query('contact_id')?.trim()
+  const token = c.req.query('token')?.trim()
+
+  if (!contactId || !token) {
+    return redirectToLogin(c, '/', 'invalid_magic_link')
+  }
+
+  c.header('Cache-Control', 'no-store')
+  c.header('Referrer-Policy', 'no-referrer')
+  return c.html(
+    renderPage(
+      'Sign in',
+      `<p>Continue to sign in with the link you were sent.</p>
+  <form method="POST" action="/login/magic">
+    <input type="hidden" name="contact_id" value="${escapeHtml(contactId)}" />
+    <input type="hidden" name="token" value="${escapeHtml(token)}" />
+    <p><button type="submit">Continue</button></p>
+  </form>`,
+    ),
+  )
+}
+
+/**
+ * Sign in with a magic link token (POST /login/magic): consume the token, start a session
+ * and redirect to the return_to stored with the token.
+ */
+export const handleMagicLinkSubmit = async (c: Context): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const contactId = (body.contact_id as string | undefined)?.trim()
+  const token = (body.token as string | undefined)?.trim()
+
+  if (!contactId || !token) {
+    return redirectToLogin(c, '/', 'invalid_magic_link')
+  }
+
+  try {
+    const { user, returnTo } = await authenticateWithMagicLink({
+      contactId,
+      token,
+    })
+    return await setSessionCookieAndRedirect(
+      c,
+      user.sub,
+      sanitizeReturnTo(returnTo ?? undefined),
+      'magic_link',
+    )
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Account is not active') {
+      return redirectToLogin(c, '/', 'account_inactive')
+    }
+    return redirectToLogin(c, '/', 'invalid_magic_link')
+  }
+}
+
+/**
+ * Sign in with a one-time code (POST /login/otp): consume the code, start a session and
+ * redirect to the return_to stored with the code. A wrong code shows the form again.
+ */
+export const handleOtpSubmit = async (c: Context): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const contactId = (body.contact_id as string | undefined)?.trim()
+  const code = (body.code as string | undefined)?.trim()
+
+  if (!contactId) {
+    return redirectToLogin(c, '/', 'invalid_code')
+  }
+  if (!code) {
+    return c.html(renderCodePage(contactId, 'Enter the code we sent you.'), 400)
+  }
+
+  try {
+    const { user, returnTo } = await authenticateWithOtp({ contactId, code })
+    return await setSessionCookieAndRedirect(
+      c,
+      user.sub,
+      sanitizeReturnTo(returnTo ?? undefined),
+      'otp',
+    )
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'Too many failed attempts'
+    ) {
+      return redirectToLogin(c, '/', 'otp_locked')
+    }
+    if (error instanceof Error && error.message === 'Account is not active') {
+      return redirectToLogin(c, '/', 'account_inactive')
+    }
+    if (error instanceof Error && error.message === 'Invalid or expired code') {
+      return c.html(
+        renderCodePage(
+          contactId,
+          'That code is incorrect, expired or already used.',
+        ),
+        400,
+      )
+    }
+    return redirectToLogin(c, '/', 'invalid_code')
+  }
+}
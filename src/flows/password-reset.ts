@@ -0,0 +1,213 @@
+import type { Context } from 'hono'
+import { sanitizeReturnTo } from '../auth/auth-utils.ts'
+import { log } from '../plumbing/logger.ts'
+import {
+  PASSWORD_RESET_EXPIRY_MINUTES,
+  requestPasswordReset,
+  resetPassword,
+} from '../users/service.ts'
+import { escapeHtml } from './escape-html.ts'
+
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)}</title></head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+</body>
+</html>`
+
+const renderError = (error?: string): string =>
+  error ? `<p style="color: #c00;">${escapeHtml(error)}</p>` : ''
+
+const redirectToLogin = (c: Context, returnTo: string, error: string) =>
+  c.redirect(
+    `/login?return_to=${encodeURIComponent(returnTo)}&error=${error}`,
+    302,
+  )
+
+/** The form a reset link is requested with; it POSTs to /login/forgot-password */
+const renderForgotPasswordPage = (returnTo: string, error?: string): string =>
+  renderPage(
+    'Forgot your password?',
+    `${renderError(error)}
+  <p>Enter your email address and we will send you a link to choose a new password.</p>
+  <form method="POST" action="/login/forgot-password">
+    <input type="hidden" name="return_to" value="${escapeHtml(returnTo)}" />
+    <p>
+      <label>Email: <input type="email" name="email" required /></label>
+    </p>
+    <p><button type="submit">Send me a reset link</button></p>
+  </form>
+  <p><a href="/login?return_to=${encodeURIComponent(returnTo)}">Back to sign in</a></p>`,
+  )
+
+/** The form a new password is typed into; it POSTs to /login/reset-password */
+const renderResetPasswordPage = (
+  contactId: string,
+  token: string,
+  error?: string,
+): string =>
+  renderPage(
+    'Choose a new password',
+    `${renderError(error)}
+  <form method="POST" action="/login/reset-password">
+    <input type="hidden" name="contact_id" value="${escapeHtml(contactId)}" />
+    <input type="hidden" name="token" value="${escapeHtml(token)}" />
+    <p>
+      <label>New password: <input type="password" name="password" autocomplete="new-password" required /></label>
+    </p>
+    <p>
+      <label>Confirm new password: <input type="password" name="password_confirmation" autocomplete="new-password" required /></label>
+    </p>
+    <p><button type="submit">Reset password</button></p>
+  </form>`,
+  )
+
+/**
+ * Forgot password page (GET /login/forgot-password), linked from the login page.
+ */
+export const handleForgotPasswordPage = (c: Context): Response => {
+  const returnTo = sanitizeReturnTo(c.req.query('return_to'))
+  return c.html(renderForgotPasswordPage(returnTo))
+}
+
+/**
+ * Send a password reset link (POST /login/forgot-password).
+ * The confirmation is the same whether or not the address belongs to an account.
+ */
+export const handleForgotPasswordSubmit = async (
+  c: Context,
+): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const email = (body.email as string | undefined)?.trim()
+  const returnTo = sanitizeReturnTo(body.return_to as string | undefined)
+
+  if (!email) {
+    return c.html(
+      renderForgotPasswordPage(returnTo, 'Enter your email address.'),
+      400,
+    )
+  }
+
+  try {
+    await requestPasswordReset({
+      email,
+      locale: c.req.header('Accept-Language'),
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid email address') {
+      return c.html(
+        renderForgotPasswordPage(returnTo, 'Enter a valid email address.'),
+        400,
+      )
+    }
+    if (
+      error instanceof Error &&
+      error.message === 'Too many password reset emails'
+    ) {
+      return c.html(
+        renderForgotPasswordPage(
+          returnTo,
+          'Too many reset links were requested for this address. Try again later.',
+        ),
+        429,
+      )
+    }
+    log({
+      message: 'Password reset request from login page failed',
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return c.html(
+      renderForgotPasswordPage(
+        returnTo,
+        'We could not send a reset link. Please try again.',
+      ),
+      500,
+    )
+  }
+
+  return c.html(
+    renderPage(
+      'Check your email',
+      `<p>If this address belongs to an account, we sent it a link to choose a new password. It expires in ${PASSWORD_RESET_EXPIRY_MINUTES} minutes and can be used once.</p>
+  <p><a href="/login?return_to=${encodeURIComponent(returnTo)}">Back to sign in</a></p>`,
+    ),
+  )
+}
+
+/**
+ * Landing page for a reset link (GET /login/reset-password?contact_id=&token=).
+ * Like the magic link page, it never consumes the token; submitting the form does.
+ */
+export const handleResetPasswordPage = (c: Context): Response => {
+  const contactId = c.req.query('contact_id')?.trim()
+  const token = c.req.query('token')?.trim()
+
+  if (!contactId || !token) {
+    return redirectToLogin(c, '/', 'invalid_reset_link')
+  }
+
+  c.header('Cache-Control', 'no-store')
+  c.header('Referrer-Policy', 'no-referrer')
+  return c.html(renderResetPasswordPage(contactId, token))
+}
+
+/**
+ * Set a new password (POST /login/reset-password): consume the token, end every session
+ * and revoke every refresh token of the user, then store the new password.
+ */
+export const handleResetPasswordSubmit = async (
+  c: Context,
+): Promise<Response> => {
+  const body = await c.req.parseBody()
+  const contactId = (body.contact_id as string | undefined)?.trim()
+  const token = (body.token as string | undefined)?.trim()
+  const password = body.password as string | undefined
+  const passwordConfirmation = body.password_confirmation as string | undefined
+
+  if (!contactId || !token) {
+    return redirectToLogin(c, '/', 'invalid_reset_link')
+  }
+
+  c.header('Cache-Control', 'no-store')
+  if (!password) {
+    return c.html(
+      renderResetPasswordPage(contactId, token, 'Enter a new password.'),
+      400,
+    )
+  }
+  if (password !== passwordConfirmation) {
+    return c.html(
+      renderResetPasswordPage(contactId, token, 'The passwords do not match.'),
+      400,
+    )
+  }
+
+  try {
+    await resetPassword({ contactId, token, password })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Account is not active') {
+      return redirectToLogin(c, '/', 'account_inactive')
+    }
+    if (
+      error instanceof Error &&
+      error.message === 'Invalid or expired reset link'
+    ) {
+      return redirectToLogin(c, '/', 'invalid_reset_link')
+    }
+    log({
+      message: 'Password reset from login page failed',
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return redirectToLogin(c, '/', 'password_reset_failed')
+  }
+
+  return c.html(
+    renderPage(
+      'Password changed',
+      `<p>Your password has been changed and you have been signed out everywhere.</p>
+  <p><a href="/login">Sign in</a></p>`,
+    ),
+  )
+}
@@ -0,0 +1,97 @@
+import { randomBytes } from 'node:crypto'
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type { PushedAuthorizationRequest } from '../database/types/pushed-authorization-request.ts'
+
+/** RFC 9126 §2.2: request_uri lifetimes should be short; the client redirects immediately */
+export const PUSHED_AUTHORIZATION_REQUEST_EXPIRY_SECONDS = 60
+/** Lifetime of a request re-pushed by /authorize while the user signs in */
+export const PUSHED_AUTHORIZATION_REQUEST_LOGIN_EXPIRY_SECONDS = 10 * 60
+
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const rowToPushedAuthorizationRequest = (
+  row: types.Row,
+): PushedAuthorizationRequest => ({
+  request_uri: row.request_uri as string,
+  client_id: String(row.client_id),
+  parameters: (row.parameters ?? {}) as Record<string, string>,
+  expires_at: row.expires_at as Date,
+  created_at: row.created_at as Date,
+})
+
+/**
+ * Store a validated authorization request and mint the request_uri that refers to it.
+ */
+export const createPushedAuthorizationRequest = async (
+  clientId: string,
+  parameters: Record<string, string>,
+  expiresInSeconds = PUSHED_AUTHORIZATION_REQUEST_EXPIRY_SECONDS,
+): Promise<PushedAuthorizationRequest> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const requestUri = `${REQUEST_URI_PREFIX}${randomBytes(32).toString('base64url')}`
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + expiresInSeconds * 1000)
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.pushed_authorization_requests
+     (request_uri, client_id, parameters, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     USING TTL ?`,
+    [requestUri, clientId, parameters, expiresAt, now, expiresInSeconds],
+    { prepare: true },
+  )
+
+  return {
+    request_uri: requestUri,
+    client_id: clientId,
+    parameters,
+    expires_at: expiresAt,
+    created_at: now,
+  }
+}
+
+/**
+ * Look up a pushed request; null when unknown or expired.
+ * Reading does not consume it, so a reload of /authorize (or the return from /login) still works;
+ * deletePushedAuthorizationRequest is called once the authorization response is sent.
+ */
+export const getPushedAuthorizationRequest = async (
+  requestUri: string,
+): Promise<PushedAuthorizationRequest | null> => {
+  if (!requestUri.startsWith(REQUEST_URI_PREFIX)) {
+    return null
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.pushed_authorization_requests WHERE request_uri = ?`,
+    [requestUri],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  const request = rowToPushedAuthorizationRequest(result.rows[0])
+  return request.expires_at > new Date() ? request : null
+}
+
+export const deletePushedAuthorizationRequest = async (
+  requestUri: string,
+): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.pushed_authorization_requests WHERE request_uri = ?`,
+    [requestUri],
+  )
+}
@@ -0,0 +1,159 @@
+import type { Context } from 'hono'
+import { authenticateClientRequest } from '../clients/auth.ts'
+import { getClientById } from '../clients/service.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import {
+  readAuthorizationRequestParams,
+  validateAuthorizationRequest,
+} from './authorization-validation.ts'
+import {
+  createPushedAuthorizationRequest,
+  PUSHED_AUTHORIZATION_REQUEST_EXPIRY_SECONDS,
+} from './pushed-authorization-request-storage.ts'
+import { resolveRequestObject } from './request-object.ts'
+
+/** Client authentication parameters are not part of the stored authorization request */
+const CLIENT_AUTHENTICATION_PARAMETERS = [
+  'client_secret',
+  'client_assertion',
+  'client_assertion_type',
+]
+
+const pushedAuthorizationResponse = (
+  body: Record<string, unknown>,
+  status: number,
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      Pragma: 'no-cache',
+    },
+  })
+
+const pushedAuthorizationError = (
+  error: string,
+  errorDescription?: string,
+  status = 400,
+): Response =>
+  pushedAuthorizationResponse(
+    {
+      error,
+      ...(errorDescription && { error_description: errorDescription }),
+    },
+    status,
+  )
+
+/**
+ * RFC 9126 Pushed Authorization Request endpoint.
+ * POST /par with the authorization request parameters and client authentication
+ * (as at /token; public clients send client_id only).
+ * A signed request object (request) is verified and resolved before storing.
+ * The request is validated like /authorize and stored briefly; the response's request_uri
+ * is then sent to /authorize together with client_id.
+ */
+export const handlePushedAuthorizationRequest = async (
+  c: Context,
+): Promise<Response> => {
+  const contentType = c.req.header('Content-Type') ?? ''
+  if (!contentType.includes('application/x-www-form-urlencoded')) {
+    return pushedAuthorizationError(
+      'invalid_request',
+      'Content-Type must be application/x-www-form-urlencoded',
+    )
+  }
+
+  const formData = await c.req.parseBody()
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(formData)) {
+    if (typeof value === 'string') {
+      params.set(key, value)
+    }
+  }
+
+  const clientId = params.get('client_id')
+  const authentication = await authenticateClientRequest(
+    params,
+    c.req.header('Authorization'),
+    getOidcConfig().pushedAuthorizationRequestEndpoint,
+  )
+  if (!authentication.isValid) {
+    return pushedAuthorizationError(
+      authentication.error,
+      authentication.errorDescription,
+      authentication.status,
+    )
+  }
+
+  let client = authentication.client
+
+  if (!client) {
+    if (!clientId) {
+      return pushedAuthorizationError(
+        'invalid_request',
+        'client_id is required for public clients',
+      )
+    }
+    client = await getClientById(clientId)
+    if (!client) {
+      return pushedAuthorizationError('invalid_client', 'Unknown client', 401)
+    }
+    if (client.tokenEndpointAuthMethod !== 'none') {
+      return pushedAuthorizationError(
+        'invalid_client',
+        'Client authentication required',
+        401,
+      )
+    }
+  }
+
+  // RFC 9126 §2.1: a pushed request cannot itself refer to another request_uri
+  if (params.has('request_uri')) {
+    return pushedAuthorizationError(
+      'invalid_request',
+      'request_uri is not allowed in a pushed authorization request',
+    )
+  }
+
+  const parameters: Record<string, string> = {}
+  for (const [key, value] of params) {
+    if (!CLIENT_AUTHENTICATION_PARAMETERS.includes(key)) {
+      parameters[key] = value
+    }
+  }
+  parameters.client_id = client.id
+
+  const requestObject = await resolveRequestObject(parameters)
+  if (!requestObject.isValid) {
+    return pushedAuthorizationError(
+      'invalid_request_object',
+      requestObject.errorDescription,
+    )
+  }
+
+  const validation = await validateAuthorizationRequest({
+    ...readAuthorizationRequestParams(requestObject.params),
+    isPushed: true,
+    isSigned: requestObject.isSigned,
+  })
+  if (!validation.isValid) {
+    return pushedAuthorizationError(
+      validation.error,
+      validation.errorDescription,
+    )
+  }
+
+  const pushed = await createPushedAuthorizationRequest(
+    client.id,
+    requestObject.params,
+  )
+
+  return pushedAuthorizationResponse(
+    {
+      request_uri: pushed.request_uri,
+      expires_in: PUSHED_AUTHORIZATION_REQUEST_EXPIRY_SECONDS,
+    },
+    201,
+  )
+}
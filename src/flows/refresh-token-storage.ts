@@ -1,45 +1,76 @@
-import { randomBytes } from 'node:crypto'
-import type { Client } from 'cassandra-driver'
+import { randomBytes, randomUUID } from 'node:crypto'
+import type { Client, types } from 'cassandra-driver'
 import { getDatabaseClient } from '../database/client.ts'
 import { getDatabaseConfig } from '../database/config.ts'
 import type {
   RefreshToken,
   RefreshTokenInput,
 } from '../database/types/refresh-token.ts'
+import { getOidcConfig } from '../oidc/config.ts'
 import { log } from '../plumbing/logger.ts'
 
-const REFRESH_TOKEN_EXPIRY_DAYS = 30
-const REFRESH_TOKEN_TTL_SECONDS = REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60
-
 const getDbClient = (): Client => getDatabaseClient()
 const getKeyspace = (): string => getDatabaseConfig().keyspace
 
-export const generateRefreshToken = async (
-  input: RefreshTokenInput,
-): Promise<string> => {
+const rowToRefreshToken = (row: types.Row): RefreshToken => {
+  const authTimeRaw = row.auth_time as Date | null | undefined
+  const authTime =
+    authTimeRaw instanceof Date
+      ? Math.floor(authTimeRaw.getTime() / 1000)
+      : null
+
+  return {
+    token: row.token_value as string,
+    client_id: String(row.client_id),
+    user_id: row.user_id as string,
+    scopes: (row.scopes ?? []) as string[],
+    expires_at: row.expires_at as Date,
+    created_at: row.created_at as Date,
+    auth_time: authTime,
+    sid: (row.sid as string | null) ?? null,
+    dpop_jkt: (row.dpop_jkt as string | null) ?? null,
+    resources: (row.resources ?? []) as string[],
+    claims: (row.claims as string | null) ?? null,
+    family_id: (row.family_id as string | null) ?? null,
+    consumed_at: (row.consumed_at as Date | null) ?? null,
+    absolute_expires_at: (row.absolute_expires_at as Date | null) ?? null,
+  }
+}
+
+/** Seconds until the token expires, so rows written later expire with it */
+const remainingTtlSeconds = (expiresAt: Date): number =>
+  Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000))
+
+/**
+ * Write a refresh token and its lookup rows, all expiring with the token.
+ * Rewriting an existing token this way moves its expiry.
+ */
+const writeRefreshToken = async (stored: RefreshToken): Promise<void> => {
   const client = getDbClient()
   const keyspace = getKeyspace()
-  const token = randomBytes(32).toString('base64url')
-  const now = new Date()
-  const expiresAt = new Date(
-    now.getTime() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
-  )
+  const ttlSeconds = remainingTtlSeconds(stored.expires_at)
   const authTime =
-    input.auth_time !== undefined ? new Date(input.auth_time * 1000) : null
+    stored.auth_time !== null ? new Date(stored.auth_time * 1000) : null
 
   await client.execute(
     `INSERT INTO ${keyspace}.refresh_tokens
-     (token_value, client_id, user_id, scopes, expires_at, created_at, auth_time)
-     VALUES (?, ?, ?, ?, ?, ?, ?)
-     USING TTL ${REFRESH_TOKEN_TTL_SECONDS}`,
+     (token_value, client_id, user_id, scopes, expires_at, created_at, auth_time, sid, dpop_jkt, resources, claims, family_id, absolute_expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     USING TTL ${ttlSeconds}`,
     [
-      token,
-      input.client_id,
-      input.user_id,
-      input.scopes,
-      expiresAt,
-      now,
+      stored.token,
+      stored.client_id,
+      stored.user_id,
+      stored.scopes,
+      stored.expires_at,
+      stored.created_at,
       authTime,
+      stored.sid,
+      stored.dpop_jkt,
+      stored.resources,
+      stored.claims,
+      stored.family_id,
+      stored.absolute_expires_at,
     ],
   )
 
@@ -47,16 +78,177 @@ export const generateRefreshToken = async (
     `INSERT INTO ${keyspace}.refresh_tokens_by_user
      (user_id, client_id, token_value)
      VALUES (?, ?, ?)
-     USING TTL ${REFRESH_TOKEN_TTL_SECONDS}`,
-    [input.user_id, input.client_id, token],
+     USING TTL ${ttlSeconds}`,
+    [stored.user_id, stored.client_id, stored.token],
   )
 
+  if (stored.family_id) {
+    await client.execute(
+      `INSERT INTO ${keyspace}.refresh_tokens_by_family
+       (family_id, token_value, user_id, client_id)
+       VALUES (?, ?, ?, ?)
+       USING TTL ${ttlSeconds}`,
+      [stored.family_id, stored.token, stored.user_id, stored.client_id],
+    )
+  }
+}
+
+export const generateRefreshToken = async (
+  input: RefreshTokenInput,
+): Promise<string> => {
+  const token = randomBytes(32).toString('base64url')
+
+  await writeRefreshToken({
+    token,
+    client_id: input.client_id,
+    user_id: input.user_id,
+    scopes: input.scopes,
+    expires_at: input.expires_at,
+    created_at: new Date(),
+    auth_time: input.auth_time ?? null,
+    sid: input.sid ?? null,
+    dpop_jkt: input.dpop_jkt ?? null,
+    resources: input.resources ?? [],
+    claims: input.claims ?? null,
+    family_id: input.family_id ?? randomUUID(),
+    consumed_at: null,
+    absolute_expires_at: input.absolute_expires_at,
+  })
+
   return token
 }
 
-export const consumeRefreshToken = async (
+/**
+ * Move a refresh token's expiry later (sliding expiry for clients that do not rotate).
+ * Consumed tokens and earlier expiries are left alone.
+ */
+export const extendRefreshToken = async (
+  stored: RefreshToken,
+  expiresAt: Date,
+  absoluteExpiresAt: Date,
+): Promise<void> => {
+  if (stored.consumed_at || expiresAt <= stored.expires_at) {
+    return
+  }
+  await writeRefreshToken({
+    ...stored,
+    expires_at: expiresAt,
+    absolute_expires_at: absoluteExpiresAt,
+  })
+}
+
+/**
+ * Revoke every token of a rotation chain, consumed or not.
+ * Returns the number of tokens revoked.
+ */
+export const revokeRefreshTokenFamily = async (
+  familyId: string,
+): Promise<number> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const selectResult = await client.execute(
+    `SELECT token_value, user_id, client_id FROM ${keyspace}.refresh_tokens_by_family
+     WHERE family_id = ?`,
+    [familyId],
+  )
+
+  for (const row of selectResult.rows) {
+    const token = row.token_value as string
+    await client.execute(
+      `DELETE FROM ${keyspace}.refresh_tokens WHERE token_value = ?`,
+      [token],
+    )
+    await client.execute(
+      `DELETE FROM ${keyspace}.refresh_tokens_by_user
+       WHERE user_id = ? AND client_id = ? AND token_value = ?`,
+      [row.user_id as string, String(row.client_id), token],
+    )
+  }
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.refresh_tokens_by_family WHERE family_id = ?`,
+    [familyId],
+  )
+
+  return selectResult.rows.length
+}
+
+/**
+ * Whether a token is still listed in its family. Revoking a family deletes the whole
+ * refresh_tokens_by_family partition, so a token missing from it was revoked.
+ */
+const isInLiveFamily = async (
+  token: string,
+  familyId: string,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT token_value FROM ${keyspace}.refresh_tokens_by_family
+     WHERE family_id = ? AND token_value = ?`,
+    [familyId, token],
+  )
+
+  return result.rows.length > 0
+}
+
+/**
+ * A consumed token was presented again. Within the reuse grace window this is taken for a
+ * client retrying a refresh whose response it never received, and the token may be rotated
+ * again, unless its family has been revoked since. After the window, the token was most
+ * likely stolen: its whole family is revoked.
+ */
+const handleConsumedRefreshToken = async (
+  stored: RefreshToken,
+  consumedAt: Date,
+): Promise<RefreshToken | null> => {
+  const graceMs = getOidcConfig().refreshTokenReuseGraceSeconds * 1000
+  if (Date.now() - consumedAt.getTime() <= graceMs) {
+    if (
+      stored.family_id &&
+      !(await isInLiveFamily(stored.token, stored.family_id))
+    ) {
+      log({
+        message: 'Refresh token reused after its family was revoked',
+        userId: stored.user_id,
+        clientId: stored.client_id,
+        familyId: stored.family_id,
+      })
+      return null
+    }
+    log({
+      message: 'Refresh token reused within grace window',
+      userId: stored.user_id,
+      clientId: stored.client_id,
+      ...(stored.family_id && { familyId: stored.family_id }),
+    })
+    return stored
+  }
+
+  const revokedCount = stored.family_id
+    ? await revokeRefreshTokenFamily(stored.family_id)
+    : 0
+  log({
+    message: 'Refresh token reuse detected, family revoked (security event)',
+    userId: stored.user_id,
+    clientId: stored.client_id,
+    ...(stored.family_id && { familyId: stored.family_id }),
+    revokedCount,
+  })
+  return null
+}
+
+/**
+ * Load a refresh token presented by a client, consumed or not. Returns null, leaving the token
+ * in place, when it belongs to another client or is bound to a DPoP key other than dpopJkt.
+ * Expired tokens are deleted.
+ */
+const loadPresentedRefreshToken = async (
   token: string,
   clientId: string,
+  dpopJkt: string | null,
 ): Promise<RefreshToken | null> => {
   const client = getDbClient()
   const keyspace = getKeyspace()
@@ -70,22 +262,7 @@ export const consumeRefreshToken = async (
     return null
   }
 
-  const row = selectResult.rows[0]
-  const authTimeRaw = row.auth_time as Date | null | undefined
-  const authTime =
-    authTimeRaw instanceof Date
-      ? Math.floor(authTimeRaw.getTime() / 1000)
-      : null
-
-  const stored: RefreshToken = {
-    token: row.token_value as string,
-    client_id: String(row.client_id),
-    user_id: row.user_id as string,
-    scopes: (row.scopes ?? []) as string[],
-    expires_at: row.expires_at as Date,
-    created_at: row.created_at as Date,
-    auth_time: authTime,
-  }
+  const stored = rowToRefreshToken(selectResult.rows[0])
 
   if (stored.client_id !== clientId) {
     log({
@@ -97,8 +274,16 @@ export const consumeRefreshToken = async (
     return null
   }
 
-  const now = new Date()
-  if (stored.expires_at < now) {
+  if (stored.dpop_jkt && stored.dpop_jkt !== dpopJkt) {
+    log({
+      message: 'Refresh token DPoP key mismatch (security event)',
+      userId: stored.user_id,
+      clientId: stored.client_id,
+    })
+    return null
+  }
+
+  if (stored.expires_at < new Date()) {
     await client.execute(
       `DELETE FROM ${keyspace}.refresh_tokens WHERE token_value = ?`,
       [token],
@@ -111,20 +296,45 @@ export const consumeRefreshToken = async (
     return null
   }
 
-  const deleteResult = await client.execute(
-    `DELETE FROM ${keyspace}.refresh_tokens WHERE token_value = ? IF EXISTS`,
-    [token],
-  )
+  return stored
+}
 
-  if (!deleteResult.wasApplied()) {
-    log({
-      message: 'Refresh token already used (replay attempt)',
-      userId: stored.user_id,
-      clientId: stored.client_id,
-    })
+/**
+ * Consume a refresh token for rotation. Returns null, leaving the token in place, when it
+ * belongs to another client or is bound to a DPoP key other than dpopJkt.
+ * The consumed token is kept, marked with consumed_at, until it expires: presenting it again
+ * after the reuse grace window revokes its family.
+ */
+export const consumeRefreshToken = async (
+  token: string,
+  clientId: string,
+  dpopJkt: string | null = null,
+): Promise<RefreshToken | null> => {
+  const stored = await loadPresentedRefreshToken(token, clientId, dpopJkt)
+  if (!stored) {
     return null
   }
 
+  if (stored.consumed_at) {
+    return handleConsumedRefreshToken(stored, stored.consumed_at)
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+
+  const updateResult = await client.execute(
+    `UPDATE ${keyspace}.refresh_tokens USING TTL ${remainingTtlSeconds(stored.expires_at)}
+     SET consumed_at = ? WHERE token_value = ? IF consumed_at = null`,
+    [now, token],
+  )
+
+  if (!updateResult.wasApplied()) {
+    // Consumed by a concurrent request between the read and the update
+    const consumedAt = updateResult.rows?.[0]?.consumed_at as Date | undefined
+    return handleConsumedRefreshToken(stored, consumedAt ?? now)
+  }
+
   await client.execute(
     `DELETE FROM ${keyspace}.refresh_tokens_by_user
      WHERE user_id = ? AND client_id = ? AND token_value = ?`,
@@ -135,7 +345,56 @@ export const consumeRefreshToken = async (
 }
 
 /**
- * Revoke a single refresh token by token value.
+ * Check a refresh token presented by a client that does not rotate refresh tokens; the token
+ * stays usable. The same client, DPoP and replay checks as consumeRefreshToken apply.
+ */
+export const verifyRefreshToken = async (
+  token: string,
+  clientId: string,
+  dpopJkt: string | null = null,
+): Promise<RefreshToken | null> => {
+  const stored = await loadPresentedRefreshToken(token, clientId, dpopJkt)
+  if (!stored) {
+    return null
+  }
+
+  if (stored.consumed_at) {
+    return handleConsumedRefreshToken(stored, stored.consumed_at)
+  }
+
+  return stored
+}
+
+/**
+ * Look up a refresh token without consuming it (e.g. for introspection).
+ * Returns null when the token is unknown, expired or already consumed.
+ */
+export const findRefreshToken = async (
+  token: string,
+): Promise<RefreshToken | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const selectResult = await client.execute(
+    `SELECT * FROM ${keyspace}.refresh_tokens WHERE token_value = ?`,
+    [token],
+  )
+
+  if (selectResult.rows.length === 0) {
+    return null
+  }
+
+  const stored = rowToRefreshToken(selectResult.rows[0])
+  if (stored.expires_at < new Date() || stored.consumed_at) {
+    return null
+  }
+
+  return stored
+}
+
+/**
+ * Revoke a refresh token by token value, along with the rest of its rotation family,
+ * so a consumed predecessor cannot be rotated again within the reuse grace window.
  * Verifies client_id matches before revoking.
  * Returns true if token was found and revoked, false otherwise.
  * Per RFC 7009, callers should return 200 even when token was invalid.
@@ -164,6 +423,12 @@ export const revokeRefreshToken = async (
     return false
   }
 
+  const familyId = (row.family_id as string | null) ?? null
+  if (familyId) {
+    await revokeRefreshTokenFamily(familyId)
+    return true
+  }
+
   await client.execute(
     `DELETE FROM ${keyspace}.refresh_tokens WHERE token_value = ?`,
     [token],
@@ -177,12 +442,62 @@ export const revokeRefreshToken = async (
   return true
 }
 
+/**
+ * Whether the user holds at least one refresh token for the client.
+ * Uses the refresh_tokens_by_user partition (user_id, client_id), so no table scan.
+ */
+export const hasRefreshTokensForClient = async (
+  userId: string,
+  clientId: string,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT token_value FROM ${keyspace}.refresh_tokens_by_user
+     WHERE user_id = ? AND client_id = ? LIMIT 1`,
+    [userId, clientId],
+  )
+
+  return result.rows.length > 0
+}
+
+/**
+ * List the user's unconsumed refresh tokens for a client, newest first.
+ * Uses the refresh_tokens_by_user partition (user_id, client_id), so no table scan.
+ */
+export const listRefreshTokensByUser = async (
+  userId: string,
+  clientId: string,
+): Promise<RefreshToken[]> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT token_value FROM ${keyspace}.refresh_tokens_by_user
+     WHERE user_id = ? AND client_id = ?`,
+    [userId, clientId],
+  )
+
+  const tokens: RefreshToken[] = []
+  for (const row of result.rows) {
+    const stored = await findRefreshToken(row.token_value as string)
+    if (stored) {
+      tokens.push(stored)
+    }
+  }
+
+  return tokens.sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+}
+
 /**
  * Revoke all refresh tokens for a given user and client.
  * Returns the number of tokens revoked.
  *
- * Intended for future use: user deactivation, password change, or sign-out-all-devices.
+ * Used when a user revokes their consent grant to the client.
  * The refresh_tokens_by_user table enables efficient lookup without full table scan.
+ * It only lists unconsumed tokens, so each token's whole family is revoked: consumed
+ * tokens would otherwise survive and could be rotated again within the reuse grace window.
  */
 export const revokeRefreshTokensByUser = async (
   clientId: string,
@@ -198,13 +513,28 @@ export const revokeRefreshTokensByUser = async (
   )
 
   const tokens = selectResult.rows.map((row) => row.token_value as string)
-  const count = tokens.length
+  const familyIds = new Set<string>()
+  let count = 0
 
   for (const token of tokens) {
+    const tokenResult = await client.execute(
+      `SELECT family_id FROM ${keyspace}.refresh_tokens WHERE token_value = ?`,
+      [token],
+    )
+    const familyId = tokenResult.rows[0]?.family_id as string | null | undefined
+    if (familyId) {
+      familyIds.add(familyId)
+      continue
+    }
     await client.execute(
       `DELETE FROM ${keyspace}.refresh_tokens WHERE token_value = ?`,
       [token],
     )
+    count++
+  }
+
+  for (const familyId of familyIds) {
+    count += await revokeRefreshTokenFamily(familyId)
   }
 
   await client.execute(
@@ -215,3 +545,20 @@ export const revokeRefreshTokensByUser = async (
 
   return count
 }
+
+/**
+ * Revoke all of the user's refresh tokens for each of the clients.
+ * Returns the number of tokens revoked.
+ *
+ * refresh_tokens_by_user is partitioned by (user_id, client_id), so the caller names the clients.
+ */
+export const revokeRefreshTokensForClients = async (
+  userId: string,
+  clientIds: string[],
+): Promise<number> => {
+  let count = 0
+  for (const clientId of clientIds) {
+    count += await revokeRefreshTokensByUser(clientId, userId)
+  }
+  return count
+}
@@ -0,0 +1,140 @@
+import { findClientSigningKey } from '../clients/jwks.ts'
+import { getClientById, recordRequestObjectJti } from '../clients/service.ts'
+import type { ClientJwks } from '../clients/types/client.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import type { JwtAlgorithm } from '../tokens/jwt.ts'
+import { parseJwt, verifyJwt } from '../tokens/jwt.ts'
+
+/** JWT claims of a request object that are not authorization request parameters */
+const REQUEST_OBJECT_JWT_CLAIMS = ['iss', 'aud', 'exp', 'iat', 'nbf', 'jti']
+
+/** How far away a request object's exp may be (FAPI caps request objects at 60 minutes) */
+const MAX_REQUEST_OBJECT_LIFETIME_SECONDS = 60 * 60
+
+interface VerifiedRequestObject {
+  params: Record<string, string>
+  jti: string
+  exp: number
+}
+
+export type ResolvedRequestObject =
+  | {
+      isValid: true
+      /** Authorization request parameters; only the request object's claims when there is one */
+      params: Record<string, string>
+      /** Whether the parameters came from a verified request object */
+      isSigned: boolean
+    }
+  | { isValid: false; errorDescription: string }
+
+const isAudienceIssuer = (aud: unknown, issuer: string): boolean =>
+  Array.isArray(aud) ? aud.includes(issuer) : aud === issuer
+
+/**
+ * Verify a request object (RFC 9101) against the client's registered JWKS and
+ * return its claims as authorization request parameters.
+ * iss must be the client, aud must include this issuer, and any client_id claim must match.
+ * jti and exp are required; exp may be at most 60 minutes away.
+ * Replay protection (jti) is left to the caller.
+ */
+const verifyRequestObject = (
+  token: string,
+  clientId: string,
+  jwks: ClientJwks,
+): VerifiedRequestObject | null => {
+  const config = getOidcConfig()
+  try {
+    const { header } = parseJwt(token)
+    const algorithm = header.alg as JwtAlgorithm
+    if (!config.requestObjectSigningAlgValuesSupported.includes(algorithm)) {
+      return null
+    }
+    const key = findClientSigningKey(jwks, header.kid)
+    if (!key) {
+      return null
+    }
+
+    const { payload } = verifyJwt(token, key, algorithm)
+    const now = Math.floor(Date.now() / 1000)
+    if (
+      payload.iss !== clientId ||
+      typeof payload.jti !== 'string' ||
+      payload.jti.length === 0 ||
+      typeof payload.exp !== 'number' ||
+      payload.exp - now > MAX_REQUEST_OBJECT_LIFETIME_SECONDS ||
+      !isAudienceIssuer(payload.aud, config.issuer) ||
+      (payload.client_id !== undefined && payload.client_id !== clientId) ||
+      payload.request !== undefined ||
+      payload.request_uri !== undefined
+    ) {
+      return null
+    }
+
+    const params: Record<string, string> = {}
+    for (const [name, value] of Object.entries(payload)) {
+      if (REQUEST_OBJECT_JWT_CLAIMS.includes(name)) {
+        continue
+      }
+      if (typeof value === 'string') {
+        params[name] = value
+      } else if (typeof value === 'number') {
+        params[name] = String(value)
+      } else if (name === 'claims' && typeof value === 'object') {
+        // OIDC Core §6.1: claims is a JSON object here rather than a string
+        params[name] = JSON.stringify(value)
+      }
+    }
+    return { params, jti: payload.jti, exp: payload.exp }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Apply the request parameter, when present: verify the request object and use only its
+ * claims as the authorization request parameters (RFC 9101 §5, §6.3). Parameters outside it
+ * are ignored, so nothing unsigned can be added to a signed request. A request object is
+ * accepted once. Without one the parameters are returned as-is.
+ */
+export const resolveRequestObject = async (
+  params: Record<string, string>,
+): Promise<ResolvedRequestObject> => {
+  const { request } = params
+  if (!request) {
+    return { isValid: true, params, isSigned: false }
+  }
+
+  const client = params.client_id ? await getClientById(params.client_id) : null
+  if (!client?.jwks) {
+    return {
+      isValid: false,
+      errorDescription: 'Client has no registered keys for request objects',
+    }
+  }
+
+  const verified = verifyRequestObject(request, client.id, client.jwks)
+  if (!verified) {
+    return {
+      isValid: false,
+      errorDescription: 'Request object could not be verified',
+    }
+  }
+
+  const isFirstUse = await recordRequestObjectJti(
+    client.id,
+    verified.jti,
+    new Date(verified.exp * 1000),
+  )
+  if (!isFirstUse) {
+    return {
+      isValid: false,
+      errorDescription: 'Request object has already been used',
+    }
+  }
+
+  return {
+    isValid: true,
+    params: { ...verified.params, client_id: client.id },
+    isSigned: true,
+  }
+}
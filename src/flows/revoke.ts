@@ -1,9 +1,10 @@
 import type { Context } from 'hono'
-import {
-  extractClientCredentialsFromBasicAuthHeader,
-  extractClientCredentialsFromForm,
-} from '../clients/auth.ts'
-import { authenticateClient, getClientById } from '../clients/service.ts'
+import { authenticateClientRequest } from '../clients/auth.ts'
+import { getClientById } from '../clients/service.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { revokeAccessToken } from '../tokens/access-token-denylist.ts'
+import type { AccessTokenPayload } from '../tokens/types/access-token-payload.ts'
+import { isJwtFormat, verifyAccessToken } from '../tokens/validation.ts'
 import { revokeRefreshToken } from './refresh-token-storage.ts'
 
 const revokeError = (
@@ -26,10 +27,32 @@ const revokeError = (
     },
   )
 
+/**
+ * Denylist an access token JWT until it expires.
+ * Only the client the token was issued to may revoke it (RFC 7009 §2.1); tokens that fail
+ * verification or belong to another client are ignored.
+ */
+const revokeAccessTokenJwt = async (
+  token: string,
+  clientId: string,
+): Promise<void> => {
+  let payload: AccessTokenPayload
+  try {
+    payload = verifyAccessToken(token)
+  } catch {
+    return
+  }
+  if (payload.client_id !== clientId || !payload.jti || !payload.exp) {
+    return
+  }
+  await revokeAccessToken(payload.jti, clientId, payload.exp)
+}
+
 /**
  * RFC 7009 Token Revocation endpoint.
  * POST /revoke with token, optional token_type_hint, and client authentication.
- * Revokes refresh tokens. Access tokens are short-lived; revocation invalidates refresh token.
+ * Access tokens (JWTs) are added to the jti denylist until they expire; refresh tokens are revoked
+ * in storage. token_type_hint is not needed to tell them apart.
  * Per RFC 7009: returns 200 even when token is invalid/unknown (prevents enumeration).
  */
 export const handleRevokeRequest = async (c: Context): Promise<Response> => {
@@ -55,27 +78,23 @@ export const handleRevokeRequest = async (c: Context): Promise<Response> => {
   }
 
   const clientId = params.get('client_id')
-  const credentials =
-    extractClientCredentialsFromForm(params) ??
-    extractClientCredentialsFromBasicAuthHeader(c.req.header('Authorization'))
+  const authentication = await authenticateClientRequest(
+    params,
+    c.req.header('Authorization'),
+    getOidcConfig().revocationEndpoint,
+  )
+  if (!authentication.isValid) {
+    return revokeError(
+      authentication.error,
+      authentication.errorDescription,
+      authentication.status,
+    )
+  }
 
   let clientIdToUse: string
 
-  if (credentials) {
-    const client = await authenticateClient(
-      credentials.clientId,
-      credentials.clientSecret,
-    )
-    if (!client) {
-      return revokeError('invalid_client', 'Invalid client credentials', 401)
-    }
-    if (clientId && credentials.clientId !== clientId) {
-      return revokeError(
-        'invalid_request',
-        'client_id in body must match Authorization header',
-      )
-    }
-    clientIdToUse = credentials.clientId
+  if (authentication.client) {
+    clientIdToUse = authentication.client.id
   } else {
     if (!clientId) {
       return revokeError(
@@ -109,7 +128,11 @@ export const handleRevokeRequest = async (c: Context): Promise<Response> => {
     )
   }
 
-  await revokeRefreshToken(token.trim(), clientIdToUse)
+  if (isJwtFormat(token.trim())) {
+    await revokeAccessTokenJwt(token.trim(), clientIdToUse)
+  } else {
+    await revokeRefreshToken(token.trim(), clientIdToUse)
+  }
 
   return new Response(null, {
     status: 200,
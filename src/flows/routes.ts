@@ -22,9 +22,30 @@ import { getFacebookConfig } from '../providers/facebook-config.ts'
 import { getGoogleConfig } from '../providers/google-config.ts'
 import { getMicrosoftConfig } from '../providers/microsoft-config.ts'
 import { getXConfig } from '../providers/x-config.ts'
+import { OTP_LOCKOUT_MINUTES } from '../users/otp.ts'
 import { authenticateUser } from '../users/service.ts'
-import { handleAuthorization } from './authorization.ts'
+import { handleAuthorization, handleConsentSubmit } from './authorization.ts'
+import { handleDeviceAuthorizationRequest } from './device-authorization.ts'
+import {
+  handleDeviceVerificationPage,
+  handleDeviceVerificationSubmit,
+} from './device-verification.ts'
 import { escapeHtml } from './escape-html.ts'
+import { handleIntrospectRequest } from './introspect.ts'
+import { handleLogout } from './logout.ts'
+import {
+  handleMagicLinkPage,
+  handleMagicLinkRequestSubmit,
+  handleMagicLinkSubmit,
+  handleOtpSubmit,
+} from './magic-link-login.ts'
+import {
+  handleForgotPasswordPage,
+  handleForgotPasswordSubmit,
+  handleResetPasswordPage,
+  handleResetPasswordSubmit,
+} from './password-reset.ts'
+import { handlePushedAuthorizationRequest } from './pushed-authorization.ts'
 import { handleRevokeRequest } from './revoke.ts'
 import { handleTokenRequest } from './token.ts'
 import { handleUserInfo } from './userinfo.ts'
@@ -34,11 +55,22 @@ const flows = new Hono()
 flows.use('*', rateLimit({ windowMs: 60_000, maxRequests: 100 }))
 
 flows.get('/authorize', handleAuthorization)
+flows.post('/authorize/consent', handleConsentSubmit)
+flows.post('/par', handlePushedAuthorizationRequest)
 
 flows.post('/token', handleTokenRequest)
 
 flows.post('/revoke', handleRevokeRequest)
 
+flows.post('/introspect', handleIntrospectRequest)
+
+flows.get('/logout', handleLogout)
+flows.post('/logout', handleLogout)
+
+flows.post('/device_authorization', handleDeviceAuthorizationRequest)
+flows.get('/device', handleDeviceVerificationPage)
+flows.post('/device', handleDeviceVerificationSubmit)
+
 flows.get('/userinfo', requireAccessToken(), handleUserInfo)
 
 flows.get('/auth/google', handleGoogleAuth)
@@ -55,12 +87,27 @@ const LOGIN_ERROR_MESSAGES: Record<string, string> = {
   invalid_credentials: 'Invalid email or password.',
   missing_callback_params: 'Sign-in failed: missing callback parameters.',
   invalid_state: 'Sign-in failed: invalid or expired state. Please try again.',
+  missing_contact:
+    'Enter your email or phone number to get a sign-in link or code.',
+  invalid_email: 'Enter a valid email address.',
+  invalid_phone: 'Enter a valid phone number.',
+  magic_link_failed:
+    'We could not send a sign-in link or code. Please try again.',
+  invalid_magic_link:
+    'That sign-in link is invalid, expired or already used. Request a new one.',
+  invalid_code: 'That sign-in code is invalid or expired. Request a new one.',
+  otp_locked: `Too many incorrect codes. Wait ${OTP_LOCKOUT_MINUTES} minutes, then request a new code.`,
+  invalid_reset_link:
+    'That password reset link is invalid, expired or already used. Request a new one.',
+  password_reset_failed: 'We could not change your password. Please try again.',
+  account_inactive: 'This account is not active.',
   x_email_required:
     'X OAuth is only allowed for tokens that include an email address. Your X integration works, but your X account did not provide an email. Please ensure you have granted email access to your X account when signing in with X.',
 }
 
 flows.get('/login', (c) => {
   const returnTo = sanitizeReturnTo(c.req.query('return_to'))
+  const loginHint = c.req.query('login_hint')?.trim() ?? ''
   const errorParam = c.req.query('error')
   const errorMessage =
     errorParam && LOGIN_ERROR_MESSAGES[errorParam]
@@ -94,13 +141,21 @@ flows.get('/login', (c) => {
   <form method="POST" action="/login">
     <input type="hidden" name="return_to" value="${escapeHtml(returnTo)}" />
     <p>
-      <label>Email: <input type="email" name="email" required /></label>
+      <label>Email: <input type="email" name="email" value="${escapeHtml(loginHint)}" required /></label>
     </p>
     <p>
       <label>Password: <input type="password" name="password" required /></label>
     </p>
     <p><button type="submit">Sign in</button></p>
   </form>
+  <p><a href="/login/forgot-password?return_to=${encodeURIComponent(returnTo)}">Forgot your password?</a></p>
+  <form method="POST" action="/login/magic-link">
+    <input type="hidden" name="return_to" value="${escapeHtml(returnTo)}" />
+    <p>
+      <label>Email or phone: <input type="text" name="contact" value="${escapeHtml(loginHint)}" required /></label>
+      <button type="submit">Send me a link or code</button>
+    </p>
+  </form>
   ${googleAuthSection}
   ${microsoftAuthSection}
   ${facebookAuthSection}
@@ -126,7 +181,7 @@ flows.post('/login', async (c) => {
 
   try {
     const user = await authenticateUser({ email, password })
-    return setSessionCookieAndRedirect(c, user.sub, returnTo)
+    return await setSessionCookieAndRedirect(c, user.sub, returnTo, 'pwd')
   } catch {
     return c.redirect(
       `/login?return_to=${encodeURIComponent(returnTo)}&error=invalid_credentials`,
@@ -135,4 +190,13 @@ flows.post('/login', async (c) => {
   }
 })
 
+flows.post('/login/magic-link', handleMagicLinkRequestSubmit)
+flows.get('/login/magic', handleMagicLinkPage)
+flows.post('/login/magic', handleMagicLinkSubmit)
+flows.post('/login/otp', handleOtpSubmit)
+flows.get('/login/forgot-password', handleForgotPasswordPage)
+flows.post('/login/forgot-password', handleForgotPasswordSubmit)
+flows.get('/login/reset-password', handleResetPasswordPage)
+flows.post('/login/reset-password', handleResetPasswordSubmit)
+
 export default flows
@@ -0,0 +1,215 @@
+import { randomBytes } from 'node:crypto'
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type { Session, SessionInput } from '../database/types/session.ts'
+
+/** A session ends after this long without use */
+export const SESSION_IDLE_TIMEOUT_SECONDS = 15 * 60
+/** A session never outlives this, however active; the user must sign in again */
+export const SESSION_MAX_LIFETIME_SECONDS = 12 * 60 * 60
+/** Skip the last_seen_at write when the session was seen this recently */
+const SESSION_TOUCH_INTERVAL_SECONDS = 60
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const rowToSession = (row: types.Row): Session => ({
+  session_id: row.session_id as string,
+  user_id: row.user_id as string,
+  auth_time: Math.floor((row.auth_time as Date).getTime() / 1000),
+  auth_methods: (row.auth_methods ?? []) as string[],
+  user_agent: (row.user_agent as string | null) ?? null,
+  ip_address: (row.ip_address as string | null) ?? null,
+  last_seen_at: row.last_seen_at as Date,
+  expires_at: row.expires_at as Date,
+  created_at: row.created_at as Date,
+})
+
+const getAbsoluteExpiry = (session: Session): number =>
+  session.created_at.getTime() + SESSION_MAX_LIFETIME_SECONDS * 1000
+
+/**
+ * Updates must carry the row's remaining TTL; cells written without one would outlive the row.
+ */
+const getRemainingTtlSeconds = (session: Session): number =>
+  Math.max(1, Math.ceil((getAbsoluteExpiry(session) - Date.now()) / 1000))
+
+/**
+ * Start a session for a user who has just authenticated.
+ */
+export const createSession = async (input: SessionInput): Promise<Session> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const sessionId = randomBytes(32).toString('base64url')
+  const now = new Date()
+  const expiresAt = new Date(
+    now.getTime() + SESSION_IDLE_TIMEOUT_SECONDS * 1000,
+  )
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.sessions
+     (session_id, user_id, auth_time, auth_methods, user_agent, ip_address, last_seen_at, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     USING TTL ${SESSION_MAX_LIFETIME_SECONDS}`,
+    [
+      sessionId,
+      input.user_id,
+      now,
+      input.auth_methods,
+      input.user_agent ?? null,
+      input.ip_address ?? null,
+      now,
+      expiresAt,
+      now,
+    ],
+  )
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.sessions_by_user (user_id, session_id)
+     VALUES (?, ?)
+     USING TTL ${SESSION_MAX_LIFETIME_SECONDS}`,
+    [input.user_id, sessionId],
+  )
+
+  return {
+    session_id: sessionId,
+    user_id: input.user_id,
+    auth_time: Math.floor(now.getTime() / 1000),
+    auth_methods: input.auth_methods,
+    user_agent: input.user_agent ?? null,
+    ip_address: input.ip_address ?? null,
+    last_seen_at: now,
+    expires_at: expiresAt,
+    created_at: now,
+  }
+}
+
+/**
+ * Look up a session by id. Returns null for unknown or expired sessions.
+ */
+export const getSession = async (
+  sessionId: string,
+): Promise<Session | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.sessions WHERE session_id = ?`,
+    [sessionId],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  const session = rowToSession(result.rows[0])
+  if (session.expires_at < new Date()) {
+    return null
+  }
+
+  return session
+}
+
+/**
+ * Record that the session was used and push its idle expiry forward.
+ * Writes at most once per SESSION_TOUCH_INTERVAL_SECONDS.
+ */
+export const touchSession = async (session: Session): Promise<Session> => {
+  const now = Date.now()
+  if (
+    now - session.last_seen_at.getTime() <
+    SESSION_TOUCH_INTERVAL_SECONDS * 1000
+  ) {
+    return session
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const lastSeenAt = new Date(now)
+  const expiresAt = new Date(
+    Math.min(
+      now + SESSION_IDLE_TIMEOUT_SECONDS * 1000,
+      getAbsoluteExpiry(session),
+    ),
+  )
+
+  await client.execute(
+    `UPDATE ${keyspace}.sessions USING TTL ${getRemainingTtlSeconds(session)}
+     SET last_seen_at = ?, expires_at = ?
+     WHERE session_id = ?`,
+    [lastSeenAt, expiresAt, session.session_id],
+  )
+
+  return { ...session, last_seen_at: lastSeenAt, expires_at: expiresAt }
+}
+
+/**
+ * List a user's active sessions, most recently used first.
+ */
+export const listSessionsByUser = async (
+  userId: string,
+): Promise<Session[]> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT session_id FROM ${keyspace}.sessions_by_user WHERE user_id = ?`,
+    [userId],
+  )
+
+  const sessions: Session[] = []
+  for (const row of result.rows) {
+    const session = await getSession(row.session_id as string)
+    if (session) {
+      sessions.push(session)
+    }
+  }
+
+  return sessions.sort(
+    (a, b) => b.last_seen_at.getTime() - a.last_seen_at.getTime(),
+  )
+}
+
+export const deleteSession = async (session: Session): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.sessions WHERE session_id = ?`,
+    [session.session_id],
+  )
+  await client.execute(
+    `DELETE FROM ${keyspace}.sessions_by_user WHERE user_id = ? AND session_id = ?`,
+    [session.user_id, session.session_id],
+  )
+}
+
+/**
+ * Delete every session of a user ("sign out everywhere").
+ * Returns the number of sessions deleted.
+ */
+export const deleteSessionsByUser = async (userId: string): Promise<number> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT session_id FROM ${keyspace}.sessions_by_user WHERE user_id = ?`,
+    [userId],
+  )
+
+  const sessionIds = result.rows.map((row) => row.session_id as string)
+  for (const sessionId of sessionIds) {
+    await client.execute(
+      `DELETE FROM ${keyspace}.sessions WHERE session_id = ?`,
+      [sessionId],
+    )
+  }
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.sessions_by_user WHERE user_id = ?`,
+    [userId],
+  )
+
+  return sessionIds.length
+}
@@ -1,54 +1,86 @@
-import { parseJwt, signJwt, verifyJwt } from '../tokens/jwt.ts'
-import { getActiveKeyPair, initializeKeys } from '../tokens/key-management.ts'
+import { listClientIds } from '../clients/service.ts'
+import type { Session } from '../database/types/session.ts'
+import {
+  findBackchannelLogoutTargets,
+  notifyBackchannelLogoutInBackground,
+} from './backchannel-logout.ts'
+import { revokeRefreshTokensForClients } from './refresh-token-storage.ts'
+import {
+  deleteSession,
+  deleteSessionsByUser,
+  getSession,
+  listSessionsByUser,
+  touchSession,
+} from './session-storage.ts'
 
 const SESSION_COOKIE_NAME = 'oidc_session'
-const SESSION_MAX_AGE_SECONDS = 15 * 60 // 15 minutes
-const SESSION_TOKEN_PURPOSE = 'session'
 
-export interface SessionPayload {
-  sub: string
-  iat: number
-  exp: number
-}
+export const getSessionCookieName = (): string => SESSION_COOKIE_NAME
 
-export const createSessionToken = (sub: string): string => {
-  const keyPair = initializeKeys()
-  const now = Math.floor(Date.now() / 1000)
-  const payload = {
-    sub,
-    iat: now,
-    exp: now + SESSION_MAX_AGE_SECONDS,
-    purpose: SESSION_TOKEN_PURPOSE,
+/**
+ * Read the session cookie from a raw Cookie header and load the session it references.
+ * Returns null when the cookie is missing or the session is unknown or expired.
+ * A found session is touched, extending its idle expiry.
+ */
+export const getSessionFromCookieHeader = async (
+  cookieHeader: string | undefined,
+): Promise<Session | null> => {
+  const cookieMatch = cookieHeader
+    ?.split(';')
+    .map((s) => s.trim())
+    .find((s) => s.startsWith(`${SESSION_COOKIE_NAME}=`))
+  const sessionId = cookieMatch
+    ? cookieMatch.substring(cookieMatch.indexOf('=') + 1).trim()
+    : null
+  if (!sessionId) {
+    return null
   }
-  return signJwt(payload, keyPair.privateKey, 'RS256', keyPair.kid)
+
+  const session = await getSession(sessionId)
+  return session ? await touchSession(session) : null
 }
 
-export const verifySessionToken = (token: string): SessionPayload | null => {
-  try {
-    const { header } = parseJwt(token)
-    const kid = (header.kid as string) ?? initializeKeys().kid
-    const keyPair = getActiveKeyPair(kid)
-    if (!keyPair) {
-      return null
-    }
-
-    const { payload } = verifyJwt(token, keyPair.publicKey, 'RS256')
-
-    if (typeof payload.sub !== 'string' || !payload.sub) {
-      return null
-    }
-    if (payload.purpose !== SESSION_TOKEN_PURPOSE) {
-      return null
-    }
-
-    return {
-      sub: payload.sub,
-      iat: payload.iat as number,
-      exp: payload.exp as number,
-    }
-  } catch {
-    return null
-  }
+/**
+ * End one session and tell relying parties about it via back-channel logout.
+ */
+export const endSession = async (session: Session): Promise<void> => {
+  await deleteSession(session)
+  notifyBackchannelLogoutInBackground({
+    sub: session.user_id,
+    sid: session.session_id,
+  })
 }
 
-export const getSessionCookieName = (): string => SESSION_COOKIE_NAME
+/**
+ * The ids of a user's sessions, read before they are deleted so relying parties that
+ * require a sid can be told about each one.
+ */
+const listSessionIds = async (userId: string): Promise<string[]> =>
+  (await listSessionsByUser(userId)).map((session) => session.session_id)
+
+/**
+ * End every session of a user ("sign out everywhere").
+ * Relying parties are notified by sub, which covers all of the user's sessions.
+ * Returns the number of sessions ended.
+ */
+export const endAllSessions = async (userId: string): Promise<number> => {
+  const sessionIds = await listSessionIds(userId)
+  const count = await deleteSessionsByUser(userId)
+  notifyBackchannelLogoutInBackground({ sub: userId, sessionIds })
+  return count
+}
+
+/**
+ * End every session of a user and revoke all of their refresh tokens, so nothing
+ * issued before (e.g. before a password reset) stays usable.
+ * Relying parties to notify are found before the refresh tokens they are found by are revoked.
+ */
+export const endAllSessionsAndRevokeTokens = async (
+  userId: string,
+): Promise<void> => {
+  const targets = await findBackchannelLogoutTargets(userId)
+  const sessionIds = await listSessionIds(userId)
+  await deleteSessionsByUser(userId)
+  await revokeRefreshTokensForClients(userId, await listClientIds())
+  notifyBackchannelLogoutInBackground({ sub: userId, sessionIds }, targets)
+}
@@ -1,24 +1,99 @@
 import { randomUUID } from 'node:crypto'
 import type { Context } from 'hono'
+import { authenticateClientRequest } from '../clients/auth.ts'
+import { getClientById } from '../clients/service.ts'
 import {
-  extractClientCredentialsFromBasicAuthHeader,
-  extractClientCredentialsFromForm,
-} from '../clients/auth.ts'
-import { authenticateClient, getClientById } from '../clients/service.ts'
+  refreshTokenExpiry,
+  resolveTokenPolicy,
+} from '../clients/token-policy.ts'
 import type { Client } from '../clients/types/client.ts'
 import { getOidcConfig } from '../oidc/config.ts'
+import { resolveAccessTokenTarget } from '../resources/service.ts'
+import type { AccessTokenTarget } from '../resources/types/resource.ts'
+import { resolveSubject } from '../subjects/service.ts'
+import { DPOP_TOKEN_TYPE, validateDpopProof } from '../tokens/dpop.ts'
 import { signJwt } from '../tokens/jwt.ts'
 import { initializeKeys } from '../tokens/key-management.ts'
+import { ACCESS_TOKEN_TYP } from '../tokens/validation.ts'
 import { getUserById } from '../users/service.ts'
 import { consumeAuthorizationCode } from './authorization-code-storage.ts'
+import type { ClaimsRequest } from './claims.ts'
+import { buildUserClaims, parseClaimsRequest } from './claims.ts'
+import { DEVICE_CODE_GRANT_TYPE } from './device-authorization.ts'
+import {
+  DEVICE_CODE_SLOW_DOWN_INCREMENT_SECONDS,
+  deleteDeviceCode,
+  getDeviceCode,
+  recordDeviceCodePoll,
+} from './device-code-storage.ts'
+import { isScopeWithinLimit } from './input-validation.ts'
 import { verifyCodeVerifier } from './pkce.ts'
 import {
   consumeRefreshToken,
+  extendRefreshToken,
   generateRefreshToken,
+  verifyRefreshToken,
 } from './refresh-token-storage.ts'
 
-const ACCESS_TOKEN_EXPIRY_SECONDS = 3600
-const ID_TOKEN_EXPIRY_SECONDS = 3600
+/** Scopes that only make sense for an end user; never granted to client_credentials */
+const USER_ONLY_SCOPES = ['openid', 'offline_access']
+
+const SUPPORTED_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+  DEVICE_CODE_GRANT_TYPE,
+]
+
+/** Tokens issued with a DPoP proof are bound to its key and presented with the DPoP scheme */
+const accessTokenType = (dpopJkt: string | null): string =>
+  dpopJkt ? DPOP_TOKEN_TYPE : 'Bearer'
+
+/**
+ * Refresh tokens of public clients are bound to the DPoP key (RFC 9449 §5);
+ * confidential clients' refresh tokens are already bound by client authentication.
+ */
+const refreshTokenDpopJkt = (
+  client: Client,
+  dpopJkt: string | null,
+): string | null => (client.tokenEndpointAuthMethod === 'none' ? dpopJkt : null)
+
+/**
+ * Sign a JWT access token (RFC 9068) for the resolved audience and scopes, valid for the
+ * client's access token lifetime.
+ * sub is omitted for client_credentials tokens, which are issued to the client itself.
+ */
+const signAccessToken = (
+  client: Client,
+  target: Extract<AccessTokenTarget, { isValid: true }>,
+  sub: string | undefined,
+  dpopJkt: string | null,
+  claimsRequest: ClaimsRequest | null = null,
+): string => {
+  const keyPair = initializeKeys()
+  const now = Math.floor(Date.now() / 1000)
+
+  return signJwt(
+    {
+      iss: getOidcConfig().issuer,
+      ...(sub && { sub }),
+      aud: target.audience,
+      exp: now + resolveTokenPolicy(client).accessTokenLifetimeSeconds,
+      iat: now,
+      jti: randomUUID(),
+      scope: target.scopes.join(' '),
+      client_id: client.id,
+      ...(dpopJkt && { cnf: { jkt: dpopJkt } }),
+      ...(claimsRequest?.userinfo && {
+        claims: { userinfo: claimsRequest.userinfo },
+      }),
+    },
+    keyPair.privateKey,
+    'RS256',
+    keyPair.kid,
+    ACCESS_TOKEN_TYP,
+  )
+}
 
 const tokenError = (
   error: string,
@@ -41,6 +116,16 @@ const tokenError = (
   )
 }
 
+const tokenSuccess = (body: Record<string, unknown>): Response =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      Pragma: 'no-cache',
+    },
+  })
+
 export const handleTokenRequest = async (c: Context): Promise<Response> => {
   const contentType = c.req.header('Content-Type') ?? ''
   if (!contentType.includes('application/x-www-form-urlencoded')) {
@@ -50,49 +135,63 @@ export const handleTokenRequest = async (c: Context): Promise<Response> => {
     )
   }
 
-  const formData = await c.req.parseBody()
+  // resource may repeat (RFC 8707 §2), so keep every value of each parameter
+  const formData = await c.req.parseBody({ all: true })
   const params = new URLSearchParams()
   for (const [key, value] of Object.entries(formData)) {
-    if (typeof value === 'string') {
-      params.set(key, value)
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string') {
+        params.append(key, item)
+      }
     }
   }
 
   const grantType = params.get('grant_type')
-  if (grantType !== 'authorization_code' && grantType !== 'refresh_token') {
+  if (!grantType || !SUPPORTED_GRANT_TYPES.includes(grantType)) {
     return tokenError(
       'unsupported_grant_type',
-      'Only authorization_code and refresh_token grants are supported',
+      'Only authorization_code, refresh_token, client_credentials and device_code grants are supported',
     )
   }
 
   const clientId = params.get('client_id')
-  const credentials =
-    extractClientCredentialsFromForm(params) ??
-    extractClientCredentialsFromBasicAuthHeader(c.req.header('Authorization'))
-
-  let client: Awaited<ReturnType<typeof getClientById>>
-
-  if (credentials) {
-    client = await authenticateClient(
-      credentials.clientId,
-      credentials.clientSecret,
+  const authentication = await authenticateClientRequest(
+    params,
+    c.req.header('Authorization'),
+    getOidcConfig().tokenEndpoint,
+  )
+  if (!authentication.isValid) {
+    return tokenError(
+      authentication.error,
+      authentication.errorDescription,
+      authentication.status,
     )
-    if (!client) {
-      return tokenError('invalid_client', 'Invalid client credentials', 401)
-    }
-    if (clientId && credentials.clientId !== clientId) {
-      return tokenError(
-        'invalid_request',
-        'client_id in body must match Authorization header',
-      )
+  }
+
+  let dpopJkt: string | null = null
+  const dpopProof = c.req.header('DPoP')
+  if (dpopProof) {
+    const proof = await validateDpopProof(dpopProof, {
+      method: 'POST',
+      url: getOidcConfig().tokenEndpoint,
+    })
+    if (!proof.isValid) {
+      return tokenError('invalid_dpop_proof', proof.errorDescription)
     }
-  } else {
-    // Public client (token_endpoint_auth_method: 'none')
-    if (grantType === 'refresh_token') {
+    dpopJkt = proof.jkt
+  }
+
+  let client = authentication.client
+
+  if (!client) {
+    // Public client (token_endpoint_auth_method: 'none'); it may only refresh DPoP-bound tokens
+    if (
+      grantType === 'client_credentials' ||
+      (grantType === 'refresh_token' && !dpopJkt)
+    ) {
       return tokenError(
         'invalid_client',
-        'Client authentication required for refresh_token grant',
+        `Client authentication required for ${grantType} grant`,
         401,
       )
     }
@@ -111,16 +210,20 @@ export const handleTokenRequest = async (c: Context): Promise<Response> => {
     }
   }
 
-  if (!client) {
-    return tokenError('invalid_client', 'Client not found', 401)
-  }
-
   if (grantType === 'authorization_code') {
-    return handleAuthorizationCodeGrant(params, client, c)
+    return handleAuthorizationCodeGrant(params, client, dpopJkt)
   }
 
   if (grantType === 'refresh_token') {
-    return handleRefreshTokenGrant(params, client, c)
+    return handleRefreshTokenGrant(params, client, dpopJkt)
+  }
+
+  if (grantType === 'client_credentials') {
+    return handleClientCredentialsGrant(params, client, dpopJkt)
+  }
+
+  if (grantType === DEVICE_CODE_GRANT_TYPE) {
+    return handleDeviceCodeGrant(params, client, dpopJkt)
   }
 
   return tokenError('unsupported_grant_type', 'Unsupported grant type')
@@ -129,7 +232,7 @@ export const handleTokenRequest = async (c: Context): Promise<Response> => {
 const handleAuthorizationCodeGrant = async (
   params: URLSearchParams,
   client: Client,
-  _c: Context,
+  dpopJkt: string | null,
 ): Promise<Response> => {
   const code = params.get('code')
   const redirectUri = params.get('redirect_uri')
@@ -177,47 +280,48 @@ const handleAuthorizationCodeGrant = async (
     return tokenError('invalid_grant', 'User account is deactivated')
   }
 
+  const target = await resolveAccessTokenTarget(
+    params.getAll('resource'),
+    codeData.resources,
+    codeData.scopes,
+  )
+  if (!target.isValid) {
+    return tokenError(target.error, target.errorDescription)
+  }
+
   const config = getOidcConfig()
   const keyPair = initializeKeys()
   const now = Math.floor(Date.now() / 1000)
-
-  const accessTokenPayload = {
-    iss: config.issuer,
-    sub: user.sub,
-    aud: client.id,
-    exp: now + ACCESS_TOKEN_EXPIRY_SECONDS,
-    iat: now,
-    jti: randomUUID(),
-    scope: codeData.scopes.join(' '),
-    client_id: client.id,
-  }
-
-  const accessToken = signJwt(
-    accessTokenPayload,
-    keyPair.privateKey,
-    'RS256',
-    keyPair.kid,
+  const policy = resolveTokenPolicy(client)
+
+  const claimsRequest = codeData.claims
+    ? parseClaimsRequest(codeData.claims)
+    : null
+  const sub = await resolveSubject(client, user.sub)
+  const accessToken = signAccessToken(
+    client,
+    target,
+    sub,
+    dpopJkt,
+    claimsRequest,
   )
 
   const idTokenPayload: Record<string, unknown> = {
+    ...(await buildUserClaims(
+      user,
+      codeData.scopes,
+      claimsRequest,
+      'id_token',
+    )),
     iss: config.issuer,
-    sub: user.sub,
+    sub,
     aud: client.id,
-    exp: now + ID_TOKEN_EXPIRY_SECONDS,
+    exp: now + policy.idTokenLifetimeSeconds,
     iat: now,
     jti: randomUUID(),
     auth_time: codeData.auth_time ?? now,
+    ...(codeData.sid && { sid: codeData.sid }),
     ...(codeData.nonce && { nonce: codeData.nonce }),
-    ...(codeData.scopes.includes('email') && {
-      email: user.email,
-      email_verified: user.emailVerified,
-    }),
-    ...(codeData.scopes.includes('profile') && {
-      name: user.name,
-      given_name: user.givenName,
-      family_name: user.familyName,
-      picture: user.picture,
-    }),
   }
 
   const idToken = signJwt(
@@ -228,7 +332,6 @@ const handleAuthorizationCodeGrant = async (
   )
 
   const scopes = codeData.scopes
-  const scopeString = scopes.join(' ')
   const shouldIssueRefreshToken =
     client.grantTypes.includes('refresh_token') &&
     scopes.includes('offline_access')
@@ -240,34 +343,32 @@ const handleAuthorizationCodeGrant = async (
       user_id: user.sub,
       scopes,
       auth_time: codeData.auth_time ?? now,
+      sid: codeData.sid,
+      dpop_jkt: refreshTokenDpopJkt(client, dpopJkt),
+      resources: codeData.resources,
+      claims: codeData.claims,
+      ...refreshTokenExpiry(policy),
     })
   }
 
   const response: Record<string, unknown> = {
     access_token: accessToken,
-    token_type: 'Bearer',
-    expires_in: ACCESS_TOKEN_EXPIRY_SECONDS,
-    scope: scopeString,
+    token_type: accessTokenType(dpopJkt),
+    expires_in: policy.accessTokenLifetimeSeconds,
+    scope: target.scopes.join(' '),
     id_token: idToken,
   }
   if (refreshToken) {
     response.refresh_token = refreshToken
   }
 
-  return new Response(JSON.stringify(response), {
-    status: 200,
-    headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'no-store',
-      Pragma: 'no-cache',
-    },
-  })
+  return tokenSuccess(response)
 }
 
 const handleRefreshTokenGrant = async (
   params: URLSearchParams,
   client: Client,
-  _c: Context,
+  dpopJkt: string | null,
 ): Promise<Response> => {
   const refreshTokenParam = params.get('refresh_token')
 
@@ -282,13 +383,19 @@ const handleRefreshTokenGrant = async (
     )
   }
 
-  const refreshTokenData = await consumeRefreshToken(
-    refreshTokenParam,
-    client.id,
-  )
+  const policy = resolveTokenPolicy(client)
+  const refreshTokenData = policy.isRefreshTokenRotationDisabled
+    ? await verifyRefreshToken(refreshTokenParam, client.id, dpopJkt)
+    : await consumeRefreshToken(refreshTokenParam, client.id, dpopJkt)
   if (!refreshTokenData) {
     return tokenError('invalid_grant', 'Invalid or expired refresh token')
   }
+  if (client.tokenEndpointAuthMethod === 'none' && !refreshTokenData.dpop_jkt) {
+    return tokenError(
+      'invalid_grant',
+      'Refresh token is not bound to a DPoP key',
+    )
+  }
 
   const user = await getUserById(refreshTokenData.user_id)
   if (!user) {
@@ -298,26 +405,29 @@ const handleRefreshTokenGrant = async (
     return tokenError('invalid_grant', 'User account is deactivated')
   }
 
+  const target = await resolveAccessTokenTarget(
+    params.getAll('resource'),
+    refreshTokenData.resources,
+    refreshTokenData.scopes,
+  )
+  if (!target.isValid) {
+    return tokenError(target.error, target.errorDescription)
+  }
+
   const config = getOidcConfig()
   const keyPair = initializeKeys()
   const now = Math.floor(Date.now() / 1000)
 
-  const accessTokenPayload = {
-    iss: config.issuer,
-    sub: user.sub,
-    aud: client.id,
-    exp: now + ACCESS_TOKEN_EXPIRY_SECONDS,
-    iat: now,
-    jti: randomUUID(),
-    scope: refreshTokenData.scopes.join(' '),
-    client_id: client.id,
-  }
-
-  const accessToken = signJwt(
-    accessTokenPayload,
-    keyPair.privateKey,
-    'RS256',
-    keyPair.kid,
+  const claimsRequest = refreshTokenData.claims
+    ? parseClaimsRequest(refreshTokenData.claims)
+    : null
+  const sub = await resolveSubject(client, user.sub)
+  const accessToken = signAccessToken(
+    client,
+    target,
+    sub,
+    dpopJkt,
+    claimsRequest,
   )
 
   const authTime =
@@ -325,23 +435,20 @@ const handleRefreshTokenGrant = async (
     Math.floor(refreshTokenData.created_at.getTime() / 1000)
 
   const idTokenPayload: Record<string, unknown> = {
+    ...(await buildUserClaims(
+      user,
+      refreshTokenData.scopes,
+      claimsRequest,
+      'id_token',
+    )),
     iss: config.issuer,
-    sub: user.sub,
+    sub,
     aud: client.id,
-    exp: now + ID_TOKEN_EXPIRY_SECONDS,
+    exp: now + policy.idTokenLifetimeSeconds,
     iat: now,
     jti: randomUUID(),
     auth_time: authTime,
-    ...(refreshTokenData.scopes.includes('email') && {
-      email: user.email,
-      email_verified: user.emailVerified,
-    }),
-    ...(refreshTokenData.scopes.includes('profile') && {
-      name: user.name,
-      given_name: user.givenName,
-      family_name: user.familyName,
-      picture: user.picture,
-    }),
+    ...(refreshTokenData.sid && { sid: refreshTokenData.sid }),
   }
 
   const idToken = signJwt(
@@ -351,28 +458,227 @@ const handleRefreshTokenGrant = async (
     keyPair.kid,
   )
 
-  const newRefreshToken = await generateRefreshToken({
-    client_id: client.id,
-    user_id: user.sub,
-    scopes: refreshTokenData.scopes,
-    auth_time: authTime,
-  })
-
-  const response = {
+  const response: Record<string, unknown> = {
     access_token: accessToken,
-    token_type: 'Bearer',
-    expires_in: ACCESS_TOKEN_EXPIRY_SECONDS,
-    scope: refreshTokenData.scopes.join(' '),
+    token_type: accessTokenType(dpopJkt),
+    expires_in: policy.accessTokenLifetimeSeconds,
+    scope: target.scopes.join(' '),
     id_token: idToken,
-    refresh_token: newRefreshToken,
   }
 
-  return new Response(JSON.stringify(response), {
-    status: 200,
-    headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'no-store',
-      Pragma: 'no-cache',
-    },
+  // The family's absolute expiry carries over; an idle timeout restarts from now
+  const expiry = refreshTokenExpiry(
+    policy,
+    refreshTokenData.absolute_expires_at,
+  )
+  if (policy.isRefreshTokenRotationDisabled) {
+    // The client keeps using the presented refresh token, so none is returned (RFC 6749 §6)
+    await extendRefreshToken(
+      refreshTokenData,
+      expiry.expires_at,
+      expiry.absolute_expires_at,
+    )
+  } else {
+    response.refresh_token = await generateRefreshToken({
+      client_id: client.id,
+      user_id: user.sub,
+      scopes: refreshTokenData.scopes,
+      auth_time: authTime,
+      sid: refreshTokenData.sid,
+      dpop_jkt: refreshTokenDpopJkt(client, dpopJkt),
+      resources: refreshTokenData.resources,
+      claims: refreshTokenData.claims,
+      family_id: refreshTokenData.family_id,
+      ...expiry,
+    })
+  }
+
+  return tokenSuccess(response)
+}
+
+/**
+ * OAuth 2.0 client_credentials grant (RFC 6749 §4.4).
+ * Issues an access token for the client itself: no user, no ID token, no refresh token.
+ * Requested scopes must be a subset of the client's registered scopes; when omitted,
+ * all registered scopes (except user-only scopes) are granted.
+ */
+const handleClientCredentialsGrant = async (
+  params: URLSearchParams,
+  client: Client,
+  dpopJkt: string | null,
+): Promise<Response> => {
+  if (!client.grantTypes.includes('client_credentials')) {
+    return tokenError(
+      'unauthorized_client',
+      'Client is not authorized for client_credentials grant',
+    )
+  }
+
+  const scopeParam = params.get('scope') ?? undefined
+  if (!isScopeWithinLimit(scopeParam)) {
+    return tokenError('invalid_scope', 'scope exceeds maximum length')
+  }
+
+  const requestedScopes =
+    scopeParam?.split(/\s+/).filter((s) => s.length > 0) ?? []
+  const invalidScopes = requestedScopes.filter(
+    (s) => !client.scopes.includes(s) || USER_ONLY_SCOPES.includes(s),
+  )
+  if (invalidScopes.length > 0) {
+    return tokenError(
+      'invalid_scope',
+      `Invalid scope(s): ${invalidScopes.join(', ')}`,
+    )
+  }
+
+  const scopes =
+    requestedScopes.length > 0
+      ? requestedScopes
+      : client.scopes.filter((s) => !USER_ONLY_SCOPES.includes(s))
+
+  const target = await resolveAccessTokenTarget(
+    params.getAll('resource'),
+    [],
+    scopes,
+  )
+  if (!target.isValid) {
+    return tokenError(target.error, target.errorDescription)
+  }
+
+  return tokenSuccess({
+    access_token: signAccessToken(client, target, undefined, dpopJkt),
+    token_type: accessTokenType(dpopJkt),
+    expires_in: resolveTokenPolicy(client).accessTokenLifetimeSeconds,
+    scope: target.scopes.join(' '),
   })
 }
+
+/**
+ * OAuth 2.0 device_code grant (RFC 8628 §3.4).
+ * The device polls with its device_code until the user approves or denies at /device.
+ * Pending: authorization_pending. Polling faster than the interval: slow_down (interval +5s).
+ * Denied: access_denied. Past expires_in: expired_token. Approved codes are exchanged once.
+ */
+const handleDeviceCodeGrant = async (
+  params: URLSearchParams,
+  client: Client,
+  dpopJkt: string | null,
+): Promise<Response> => {
+  const deviceCodeParam = params.get('device_code')
+  if (!deviceCodeParam) {
+    return tokenError('invalid_request', 'device_code is required')
+  }
+
+  if (!client.grantTypes.includes(DEVICE_CODE_GRANT_TYPE)) {
+    return tokenError(
+      'unauthorized_client',
+      'Client is not authorized for the device_code grant',
+    )
+  }
+
+  const deviceCode = await getDeviceCode(deviceCodeParam)
+  if (!deviceCode || deviceCode.client_id !== client.id) {
+    return tokenError('invalid_grant', 'Invalid device_code')
+  }
+
+  const nowMs = Date.now()
+  if (deviceCode.expires_at.getTime() <= nowMs) {
+    await deleteDeviceCode(deviceCode)
+    return tokenError('expired_token', 'The device_code has expired')
+  }
+
+  if (deviceCode.status === 'denied') {
+    await deleteDeviceCode(deviceCode)
+    return tokenError('access_denied', 'The user denied the request')
+  }
+
+  if (deviceCode.status === 'pending') {
+    const isPollingTooFast =
+      deviceCode.last_polled_at !== null &&
+      nowMs - deviceCode.last_polled_at.getTime() < deviceCode.interval * 1000
+    if (isPollingTooFast) {
+      await recordDeviceCodePoll(
+        deviceCode,
+        deviceCode.interval + DEVICE_CODE_SLOW_DOWN_INCREMENT_SECONDS,
+      )
+      return tokenError('slow_down', 'Polling too frequently')
+    }
+    await recordDeviceCodePoll(deviceCode, deviceCode.interval)
+    return tokenError(
+      'authorization_pending',
+      'The user has not yet completed authorization',
+    )
+  }
+
+  const isConsumed = await deleteDeviceCode(deviceCode, 'approved')
+  if (!isConsumed || !deviceCode.user_id) {
+    return tokenError('invalid_grant', 'Invalid device_code')
+  }
+
+  const user = await getUserById(deviceCode.user_id)
+  if (!user) {
+    return tokenError('server_error', 'User not found', 500)
+  }
+  if (!user.isActive) {
+    return tokenError('invalid_grant', 'User account is deactivated')
+  }
+
+  const scopes = deviceCode.scopes
+  const target = await resolveAccessTokenTarget(
+    params.getAll('resource'),
+    [],
+    scopes,
+  )
+  if (!target.isValid) {
+    return tokenError(target.error, target.errorDescription)
+  }
+
+  const config = getOidcConfig()
+  const keyPair = initializeKeys()
+  const now = Math.floor(nowMs / 1000)
+  const policy = resolveTokenPolicy(client)
+  const authTime = deviceCode.auth_time ?? now
+  const sub = await resolveSubject(client, user.sub)
+
+  const response: Record<string, unknown> = {
+    access_token: signAccessToken(client, target, sub, dpopJkt),
+    token_type: accessTokenType(dpopJkt),
+    expires_in: policy.accessTokenLifetimeSeconds,
+    scope: target.scopes.join(' '),
+  }
+
+  if (scopes.includes('openid')) {
+    const idTokenPayload: Record<string, unknown> = {
+      ...(await buildUserClaims(user, scopes, null, 'id_token')),
+      iss: config.issuer,
+      sub,
+      aud: client.id,
+      exp: now + policy.idTokenLifetimeSeconds,
+      iat: now,
+      jti: randomUUID(),
+      auth_time: authTime,
+    }
+    response.id_token = signJwt(
+      idTokenPayload,
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+    )
+  }
+
+  const shouldIssueRefreshToken =
+    client.grantTypes.includes('refresh_token') &&
+    scopes.includes('offline_access')
+  if (shouldIssueRefreshToken) {
+    response.refresh_token = await generateRefreshToken({
+      client_id: client.id,
+      user_id: user.sub,
+      scopes,
+      auth_time: authTime,
+      dpop_jkt: refreshTokenDpopJkt(client, dpopJkt),
+      ...refreshTokenExpiry(policy),
+    })
+  }
+
+  return tokenSuccess(response)
+}
@@ -1,23 +1,59 @@
 import type { Context } from 'hono'
-import type { AccessTokenPayload } from '../middleware/require-access-token.ts'
+import { getClientById } from '../clients/service.ts'
+import { resolveAccountId } from '../subjects/service.ts'
+import type { AccessTokenPayload } from '../tokens/types/access-token-payload.ts'
 import { getUserById } from '../users/service.ts'
-import { findContactMethodsByAccountId } from '../users/storage.ts'
+import { buildUserClaims } from './claims.ts'
 
 /**
  * OIDC UserInfo endpoint handler.
- * Returns user claims based on the access token's scope.
+ * Returns the user claims released by the access token's scope, plus any the client
+ * requested individually for userinfo through the claims parameter.
  * Must be used after requireAccessToken middleware.
  *
  * When email scope is granted, returns:
  * - email, email_verified: primary email (OIDC standard)
  * - emails: all email addresses with value, verified, primary
  * - phone_numbers: all phone numbers with value, verified, primary
+ *
+ * The phone scope returns phone_number and phone_number_verified for the primary phone,
+ * and the address scope the stored postal address.
+ *
+ * sub is returned as it appears in the access token, which is pairwise for pairwise clients.
  */
 export const handleUserInfo = async (c: Context): Promise<Response> => {
   const payload = c.get('accessTokenPayload') as AccessTokenPayload
   const sub = payload.sub
 
-  const user = await getUserById(sub)
+  if (!sub) {
+    c.status(401)
+    c.header(
+      'WWW-Authenticate',
+      'Bearer error="invalid_token", error_description="Access token is not associated with a user"',
+    )
+    return c.json({
+      error: 'invalid_token',
+      error_description: 'Access token is not associated with a user',
+    })
+  }
+
+  const client = payload.client_id
+    ? await getClientById(payload.client_id)
+    : null
+  const accountId = client && (await resolveAccountId(client, sub))
+  if (!accountId) {
+    c.status(401)
+    c.header(
+      'WWW-Authenticate',
+      'Bearer error="invalid_token", error_description="Access token subject is not recognized"',
+    )
+    return c.json({
+      error: 'invalid_token',
+      error_description: 'Access token subject is not recognized',
+    })
+  }
+
+  const user = await getUserById(accountId)
   if (!user) {
     c.status(404)
     return c.json({
@@ -35,39 +71,14 @@ export const handleUserInfo = async (c: Context): Promise<Response> => {
   }
 
   const scopes = (payload.scope ?? '').split(/\s+/).filter(Boolean)
-
   const claims: Record<string, unknown> = {
-    sub: user.sub,
-  }
-
-  if (scopes.includes('email')) {
-    const contacts = await findContactMethodsByAccountId(sub)
-    const emails = contacts
-      .filter((cm) => cm.contact_type === 'email')
-      .map((cm) => ({
-        value: cm.contact_value,
-        verified: cm.verified_at != null,
-        primary: cm.is_primary,
-      }))
-    const phoneNumbers = contacts
-      .filter((cm) => cm.contact_type === 'phone')
-      .map((cm) => ({
-        value: cm.contact_value,
-        verified: cm.verified_at != null,
-        primary: cm.is_primary,
-      }))
-
-    claims.email = user.email
-    claims.email_verified = user.emailVerified
-    claims.emails = emails
-    claims.phone_numbers = phoneNumbers
-  }
-
-  if (scopes.includes('profile')) {
-    if (user.name !== undefined) claims.name = user.name
-    if (user.givenName !== undefined) claims.given_name = user.givenName
-    if (user.familyName !== undefined) claims.family_name = user.familyName
-    if (user.picture !== undefined) claims.picture = user.picture
+    sub,
+    ...(await buildUserClaims(
+      user,
+      scopes,
+      payload.claims ?? null,
+      'userinfo',
+    )),
   }
 
   return c.json(claims, 200, {
@@ -1,10 +1,22 @@
+import { createHash, generateKeyPairSync, sign } from 'node:crypto'
 import { Hono } from 'hono'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { clearConfigCache, getOidcConfig } from '../../oidc/config.ts'
-import { signJwt } from '../../tokens/jwt.ts'
+import * as accessTokenDenylist from '../../tokens/access-token-denylist.ts'
+import { computeJwkThumbprint } from '../../tokens/dpop.ts'
+import * as dpopProofStorage from '../../tokens/dpop-proof-storage.ts'
+import { base64UrlEncode, signJwt } from '../../tokens/jwt.ts'
 import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
 import { requireAccessToken, requireScope } from '../require-access-token.ts'
 
+vi.mock('../../tokens/access-token-denylist.ts', () => ({
+  isAccessTokenRevoked: vi.fn(),
+}))
+
+vi.mock('../../tokens/dpop-proof-storage.ts', () => ({
+  recordDpopProofJti: vi.fn(),
+}))
+
 describe('requireAccessToken()', () => {
   const originalEnv = process.env
 
@@ -13,6 +25,7 @@ describe('requireAccessToken()', () => {
     clearConfigCache()
     clearKeyStore()
     initializeKeys()
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(false)
   })
 
   afterEach(() => {
@@ -71,7 +84,7 @@ describe('requireAccessToken()', () => {
       {
         iss: issuer,
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now + 3600,
         iat: now,
         scope: 'openid profile',
@@ -80,6 +93,7 @@ describe('requireAccessToken()', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
@@ -98,6 +112,48 @@ describe('requireAccessToken()', () => {
     expect(body.scope).toBe('openid profile')
   })
 
+  it('should return 401 when token has been revoked', async () => {
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(true)
+
+    const keyPair = initializeKeys()
+    const now = Math.floor(Date.now() / 1000)
+
+    const token = signJwt(
+      {
+        iss: getOidcConfig().issuer,
+        sub: 'user-123',
+        aud: 'https://api.example.com',
+        exp: now + 3600,
+        iat: now,
+        scope: 'openid',
+        client_id: 'client-456',
+        jti: 'revoked-jti',
+      },
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+      'at+jwt',
+    )
+
+    const app = new Hono()
+    app.get('/protected', requireAccessToken(), (c) =>
+      c.json({ sub: c.get('accessTokenPayload')?.sub }),
+    )
+
+    const res = await app.request('/protected', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_token')
+    expect(body.error_description).toBe('Access token has been revoked')
+    expect(accessTokenDenylist.isAccessTokenRevoked).toHaveBeenCalledWith(
+      'revoked-jti',
+    )
+  })
+
   it('should return 401 when token is expired', async () => {
     process.env.OIDC_ISSUER = 'http://localhost:3000'
     clearConfigCache()
@@ -110,7 +166,7 @@ describe('requireAccessToken()', () => {
       {
         iss: issuer,
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now - 3600,
         iat: now - 7200,
         scope: 'openid',
@@ -119,6 +175,7 @@ describe('requireAccessToken()', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
@@ -133,6 +190,39 @@ describe('requireAccessToken()', () => {
     expect(res.status).toBe(401)
   })
 
+  it('should return 401 when an ID token is presented as an access token', async () => {
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+
+    const keyPair = initializeKeys()
+    const issuer = getOidcConfig().issuer
+    const now = Math.floor(Date.now() / 1000)
+
+    const idToken = signJwt(
+      {
+        iss: issuer,
+        sub: 'user-123',
+        aud: 'client-456',
+        exp: now + 3600,
+        iat: now,
+      },
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+    )
+
+    const app = new Hono()
+    app.get('/protected', requireAccessToken(), (c) =>
+      c.json({ sub: c.get('accessTokenPayload')?.sub }),
+    )
+
+    const res = await app.request('/protected', {
+      headers: { Authorization: `Bearer ${idToken}` },
+    })
+
+    expect(res.status).toBe(401)
+  })
+
   it('should return 401 when token issuer does not match', async () => {
     process.env.OIDC_ISSUER = 'http://localhost:3000'
     clearConfigCache()
@@ -144,7 +234,7 @@ describe('requireAccessToken()', () => {
       {
         iss: 'https://evil.com',
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now + 3600,
         iat: now,
         scope: 'openid',
@@ -153,6 +243,7 @@ describe('requireAccessToken()', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
@@ -188,12 +279,13 @@ describe('requireAccessToken()', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
     app.get(
       '/protected',
-      requireAccessToken({ validAudiences: ['api.example.com'] }),
+      requireAccessToken({ validAudiences: ['https://api.example.com'] }),
       (c) => c.json({ sub: c.get('accessTokenPayload')?.sub }),
     )
 
@@ -216,7 +308,7 @@ describe('requireAccessToken()', () => {
       {
         iss: issuer,
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now + 3600,
         iat: now,
         scope: 'openid',
@@ -225,12 +317,13 @@ describe('requireAccessToken()', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
     app.get(
       '/protected',
-      requireAccessToken({ validAudiences: ['client-456'] }),
+      requireAccessToken({ validAudiences: ['https://api.example.com'] }),
       (c) => c.json({ sub: c.get('accessTokenPayload')?.sub }),
     )
 
@@ -244,6 +337,132 @@ describe('requireAccessToken()', () => {
   })
 })
 
+describe('requireAccessToken() with DPoP', () => {
+  const originalEnv = process.env
+  const proofKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  const publicJwk = proofKeys.publicKey.export({ format: 'jwk' })
+  const jkt = computeJwkThumbprint(publicJwk as Record<string, unknown>)
+
+  const encodeJson = (value: unknown): string =>
+    base64UrlEncode(Buffer.from(JSON.stringify(value)))
+
+  const signDpopProof = (accessToken: string): string => {
+    const signingInput = `${encodeJson({
+      typ: 'dpop+jwt',
+      alg: 'ES256',
+      jwk: publicJwk,
+    })}.${encodeJson({
+      jti: crypto.randomUUID(),
+      htm: 'GET',
+      htu: 'http://localhost:3000/protected',
+      iat: Math.floor(Date.now() / 1000),
+      ath: base64UrlEncode(createHash('sha256').update(accessToken).digest()),
+    })}`
+    const signature = sign('sha256', Buffer.from(signingInput), {
+      key: proofKeys.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    })
+    return `${signingInput}.${base64UrlEncode(signature)}`
+  }
+
+  const signAccessToken = (claims: Record<string, unknown> = {}): string => {
+    const keyPair = initializeKeys()
+    const now = Math.floor(Date.now() / 1000)
+    return signJwt(
+      {
+        iss: getOidcConfig().issuer,
+        sub: 'user-123',
+        aud: 'https://api.example.com',
+        exp: now + 3600,
+        iat: now,
+        client_id: 'client-456',
+        ...claims,
+      },
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+      'at+jwt',
+    )
+  }
+
+  const createApp = (isDpopRequired?: boolean) => {
+    const app = new Hono()
+    app.get('/protected', requireAccessToken({ isDpopRequired }), (c) =>
+      c.json({ sub: c.get('accessTokenPayload')?.sub }),
+    )
+    return app
+  }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    clearKeyStore()
+    vi.mocked(dpopProofStorage.recordDpopProofJti).mockResolvedValue(true)
+    vi.mocked(accessTokenDenylist.isAccessTokenRevoked).mockResolvedValue(false)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    clearKeyStore()
+  })
+
+  it('should accept a bound token with the DPoP scheme and a matching proof', async () => {
+    const token = signAccessToken({ cnf: { jkt } })
+
+    const res = await createApp().request('/protected', {
+      headers: { Authorization: `DPoP ${token}`, DPoP: signDpopProof(token) },
+    })
+
+    expect(res.status).toBe(200)
+  })
+
+  it('should reject a bound token presented as a Bearer token', async () => {
+    const token = signAccessToken({ cnf: { jkt } })
+
+    const res = await createApp().request('/protected', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+
+    expect(res.status).toBe(401)
+  })
+
+  it('should reject a proof from a different key', async () => {
+    const token = signAccessToken({ cnf: { jkt: 'other-thumbprint' } })
+
+    const res = await createApp().request('/protected', {
+      headers: { Authorization: `DPoP ${token}`, DPoP: signDpopProof(token) },
+    })
+
+    expect(res.status).toBe(401)
+    const body = (await res.json()) as Record<string, unknown>
+    expect(body.error).toBe('invalid_dpop_proof')
+  })
+
+  it('should reject the DPoP scheme without a proof', async () => {
+    const token = signAccessToken({ cnf: { jkt } })
+
+    const res = await createApp().request('/protected', {
+      headers: { Authorization: `DPoP ${token}` },
+    })
+
+    expect(res.status).toBe(401)
+    expect(res.headers.get('WWW-Authenticate')).toContain('DPoP algs=')
+  })
+
+  it('should refuse Bearer tokens when DPoP is required', async () => {
+    const token = signAccessToken()
+
+    const res = await createApp(true).request('/protected', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+
+    expect(res.status).toBe(401)
+    expect(res.headers.get('WWW-Authenticate')).toMatch(/^DPoP /)
+  })
+})
+
 describe('requireScope', () => {
   const originalEnv = process.env
 
@@ -272,7 +491,7 @@ describe('requireScope', () => {
       {
         iss: issuer,
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now + 3600,
         iat: now,
         scope: 'openid',
@@ -281,6 +500,7 @@ describe('requireScope', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
@@ -309,7 +529,7 @@ describe('requireScope', () => {
       {
         iss: issuer,
         sub: 'user-123',
-        aud: 'client-456',
+        aud: 'https://api.example.com',
         exp: now + 3600,
         iat: now,
         scope: 'openid profile email',
@@ -318,6 +538,7 @@ describe('requireScope', () => {
       keyPair.privateKey,
       'RS256',
       keyPair.kid,
+      'at+jwt',
     )
 
     const app = new Hono()
@@ -1,158 +1,180 @@
 import type { Context, Next } from 'hono'
 import { getOidcConfig } from '../oidc/config.ts'
-import { parseJwt, verifyJwt } from '../tokens/jwt.ts'
-import {
-  getActiveKeyPair,
-  getLatestActiveKey,
-} from '../tokens/key-management.ts'
-
-export interface AccessTokenPayload {
-  sub: string
-  scope?: string
-  client_id?: string
-  iss?: string
-  aud?: string | string[]
-  exp?: number
-  iat?: number
-  nbf?: number
+import { isAccessTokenRevoked } from '../tokens/access-token-denylist.ts'
+import { DPOP_TOKEN_TYPE, validateDpopProof } from '../tokens/dpop.ts'
+import type { AccessTokenPayload } from '../tokens/types/access-token-payload.ts'
+import { verifyAccessToken } from '../tokens/validation.ts'
+
+interface PresentedAccessToken {
+  scheme: 'Bearer' | typeof DPOP_TOKEN_TYPE
+  token: string
 }
 
-const extractBearerToken = (authHeader: string | undefined): string | null => {
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+const extractAccessToken = (
+  authHeader: string | undefined,
+): PresentedAccessToken | null => {
+  const scheme = authHeader?.startsWith('Bearer ')
+    ? 'Bearer'
+    : authHeader?.startsWith(`${DPOP_TOKEN_TYPE} `)
+      ? DPOP_TOKEN_TYPE
+      : null
+  if (!authHeader || !scheme) {
     return null
   }
-  const token = authHeader.slice(7).trim()
-  return token.length > 0 ? token : null
+  const token = authHeader.slice(scheme.length + 1).trim()
+  return token.length > 0 ? { scheme, token } : null
 }
 
-const validateAccessTokenClaims = (
-  payload: Record<string, unknown>,
-  issuer: string,
-  validAudiences?: string[],
-): void => {
-  const iss = payload.iss as string | undefined
-  if (iss !== issuer) {
-    throw new Error(
-      `Invalid issuer: expected ${issuer}, got ${iss ?? 'undefined'}`,
-    )
-  }
-
-  const exp = payload.exp as number | undefined
-  if (typeof exp !== 'number' || exp <= 0) {
-    throw new Error('Invalid or missing exp claim')
-  }
-  const now = Math.floor(Date.now() / 1000)
-  if (exp < now) {
-    throw new Error('Token has expired')
-  }
-
-  const nbf = payload.nbf as number | undefined
-  if (nbf !== undefined && typeof nbf === 'number' && nbf > now) {
-    throw new Error('Token not yet valid')
-  }
-
-  if (validAudiences && validAudiences.length > 0) {
-    const aud = payload.aud
-    const audList: string[] = Array.isArray(aud)
-      ? aud.filter((a): a is string => typeof a === 'string')
-      : typeof aud === 'string'
-        ? [aud]
-        : []
-    const hasValidAudience = validAudiences.some((valid) =>
-      audList.includes(valid),
-    )
-    if (!hasValidAudience) {
-      throw new Error(
-        `Invalid audience: token aud ${JSON.stringify(aud)} does not include any of ${validAudiences.join(', ')}`,
-      )
-    }
-  }
+/**
+ * 401 with a WWW-Authenticate challenge; the DPoP scheme advertises the accepted proof algorithms.
+ * The challenge may carry a different error code than the JSON body (e.g. invalid_request for a missing token).
+ */
+const unauthorized = (
+  c: Context,
+  scheme: PresentedAccessToken['scheme'],
+  error: string,
+  errorDescription: string,
+  challengeError = error,
+): Response => {
+  const challenge =
+    scheme === DPOP_TOKEN_TYPE
+      ? `${DPOP_TOKEN_TYPE} algs="${getOidcConfig().dpopSigningAlgValuesSupported.join(' ')}",`
+      : 'Bearer'
+  c.status(401)
+  c.header(
+    'WWW-Authenticate',
+    `${challenge} error="${challengeError}", error_description="${errorDescription}"`,
+  )
+  return c.json({ error, error_description: errorDescription })
 }
 
 export interface RequireAccessTokenOptions {
-  /** When set, token aud claim must include at least one of these values. Omit for provider's own endpoints (e.g. UserInfo). */
+  /** When set, token aud claim must include at least one of these resource URIs (RFC 8707). Omit for provider's own endpoints (e.g. UserInfo). */
   validAudiences?: string[]
+  /** Require DPoP-bound tokens presented with the DPoP scheme and a matching proof (RFC 9449 §7); Bearer tokens are refused */
+  isDpopRequired?: boolean
 }
 
 /**
- * Hono middleware that validates Bearer access tokens and attaches the payload to context.
+ * Hono middleware that validates access tokens and attaches the payload to context.
+ * Tokens revoked at /revoke are refused until they expire.
  * Returns 401 with WWW-Authenticate header on invalid or missing token.
  *
+ * Tokens come with the Bearer scheme, or the DPoP scheme plus a DPoP proof for this request
+ * whose key matches the token's cnf.jkt. DPoP-bound tokens are never accepted as Bearer tokens.
+ *
  * Use c.get('accessTokenPayload') to access the validated payload in downstream handlers.
  *
- * @param options.validAudiences - When provided, validates that token aud includes at least one value. Use for resource servers; omit for OIDC provider's own endpoints.
+ * @param options.validAudiences - When provided, validates that token aud includes at least one value. Use the resource server's registered resource URI; omit for OIDC provider's own endpoints.
+ * @param options.isDpopRequired - When true, only DPoP-bound tokens with a valid proof are accepted.
  */
 export const requireAccessToken = (
   options?: RequireAccessTokenOptions,
 ): ((c: Context, next: Next) => Promise<Response | undefined>) => {
   const validAudiences = options?.validAudiences
+  const isDpopRequired = options?.isDpopRequired ?? false
 
   return async (c: Context, next: Next): Promise<Response | undefined> => {
-    const token = extractBearerToken(c.req.header('Authorization'))
-
-    if (!token) {
-      c.status(401)
-      c.header(
-        'WWW-Authenticate',
-        'Bearer error="invalid_request", error_description="Authorization header required"',
+    const presented = extractAccessToken(c.req.header('Authorization'))
+    const challengeScheme =
+      isDpopRequired || presented?.scheme === DPOP_TOKEN_TYPE
+        ? DPOP_TOKEN_TYPE
+        : 'Bearer'
+
+    if (!presented) {
+      return unauthorized(
+        c,
+        challengeScheme,
+        'invalid_token',
+        'Missing or invalid Authorization header',
+        'invalid_request',
+      )
+    }
+    if (isDpopRequired && presented.scheme !== DPOP_TOKEN_TYPE) {
+      return unauthorized(
+        c,
+        challengeScheme,
+        'invalid_token',
+        'DPoP-bound access token required',
       )
-      return c.json({
-        error: 'invalid_token',
-        error_description: 'Missing or invalid Authorization header',
-      })
     }
 
+    let accessTokenPayload: AccessTokenPayload
     try {
-      const { header } = parseJwt(token)
-      const kid = header.kid as string | undefined
-      const keyPair = kid ? getActiveKeyPair(kid) : getLatestActiveKey('RS256')
+      accessTokenPayload = verifyAccessToken(presented.token, validAudiences)
+    } catch {
+      return unauthorized(
+        c,
+        challengeScheme,
+        'invalid_token',
+        'Token validation failed',
+      )
+    }
+    if (
+      accessTokenPayload.jti &&
+      (await isAccessTokenRevoked(accessTokenPayload.jti))
+    ) {
+      return unauthorized(
+        c,
+        challengeScheme,
+        'invalid_token',
+        'Access token has been revoked',
+      )
+    }
 
-      if (!keyPair) {
-        c.status(401)
-        c.header(
-          'WWW-Authenticate',
-          'Bearer error="invalid_token", error_description="Token verification failed"',
+    if (presented.scheme === 'Bearer') {
+      if (accessTokenPayload.cnf) {
+        return unauthorized(
+          c,
+          challengeScheme,
+          'invalid_token',
+          'DPoP-bound access token presented as a Bearer token',
         )
-        return c.json({
-          error: 'invalid_token',
-          error_description: 'Unable to verify token',
-        })
       }
-
-      const { payload: verifiedPayload } = verifyJwt(
-        token,
-        keyPair.publicKey,
-        keyPair.algorithm,
-      )
-
-      const issuer = getOidcConfig().issuer
-      validateAccessTokenClaims(verifiedPayload, issuer, validAudiences)
-
-      const accessTokenPayload: AccessTokenPayload = {
-        sub: verifiedPayload.sub as string,
-        scope: verifiedPayload.scope as string | undefined,
-        client_id: verifiedPayload.client_id as string | undefined,
-        iss: verifiedPayload.iss as string | undefined,
-        aud: verifiedPayload.aud as string | string[] | undefined,
-        exp: verifiedPayload.exp as number | undefined,
-        iat: verifiedPayload.iat as number | undefined,
-        nbf: verifiedPayload.nbf as number | undefined,
+    } else {
+      if (!accessTokenPayload.cnf) {
+        return unauthorized(
+          c,
+          challengeScheme,
+          'invalid_token',
+          'Access token is not DPoP-bound',
+        )
       }
-
-      c.set('accessTokenPayload', accessTokenPayload)
-      await next()
-      return undefined
-    } catch {
-      c.status(401)
-      c.header(
-        'WWW-Authenticate',
-        'Bearer error="invalid_token", error_description="Token validation failed"',
-      )
-      return c.json({
-        error: 'invalid_token',
-        error_description: 'Token validation failed',
+      const dpopProof = c.req.header('DPoP')
+      if (!dpopProof) {
+        return unauthorized(
+          c,
+          challengeScheme,
+          'invalid_dpop_proof',
+          'DPoP proof required',
+        )
+      }
+      const proof = await validateDpopProof(dpopProof, {
+        method: c.req.method,
+        url: `${getOidcConfig().issuer}${c.req.path}`,
+        accessToken: presented.token,
       })
+      if (!proof.isValid) {
+        return unauthorized(
+          c,
+          challengeScheme,
+          'invalid_dpop_proof',
+          proof.errorDescription,
+        )
+      }
+      if (proof.jkt !== accessTokenPayload.cnf.jkt) {
+        return unauthorized(
+          c,
+          challengeScheme,
+          'invalid_dpop_proof',
+          'DPoP proof key does not match the access token',
+        )
+      }
     }
+
+    c.set('accessTokenPayload', accessTokenPayload)
+    await next()
+    return undefined
   }
 }
 
@@ -0,0 +1,96 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { sendNotification } from '../service.ts'
+
+const variables = {
+  url: 'https://id.example.com/login/magic?contact_id=c1&token=t1',
+  expiresInMinutes: 15,
+}
+
+describe('sendNotification', () => {
+  const originalEnv = process.env
+  let outboxDir: string
+
+  beforeEach(async () => {
+    outboxDir = await mkdtemp(join(tmpdir(), 'outbox-'))
+    process.env = { ...originalEnv, NOTIFICATION_OUTBOX_DIR: outboxDir }
+    delete process.env.NOTIFICATION_EMAIL_TRANSPORT
+    delete process.env.NOTIFICATION_SMS_TRANSPORT
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+    await rm(outboxDir, { recursive: true, force: true })
+  })
+
+  it('should write rendered email to the outbox by default', async () => {
+    await sendNotification({
+      channel: 'email',
+      to: 'user@example.com',
+      template: 'magic-link',
+      locale: 'en-US',
+      variables,
+    })
+
+    const [file] = await readdir(outboxDir)
+    const message = JSON.parse(await readFile(join(outboxDir, file), 'utf8'))
+    expect(message).toMatchObject({
+      channel: 'email',
+      to: 'user@example.com',
+      subject: 'Your sign-in link',
+    })
+    expect(message.text).toContain(variables.url)
+  })
+
+  it('should POST text messages to the SMS webhook when configured', async () => {
+    process.env.NOTIFICATION_SMS_TRANSPORT = 'webhook'
+    process.env.SMS_WEBHOOK_URL = 'https://sms.example.com/send'
+    process.env.SMS_WEBHOOK_TOKEN = 'webhook-token'
+    const mockFetch = vi.fn().mockResolvedValue(new Response(null))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await sendNotification({
+      channel: 'sms',
+      to: '+15551234567',
+      template: 'magic-link',
+      variables,
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://sms.example.com/send',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({
+          Authorization: 'Bearer webhook-token',
+        }),
+      }),
+    )
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body).toEqual({
+      to: '+15551234567',
+      body: `Sign in: ${variables.url} (expires in 15 min)`,
+    })
+    expect(await readdir(outboxDir)).toEqual([])
+  })
+
+  it('should reject when the SMS webhook fails', async () => {
+    process.env.NOTIFICATION_SMS_TRANSPORT = 'webhook'
+    process.env.SMS_WEBHOOK_URL = 'https://sms.example.com/send'
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(null, { status: 502 })),
+    )
+
+    await expect(
+      sendNotification({
+        channel: 'sms',
+        to: '+15551234567',
+        template: 'magic-link',
+        variables,
+      }),
+    ).rejects.toThrow('SMS webhook failed: HTTP 502')
+  })
+})
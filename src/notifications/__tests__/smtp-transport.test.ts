@@ -0,0 +1,182 @@
+import type { AddressInfo, Server, Socket } from 'node:net'
+import { createServer } from 'node:net'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createSmtpTransport } from '../smtp-transport.ts'
+
+interface SinkSession {
+  commands: string[]
+  data: string
+}
+
+/**
+ * A minimal SMTP sink: accepts every message, or rejects recipients when told to.
+ */
+const startSmtpSink = (
+  isRecipientRejected = false,
+): Promise<{ server: Server; port: number; sessions: SinkSession[] }> =>
+  new Promise((resolve) => {
+    const sessions: SinkSession[] = []
+    const server = createServer((socket: Socket) => {
+      const session: SinkSession = { commands: [], data: '' }
+      sessions.push(session)
+      let buffer = ''
+      let isReadingData = false
+
+      socket.write('220 sink ESMTP\r\n')
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8')
+        if (isReadingData) {
+          const end = buffer.indexOf('\r\n.\r\n')
+          if (end === -1) {
+            return
+          }
+          session.data = buffer.slice(0, end)
+          buffer = buffer.slice(end + 5)
+          isReadingData = false
+          socket.write('250 queued\r\n')
+        }
+
+        let end = buffer.indexOf('\r\n')
+        while (end !== -1 && !isReadingData) {
+          const line = buffer.slice(0, end)
+          buffer = buffer.slice(end + 2)
+          session.commands.push(line)
+
+          if (line.startsWith('EHLO')) {
+            socket.write('250-sink\r\n250 AUTH PLAIN\r\n')
+          } else if (line.startsWith('AUTH')) {
+            socket.write('235 ok\r\n')
+          } else if (line.startsWith('RCPT') && isRecipientRejected) {
+            socket.write('550 no such user\r\n')
+          } else if (line === 'DATA') {
+            isReadingData = true
+            socket.write('354 go ahead\r\n')
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n')
+          } else {
+            socket.write('250 ok\r\n')
+          }
+          end = buffer.indexOf('\r\n')
+        }
+      })
+    })
+    server.listen(0, '127.0.0.1', () =>
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        sessions,
+      }),
+    )
+  })
+
+describe('SMTP transport', () => {
+  let server: Server | null = null
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null))
+    server = null
+  })
+
+  it('should deliver the message to the SMTP server', async () => {
+    const sink = await startSmtpSink()
+    server = sink.server
+    const transport = createSmtpTransport(
+      {
+        host: '127.0.0.1',
+        port: sink.port,
+        isSecure: false,
+        isInsecureAuthAllowed: true,
+        username: 'mailer',
+        password: 'secret',
+        from: 'Sign-in <no-reply@id.example.com>',
+      },
+      5_000,
+    )
+
+    await transport.send({
+      to: 'user@example.com',
+      subject: 'Tu enlace de inicio de sesión',
+      text: 'https://id.example.com/login/magic?token=abc',
+    })
+
+    const [session] = sink.sessions
+    expect(session.commands).toContain(
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+    )
+    expect(session.commands).toContain('MAIL FROM:<no-reply@id.example.com>')
+    expect(session.commands).toContain('RCPT TO:<user@example.com>')
+
+    const [headers, body] = session.data.split('\r\n\r\n')
+    expect(headers).toContain('To: user@example.com')
+    expect(headers).toContain('Subject: =?UTF-8?B?')
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe(
+      'https://id.example.com/login/magic?token=abc',
+    )
+  })
+
+  it('should refuse to send credentials when the server offers no TLS', async () => {
+    const sink = await startSmtpSink()
+    server = sink.server
+    const transport = createSmtpTransport(
+      {
+        host: '127.0.0.1',
+        port: sink.port,
+        isSecure: false,
+        isInsecureAuthAllowed: false,
+        username: 'mailer',
+        password: 'secret',
+        from: 'no-reply@id.example.com',
+      },
+      5_000,
+    )
+
+    await expect(
+      transport.send({ to: 'user@example.com', subject: 'Hi', text: 'Hi' }),
+    ).rejects.toThrow(
+      'SMTP server does not offer TLS; refusing to authenticate',
+    )
+    expect(
+      sink.sessions[0].commands.some((line) => line.startsWith('AUTH')),
+    ).toBe(false)
+  })
+
+  it('should reject when the server refuses the recipient', async () => {
+    const sink = await startSmtpSink(true)
+    server = sink.server
+    const transport = createSmtpTransport(
+      {
+        host: '127.0.0.1',
+        port: sink.port,
+        isSecure: false,
+        isInsecureAuthAllowed: false,
+        from: 'no-reply@id.example.com',
+      },
+      5_000,
+    )
+
+    await expect(
+      transport.send({ to: 'nobody@example.com', subject: 'Hi', text: 'Hi' }),
+    ).rejects.toThrow('SMTP error: 550 no such user')
+  })
+
+  it('should refuse recipients that would inject headers', async () => {
+    const transport = createSmtpTransport(
+      {
+        host: '127.0.0.1',
+        port: 1,
+        isSecure: false,
+        isInsecureAuthAllowed: false,
+        from: 'a@example.com',
+      },
+      5_000,
+    )
+
+    await expect(
+      transport.send({
+        to: 'user@example.com\r\nBcc: other@example.com',
+        subject: 'Hi',
+        text: 'Hi',
+      }),
+    ).rejects.toThrow('Invalid email message headers')
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { renderEmail, renderSms, resolveLocale } from '../templates.ts'
+
+const variables = {
+  url: 'https://id.example.com/login/magic?contact_id=c1&token=t1',
+  expiresInMinutes: 15,
+}
+
+describe('Notification templates', () => {
+  describe('resolveLocale', () => {
+    it('should match a regional tag by its language', () => {
+      expect(resolveLocale('es-MX')).toBe('es')
+    })
+
+    it('should take the first supported language of an Accept-Language value', () => {
+      expect(resolveLocale('fr-CA,fr;q=0.9,es;q=0.8,en;q=0.7')).toBe('es')
+    })
+
+    it('should fall back to English', () => {
+      expect(resolveLocale('fr')).toBe('en')
+      expect(resolveLocale(undefined)).toBe('en')
+    })
+  })
+
+  it('should render the link and expiry into the email', () => {
+    const email = renderEmail('magic-link', 'en', variables)
+
+    expect(email.subject).toBe('Your sign-in link')
+    expect(email.text).toContain(variables.url)
+    expect(email.text).toContain('15 minutes')
+  })
+
+  it('should render the link and expiry into the text message', () => {
+    expect(renderSms('magic-link', 'es', variables).body).toBe(
+      `Inicia sesión: ${variables.url} (caduca en 15 min)`,
+    )
+  })
+
+  it('should render the code into the text message', () => {
+    expect(
+      renderSms('sign-in-code', 'en', { code: '042917', expiresInMinutes: 10 })
+        .body,
+    ).toBe('Your sign-in code is 042917 (expires in 10 min)')
+  })
+})
@@ -0,0 +1,31 @@
+import { parseNumber } from '../plumbing/parse-number.ts'
+import type { NotificationConfig } from './types/notification-config.ts'
+
+export const getNotificationConfig = (): NotificationConfig => {
+  const emailTransport =
+    process.env.NOTIFICATION_EMAIL_TRANSPORT === 'smtp' ? 'smtp' : 'outbox'
+  const smsTransport =
+    process.env.NOTIFICATION_SMS_TRANSPORT === 'webhook' ? 'webhook' : 'outbox'
+  const outboxDir = process.env.NOTIFICATION_OUTBOX_DIR || 'outbox'
+  const timeoutMs = parseNumber(process.env.NOTIFICATION_TIMEOUT_MS, 10_000)
+
+  return {
+    emailTransport,
+    smsTransport,
+    outboxDir,
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseNumber(process.env.SMTP_PORT, 587),
+      isSecure: process.env.SMTP_SECURE === 'true',
+      isInsecureAuthAllowed: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      username: process.env.SMTP_USERNAME,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.NOTIFICATION_EMAIL_FROM || 'no-reply@localhost',
+    },
+    smsWebhook: {
+      url: process.env.SMS_WEBHOOK_URL?.trim() ?? '',
+      token: process.env.SMS_WEBHOOK_TOKEN,
+    },
+    timeoutMs,
+  }
+}
@@ -0,0 +1,26 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type {
+  NotificationChannel,
+  NotificationTransport,
+} from './types/notification.ts'
+
+/**
+ * Write each message to a JSON file in dir instead of delivering it, for development and tests.
+ * File names start with the send time, so listing the directory shows messages in order.
+ */
+export const createOutboxTransport = <M extends object>(
+  dir: string,
+  channel: NotificationChannel,
+): NotificationTransport<M> => ({
+  send: async (message) => {
+    await mkdir(dir, { recursive: true })
+    const sentAt = new Date()
+    const fileName = `${sentAt.getTime()}-${channel}-${randomUUID()}.json`
+    await writeFile(
+      join(dir, fileName),
+      `${JSON.stringify({ channel, sentAt: sentAt.toISOString(), ...message }, null, 2)}\n`,
+    )
+  },
+})
@@ -0,0 +1,54 @@
+import { log } from '../plumbing/logger.ts'
+import { getNotificationConfig } from './config.ts'
+import { createOutboxTransport } from './outbox-transport.ts'
+import { createSmsWebhookTransport } from './sms-webhook-transport.ts'
+import { createSmtpTransport } from './smtp-transport.ts'
+import { renderEmail, renderSms } from './templates.ts'
+import type {
+  EmailMessage,
+  EmailTransport,
+  NotificationRequest,
+  SmsMessage,
+  SmsTransport,
+} from './types/notification.ts'
+
+const getEmailTransport = (): EmailTransport => {
+  const config = getNotificationConfig()
+  return config.emailTransport === 'smtp'
+    ? createSmtpTransport(config.smtp, config.timeoutMs)
+    : createOutboxTransport<EmailMessage>(config.outboxDir, 'email')
+}
+
+const getSmsTransport = (): SmsTransport => {
+  const config = getNotificationConfig()
+  return config.smsTransport === 'webhook'
+    ? createSmsWebhookTransport(config.smsWebhook, config.timeoutMs)
+    : createOutboxTransport<SmsMessage>(config.outboxDir, 'sms')
+}
+
+/**
+ * Render a template in the recipient's language and deliver it by email or SMS
+ * through the configured transport. Rejects when the transport does not accept it.
+ */
+export const sendNotification = async (
+  request: NotificationRequest,
+): Promise<void> => {
+  if (request.channel === 'email') {
+    await getEmailTransport().send({
+      to: request.to,
+      ...renderEmail(request.template, request.locale, request.variables),
+    })
+  } else {
+    await getSmsTransport().send({
+      to: request.to,
+      ...renderSms(request.template, request.locale, request.variables),
+    })
+  }
+
+  // Security: the recipient and rendered message (which holds the link) are not logged
+  log({
+    message: 'Notification sent',
+    channel: request.channel,
+    template: request.template,
+  })
+}
@@ -0,0 +1,31 @@
+import type { SmsTransport } from './types/notification.ts'
+import type { SmsWebhookConfig } from './types/notification-config.ts'
+
+/**
+ * Hand text messages to an SMS gateway by POSTing { to, body } as JSON to a webhook.
+ * The token, when configured, is sent as a Bearer credential. Any non-2xx response is a failure.
+ */
+export const createSmsWebhookTransport = (
+  config: SmsWebhookConfig,
+  timeoutMs: number,
+): SmsTransport => ({
+  send: async (message) => {
+    if (!config.url) {
+      throw new Error('SMS webhook URL is not configured')
+    }
+
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token && { Authorization: `Bearer ${config.token}` }),
+      },
+      body: JSON.stringify({ to: message.to, body: message.body }),
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+
+    if (!response.ok) {
+      throw new Error(`SMS webhook failed: HTTP ${response.status}`)
+    }
+  },
+})
@@ -0,0 +1,217 @@
+import { randomUUID } from 'node:crypto'
+import type { Socket } from 'node:net'
+import { connect as connectTcp } from 'node:net'
+import { hostname } from 'node:os'
+import { connect as connectTls } from 'node:tls'
+import type { EmailMessage, EmailTransport } from './types/notification.ts'
+import type { SmtpConfig } from './types/notification-config.ts'
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+interface ReplyReader {
+  read: () => Promise<SmtpReply>
+  /** Stop consuming the socket, before it is handed to TLS */
+  stop: () => void
+}
+
+/**
+ * Read SMTP replies from a socket. A reply spans one or more lines; every line
+ * but the last has a hyphen after the code (RFC 5321 §4.2.1).
+ */
+const createReplyReader = (socket: Socket): ReplyReader => {
+  let buffer = ''
+  let lines: string[] = []
+  let failure: Error | null = null
+  const replies: SmtpReply[] = []
+  const waiting: {
+    resolve: (reply: SmtpReply) => void
+    reject: (error: Error) => void
+  }[] = []
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8')
+    let end = buffer.indexOf('\r\n')
+    while (end !== -1) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      lines.push(line.slice(4))
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines }
+        lines = []
+        const waiter = waiting.shift()
+        if (waiter) {
+          waiter.resolve(reply)
+        } else {
+          replies.push(reply)
+        }
+      }
+      end = buffer.indexOf('\r\n')
+    }
+  }
+  const onError = (error: Error) => {
+    failure ??= error
+    for (const waiter of waiting.splice(0)) {
+      waiter.reject(failure)
+    }
+  }
+
+  socket.on('data', onData)
+  socket.on('error', onError)
+  socket.on('close', () => onError(new Error('SMTP connection closed')))
+
+  return {
+    read: () => {
+      const reply = replies.shift()
+      if (reply) {
+        return Promise.resolve(reply)
+      }
+      if (failure) {
+        return Promise.reject(failure)
+      }
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }))
+    },
+    stop: () => {
+      socket.off('data', onData)
+    },
+  }
+}
+
+const expectReply = async (
+  reader: ReplyReader,
+  expected: number[],
+): Promise<SmtpReply> => {
+  const reply = await reader.read()
+  if (!expected.includes(reply.code)) {
+    throw new Error(`SMTP error: ${reply.code} ${reply.lines.join(' ')}`)
+  }
+  return reply
+}
+
+const openSocket = (config: SmtpConfig, timeoutMs: number): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = config.isSecure
+      ? connectTls({
+          host: config.host,
+          port: config.port,
+          servername: config.host,
+        })
+      : connectTcp({ host: config.host, port: config.port })
+    socket.setTimeout(timeoutMs, () =>
+      socket.destroy(new Error('SMTP connection timed out')),
+    )
+    socket.once(config.isSecure ? 'secureConnect' : 'connect', () =>
+      resolve(socket),
+    )
+    socket.once('error', reject)
+  })
+
+const upgradeToTls = (
+  socket: Socket,
+  host: string,
+  timeoutMs: number,
+): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const secureSocket = connectTls({ socket, servername: host })
+    secureSocket.setTimeout(timeoutMs, () =>
+      secureSocket.destroy(new Error('SMTP connection timed out')),
+    )
+    secureSocket.once('secureConnect', () => resolve(secureSocket))
+    secureSocket.once('error', reject)
+  })
+
+/** The bare address of a From value that may be written as `Name <address>` */
+const envelopeAddress = (from: string): string =>
+  from.match(/<([^>]+)>/)?.[1] ?? from
+
+/** Non-ASCII header values are sent as RFC 2047 encoded words */
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+
+const formatMessage = (from: string, message: EmailMessage): string => {
+  const domain = envelopeAddress(from).split('@')[1] ?? 'localhost'
+  const body =
+    Buffer.from(message.text)
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n')
+}
+
+/**
+ * Send email through an SMTP server, one connection per message.
+ * STARTTLS is used whenever the server offers it; credentials are sent with AUTH PLAIN,
+ * and only over TLS unless the config explicitly allows otherwise.
+ * Works against a local SMTP sink (e.g. MailHog) in development.
+ */
+export const createSmtpTransport = (
+  config: SmtpConfig,
+  timeoutMs: number,
+): EmailTransport => ({
+  send: async (message) => {
+    if (/[\r\n<>]/.test(message.to) || /[\r\n]/.test(message.subject)) {
+      throw new Error('Invalid email message headers')
+    }
+
+    let socket = await openSocket(config, timeoutMs)
+    let reader = createReplyReader(socket)
+    const command = (line: string, expected: number[]) => {
+      socket.write(`${line}\r\n`)
+      return expectReply(reader, expected)
+    }
+
+    try {
+      await expectReply(reader, [220])
+      const ehlo = await command(`EHLO ${hostname()}`, [250])
+
+      const isStartTlsOffered = ehlo.lines.some(
+        (line) => line.toUpperCase() === 'STARTTLS',
+      )
+      let isTls = config.isSecure
+      if (!isTls && isStartTlsOffered) {
+        await command('STARTTLS', [220])
+        reader.stop()
+        socket = await upgradeToTls(socket, config.host, timeoutMs)
+        reader = createReplyReader(socket)
+        await command(`EHLO ${hostname()}`, [250])
+        isTls = true
+      }
+
+      if (config.username) {
+        if (!isTls && !config.isInsecureAuthAllowed) {
+          throw new Error(
+            'SMTP server does not offer TLS; refusing to authenticate',
+          )
+        }
+        const credentials = Buffer.from(
+          `\0${config.username}\0${config.password ?? ''}`,
+        ).toString('base64')
+        await command(`AUTH PLAIN ${credentials}`, [235])
+      }
+
+      await command(`MAIL FROM:<${envelopeAddress(config.from)}>`, [250])
+      await command(`RCPT TO:<${message.to}>`, [250, 251])
+      await command('DATA', [354])
+      await command(`${formatMessage(config.from, message)}\r\n.`, [250])
+      socket.end('QUIT\r\n')
+    } catch (error) {
+      socket.destroy()
+      throw error
+    }
+  },
+})
@@ -0,0 +1,126 @@
+import type {
+  EmailMessage,
+  NotificationTemplateName,
+  NotificationVariables,
+  SmsMessage,
+} from './types/notification.ts'
+
+interface LocalizedTemplate {
+  email: (variables: NotificationVariables) => Omit<EmailMessage, 'to'>
+  sms: (variables: NotificationVariables) => Omit<SmsMessage, 'to'>
+}
+
+const DEFAULT_LOCALE = 'en'
+
+const TEMPLATES: Record<
+  string,
+  Record<NotificationTemplateName, LocalizedTemplate>
+> = {
+  en: {
+    'magic-link': {
+      email: ({ url, expiresInMinutes }) => ({
+        subject: 'Your sign-in link',
+        text: `Use this link to sign in:\n\n${url}\n\nThe link expires in ${expiresInMinutes} minutes and can be used once. If you did not ask to sign in, you can ignore this email.\n`,
+      }),
+      sms: ({ url, expiresInMinutes }) => ({
+        body: `Sign in: ${url} (expires in ${expiresInMinutes} min)`,
+      }),
+    },
+    'sign-in-code': {
+      email: ({ code, expiresInMinutes }) => ({
+        subject: 'Your sign-in code',
+        text: `Your sign-in code is ${code}\n\nThe code expires in ${expiresInMinutes} minutes and can be used once. If you did not ask to sign in, you can ignore this email.\n`,
+      }),
+      sms: ({ code, expiresInMinutes }) => ({
+        body: `Your sign-in code is ${code} (expires in ${expiresInMinutes} min)`,
+      }),
+    },
+    'email-verification': {
+      email: ({ url, expiresInMinutes }) => ({
+        subject: 'Verify your email address',
+        text: `Confirm this is your email address by opening this link:\n\n${url}\n\nThe link expires in ${Math.round(expiresInMinutes / 60)} hours. If you did not create an account, you can ignore this email.\n`,
+      }),
+      sms: ({ url }) => ({
+        body: `Verify your email address: ${url}`,
+      }),
+    },
+    'password-reset': {
+      email: ({ url, expiresInMinutes }) => ({
+        subject: 'Reset your password',
+        text: `Use this link to choose a new password:\n\n${url}\n\nThe link expires in ${expiresInMinutes} minutes and can be used once. If you did not ask to reset your password, you can ignore this email.\n`,
+      }),
+      sms: ({ url, expiresInMinutes }) => ({
+        body: `Reset your password: ${url} (expires in ${expiresInMinutes} min)`,
+      }),
+    },
+  },
+  es: {
+    'magic-link': {
+      email: ({ url, expiresInMinutes }) => ({
+        subject: 'Tu enlace de inicio de sesión',
+        text: `Usa este enlace para iniciar sesión:\n\n${url}\n\nEl enlace caduca en ${expiresInMinutes} minutos y solo se puede usar una vez. Si no pediste iniciar sesión, puedes ignorar este correo.\n`,
+      }),
+      sms: ({ url, expiresInMinutes }) => ({
+        body: `Inicia sesión: ${url} (caduca en ${expiresInMinutes} min)`,
+      }),
+    },
+    'sign-in-code': {
+      email: ({ code, expiresInMinutes }) => ({
+        subject: 'Tu código de inicio de sesión',
+        text: `Tu código de inicio de sesión es ${code}\n\nEl código caduca en ${expiresInMinutes} minutos y solo se puede usar una vez. Si no pediste iniciar sesión, puedes ignorar este correo.\n`,
+      }),
+      sms: ({ code, expiresInMinutes }) => ({
+        body: `Tu código de inicio de sesión es ${code} (caduca en ${expiresInMinutes} min)`,
+      }),
+    },
+    'email-verification': {
+      email: ({ url, expiresInMinutes }) => ({
+        subject: 'Verifica tu correo electrónico',
+        text: `Confirma que esta es tu dirección de correo abriendo este enlace:\n\n${url}\n\nEl enlace caduca en ${Math.round(expiresInMinutes / 60)} horas. Si no creaste una cuenta, puedes ignorar este correo.\n`,
+      }),
+      sms: ({ url }) => ({
+        body: `Verifica tu correo electrónico: ${url}`,
+      }),
+    },
+    'password-reset': {
+      email: ({ url, expiresInMinutes }) => ({
+        subject: 'Restablece tu contraseña',
+        text: `Usa este enlace para elegir una nueva contraseña:\n\n${url}\n\nEl enlace caduca en ${expiresInMinutes} minutos y solo se puede usar una vez. Si no pediste restablecer tu contraseña, puedes ignorar este correo.\n`,
+      }),
+      sms: ({ url, expiresInMinutes }) => ({
+        body: `Restablece tu contraseña: ${url} (caduca en ${expiresInMinutes} min)`,
+      }),
+    },
+  },
+}
+
+/**
+ * The first supported language in a BCP 47 tag or Accept-Language value, matching
+ * a regional tag (es-MX) by its language. Quality values are ignored; order decides.
+ */
+export const resolveLocale = (locale: string | undefined): string => {
+  const tags = (locale ?? '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim().toLowerCase())
+  for (const tag of tags) {
+    const language = tag.split('-')[0]
+    if (language in TEMPLATES) {
+      return language
+    }
+  }
+  return DEFAULT_LOCALE
+}
+
+export const renderEmail = (
+  template: NotificationTemplateName,
+  locale: string | undefined,
+  variables: NotificationVariables,
+): Omit<EmailMessage, 'to'> =>
+  TEMPLATES[resolveLocale(locale)][template].email(variables)
+
+export const renderSms = (
+  template: NotificationTemplateName,
+  locale: string | undefined,
+  variables: NotificationVariables,
+): Omit<SmsMessage, 'to'> =>
+  TEMPLATES[resolveLocale(locale)][template].sms(variables)
@@ -0,0 +1,26 @@
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Connect over TLS (port 465); otherwise STARTTLS is used when the server offers it */
+  isSecure: boolean
+  /** Send credentials without TLS; only for local sinks that cannot offer it */
+  isInsecureAuthAllowed: boolean
+  username?: string
+  password?: string
+  from: string
+}
+
+export interface SmsWebhookConfig {
+  url: string
+  token?: string
+}
+
+export interface NotificationConfig {
+  emailTransport: 'smtp' | 'outbox'
+  smsTransport: 'webhook' | 'outbox'
+  /** Directory the outbox transport writes messages to */
+  outboxDir: string
+  smtp: SmtpConfig
+  smsWebhook: SmsWebhookConfig
+  timeoutMs: number
+}
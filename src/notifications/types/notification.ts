@@ -0,0 +1,43 @@
+export type NotificationChannel = 'email' | 'sms'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface SmsMessage {
+  to: string
+  body: string
+}
+
+/** Delivers messages of one kind; send rejects when the message was not accepted */
+export interface NotificationTransport<M> {
+  send: (message: M) => Promise<void>
+}
+
+export type EmailTransport = NotificationTransport<EmailMessage>
+export type SmsTransport = NotificationTransport<SmsMessage>
+
+export type NotificationTemplateName =
+  | 'magic-link'
+  | 'sign-in-code'
+  | 'email-verification'
+  | 'password-reset'
+
+/** Values a template is rendered with; each template uses the ones it needs */
+export interface NotificationVariables {
+  url?: string
+  code?: string
+  expiresInMinutes: number
+}
+
+export interface NotificationRequest {
+  channel: NotificationChannel
+  /** Email address or phone number */
+  to: string
+  template: NotificationTemplateName
+  /** BCP 47 language tag or Accept-Language header value; English when unsupported */
+  locale?: string
+  variables: NotificationVariables
+}
@@ -66,4 +66,13 @@ describe('OIDC Configuration', () => {
 
     expect(() => getOidcConfig()).toThrow('OIDC issuer must be set')
   })
+
+  it('should throw error for a short pairwise subject secret', () => {
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    process.env.OIDC_PAIRWISE_SUBJECT_SECRET = 'too-short'
+
+    expect(() => getOidcConfig()).toThrow(
+      'OIDC_PAIRWISE_SUBJECT_SECRET must be at least 32 characters',
+    )
+  })
 })
@@ -1,14 +1,35 @@
 import { Hono } from 'hono'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as scopeStorage from '../../scopes/storage.ts'
 import { clearConfigCache, getOidcConfig } from '../config.ts'
 import { handleDiscovery } from '../discovery.ts'
 
+vi.mock('../../scopes/storage.ts', () => ({
+  findAllScopes: vi.fn(),
+}))
+
+const scopeDefinition = (scope: string, claims: string[]) => ({
+  scope,
+  description: scope,
+  claims,
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const registeredScopes = [
+  scopeDefinition('openid', ['sub']),
+  scopeDefinition('profile', ['name', 'given_name', 'family_name', 'picture']),
+  scopeDefinition('email', ['email', 'email_verified']),
+  scopeDefinition('offline_access', []),
+]
+
 describe('Discovery Endpoint', () => {
   const originalEnv = process.env
 
   beforeEach(() => {
     process.env = { ...originalEnv }
     clearConfigCache()
+    vi.mocked(scopeStorage.findAllScopes).mockResolvedValue(registeredScopes)
   })
 
   afterEach(() => {
@@ -71,13 +92,162 @@ describe('Discovery Endpoint', () => {
     expect(document.authorization_endpoint).toBe(config.authorizationEndpoint)
     expect(document.token_endpoint).toBe(config.tokenEndpoint)
     expect(document.jwks_uri).toBe(config.jwksUri)
-    expect(document.scopes_supported).toEqual(config.scopesSupported)
     expect(document.response_types_supported).toEqual(
       config.responseTypesSupported,
     )
     expect(document.grant_types_supported).toEqual(config.grantTypesSupported)
   })
 
+  it('should advertise the client_credentials grant', async () => {
+    delete process.env.OIDC_ISSUER
+    delete process.env.PORT
+
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.grant_types_supported).toContain('client_credentials')
+  })
+
+  it('should publish the introspection endpoint', async () => {
+    delete process.env.OIDC_ISSUER
+    delete process.env.PORT
+
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.introspection_endpoint).toBe(
+      'http://localhost:3000/introspect',
+    )
+  })
+
+  it('should advertise the end_session endpoint', async () => {
+    delete process.env.OIDC_ISSUER
+    delete process.env.PORT
+
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.end_session_endpoint).toBe('http://localhost:3000/logout')
+  })
+
+  it('should advertise query, fragment and form_post response modes', async () => {
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.response_modes_supported).toEqual([
+      'query',
+      'fragment',
+      'form_post',
+    ])
+  })
+
+  it('should advertise supported prompt values', async () => {
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.prompt_values_supported).toEqual([
+      'none',
+      'login',
+      'consent',
+      'select_account',
+    ])
+  })
+
+  it('should advertise back-channel logout support', async () => {
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.backchannel_logout_supported).toBe(true)
+    expect(document.backchannel_logout_session_supported).toBe(true)
+  })
+
+  it('should advertise the device authorization endpoint and grant', async () => {
+    delete process.env.OIDC_ISSUER
+    delete process.env.PORT
+
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.device_authorization_endpoint).toBe(
+      'http://localhost:3000/device_authorization',
+    )
+    expect(document.grant_types_supported).toContain(
+      'urn:ietf:params:oauth:grant-type:device_code',
+    )
+  })
+
+  it('should advertise the pushed authorization request endpoint', async () => {
+    delete process.env.OIDC_ISSUER
+    delete process.env.PORT
+
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.pushed_authorization_request_endpoint).toBe(
+      'http://localhost:3000/par',
+    )
+    expect(document.require_pushed_authorization_requests).toBe(false)
+  })
+
+  it('should advertise request object support', async () => {
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.request_parameter_supported).toBe(true)
+    expect(document.request_object_signing_alg_values_supported).toEqual([
+      'RS256',
+      'RS384',
+      'RS512',
+      'ES256',
+      'ES384',
+      'ES512',
+    ])
+  })
+
+  it('should advertise DPoP proof signing algorithms', async () => {
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.dpop_signing_alg_values_supported).toEqual([
+      'RS256',
+      'RS384',
+      'RS512',
+      'ES256',
+      'ES384',
+      'ES512',
+    ])
+  })
+
   it('should include required claims', async () => {
     delete process.env.OIDC_ISSUER
     delete process.env.PORT
@@ -112,4 +282,39 @@ describe('Discovery Endpoint', () => {
     expect(methods).toContain('S256')
     expect(methods).toContain('plain')
   })
+
+  it('should build scopes_supported and claims_supported from the scope registry', async () => {
+    vi.mocked(scopeStorage.findAllScopes).mockResolvedValue([
+      ...registeredScopes,
+      scopeDefinition('orders:read', ['order_history']),
+    ])
+
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.scopes_supported).toEqual([
+      'email',
+      'offline_access',
+      'openid',
+      'orders:read',
+      'profile',
+    ])
+    const claims = document.claims_supported as string[]
+    expect(claims).toContain('order_history')
+    expect(claims).toContain('auth_time')
+    expect(claims.filter((claim) => claim === 'sub')).toHaveLength(1)
+  })
+
+  it('should advertise the claims request parameter', async () => {
+    const app = new Hono()
+    app.get('/.well-known/openid-configuration', handleDiscovery)
+
+    const res = await app.request('/.well-known/openid-configuration')
+    const document = (await res.json()) as Record<string, unknown>
+
+    expect(document.claims_parameter_supported).toBe(true)
+  })
 })
@@ -3,6 +3,12 @@ import type { OidcConfig } from './types/oidc-config.ts'
 
 let cachedConfig: OidcConfig | null = null
 
+/** Long enough to absorb a client retrying a refresh whose response was lost */
+const DEFAULT_REFRESH_TOKEN_REUSE_GRACE_SECONDS = 10
+
+/** 256 bits when the secret is random base64 or hex */
+const MIN_PAIRWISE_SUBJECT_SECRET_LENGTH = 32
+
 const validateConfig = (config: OidcConfig): void => {
   const errors: string[] = []
 
@@ -14,10 +20,6 @@ const validateConfig = (config: OidcConfig): void => {
     errors.push('OIDC issuer must be a valid URL (http:// or https://)')
   }
 
-  if (!config.scopesSupported.includes('openid')) {
-    errors.push('OIDC must support the "openid" scope')
-  }
-
   if (config.responseTypesSupported.length === 0) {
     errors.push('At least one response type must be supported')
   }
@@ -26,6 +28,24 @@ const validateConfig = (config: OidcConfig): void => {
     errors.push('At least one grant type must be supported')
   }
 
+  if (
+    !Number.isInteger(config.refreshTokenReuseGraceSeconds) ||
+    config.refreshTokenReuseGraceSeconds < 0
+  ) {
+    errors.push(
+      'OIDC_REFRESH_TOKEN_REUSE_GRACE_SECONDS must be a non-negative integer',
+    )
+  }
+
+  if (
+    config.pairwiseSubjectSecret !== null &&
+    config.pairwiseSubjectSecret.length < MIN_PAIRWISE_SUBJECT_SECRET_LENGTH
+  ) {
+    errors.push(
+      `OIDC_PAIRWISE_SUBJECT_SECRET must be at least ${MIN_PAIRWISE_SUBJECT_SECRET_LENGTH} characters`,
+    )
+  }
+
   if (errors.length > 0) {
     throw new Error(
       `OIDC configuration validation failed:\n${errors.join('\n')}`,
@@ -51,6 +71,15 @@ export const getOidcConfig = (): OidcConfig => {
       ? defaultAudienceRaw
       : 'jlj-squared-development'
 
+  const reuseGraceRaw =
+    process.env.OIDC_REFRESH_TOKEN_REUSE_GRACE_SECONDS?.trim()
+  const refreshTokenReuseGraceSeconds = reuseGraceRaw
+    ? Number(reuseGraceRaw)
+    : DEFAULT_REFRESH_TOKEN_REUSE_GRACE_SECONDS
+
+  const pairwiseSubjectSecret =
+    process.env.OIDC_PAIRWISE_SUBJECT_SECRET?.trim() || null
+
   const config: OidcConfig = {
     issuer,
     defaultAudience,
@@ -58,15 +87,56 @@ export const getOidcConfig = (): OidcConfig => {
     tokenEndpoint: `${issuer}/token`,
     userinfoEndpoint: `${issuer}/userinfo`,
     revocationEndpoint: `${issuer}/revoke`,
+    introspectionEndpoint: `${issuer}/introspect`,
+    endSessionEndpoint: `${issuer}/logout`,
+    deviceAuthorizationEndpoint: `${issuer}/device_authorization`,
+    deviceVerificationEndpoint: `${issuer}/device`,
+    pushedAuthorizationRequestEndpoint: `${issuer}/par`,
     jwksUri: `${issuer}/.well-known/jwks.json`,
-    scopesSupported: ['openid', 'profile', 'email', 'offline_access'],
     responseTypesSupported: ['code'],
-    grantTypesSupported: ['authorization_code', 'refresh_token'],
+    responseModesSupported: ['query', 'fragment', 'form_post'],
+    grantTypesSupported: [
+      'authorization_code',
+      'refresh_token',
+      'client_credentials',
+      'urn:ietf:params:oauth:grant-type:device_code',
+    ],
+    requestObjectSigningAlgValuesSupported: [
+      'RS256',
+      'RS384',
+      'RS512',
+      'ES256',
+      'ES384',
+      'ES512',
+    ],
     tokenEndpointAuthMethodsSupported: [
       'client_secret_basic',
       'client_secret_post',
+      'client_secret_jwt',
+      'private_key_jwt',
       'none',
     ],
+    tokenEndpointAuthSigningAlgValuesSupported: [
+      'RS256',
+      'RS384',
+      'RS512',
+      'ES256',
+      'ES384',
+      'ES512',
+      'HS256',
+      'HS384',
+      'HS512',
+    ],
+    dpopSigningAlgValuesSupported: [
+      'RS256',
+      'RS384',
+      'RS512',
+      'ES256',
+      'ES384',
+      'ES512',
+    ],
+    refreshTokenReuseGraceSeconds,
+    pairwiseSubjectSecret,
   }
 
   validateConfig(config)
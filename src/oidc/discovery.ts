@@ -1,8 +1,26 @@
 import type { Context } from 'hono'
+import { listScopes } from '../scopes/service.ts'
 import { getOidcConfig } from './config.ts'
 
-export const handleDiscovery = (c: Context) => {
+/** Claims every ID token may carry, whatever scopes were granted */
+const ID_TOKEN_CLAIMS = [
+  'sub',
+  'iss',
+  'aud',
+  'exp',
+  'iat',
+  'auth_time',
+  'nonce',
+  'sid',
+]
+
+/**
+ * OIDC Discovery document. scopes_supported and claims_supported come from the scope registry.
+ */
+export const handleDiscovery = async (c: Context) => {
   const config = getOidcConfig()
+  const scopes = await listScopes()
+  const scopeClaims = scopes.flatMap((scope) => scope.claims)
 
   const discoveryDocument = {
     issuer: config.issuer,
@@ -10,37 +28,39 @@ export const handleDiscovery = (c: Context) => {
     token_endpoint: config.tokenEndpoint,
     userinfo_endpoint: config.userinfoEndpoint,
     revocation_endpoint: config.revocationEndpoint,
+    introspection_endpoint: config.introspectionEndpoint,
+    end_session_endpoint: config.endSessionEndpoint,
+    backchannel_logout_supported: true,
+    backchannel_logout_session_supported: true,
+    device_authorization_endpoint: config.deviceAuthorizationEndpoint,
+    pushed_authorization_request_endpoint:
+      config.pushedAuthorizationRequestEndpoint,
+    require_pushed_authorization_requests: false,
     jwks_uri: config.jwksUri,
     response_types_supported: config.responseTypesSupported,
-    subject_types_supported: ['public'],
+    subject_types_supported: config.pairwiseSubjectSecret
+      ? ['public', 'pairwise']
+      : ['public'],
     id_token_signing_alg_values_supported: ['RS256', 'ES256'],
-    response_modes_supported: ['query', 'fragment'],
+    response_modes_supported: config.responseModesSupported,
     grant_types_supported: config.grantTypesSupported,
+    request_parameter_supported: true,
+    request_uri_parameter_supported: false,
+    request_object_signing_alg_values_supported:
+      config.requestObjectSigningAlgValuesSupported,
     acr_values_supported: [],
     token_endpoint_auth_methods_supported:
       config.tokenEndpointAuthMethodsSupported,
-    token_endpoint_auth_signing_alg_values_supported: ['RS256'],
+    token_endpoint_auth_signing_alg_values_supported:
+      config.tokenEndpointAuthSigningAlgValuesSupported,
+    dpop_signing_alg_values_supported: config.dpopSigningAlgValuesSupported,
     display_values_supported: ['page'],
     claim_types_supported: ['normal'],
-    claims_supported: [
-      'sub',
-      'iss',
-      'aud',
-      'exp',
-      'iat',
-      'auth_time',
-      'nonce',
-      'email',
-      'email_verified',
-      'emails',
-      'phone_numbers',
-      'name',
-      'given_name',
-      'family_name',
-      'picture',
-    ],
-    scopes_supported: config.scopesSupported,
+    claims_supported: [...new Set([...ID_TOKEN_CLAIMS, ...scopeClaims])],
+    claims_parameter_supported: true,
+    scopes_supported: scopes.map((scope) => scope.name),
     code_challenge_methods_supported: ['S256', 'plain'],
+    prompt_values_supported: ['none', 'login', 'consent', 'select_account'],
   }
 
   return c.json(discoveryDocument)
@@ -1,3 +1,5 @@
+import type { JwtAlgorithm } from '../../tokens/jwt.ts'
+
 export interface OidcConfig {
   issuer: string
   defaultAudience: string
@@ -5,10 +7,28 @@ export interface OidcConfig {
   tokenEndpoint: string
   userinfoEndpoint: string
   revocationEndpoint: string
+  introspectionEndpoint: string
+  endSessionEndpoint: string
+  deviceAuthorizationEndpoint: string
+  /** RFC 9126 Pushed Authorization Request endpoint */
+  pushedAuthorizationRequestEndpoint: string
+  /** Page where the user enters a device flow user_code (RFC 8628 verification_uri) */
+  deviceVerificationEndpoint: string
   jwksUri: string
   registrationEndpoint?: string
-  scopesSupported: string[]
   responseTypesSupported: string[]
+  /** How /authorize may return its response: query, fragment, form_post */
+  responseModesSupported: string[]
   grantTypesSupported: string[]
+  /** Algorithms accepted for signed request objects (RFC 9101) */
+  requestObjectSigningAlgValuesSupported: JwtAlgorithm[]
   tokenEndpointAuthMethodsSupported: string[]
+  /** Algorithms accepted for client_secret_jwt and private_key_jwt assertions (RFC 7523) */
+  tokenEndpointAuthSigningAlgValuesSupported: JwtAlgorithm[]
+  /** Algorithms accepted for DPoP proofs (RFC 9449) */
+  dpopSigningAlgValuesSupported: JwtAlgorithm[]
+  /** How long a rotated refresh token may be presented again before it counts as a replay */
+  refreshTokenReuseGraceSeconds: number
+  /** Keys the HMAC that derives pairwise subs; pairwise clients are unavailable without it */
+  pairwiseSubjectSecret: string | null
 }
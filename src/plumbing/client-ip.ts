@@ -0,0 +1,32 @@
+import { getConnInfo } from '@hono/node-server/conninfo'
+import type { Context } from 'hono'
+
+const isTrustCfConnectingIp = (): boolean =>
+  process.env.RATE_LIMIT_TRUST_CF_CONNECTING_IP === 'true'
+
+/**
+ * Best-effort client IP for rate limiting and session records.
+ */
+export const getClientIp = (c: Context): string => {
+  // cf-connecting-ip is set by Cloudflare and cannot be forged when behind Cloudflare.
+  // When NOT behind Cloudflare, clients can spoof it to bypass rate limits.
+  // Only prefer it when RATE_LIMIT_TRUST_CF_CONNECTING_IP=true (deployed behind Cloudflare).
+  if (isTrustCfConnectingIp()) {
+    const cfIp = c.req.header('cf-connecting-ip')
+    if (cfIp) return cfIp
+  }
+
+  const forwarded = c.req.header('x-forwarded-for')
+  if (forwarded) {
+    const first = forwarded.split(',')[0]?.trim()
+    if (first) return first
+  }
+  try {
+    const info = getConnInfo(c)
+    const address = info?.remote?.address
+    if (address) return address
+  } catch {
+    // getConnInfo requires Node server bindings; unavailable in tests or non-Node runtimes
+  }
+  return 'unknown'
+}
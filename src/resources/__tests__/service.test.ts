@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ProtectedResource } from '../../database/types/protected-resource.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import {
+  isValidResourceIndicator,
+  registerResource,
+  resolveAccessTokenTarget,
+  updateResourceByUri,
+} from '../service.ts'
+import * as storage from '../storage.ts'
+
+vi.mock('../storage.ts', () => ({
+  insertResource: vi.fn(),
+  findResource: vi.fn(),
+  findAllResources: vi.fn(),
+  updateResource: vi.fn(),
+  deleteResource: vi.fn(),
+}))
+
+const ordersApi: ProtectedResource = {
+  resource: 'https://orders.example.com',
+  resource_name: 'Orders API',
+  scopes: ['orders:read', 'profile'],
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+const billingApi: ProtectedResource = {
+  ...ordersApi,
+  resource: 'https://billing.example.com',
+  resource_name: 'Billing API',
+  scopes: ['email'],
+}
+
+describe('Resource Service', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    vi.clearAllMocks()
+    vi.mocked(storage.findResource).mockImplementation(
+      async (resource) =>
+        [ordersApi, billingApi].find((r) => r.resource === resource) ?? null,
+    )
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    vi.restoreAllMocks()
+  })
+
+  describe('isValidResourceIndicator', () => {
+    it('should accept absolute URIs', () => {
+      expect(isValidResourceIndicator('https://orders.example.com')).toBe(true)
+      expect(isValidResourceIndicator('urn:example:orders')).toBe(true)
+    })
+
+    it('should reject relative URIs and fragments', () => {
+      expect(isValidResourceIndicator('/orders')).toBe(false)
+      expect(isValidResourceIndicator('https://orders.example.com#x')).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('registerResource', () => {
+    it('should register a resource with its scopes', async () => {
+      vi.mocked(storage.insertResource).mockResolvedValue(ordersApi)
+
+      const resource = await registerResource({
+        uri: 'https://orders.example.com',
+        name: ' Orders API ',
+        scopes: ['orders:read', 'profile'],
+      })
+
+      expect(resource.uri).toBe('https://orders.example.com')
+      expect(resource.scopes).toEqual(['orders:read', 'profile'])
+      expect(storage.insertResource).toHaveBeenCalledWith({
+        resource: 'https://orders.example.com',
+        resource_name: 'Orders API',
+        scopes: ['orders:read', 'profile'],
+      })
+    })
+
+    it('should reject a URI that is not a resource indicator', async () => {
+      await expect(
+        registerResource({ uri: 'orders', name: 'Orders', scopes: ['a'] }),
+      ).rejects.toThrow('Invalid resource URI')
+    })
+
+    it('should require at least one well-formed scope', async () => {
+      await expect(
+        registerResource({
+          uri: 'https://orders.example.com',
+          name: 'Orders',
+          scopes: [],
+        }),
+      ).rejects.toThrow('Invalid scopes')
+      await expect(
+        registerResource({
+          uri: 'https://orders.example.com',
+          name: 'Orders',
+          scopes: ['orders read'],
+        }),
+      ).rejects.toThrow('Invalid scope: orders read')
+    })
+
+    it('should reject a resource that is already registered', async () => {
+      vi.mocked(storage.insertResource).mockResolvedValue(null)
+
+      await expect(
+        registerResource({
+          uri: 'https://orders.example.com',
+          name: 'Orders',
+          scopes: ['orders:read'],
+        }),
+      ).rejects.toThrow('Resource already registered')
+    })
+  })
+
+  describe('updateResourceByUri', () => {
+    it('should return null for an unknown resource', async () => {
+      vi.mocked(storage.updateResource).mockResolvedValue(null)
+
+      expect(
+        await updateResourceByUri('https://unknown.example.com', {
+          scopes: ['a'],
+        }),
+      ).toBeNull()
+    })
+  })
+
+  describe('resolveAccessTokenTarget', () => {
+    it('should fall back to the default audience without resources', async () => {
+      process.env.OIDC_DEFAULT_AUDIENCE = 'https://api.example.com'
+      clearConfigCache()
+
+      expect(
+        await resolveAccessTokenTarget([], [], ['openid', 'email']),
+      ).toEqual({
+        isValid: true,
+        audience: 'https://api.example.com',
+        scopes: ['openid', 'email'],
+      })
+    })
+
+    it('should narrow scopes to those the resource allows', async () => {
+      expect(
+        await resolveAccessTokenTarget(
+          ['https://orders.example.com'],
+          [],
+          ['openid', 'profile', 'email'],
+        ),
+      ).toEqual({
+        isValid: true,
+        audience: 'https://orders.example.com',
+        scopes: ['profile'],
+      })
+    })
+
+    it('should use the authorized resources when none are requested', async () => {
+      const target = await resolveAccessTokenTarget(
+        [],
+        ['https://orders.example.com', 'https://billing.example.com'],
+        ['profile', 'email'],
+      )
+
+      expect(target).toEqual({
+        isValid: true,
+        audience: ['https://orders.example.com', 'https://billing.example.com'],
+        scopes: ['profile', 'email'],
+      })
+    })
+
+    it('should reject resources outside the authorized ones', async () => {
+      const target = await resolveAccessTokenTarget(
+        ['https://billing.example.com'],
+        ['https://orders.example.com'],
+        ['email'],
+      )
+
+      expect(target).toMatchObject({ isValid: false, error: 'invalid_target' })
+    })
+
+    it('should reject unregistered resources', async () => {
+      const target = await resolveAccessTokenTarget(
+        ['https://unknown.example.com'],
+        [],
+        ['profile'],
+      )
+
+      expect(target).toMatchObject({ isValid: false, error: 'invalid_target' })
+    })
+
+    it('should reject when no granted scope is allowed', async () => {
+      const target = await resolveAccessTokenTarget(
+        ['https://billing.example.com'],
+        [],
+        ['openid', 'profile'],
+      )
+
+      expect(target).toMatchObject({ isValid: false, error: 'invalid_scope' })
+    })
+  })
+})
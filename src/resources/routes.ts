@@ -0,0 +1,129 @@
+import { Hono } from 'hono'
+import {
+  deleteResourceByUri,
+  getResource,
+  listResources,
+  registerResource,
+  updateResourceByUri,
+} from './service.ts'
+import type {
+  Resource,
+  ResourceRegistrationInput,
+  ResourceUpdateInput,
+} from './types/resource.ts'
+
+const resources = new Hono()
+
+const toResourceResponse = (resource: Resource) => ({
+  uri: resource.uri,
+  name: resource.name,
+  scopes: resource.scopes,
+  createdAt: resource.createdAt.toISOString(),
+  updatedAt: resource.updatedAt.toISOString(),
+})
+
+const isValidationError = (error: unknown): error is Error =>
+  error instanceof Error &&
+  (error.message === 'Resource name is required' ||
+    error.message.startsWith('Invalid resource URI') ||
+    error.message.startsWith('Invalid scope'))
+
+/**
+ * POST /resources
+ * Register a protected resource
+ */
+resources.post('/', async (c) => {
+  try {
+    const body = (await c.req.json()) as ResourceRegistrationInput
+
+    const resource = await registerResource(body)
+
+    return c.json(toResourceResponse(resource), 201)
+  } catch (error) {
+    if (isValidationError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    if (
+      error instanceof Error &&
+      error.message === 'Resource already registered'
+    ) {
+      return c.json({ error: error.message }, 409)
+    }
+    return c.json({ error: 'Resource registration failed' }, 500)
+  }
+})
+
+/**
+ * GET /resources
+ * List protected resources
+ */
+resources.get('/', async (c) => {
+  try {
+    const all = await listResources()
+
+    return c.json({ resources: all.map(toResourceResponse) })
+  } catch (_error) {
+    return c.json({ error: 'Failed to list resources' }, 500)
+  }
+})
+
+/**
+ * GET /resources/:uri
+ * Get a protected resource (uri is percent-encoded as a single path segment)
+ */
+resources.get('/:uri', async (c) => {
+  try {
+    const resource = await getResource(c.req.param('uri'))
+
+    if (!resource) {
+      return c.json({ error: 'Resource not found' }, 404)
+    }
+
+    return c.json(toResourceResponse(resource))
+  } catch (_error) {
+    return c.json({ error: 'Failed to retrieve resource' }, 500)
+  }
+})
+
+/**
+ * PUT /resources/:uri
+ * Update a protected resource's name or scopes
+ */
+resources.put('/:uri', async (c) => {
+  try {
+    const body = (await c.req.json()) as ResourceUpdateInput
+
+    const resource = await updateResourceByUri(c.req.param('uri'), body)
+
+    if (!resource) {
+      return c.json({ error: 'Resource not found' }, 404)
+    }
+
+    return c.json(toResourceResponse(resource))
+  } catch (error) {
+    if (isValidationError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    return c.json({ error: 'Failed to update resource' }, 500)
+  }
+})
+
+/**
+ * DELETE /resources/:uri
+ * Delete a protected resource
+ */
+resources.delete('/:uri', async (c) => {
+  try {
+    const isDeleted = await deleteResourceByUri(c.req.param('uri'))
+
+    if (!isDeleted) {
+      return c.json({ error: 'Resource not found' }, 404)
+    }
+
+    return c.json({ message: 'Resource deleted successfully' })
+  } catch (_error) {
+    return c.json({ error: 'Failed to delete resource' }, 500)
+  }
+})
+
+export default resources
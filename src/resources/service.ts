@@ -0,0 +1,176 @@
+import type { ProtectedResource } from '../database/types/protected-resource.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { isValidScopeToken } from '../scopes/service.ts'
+import {
+  deleteResource,
+  findAllResources,
+  findResource,
+  insertResource,
+  updateResource,
+} from './storage.ts'
+import type {
+  AccessTokenTarget,
+  Resource,
+  ResourceRegistrationInput,
+  ResourceUpdateInput,
+} from './types/resource.ts'
+
+const toApiResource = (row: ProtectedResource): Resource => ({
+  uri: row.resource,
+  name: row.resource_name,
+  scopes: row.scopes,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+/**
+ * A resource indicator must be an absolute URI without a fragment (RFC 8707 §2).
+ */
+export const isValidResourceIndicator = (uri: string): boolean =>
+  !uri.includes('#') && URL.canParse(uri)
+
+const assertValidScopes = (scopes: string[] | undefined): void => {
+  if (!scopes?.length) {
+    throw new Error('Invalid scopes: at least one scope is required')
+  }
+  for (const scope of scopes) {
+    if (!isValidScopeToken(scope)) {
+      throw new Error(`Invalid scope: ${scope}`)
+    }
+  }
+}
+
+/**
+ * Register a protected resource
+ */
+export const registerResource = async (
+  input: ResourceRegistrationInput,
+): Promise<Resource> => {
+  if (!input.uri || !isValidResourceIndicator(input.uri)) {
+    throw new Error(`Invalid resource URI: ${input.uri}`)
+  }
+  if (!input.name?.trim()) {
+    throw new Error('Resource name is required')
+  }
+  assertValidScopes(input.scopes)
+
+  const resource = await insertResource({
+    resource: input.uri,
+    resource_name: input.name.trim(),
+    scopes: input.scopes,
+  })
+  if (!resource) {
+    throw new Error('Resource already registered')
+  }
+  return toApiResource(resource)
+}
+
+/**
+ * Get a protected resource by its URI
+ */
+export const getResource = async (uri: string): Promise<Resource | null> => {
+  const resource = await findResource(uri)
+  return resource ? toApiResource(resource) : null
+}
+
+/**
+ * List all protected resources
+ */
+export const listResources = async (): Promise<Resource[]> => {
+  const resources = await findAllResources()
+  return resources.map(toApiResource)
+}
+
+/**
+ * Update a protected resource's name or scopes
+ */
+export const updateResourceByUri = async (
+  uri: string,
+  input: ResourceUpdateInput,
+): Promise<Resource | null> => {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Resource name is required')
+  }
+  if (input.scopes !== undefined) {
+    assertValidScopes(input.scopes)
+  }
+
+  const updated = await updateResource(uri, {
+    ...input,
+    ...(input.name !== undefined && { name: input.name.trim() }),
+  })
+  return updated ? toApiResource(updated) : null
+}
+
+/**
+ * Delete a protected resource
+ */
+export const deleteResourceByUri = async (uri: string): Promise<boolean> => {
+  return deleteResource(uri)
+}
+
+/**
+ * Work out who an access token is for and what it may do (RFC 8707 §2.2).
+ * requested are the resource parameters of the token request; authorized are the ones the
+ * grant was issued for, and requested must be among them when there are any. Without either
+ * the token is for the configured default audience and carries every granted scope.
+ * Otherwise each resource must be registered, and the token's scopes are the granted scopes
+ * that at least one of its resources allows.
+ */
+export const resolveAccessTokenTarget = async (
+  requested: string[],
+  authorized: string[],
+  grantedScopes: string[],
+): Promise<AccessTokenTarget> => {
+  const unauthorized =
+    authorized.length > 0
+      ? requested.filter((uri) => !authorized.includes(uri))
+      : []
+  if (unauthorized.length > 0) {
+    return {
+      isValid: false,
+      error: 'invalid_target',
+      errorDescription: `Resource not authorized for this grant: ${unauthorized.join(', ')}`,
+    }
+  }
+
+  const uris = [...new Set(requested.length > 0 ? requested : authorized)]
+  if (uris.length === 0) {
+    return {
+      isValid: true,
+      audience: getOidcConfig().defaultAudience,
+      scopes: grantedScopes,
+    }
+  }
+
+  const resources = await Promise.all(
+    uris.map((uri) =>
+      isValidResourceIndicator(uri) ? findResource(uri) : null,
+    ),
+  )
+  const unknown = uris.filter((_, index) => !resources[index])
+  if (unknown.length > 0) {
+    return {
+      isValid: false,
+      error: 'invalid_target',
+      errorDescription: `Unknown resource: ${unknown.join(', ')}`,
+    }
+  }
+
+  const allowedScopes = resources.flatMap((resource) => resource?.scopes ?? [])
+  const scopes = grantedScopes.filter((scope) => allowedScopes.includes(scope))
+  if (scopes.length === 0) {
+    return {
+      isValid: false,
+      error: 'invalid_scope',
+      errorDescription:
+        'No granted scope is allowed for the requested resource',
+    }
+  }
+
+  return {
+    isValid: true,
+    audience: uris.length === 1 ? uris[0] : uris,
+    scopes,
+  }
+}
@@ -0,0 +1,143 @@
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type {
+  ProtectedResource,
+  ProtectedResourceInput,
+} from '../database/types/protected-resource.ts'
+import type { ResourceUpdateInput } from './types/resource.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const mapRowToResource = (row: types.Row): ProtectedResource => ({
+  resource: row.resource as string,
+  resource_name: row.resource_name as string,
+  scopes: (row.scopes ?? []) as string[],
+  created_at: row.created_at as Date,
+  updated_at: row.updated_at as Date,
+})
+
+/**
+ * Insert a protected resource.
+ * Returns null when the resource indicator is already registered.
+ */
+export const insertResource = async (
+  input: ProtectedResourceInput,
+): Promise<ProtectedResource | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+
+  const result = await client.execute(
+    `INSERT INTO ${keyspace}.protected_resources
+     (resource, resource_name, scopes, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     IF NOT EXISTS`,
+    [input.resource, input.resource_name, input.scopes, now, now],
+    { prepare: true },
+  )
+
+  if (!result.wasApplied()) {
+    return null
+  }
+
+  return {
+    resource: input.resource,
+    resource_name: input.resource_name,
+    scopes: input.scopes,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+/**
+ * Find a protected resource by its resource indicator
+ */
+export const findResource = async (
+  resource: string,
+): Promise<ProtectedResource | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.protected_resources WHERE resource = ?`,
+    [resource],
+    { prepare: true },
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return mapRowToResource(result.rows[0])
+}
+
+/**
+ * List all protected resources.
+ * Resources are a small, admin-managed table, so a full scan is acceptable.
+ */
+export const findAllResources = async (): Promise<ProtectedResource[]> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.protected_resources`,
+  )
+
+  return result.rows.map(mapRowToResource)
+}
+
+/**
+ * Update a protected resource's name and scopes
+ */
+export const updateResource = async (
+  resource: string,
+  input: ResourceUpdateInput,
+): Promise<ProtectedResource | null> => {
+  const existing = await findResource(resource)
+  if (!existing) {
+    return null
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `UPDATE ${keyspace}.protected_resources SET
+     resource_name = ?,
+     scopes = ?,
+     updated_at = ?
+     WHERE resource = ?`,
+    [
+      input.name ?? existing.resource_name,
+      input.scopes ?? existing.scopes,
+      new Date(),
+      resource,
+    ],
+    { prepare: true },
+  )
+
+  return findResource(resource)
+}
+
+/**
+ * Delete a protected resource. Tokens already issued for it stay valid until they expire.
+ */
+export const deleteResource = async (resource: string): Promise<boolean> => {
+  const existing = await findResource(resource)
+  if (!existing) {
+    return false
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.protected_resources WHERE resource = ?`,
+    [resource],
+    { prepare: true },
+  )
+
+  return true
+}
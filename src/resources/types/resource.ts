@@ -0,0 +1,34 @@
+export interface Resource {
+  /** Resource indicator (RFC 8707); becomes the aud of access tokens issued for it */
+  uri: string
+  name: string
+  /** Scopes an access token for this resource may carry */
+  scopes: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ResourceRegistrationInput {
+  uri: string
+  name: string
+  scopes: string[]
+}
+
+export interface ResourceUpdateInput {
+  name?: string
+  scopes?: string[]
+}
+
+/** Audience and scopes of an access token, or why the requested resources were refused */
+export type AccessTokenTarget =
+  | {
+      isValid: true
+      /** A single resource, several resources, or the default audience */
+      audience: string | string[]
+      scopes: string[]
+    }
+  | {
+      isValid: false
+      error: 'invalid_target' | 'invalid_scope'
+      errorDescription: string
+    }
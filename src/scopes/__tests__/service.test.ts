@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ScopeDefinition } from '../../database/types/scope-definition.ts'
+import {
+  deleteScopeByName,
+  describeScopes,
+  findUnregisteredScopes,
+  listScopes,
+  registerScope,
+  updateScopeByName,
+} from '../service.ts'
+import * as storage from '../storage.ts'
+
+vi.mock('../storage.ts', () => ({
+  insertScope: vi.fn(),
+  findScope: vi.fn(),
+  findAllScopes: vi.fn(),
+  updateScope: vi.fn(),
+  deleteScope: vi.fn(),
+}))
+
+const scopeDefinition = (
+  scope: string,
+  description: string,
+  claims: string[] = [],
+): ScopeDefinition => ({
+  scope,
+  description,
+  claims,
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const registeredScopes = [
+  scopeDefinition('openid', 'Sign you in with your account', ['sub']),
+  scopeDefinition('profile', 'See your name and profile picture', ['name']),
+  scopeDefinition('orders:read', 'See your order history', ['order_history']),
+]
+
+describe('Scope Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.findAllScopes).mockResolvedValue(registeredScopes)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('registerScope', () => {
+    it('should register a scope with its description and claims', async () => {
+      vi.mocked(storage.insertScope).mockImplementation(async (input) => ({
+        ...input,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+
+      const scope = await registerScope({
+        name: 'orders:write',
+        description: '  Place orders for you ',
+        claims: ['order_history'],
+      })
+
+      expect(scope.name).toBe('orders:write')
+      expect(scope.description).toBe('Place orders for you')
+      expect(storage.insertScope).toHaveBeenCalledWith({
+        scope: 'orders:write',
+        description: 'Place orders for you',
+        claims: ['order_history'],
+      })
+    })
+
+    it('should reject names that are not scope tokens', async () => {
+      await expect(
+        registerScope({ name: 'orders read', description: 'Orders' }),
+      ).rejects.toThrow('Invalid scope: orders read')
+    })
+
+    it('should require a description', async () => {
+      await expect(
+        registerScope({ name: 'orders:read', description: ' ' }),
+      ).rejects.toThrow('Scope description is required')
+    })
+
+    it('should reject claim names containing whitespace', async () => {
+      await expect(
+        registerScope({
+          name: 'orders:read',
+          description: 'Orders',
+          claims: ['order history'],
+        }),
+      ).rejects.toThrow('Invalid claim: order history')
+    })
+
+    it('should reject a scope that is already registered', async () => {
+      vi.mocked(storage.insertScope).mockResolvedValue(null)
+
+      await expect(
+        registerScope({ name: 'orders:read', description: 'Orders' }),
+      ).rejects.toThrow('Scope already registered')
+    })
+  })
+
+  describe('listScopes', () => {
+    it('should list scopes by name', async () => {
+      const scopes = await listScopes()
+
+      expect(scopes.map((s) => s.name)).toEqual([
+        'openid',
+        'orders:read',
+        'profile',
+      ])
+    })
+  })
+
+  describe('updateScopeByName', () => {
+    it('should reject an empty description', async () => {
+      await expect(
+        updateScopeByName('orders:read', { description: '' }),
+      ).rejects.toThrow('Scope description is required')
+      expect(storage.updateScope).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteScopeByName', () => {
+    it('should refuse to delete openid', async () => {
+      await expect(deleteScopeByName('openid')).rejects.toThrow(
+        'The openid scope cannot be deleted',
+      )
+      expect(storage.deleteScope).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findUnregisteredScopes', () => {
+    it('should return the scopes missing from the registry', async () => {
+      expect(
+        await findUnregisteredScopes(['openid', 'orders:read', 'billing']),
+      ).toEqual(['billing'])
+    })
+  })
+
+  describe('describeScopes', () => {
+    it('should describe scopes in request order and fall back to the name', async () => {
+      expect(await describeScopes(['orders:read', 'email'])).toEqual([
+        { name: 'orders:read', description: 'See your order history' },
+        { name: 'email', description: 'email' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import { Hono } from 'hono'
+import {
+  deleteScopeByName,
+  getScope,
+  listScopes,
+  registerScope,
+  updateScopeByName,
+} from './service.ts'
+import type {
+  Scope,
+  ScopeRegistrationInput,
+  ScopeUpdateInput,
+} from './types/scope.ts'
+
+const scopes = new Hono()
+
+const toScopeResponse = (scope: Scope) => ({
+  name: scope.name,
+  description: scope.description,
+  claims: scope.claims,
+  createdAt: scope.createdAt.toISOString(),
+  updatedAt: scope.updatedAt.toISOString(),
+})
+
+const isValidationError = (error: unknown): error is Error =>
+  error instanceof Error &&
+  (error.message === 'Scope description is required' ||
+    error.message.startsWith('Invalid scope') ||
+    error.message.startsWith('Invalid claim'))
+
+/**
+ * POST /scopes
+ * Register a scope
+ */
+scopes.post('/', async (c) => {
+  try {
+    const body = (await c.req.json()) as ScopeRegistrationInput
+
+    const scope = await registerScope(body)
+
+    return c.json(toScopeResponse(scope), 201)
+  } catch (error) {
+    if (isValidationError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    if (
+      error instanceof Error &&
+      error.message === 'Scope already registered'
+    ) {
+      return c.json({ error: error.message }, 409)
+    }
+    return c.json({ error: 'Scope registration failed' }, 500)
+  }
+})
+
+/**
+ * GET /scopes
+ * List registered scopes
+ */
+scopes.get('/', async (c) => {
+  try {
+    const all = await listScopes()
+
+    return c.json({ scopes: all.map(toScopeResponse) })
+  } catch (_error) {
+    return c.json({ error: 'Failed to list scopes' }, 500)
+  }
+})
+
+/**
+ * GET /scopes/:name
+ * Get a registered scope
+ */
+scopes.get('/:name', async (c) => {
+  try {
+    const scope = await getScope(c.req.param('name'))
+
+    if (!scope) {
+      return c.json({ error: 'Scope not found' }, 404)
+    }
+
+    return c.json(toScopeResponse(scope))
+  } catch (_error) {
+    return c.json({ error: 'Failed to retrieve scope' }, 500)
+  }
+})
+
+/**
+ * PUT /scopes/:name
+ * Update a scope's description or claims
+ */
+scopes.put('/:name', async (c) => {
+  try {
+    const body = (await c.req.json()) as ScopeUpdateInput
+
+    const scope = await updateScopeByName(c.req.param('name'), body)
+
+    if (!scope) {
+      return c.json({ error: 'Scope not found' }, 404)
+    }
+
+    return c.json(toScopeResponse(scope))
+  } catch (error) {
+    if (isValidationError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    return c.json({ error: 'Failed to update scope' }, 500)
+  }
+})
+
+/**
+ * DELETE /scopes/:name
+ * Delete a scope
+ */
+scopes.delete('/:name', async (c) => {
+  try {
+    const isDeleted = await deleteScopeByName(c.req.param('name'))
+
+    if (!isDeleted) {
+      return c.json({ error: 'Scope not found' }, 404)
+    }
+
+    return c.json({ message: 'Scope deleted successfully' })
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'The openid scope cannot be deleted'
+    ) {
+      return c.json({ error: error.message }, 400)
+    }
+    return c.json({ error: 'Failed to delete scope' }, 500)
+  }
+})
+
+export default scopes
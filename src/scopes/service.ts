@@ -0,0 +1,171 @@
+import type { ScopeDefinition } from '../database/types/scope-definition.ts'
+import {
+  deleteScope,
+  findAllScopes,
+  findScope,
+  insertScope,
+  updateScope,
+} from './storage.ts'
+import type {
+  Scope,
+  ScopeRegistrationInput,
+  ScopeUpdateInput,
+} from './types/scope.ts'
+
+/** scope-token syntax (RFC 6749 §3.3): printable ASCII except space, " and \ */
+const SCOPE_TOKEN_PATTERN = /^[\x21\x23-\x5B\x5D-\x7E]+$/
+
+/** Claim names are JSON member names; whitespace would make them unusable in the claims parameter */
+const CLAIM_NAME_PATTERN = /^\S+$/
+
+/** Every authorization request must include openid, so it can never leave the registry */
+const REQUIRED_SCOPE = 'openid'
+
+const toApiScope = (row: ScopeDefinition): Scope => ({
+  name: row.scope,
+  description: row.description,
+  claims: row.claims,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+export const isValidScopeToken = (scope: string): boolean =>
+  SCOPE_TOKEN_PATTERN.test(scope)
+
+const assertValidDescription = (description: string | undefined): void => {
+  if (!description?.trim()) {
+    throw new Error('Scope description is required')
+  }
+}
+
+const assertValidClaims = (claims: string[]): void => {
+  for (const claim of claims) {
+    if (typeof claim !== 'string' || !CLAIM_NAME_PATTERN.test(claim)) {
+      throw new Error(`Invalid claim: ${claim}`)
+    }
+  }
+}
+
+/**
+ * Register a scope that clients may then be allowed to request
+ */
+export const registerScope = async (
+  input: ScopeRegistrationInput,
+): Promise<Scope> => {
+  if (!input.name || !isValidScopeToken(input.name)) {
+    throw new Error(`Invalid scope: ${input.name}`)
+  }
+  assertValidDescription(input.description)
+  const claims = input.claims ?? []
+  assertValidClaims(claims)
+
+  const scope = await insertScope({
+    scope: input.name,
+    description: input.description.trim(),
+    claims,
+  })
+  if (!scope) {
+    throw new Error('Scope already registered')
+  }
+  return toApiScope(scope)
+}
+
+/**
+ * Get a scope by name
+ */
+export const getScope = async (name: string): Promise<Scope | null> => {
+  const scope = await findScope(name)
+  return scope ? toApiScope(scope) : null
+}
+
+/**
+ * List all registered scopes, by name
+ */
+export const listScopes = async (): Promise<Scope[]> => {
+  const scopes = await findAllScopes()
+  return scopes.map(toApiScope).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Update a scope's description or claims
+ */
+export const updateScopeByName = async (
+  name: string,
+  input: ScopeUpdateInput,
+): Promise<Scope | null> => {
+  if (input.description !== undefined) {
+    assertValidDescription(input.description)
+  }
+  if (input.claims !== undefined) {
+    assertValidClaims(input.claims)
+  }
+
+  const updated = await updateScope(name, {
+    ...input,
+    ...(input.description !== undefined && {
+      description: input.description.trim(),
+    }),
+  })
+  return updated ? toApiScope(updated) : null
+}
+
+/**
+ * Delete a scope. The openid scope cannot be deleted.
+ */
+export const deleteScopeByName = async (name: string): Promise<boolean> => {
+  if (name === REQUIRED_SCOPE) {
+    throw new Error('The openid scope cannot be deleted')
+  }
+  return deleteScope(name)
+}
+
+/**
+ * The given scopes that are not in the registry
+ */
+export const findUnregisteredScopes = async (
+  scopes: string[],
+): Promise<string[]> => {
+  const registered = new Set((await findAllScopes()).map((s) => s.scope))
+  return scopes.filter((scope) => !registered.has(scope))
+}
+
+/**
+ * Consent screen entries for the requested scopes, in request order.
+ * A scope missing from the registry is shown by name.
+ */
+export const describeScopes = async (
+  scopes: string[],
+): Promise<{ name: string; description: string }[]> => {
+  const descriptions = new Map(
+    (await findAllScopes()).map((s) => [s.scope, s.description]),
+  )
+  return scopes.map((name) => ({
+    name,
+    description: descriptions.get(name) ?? name,
+  }))
+}
+
+/**
+ * The claims the given scopes release, per the registry.
+ */
+export const listScopeClaims = async (scopes: string[]): Promise<string[]> => {
+  const claims = (await findAllScopes())
+    .filter((s) => scopes.includes(s.scope))
+    .flatMap((s) => s.claims)
+  return [...new Set(claims)]
+}
+
+/**
+ * Those of the given scopes that release at least one of the claims, in the order given.
+ */
+export const findScopesReleasingClaims = async (
+  claims: string[],
+  scopes: string[],
+): Promise<string[]> => {
+  const definitions = new Map(
+    (await findAllScopes()).map((s) => [s.scope, s.claims]),
+  )
+  return scopes.filter((scope) =>
+    (definitions.get(scope) ?? []).some((claim) => claims.includes(claim)),
+  )
+}
@@ -0,0 +1,140 @@
+import type { Client, types } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import type {
+  ScopeDefinition,
+  ScopeDefinitionInput,
+} from '../database/types/scope-definition.ts'
+import type { ScopeUpdateInput } from './types/scope.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+const mapRowToScope = (row: types.Row): ScopeDefinition => ({
+  scope: row.scope as string,
+  description: row.description as string,
+  claims: (row.claims ?? []) as string[],
+  created_at: row.created_at as Date,
+  updated_at: row.updated_at as Date,
+})
+
+/**
+ * Insert a scope definition.
+ * Returns null when the scope is already registered.
+ */
+export const insertScope = async (
+  input: ScopeDefinitionInput,
+): Promise<ScopeDefinition | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+
+  const result = await client.execute(
+    `INSERT INTO ${keyspace}.scopes (scope, description, claims, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     IF NOT EXISTS`,
+    [input.scope, input.description, input.claims, now, now],
+    { prepare: true },
+  )
+
+  if (!result.wasApplied()) {
+    return null
+  }
+
+  return {
+    scope: input.scope,
+    description: input.description,
+    claims: input.claims,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+/**
+ * Find a scope definition by name
+ */
+export const findScope = async (
+  scope: string,
+): Promise<ScopeDefinition | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT * FROM ${keyspace}.scopes WHERE scope = ?`,
+    [scope],
+    { prepare: true },
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return mapRowToScope(result.rows[0])
+}
+
+/**
+ * List all scope definitions.
+ * Scopes are a small, admin-managed table, so a full scan is acceptable.
+ */
+export const findAllScopes = async (): Promise<ScopeDefinition[]> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(`SELECT * FROM ${keyspace}.scopes`)
+
+  return result.rows.map(mapRowToScope)
+}
+
+/**
+ * Update a scope's description and claims
+ */
+export const updateScope = async (
+  scope: string,
+  input: ScopeUpdateInput,
+): Promise<ScopeDefinition | null> => {
+  const existing = await findScope(scope)
+  if (!existing) {
+    return null
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `UPDATE ${keyspace}.scopes SET
+     description = ?,
+     claims = ?,
+     updated_at = ?
+     WHERE scope = ?`,
+    [
+      input.description ?? existing.description,
+      input.claims ?? existing.claims,
+      new Date(),
+      scope,
+    ],
+    { prepare: true },
+  )
+
+  return findScope(scope)
+}
+
+/**
+ * Delete a scope definition. Clients registered with the scope keep it until they are updated.
+ */
+export const deleteScope = async (scope: string): Promise<boolean> => {
+  const existing = await findScope(scope)
+  if (!existing) {
+    return false
+  }
+
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.scopes WHERE scope = ?`,
+    [scope],
+    { prepare: true },
+  )
+
+  return true
+}
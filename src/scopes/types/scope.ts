@@ -0,0 +1,20 @@
+export interface Scope {
+  name: string
+  /** Shown to the user on the consent screen */
+  description: string
+  /** Claims about the user that the scope releases */
+  claims: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ScopeRegistrationInput {
+  name: string
+  description: string
+  claims?: string[]
+}
+
+export interface ScopeUpdateInput {
+  description?: string
+  claims?: string[]
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Client } from '../../clients/types/client.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import {
+  getSectorIdentifier,
+  resolveAccountId,
+  resolveSubject,
+} from '../service.ts'
+import * as subjectStorage from '../storage.ts'
+
+vi.mock('../storage.ts', () => ({
+  savePairwiseSubject: vi.fn(),
+  findAccountIdByPairwiseSubject: vi.fn(),
+}))
+
+const publicClient: Client = {
+  id: 'client-1',
+  name: 'Client',
+  redirectUris: ['https://app.example.com/callback'],
+  postLogoutRedirectUris: [],
+  grantTypes: ['authorization_code'],
+  responseTypes: ['code'],
+  scopes: ['openid'],
+  tokenEndpointAuthMethod: 'client_secret_post',
+  subjectType: 'public',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const pairwiseClient: Client = { ...publicClient, subjectType: 'pairwise' }
+
+describe('Subjects', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env = {
+      ...originalEnv,
+      OIDC_PAIRWISE_SUBJECT_SECRET: 'pairwise-secret-0123456789abcdefghij',
+    }
+    clearConfigCache()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+  })
+
+  describe('getSectorIdentifier', () => {
+    it('should use the host of the sector identifier URI', () => {
+      expect(
+        getSectorIdentifier({
+          ...pairwiseClient,
+          sectorIdentifierUri: 'https://sector.example.org/uris.json',
+        }),
+      ).toBe('sector.example.org')
+    })
+
+    it('should fall back to the host of the redirect URIs', () => {
+      expect(getSectorIdentifier(pairwiseClient)).toBe('app.example.com')
+    })
+  })
+
+  describe('resolveSubject', () => {
+    it('should return the account id to public clients', async () => {
+      expect(await resolveSubject(publicClient, 'account-1')).toBe('account-1')
+      expect(subjectStorage.savePairwiseSubject).not.toHaveBeenCalled()
+    })
+
+    it('should derive a stable sub and record it for the sector', async () => {
+      const sub = await resolveSubject(pairwiseClient, 'account-1')
+
+      expect(sub).not.toBe('account-1')
+      expect(sub).toMatch(/^[\w-]{43}$/)
+      expect(await resolveSubject(pairwiseClient, 'account-1')).toBe(sub)
+      expect(subjectStorage.savePairwiseSubject).toHaveBeenCalledWith(
+        'app.example.com',
+        sub,
+        'account-1',
+      )
+    })
+
+    it('should not record a sub that is already recorded', async () => {
+      vi.mocked(
+        subjectStorage.findAccountIdByPairwiseSubject,
+      ).mockResolvedValueOnce('account-1')
+
+      await resolveSubject(pairwiseClient, 'account-1')
+
+      expect(subjectStorage.savePairwiseSubject).not.toHaveBeenCalled()
+    })
+
+    it('should derive a different sub in another sector', async () => {
+      const sub = await resolveSubject(pairwiseClient, 'account-1')
+
+      expect(
+        await resolveSubject(
+          {
+            ...pairwiseClient,
+            sectorIdentifierUri: 'https://sector.example.org/uris.json',
+          },
+          'account-1',
+        ),
+      ).not.toBe(sub)
+      expect(await resolveSubject(pairwiseClient, 'account-2')).not.toBe(sub)
+    })
+
+    it('should derive a different sub under another secret', async () => {
+      const sub = await resolveSubject(pairwiseClient, 'account-1')
+      process.env.OIDC_PAIRWISE_SUBJECT_SECRET =
+        'another-secret-0123456789abcdefghijk'
+      clearConfigCache()
+
+      expect(await resolveSubject(pairwiseClient, 'account-1')).not.toBe(sub)
+    })
+
+    it('should refuse pairwise clients when no secret is configured', async () => {
+      delete process.env.OIDC_PAIRWISE_SUBJECT_SECRET
+      clearConfigCache()
+
+      await expect(resolveSubject(pairwiseClient, 'account-1')).rejects.toThrow(
+        'Pairwise subjects are not configured',
+      )
+    })
+  })
+
+  describe('resolveAccountId', () => {
+    it('should treat a public sub as the account id', async () => {
+      expect(await resolveAccountId(publicClient, 'account-1')).toBe(
+        'account-1',
+      )
+    })
+
+    it('should look up a pairwise sub in the client sector', async () => {
+      vi.mocked(
+        subjectStorage.findAccountIdByPairwiseSubject,
+      ).mockResolvedValue('account-1')
+
+      expect(await resolveAccountId(pairwiseClient, 'pairwise-sub')).toBe(
+        'account-1',
+      )
+      expect(
+        subjectStorage.findAccountIdByPairwiseSubject,
+      ).toHaveBeenCalledWith('app.example.com', 'pairwise-sub')
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { createHmac } from 'node:crypto'
+import type { Client } from '../clients/types/client.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import {
+  findAccountIdByPairwiseSubject,
+  savePairwiseSubject,
+} from './storage.ts'
+
+/**
+ * The sector a pairwise client belongs to (OIDC Core §8.1): the host of its
+ * sector_identifier_uri, or else of its redirect URIs, which must then share one host.
+ */
+export const getSectorIdentifier = (client: Client): string =>
+  new URL(client.sectorIdentifierUri ?? client.redirectUris[0]).host
+
+/**
+ * Derive the pairwise sub of an account in a sector: an HMAC of both under the
+ * provider's secret, so it is stable without storage and cannot be computed by clients.
+ */
+const derivePairwiseSubject = (
+  sectorIdentifier: string,
+  accountId: string,
+): string => {
+  const secret = getOidcConfig().pairwiseSubjectSecret
+  if (!secret) {
+    throw new Error('Pairwise subjects are not configured')
+  }
+  return createHmac('sha256', secret)
+    .update(`${sectorIdentifier}\0${accountId}`)
+    .digest('base64url')
+}
+
+/**
+ * The sub to issue to a client for an account. Public clients see the account id.
+ * Pairwise clients see an identifier derived from the account and sector, so clients
+ * in the same sector agree on it while unrelated clients cannot correlate users.
+ * The sub is recorded the first time it is issued, so it can be resolved back to the account.
+ */
+export const resolveSubject = async (
+  client: Client,
+  accountId: string,
+): Promise<string> => {
+  if (client.subjectType !== 'pairwise') {
+    return accountId
+  }
+
+  const sectorIdentifier = getSectorIdentifier(client)
+  const subject = derivePairwiseSubject(sectorIdentifier, accountId)
+  const recorded = await findAccountIdByPairwiseSubject(
+    sectorIdentifier,
+    subject,
+  )
+  if (!recorded) {
+    await savePairwiseSubject(sectorIdentifier, subject, accountId)
+  }
+  return subject
+}
+
+/**
+ * The account a sub issued to a client stands for. Null when a pairwise sub is unknown
+ * in the client's sector.
+ */
+export const resolveAccountId = async (
+  client: Client,
+  sub: string,
+): Promise<string | null> => {
+  if (client.subjectType !== 'pairwise') {
+    return sub
+  }
+  return findAccountIdByPairwiseSubject(getSectorIdentifier(client), sub)
+}
@@ -0,0 +1,42 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+/**
+ * Record the account a pairwise sub stands for within a sector.
+ */
+export const savePairwiseSubject = async (
+  sectorIdentifier: string,
+  subject: string,
+  accountId: string,
+): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.pairwise_subjects_by_subject (sector_identifier, subject, account_id)
+     VALUES (?, ?, ?)`,
+    [sectorIdentifier, subject, accountId],
+  )
+}
+
+/**
+ * Look up the account a pairwise sub was issued for within a sector.
+ */
+export const findAccountIdByPairwiseSubject = async (
+  sectorIdentifier: string,
+  subject: string,
+): Promise<string | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT account_id FROM ${keyspace}.pairwise_subjects_by_subject WHERE sector_identifier = ? AND subject = ?`,
+    [sectorIdentifier, subject],
+  )
+
+  return (result.rows[0]?.account_id as string | undefined) ?? null
+}
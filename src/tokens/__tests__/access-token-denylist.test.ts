@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  clearAccessTokenDenylistCache,
+  isAccessTokenRevoked,
+  revokeAccessToken,
+} from '../access-token-denylist.ts'
+import * as denylistStorage from '../access-token-denylist-storage.ts'
+
+vi.mock('../access-token-denylist-storage.ts', () => ({
+  insertRevokedAccessToken: vi.fn(),
+  findRevokedAccessTokenExpiry: vi.fn(),
+}))
+
+const inOneHour = (): number => Math.floor(Date.now() / 1000) + 3600
+
+describe('Access Token Denylist', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    clearAccessTokenDenylistCache()
+    vi.mocked(denylistStorage.findRevokedAccessTokenExpiry).mockResolvedValue(
+      null,
+    )
+  })
+
+  afterEach(() => {
+    clearAccessTokenDenylistCache()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('revokeAccessToken', () => {
+    it('should store the jti until the token expires', async () => {
+      const exp = inOneHour()
+
+      await revokeAccessToken('jti-1', 'client-123', exp)
+
+      expect(denylistStorage.insertRevokedAccessToken).toHaveBeenCalledWith(
+        'jti-1',
+        'client-123',
+        new Date(exp * 1000),
+      )
+    })
+
+    it('should skip tokens that have already expired', async () => {
+      await revokeAccessToken(
+        'jti-1',
+        'client-123',
+        Math.floor(Date.now() / 1000) - 60,
+      )
+
+      expect(denylistStorage.insertRevokedAccessToken).not.toHaveBeenCalled()
+    })
+
+    it('should answer later lookups without reading storage', async () => {
+      await revokeAccessToken('jti-1', 'client-123', inOneHour())
+
+      expect(await isAccessTokenRevoked('jti-1')).toBe(true)
+      expect(
+        denylistStorage.findRevokedAccessTokenExpiry,
+      ).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('isAccessTokenRevoked', () => {
+    it('should report a denylisted jti as revoked', async () => {
+      vi.mocked(denylistStorage.findRevokedAccessTokenExpiry).mockResolvedValue(
+        new Date(inOneHour() * 1000),
+      )
+
+      expect(await isAccessTokenRevoked('jti-1')).toBe(true)
+      expect(await isAccessTokenRevoked('jti-1')).toBe(true)
+      expect(
+        denylistStorage.findRevokedAccessTokenExpiry,
+      ).toHaveBeenCalledTimes(1)
+    })
+
+    it('should cache a "not revoked" answer only briefly', async () => {
+      vi.useFakeTimers()
+
+      expect(await isAccessTokenRevoked('jti-1')).toBe(false)
+      expect(await isAccessTokenRevoked('jti-1')).toBe(false)
+      expect(
+        denylistStorage.findRevokedAccessTokenExpiry,
+      ).toHaveBeenCalledTimes(1)
+
+      vi.mocked(denylistStorage.findRevokedAccessTokenExpiry).mockResolvedValue(
+        new Date(Date.now() + 3600 * 1000),
+      )
+      vi.advanceTimersByTime(11 * 1000)
+
+      expect(await isAccessTokenRevoked('jti-1')).toBe(true)
+      expect(
+        denylistStorage.findRevokedAccessTokenExpiry,
+      ).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import type { KeyObject } from 'node:crypto'
+import { createHash, generateKeyPairSync, sign } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { computeJwkThumbprint, validateDpopProof } from '../dpop.ts'
+import * as dpopProofStorage from '../dpop-proof-storage.ts'
+import { base64UrlEncode } from '../jwt.ts'
+
+vi.mock('../dpop-proof-storage.ts', () => ({
+  recordDpopProofJti: vi.fn(),
+}))
+
+const proofKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+const publicJwk = proofKeys.publicKey.export({ format: 'jwk' })
+
+const encodeJson = (value: unknown): string =>
+  base64UrlEncode(Buffer.from(JSON.stringify(value)))
+
+const signDpopProof = (
+  claims: Record<string, unknown> = {},
+  header: Record<string, unknown> = {},
+  privateKey: KeyObject = proofKeys.privateKey,
+): string => {
+  const signingInput = `${encodeJson({
+    typ: 'dpop+jwt',
+    alg: 'ES256',
+    jwk: publicJwk,
+    ...header,
+  })}.${encodeJson({
+    jti: 'proof-1',
+    htm: 'POST',
+    htu: 'http://localhost:3000/token',
+    iat: Math.floor(Date.now() / 1000),
+    ...claims,
+  })}`
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363',
+  })
+  return `${signingInput}.${base64UrlEncode(signature)}`
+}
+
+const tokenRequest = { method: 'POST', url: 'http://localhost:3000/token' }
+
+describe('DPoP', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    vi.clearAllMocks()
+    vi.mocked(dpopProofStorage.recordDpopProofJti).mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    vi.restoreAllMocks()
+  })
+
+  describe('computeJwkThumbprint', () => {
+    it('should compute the RFC 7638 example thumbprint', () => {
+      const jwk = {
+        kty: 'RSA',
+        n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMstn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw',
+        e: 'AQAB',
+        alg: 'RS256',
+        kid: '2011-04-29',
+      }
+
+      expect(computeJwkThumbprint(jwk)).toBe(
+        'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+      )
+    })
+
+    it('should return null for unsupported key types', () => {
+      expect(computeJwkThumbprint({ kty: 'oct', k: 'secret' })).toBeNull()
+    })
+  })
+
+  describe('validateDpopProof', () => {
+    it('should accept a valid proof and return the key thumbprint', async () => {
+      const result = await validateDpopProof(signDpopProof(), tokenRequest)
+
+      expect(result).toEqual({
+        isValid: true,
+        jkt: computeJwkThumbprint(publicJwk as Record<string, unknown>),
+      })
+      expect(dpopProofStorage.recordDpopProofJti).toHaveBeenCalledWith(
+        expect.any(String),
+        'proof-1',
+        expect.any(Date),
+      )
+    })
+
+    it('should ignore the query string when comparing htu', async () => {
+      const result = await validateDpopProof(
+        signDpopProof({ htu: 'http://localhost:3000/token?x=1' }),
+        tokenRequest,
+      )
+
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should reject a proof for another method', async () => {
+      const result = await validateDpopProof(
+        signDpopProof({ htm: 'GET' }),
+        tokenRequest,
+      )
+
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should reject a proof for another URL', async () => {
+      const result = await validateDpopProof(
+        signDpopProof({ htu: 'http://localhost:3000/userinfo' }),
+        tokenRequest,
+      )
+
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should reject a proof without the dpop+jwt typ', async () => {
+      const result = await validateDpopProof(
+        signDpopProof({}, { typ: 'JWT' }),
+        tokenRequest,
+      )
+
+      expect(result).toEqual({
+        isValid: false,
+        errorDescription: 'DPoP proof must have typ dpop+jwt',
+      })
+    })
+
+    it('should reject a proof carrying a private key', async () => {
+      const result = await validateDpopProof(
+        signDpopProof(
+          {},
+          { jwk: proofKeys.privateKey.export({ format: 'jwk' }) },
+        ),
+        tokenRequest,
+      )
+
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should reject a proof not signed by its jwk', async () => {
+      const otherKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+
+      const result = await validateDpopProof(
+        signDpopProof({}, {}, otherKeys.privateKey),
+        tokenRequest,
+      )
+
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should reject a stale proof', async () => {
+      const result = await validateDpopProof(
+        signDpopProof({ iat: Math.floor(Date.now() / 1000) - 600 }),
+        tokenRequest,
+      )
+
+      expect(result.isValid).toBe(false)
+      expect(dpopProofStorage.recordDpopProofJti).not.toHaveBeenCalled()
+    })
+
+    it('should require ath to match the presented access token', async () => {
+      const request = {
+        method: 'GET',
+        url: 'http://localhost:3000/userinfo',
+        accessToken: 'access-token',
+      }
+      const ath = base64UrlEncode(
+        createHash('sha256').update('access-token').digest(),
+      )
+      const claims = { htm: 'GET', htu: 'http://localhost:3000/userinfo' }
+
+      expect(
+        (await validateDpopProof(signDpopProof({ ...claims, ath }), request))
+          .isValid,
+      ).toBe(true)
+      expect(
+        (
+          await validateDpopProof(
+            signDpopProof({ ...claims, ath: 'wrong', jti: 'proof-2' }),
+            request,
+          )
+        ).isValid,
+      ).toBe(false)
+    })
+
+    it('should reject a replayed proof', async () => {
+      vi.mocked(dpopProofStorage.recordDpopProofJti).mockResolvedValue(false)
+
+      const result = await validateDpopProof(signDpopProof(), tokenRequest)
+
+      expect(result).toEqual({
+        isValid: false,
+        errorDescription: 'DPoP proof has already been used',
+      })
+    })
+  })
+})
@@ -609,6 +609,24 @@ describe('JWT Signing and Verification', () => {
     }).toThrow('JWT has expired')
   })
 
+  it('should accept expired tokens when isExpiryIgnored is set', async () => {
+    const { publicKey, privateKey } = await generateKeyPairAsync('rsa', {
+      modulusLength: 2048,
+    })
+
+    const payload = {
+      sub: 'user123',
+      exp: Math.floor(Date.now() / 1000) - 3600, // Expired
+    }
+
+    const token = signJwt(payload, privateKey, 'RS256')
+
+    const result = verifyJwt(token, publicKey, 'RS256', {
+      isExpiryIgnored: true,
+    })
+    expect(result.payload.sub).toBe('user123')
+  })
+
   it('should reject tokens with invalid signature', async () => {
     const { publicKey, privateKey } = await generateKeyPairAsync('rsa', {
       modulusLength: 2048,
@@ -0,0 +1,53 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+/**
+ * Denylist an access token's jti until the token expires; the row's TTL is the token's
+ * remaining lifetime, so the denylist never outgrows the set of live tokens.
+ */
+export const insertRevokedAccessToken = async (
+  jti: string,
+  clientId: string,
+  expiresAt: Date,
+): Promise<void> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const ttlSeconds = Math.max(
+    1,
+    Math.ceil((expiresAt.getTime() - Date.now()) / 1000),
+  )
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.revoked_access_tokens (jti, client_id, revoked_at, expires_at)
+     VALUES (?, ?, ?, ?)
+     USING TTL ?`,
+    [jti, clientId, new Date(), expiresAt, ttlSeconds],
+    { prepare: true },
+  )
+}
+
+/**
+ * When the denylisted token with this jti expires, or null when it is not denylisted.
+ */
+export const findRevokedAccessTokenExpiry = async (
+  jti: string,
+): Promise<Date | null> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT expires_at FROM ${keyspace}.revoked_access_tokens WHERE jti = ?`,
+    [jti],
+    { prepare: true },
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  return result.rows[0].expires_at as Date
+}
@@ -0,0 +1,78 @@
+import {
+  findRevokedAccessTokenExpiry,
+  insertRevokedAccessToken,
+} from './access-token-denylist-storage.ts'
+
+/**
+ * How long a "not revoked" answer is reused. A token revoked through another instance is
+ * still accepted here for at most this long.
+ */
+const NOT_REVOKED_CACHE_TTL_MS = 10 * 1000
+
+/** Upper bound on cached jtis; the oldest entries are dropped first */
+const MAX_CACHE_ENTRIES = 10_000
+
+interface DenylistCacheEntry {
+  isRevoked: boolean
+  /** Epoch ms after which the entry must be looked up again */
+  cachedUntil: number
+}
+
+const cache = new Map<string, DenylistCacheEntry>()
+
+const cacheResult = (jti: string, entry: DenylistCacheEntry): void => {
+  cache.delete(jti)
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value
+    if (oldest !== undefined) {
+      cache.delete(oldest)
+    }
+  }
+  cache.set(jti, entry)
+}
+
+/**
+ * Revoke an access token by its jti until it expires (exp, in seconds since the epoch).
+ */
+export const revokeAccessToken = async (
+  jti: string,
+  clientId: string,
+  exp: number,
+): Promise<void> => {
+  const expiresAt = new Date(exp * 1000)
+  if (expiresAt.getTime() <= Date.now()) {
+    return
+  }
+  await insertRevokedAccessToken(jti, clientId, expiresAt)
+  cacheResult(jti, { isRevoked: true, cachedUntil: expiresAt.getTime() })
+}
+
+/**
+ * Whether the access token with this jti was revoked.
+ * Answers come from an in-process cache when possible: revocations are kept until the token
+ * expires, and "not revoked" answers for a few seconds.
+ */
+export const isAccessTokenRevoked = async (jti: string): Promise<boolean> => {
+  const now = Date.now()
+  const cached = cache.get(jti)
+  if (cached && cached.cachedUntil > now) {
+    return cached.isRevoked
+  }
+
+  const expiresAt = await findRevokedAccessTokenExpiry(jti)
+  const isRevoked = expiresAt !== null
+  cacheResult(jti, {
+    isRevoked,
+    cachedUntil: expiresAt
+      ? expiresAt.getTime()
+      : now + NOT_REVOKED_CACHE_TTL_MS,
+  })
+  return isRevoked
+}
+
+/**
+ * Clear the in-process denylist cache (for testing)
+ */
+export const clearAccessTokenDenylistCache = (): void => {
+  cache.clear()
+}
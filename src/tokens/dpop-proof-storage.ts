@@ -0,0 +1,34 @@
+import type { Client } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+
+const getDbClient = (): Client => getDatabaseClient()
+const getKeyspace = (): string => getDatabaseConfig().keyspace
+
+/**
+ * Remember a DPoP proof's jti for as long as the proof would be accepted.
+ * Returns false when a proof with this jti was already presented for the key, i.e. a replay.
+ */
+export const recordDpopProofJti = async (
+  jkt: string,
+  jti: string,
+  expiresAt: Date,
+): Promise<boolean> => {
+  const client = getDbClient()
+  const keyspace = getKeyspace()
+  const ttlSeconds = Math.max(
+    1,
+    Math.ceil((expiresAt.getTime() - Date.now()) / 1000),
+  )
+
+  const result = await client.execute(
+    `INSERT INTO ${keyspace}.dpop_proof_jtis (jkt, jti, expires_at)
+     VALUES (?, ?, ?)
+     IF NOT EXISTS
+     USING TTL ?`,
+    [jkt, jti, expiresAt, ttlSeconds],
+    { prepare: true },
+  )
+
+  return result.wasApplied()
+}
@@ -0,0 +1,175 @@
+import type { KeyObject, webcrypto } from 'node:crypto'
+import { createHash, createPublicKey } from 'node:crypto'
+import { getOidcConfig } from '../oidc/config.ts'
+import { recordDpopProofJti } from './dpop-proof-storage.ts'
+import type { JwtAlgorithm } from './jwt.ts'
+import { base64UrlEncode, parseJwt, verifyJwt } from './jwt.ts'
+
+export const DPOP_TOKEN_TYPE = 'DPoP'
+
+const DPOP_PROOF_TYP = 'dpop+jwt'
+
+/** How old a proof's iat may be; also how long its jti is remembered */
+const DPOP_PROOF_MAX_AGE_SECONDS = 5 * 60
+
+/** Tolerated clock skew for proofs whose iat is slightly in the future */
+const DPOP_PROOF_CLOCK_SKEW_SECONDS = 60
+
+/** Members of each key type that make up its thumbprint, in lexicographic order (RFC 7638 §3.2) */
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  EC: ['crv', 'kty', 'x', 'y'],
+  RSA: ['e', 'kty', 'n'],
+}
+
+export type DpopProofResult =
+  | {
+      isValid: true
+      /** JWK SHA-256 thumbprint of the proof key, used as cnf.jkt */
+      jkt: string
+    }
+  | { isValid: false; errorDescription: string }
+
+export interface DpopProofRequest {
+  /** HTTP method the proof must be bound to (htm) */
+  method: string
+  /** URL the proof must be bound to (htu), compared without query and fragment */
+  url: string
+  /** Access token presented with the proof; its hash must be in ath */
+  accessToken?: string
+}
+
+/**
+ * JWK SHA-256 thumbprint (RFC 7638) of an EC or RSA public key.
+ * Null for other key types or when required members are missing.
+ */
+export const computeJwkThumbprint = (
+  jwk: Record<string, unknown>,
+): string | null => {
+  const members = THUMBPRINT_MEMBERS[jwk.kty as string]
+  if (!members || members.some((name) => typeof jwk[name] !== 'string')) {
+    return null
+  }
+  const canonical = JSON.stringify(
+    Object.fromEntries(members.map((name) => [name, jwk[name]])),
+  )
+  return base64UrlEncode(createHash('sha256').update(canonical).digest())
+}
+
+const hashAccessToken = (accessToken: string): string =>
+  base64UrlEncode(createHash('sha256').update(accessToken).digest())
+
+const withoutQueryAndFragment = (url: string): string | null => {
+  try {
+    const parsed = new URL(url)
+    parsed.search = ''
+    parsed.hash = ''
+    return parsed.toString()
+  } catch {
+    return null
+  }
+}
+
+const importProofKey = (jwk: unknown): KeyObject | null => {
+  if (!jwk || typeof jwk !== 'object' || 'd' in jwk) {
+    return null
+  }
+  try {
+    return createPublicKey({ key: jwk as webcrypto.JsonWebKey, format: 'jwk' })
+  } catch {
+    return null
+  }
+}
+
+const invalidProof = (errorDescription: string): DpopProofResult => ({
+  isValid: false,
+  errorDescription,
+})
+
+/**
+ * Check a proof's header (typ, alg, jwk) and signature.
+ * Returns its claims and the thumbprint of its key, or why it was rejected.
+ */
+const verifyProofSignature = (
+  proof: string,
+): { payload: Record<string, unknown>; jkt: string } | string => {
+  try {
+    const { header } = parseJwt(proof)
+    const algorithm = header.alg as JwtAlgorithm
+    if (header.typ !== DPOP_PROOF_TYP) {
+      return 'DPoP proof must have typ dpop+jwt'
+    }
+    if (!getOidcConfig().dpopSigningAlgValuesSupported.includes(algorithm)) {
+      return 'Unsupported DPoP proof algorithm'
+    }
+    const key = importProofKey(header.jwk)
+    const jkt = key
+      ? computeJwkThumbprint(header.jwk as Record<string, unknown>)
+      : null
+    if (!key || !jkt) {
+      return 'DPoP proof must carry a public jwk'
+    }
+    const { payload } = verifyJwt(proof, key, algorithm)
+    return { payload, jkt }
+  } catch {
+    return 'DPoP proof could not be verified'
+  }
+}
+
+/**
+ * Validate a DPoP proof JWT (RFC 9449 §4.3).
+ * The proof must be typed dpop+jwt, signed with an allowed asymmetric algorithm by the
+ * public key in its jwk header, bound to the request's method and URL, recently issued,
+ * and carry a jti that has not been seen for this key. When an access token is presented,
+ * ath must be its hash.
+ */
+export const validateDpopProof = async (
+  proof: string,
+  request: DpopProofRequest,
+): Promise<DpopProofResult> => {
+  const verified = verifyProofSignature(proof)
+  if (typeof verified === 'string') {
+    return invalidProof(verified)
+  }
+  const { payload, jkt } = verified
+
+  const htu = typeof payload.htu === 'string' ? payload.htu : ''
+  if (
+    payload.htm !== request.method ||
+    withoutQueryAndFragment(htu) !== withoutQueryAndFragment(request.url)
+  ) {
+    return invalidProof('DPoP proof is not bound to this request')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const iat = payload.iat
+  if (
+    typeof iat !== 'number' ||
+    now - iat > DPOP_PROOF_MAX_AGE_SECONDS ||
+    iat - now > DPOP_PROOF_CLOCK_SKEW_SECONDS
+  ) {
+    return invalidProof(
+      'DPoP proof iat is missing or outside the accepted window',
+    )
+  }
+
+  if (
+    request.accessToken !== undefined &&
+    payload.ath !== hashAccessToken(request.accessToken)
+  ) {
+    return invalidProof('DPoP proof ath does not match the access token')
+  }
+
+  if (typeof payload.jti !== 'string' || payload.jti.length === 0) {
+    return invalidProof('DPoP proof must have a jti')
+  }
+  const isFirstUse = await recordDpopProofJti(
+    jkt,
+    payload.jti,
+    new Date((iat + DPOP_PROOF_MAX_AGE_SECONDS) * 1000),
+  )
+  if (!isFirstUse) {
+    return invalidProof('DPoP proof has already been used')
+  }
+
+  return { isValid: true, jkt }
+}
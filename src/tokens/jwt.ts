@@ -43,14 +43,16 @@ export const base64UrlDecode = (str: string): Buffer => {
 
 /**
  * Creates a JWT header with the specified algorithm
+ * typ defaults to JWT; explicitly typed tokens (e.g. logout+jwt) pass their own
  */
 export const createJwtHeader = (
   algorithm: JwtAlgorithm,
   kid?: string,
+  typ = 'JWT',
 ): JwtHeader => {
   const header: JwtHeader = {
     alg: algorithm,
-    typ: 'JWT',
+    typ,
   }
   if (kid) {
     header.kid = kid
@@ -94,8 +96,9 @@ export const signJwt = (
   keyOrSecret: string | Buffer | crypto.KeyObject,
   algorithm: JwtAlgorithm = 'RS256',
   kid?: string,
+  typ?: string,
 ): string => {
-  const header = createJwtHeader(algorithm, kid)
+  const header = createJwtHeader(algorithm, kid, typ)
 
   const encodedHeader = base64UrlEncode(Buffer.from(JSON.stringify(header)))
   const encodedPayload = base64UrlEncode(Buffer.from(JSON.stringify(payload)))
@@ -240,6 +243,14 @@ export const parseJwt = (
   }
 }
 
+export interface VerifyJwtOptions {
+  /**
+   * Accept tokens whose exp has passed (exp must still be a valid NumericDate).
+   * Only for hints such as id_token_hint, where an expired token is still meaningful.
+   */
+  isExpiryIgnored?: boolean
+}
+
 /**
  * Verifies a JWT token signature and validates claims
  *
@@ -250,6 +261,7 @@ export const verifyJwt = (
   token: string,
   keyOrSecret: string | Buffer | crypto.KeyObject,
   algorithm: JwtAlgorithm,
+  options?: VerifyJwtOptions,
 ): {
   header: Record<string, unknown>
   payload: Record<string, unknown>
@@ -413,7 +425,7 @@ export const verifyJwt = (
     }
     const exp = expValue as number
     const now = Math.floor(Date.now() / 1000)
-    if (now >= exp) {
+    if (!options?.isExpiryIgnored && now >= exp) {
       throw new Error('JWT has expired')
     }
   }
@@ -0,0 +1,19 @@
+import type { RequestedClaims } from '../../flows/claims.ts'
+
+export interface AccessTokenPayload {
+  /** Absent for client_credentials tokens, which are issued to the client itself */
+  sub?: string
+  scope?: string
+  client_id?: string
+  iss?: string
+  aud?: string | string[]
+  exp?: number
+  iat?: number
+  nbf?: number
+  /** Unique token identifier; the key for revocation (see access-token-denylist.ts) */
+  jti?: string
+  /** Confirmation of the DPoP key the token is bound to (RFC 9449 §6) */
+  cnf?: { jkt: string }
+  /** Individual claims the client requested from /userinfo (OIDC Core §5.5) */
+  claims?: { userinfo: RequestedClaims }
+}
@@ -1,3 +1,113 @@
-// Placeholder for token validation
-// Will be implemented in step 3
+import type { RequestedClaims } from '../flows/claims.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { parseJwt, verifyJwt } from './jwt.ts'
+import { getActiveKeyPair, getLatestActiveKey } from './key-management.ts'
+import type { AccessTokenPayload } from './types/access-token-payload.ts'
 
+/** JWT typ of access tokens (RFC 9068 §2.1); keeps ID tokens from being used as access tokens */
+export const ACCESS_TOKEN_TYP = 'at+jwt'
+
+const ACCESS_TOKEN_TYPES = [ACCESS_TOKEN_TYP, `application/${ACCESS_TOKEN_TYP}`]
+
+const validateAccessTokenClaims = (
+  payload: Record<string, unknown>,
+  issuer: string,
+  validAudiences?: string[],
+): void => {
+  const iss = payload.iss as string | undefined
+  if (iss !== issuer) {
+    throw new Error(
+      `Invalid issuer: expected ${issuer}, got ${iss ?? 'undefined'}`,
+    )
+  }
+
+  const exp = payload.exp as number | undefined
+  if (typeof exp !== 'number' || exp <= 0) {
+    throw new Error('Invalid or missing exp claim')
+  }
+  const now = Math.floor(Date.now() / 1000)
+  if (exp < now) {
+    throw new Error('Token has expired')
+  }
+
+  const nbf = payload.nbf as number | undefined
+  if (nbf !== undefined && typeof nbf === 'number' && nbf > now) {
+    throw new Error('Token not yet valid')
+  }
+
+  if (validAudiences && validAudiences.length > 0) {
+    const aud = payload.aud
+    const audList: string[] = Array.isArray(aud)
+      ? aud.filter((a): a is string => typeof a === 'string')
+      : typeof aud === 'string'
+        ? [aud]
+        : []
+    const hasValidAudience = validAudiences.some((valid) =>
+      audList.includes(valid),
+    )
+    if (!hasValidAudience) {
+      throw new Error(
+        `Invalid audience: token aud ${JSON.stringify(aud)} does not include any of ${validAudiences.join(', ')}`,
+      )
+    }
+  }
+}
+
+const isDpopConfirmation = (cnf: unknown): cnf is { jkt: string } =>
+  typeof cnf === 'object' &&
+  cnf !== null &&
+  typeof (cnf as { jkt?: unknown }).jkt === 'string'
+
+const isUserinfoClaimsRequest = (
+  claims: unknown,
+): claims is { userinfo: RequestedClaims } =>
+  typeof claims === 'object' &&
+  claims !== null &&
+  typeof (claims as { userinfo?: unknown }).userinfo === 'object' &&
+  (claims as { userinfo?: unknown }).userinfo !== null
+
+/** Access tokens are JWTs; refresh tokens are opaque base64url strings (no dots) */
+export const isJwtFormat = (token: string): boolean =>
+  token.split('.').length === 3
+
+/**
+ * Verify an access token issued by this provider.
+ * Checks the typ is at+jwt and the signature against the key store, then iss, exp, nbf and
+ * (optionally) aud. validAudiences are resource indicators, not client ids.
+ * Throws when the token is malformed, signed by an unknown key, or fails a claim check.
+ */
+export const verifyAccessToken = (
+  token: string,
+  validAudiences?: string[],
+): AccessTokenPayload => {
+  const { header } = parseJwt(token)
+  if (!ACCESS_TOKEN_TYPES.includes(header.typ as string)) {
+    throw new Error(`Invalid token type: expected ${ACCESS_TOKEN_TYP}`)
+  }
+  const kid = header.kid as string | undefined
+  const keyPair = kid ? getActiveKeyPair(kid) : getLatestActiveKey('RS256')
+
+  if (!keyPair) {
+    throw new Error('Unable to verify token: unknown signing key')
+  }
+
+  const { payload } = verifyJwt(token, keyPair.publicKey, keyPair.algorithm)
+
+  validateAccessTokenClaims(payload, getOidcConfig().issuer, validAudiences)
+
+  return {
+    sub: payload.sub as string | undefined,
+    scope: payload.scope as string | undefined,
+    client_id: payload.client_id as string | undefined,
+    iss: payload.iss as string | undefined,
+    aud: payload.aud as string | string[] | undefined,
+    exp: payload.exp as number | undefined,
+    iat: payload.iat as number | undefined,
+    nbf: payload.nbf as number | undefined,
+    jti: payload.jti as string | undefined,
+    ...(isDpopConfirmation(payload.cnf) && { cnf: { jkt: payload.cnf.jkt } }),
+    ...(isUserinfoClaimsRequest(payload.claims) && {
+      claims: { userinfo: payload.claims.userinfo },
+    }),
+  }
+}
@@ -1,7 +1,7 @@
 declare module 'hono' {
   interface ContextVariableMap {
     accessTokenPayload: {
-      sub: string
+      sub?: string
       scope?: string
       client_id?: string
       iss?: string
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearConfigCache } from '../../oidc/config.ts'
+import { signJwt } from '../../tokens/jwt.ts'
+import { clearKeyStore, initializeKeys } from '../../tokens/key-management.ts'
+import {
+  createEmailVerificationToken,
+  verifyEmailVerificationToken,
+} from '../email-verification.ts'
+
+const contact = {
+  account_id: 'account-id',
+  contact_id: 'contact-id',
+  contact_type: 'email' as const,
+  contact_value: 'user@example.com',
+  is_primary: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+describe('Email verification tokens', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.OIDC_ISSUER = 'http://localhost:3000'
+    clearConfigCache()
+    clearKeyStore()
+    initializeKeys()
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    clearConfigCache()
+    clearKeyStore()
+    vi.useRealTimers()
+  })
+
+  it('should verify a token it created', () => {
+    const token = createEmailVerificationToken(contact)
+
+    expect(verifyEmailVerificationToken(token)).toEqual({
+      accountId: 'account-id',
+      contactId: 'contact-id',
+      email: 'user@example.com',
+    })
+  })
+
+  it('should reject an expired token', () => {
+    const token = createEmailVerificationToken(contact)
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000)
+
+    expect(verifyEmailVerificationToken(token)).toBeNull()
+  })
+
+  it('should reject a token that was tampered with', () => {
+    const [header, , signature] =
+      createEmailVerificationToken(contact).split('.')
+    const payload = Buffer.from(
+      JSON.stringify({ sub: 'other-account', email: 'attacker@example.com' }),
+    ).toString('base64url')
+
+    expect(
+      verifyEmailVerificationToken(`${header}.${payload}.${signature}`),
+    ).toBeNull()
+  })
+
+  it('should reject other JWTs signed by this provider', () => {
+    const keyPair = initializeKeys()
+    const now = Math.floor(Date.now() / 1000)
+    const idToken = signJwt(
+      {
+        iss: 'http://localhost:3000',
+        aud: 'http://localhost:3000',
+        sub: 'account-id',
+        iat: now,
+        exp: now + 3600,
+        contact_id: 'contact-id',
+        email: 'user@example.com',
+      },
+      keyPair.privateKey,
+      'RS256',
+      keyPair.kid,
+    )
+
+    expect(verifyEmailVerificationToken(idToken)).toBeNull()
+  })
+})
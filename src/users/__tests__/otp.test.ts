@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as clientModule from '../../database/client.ts'
+import { reserveOtpAttempt, storeOtpCode } from '../otp.ts'
+
+const mockExecute = vi.fn()
+
+vi.mock('../../database/client.ts', () => ({
+  getDatabaseClient: vi.fn(),
+}))
+
+vi.mock('../../database/config.ts', () => ({
+  getDatabaseConfig: vi.fn(() => ({ keyspace: 'jlj2_users' })),
+}))
+
+vi.mock('../../plumbing/logger.ts', () => ({
+  log: vi.fn(),
+}))
+
+const applied = (wasApplied: boolean) => ({
+  rows: [],
+  wasApplied: () => wasApplied,
+})
+
+describe('One-time codes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockExecute.mockReset()
+    vi.mocked(clientModule.getDatabaseClient).mockReturnValue({
+      execute: mockExecute,
+    } as never)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('storeOtpCode', () => {
+    it("should delete the contact's earlier codes before storing the new one", async () => {
+      mockExecute.mockResolvedValue({ rows: [] })
+
+      await storeOtpCode('contact-id', '042917', 10)
+
+      expect(mockExecute).toHaveBeenCalledTimes(2)
+      expect(mockExecute.mock.calls[0]).toEqual([
+        'DELETE FROM jlj2_users.otp_codes WHERE contact_id = ?',
+        ['contact-id'],
+      ])
+      expect(mockExecute.mock.calls[1][0]).toContain(
+        'INSERT INTO jlj2_users.otp_codes',
+      )
+      expect(mockExecute.mock.calls[1][1].slice(0, 2)).toEqual([
+        'contact-id',
+        '042917',
+      ])
+    })
+  })
+
+  describe('reserveOtpAttempt', () => {
+    it('should count the first attempt with an insert', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce(applied(true))
+
+      expect(await reserveOtpAttempt('contact-id')).toBe(true)
+      expect(mockExecute.mock.calls[1][0]).toContain('IF NOT EXISTS')
+      expect(mockExecute.mock.calls[1][1]).toEqual(['contact-id', 1, 900])
+    })
+
+    it('should compare-and-set the count and retry when another guess got there first', async () => {
+      mockExecute
+        .mockResolvedValueOnce({ rows: [{ failed_attempts: 2 }] })
+        .mockResolvedValueOnce(applied(false))
+        .mockResolvedValueOnce({ rows: [{ failed_attempts: 3 }] })
+        .mockResolvedValueOnce(applied(true))
+
+      expect(await reserveOtpAttempt('contact-id')).toBe(true)
+      expect(mockExecute.mock.calls[1][1]).toEqual([900, 3, 'contact-id', 2])
+      expect(mockExecute.mock.calls[3][1]).toEqual([900, 4, 'contact-id', 3])
+    })
+
+    it('should refuse without counting once the attempts are used up', async () => {
+      mockExecute.mockResolvedValueOnce({ rows: [{ failed_attempts: 5 }] })
+
+      expect(await reserveOtpAttempt('contact-id')).toBe(false)
+      expect(mockExecute).toHaveBeenCalledTimes(1)
+    })
+  })
+})
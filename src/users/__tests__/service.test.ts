@@ -1,5 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { authenticateUser, getUserById, registerUser } from '../service.ts'
+import * as session from '../../flows/session.ts'
+import * as rateLimitStorage from '../../middleware/rate-limit-storage.ts'
+import * as notificationService from '../../notifications/service.ts'
+import { clearConfigCache } from '../../oidc/config.ts'
+import * as emailVerification from '../email-verification.ts'
+import * as magicLink from '../magic-link.ts'
+import * as otp from '../otp.ts'
+import * as passwordReset from '../password-reset.ts'
+import {
+  authenticateUser,
+  authenticateWithOtp,
+  getUserById,
+  registerUser,
+  requestMagicLink,
+  requestPasswordReset,
+  resendEmailVerification,
+  resetPassword,
+  updateUserProfile,
+  verifyEmail,
+} from '../service.ts'
 import * as storage from '../storage.ts'
 
 // Mock storage layer
@@ -7,7 +26,52 @@ vi.mock('../storage.ts', () => ({
   findUserByEmail: vi.fn(),
   findUserById: vi.fn(),
   createUser: vi.fn(),
+  findContactMethod: vi.fn(),
+  findContactMethodById: vi.fn(),
+  markContactMethodVerified: vi.fn(),
+  updateAccountPassword: vi.fn(),
   updateLastLogin: vi.fn(),
+  updateUser: vi.fn(),
+}))
+
+vi.mock('../magic-link.ts', () => ({
+  generateMagicLinkToken: vi.fn(),
+  storeMagicLinkToken: vi.fn(),
+  verifyMagicLinkToken: vi.fn(),
+}))
+
+vi.mock('../password-reset.ts', () => ({
+  generatePasswordResetToken: vi.fn(),
+  storePasswordResetToken: vi.fn(),
+  verifyPasswordResetToken: vi.fn(),
+}))
+
+vi.mock('../email-verification.ts', () => ({
+  EMAIL_VERIFICATION_EXPIRY_MINUTES: 1440,
+  createEmailVerificationToken: vi.fn(),
+  verifyEmailVerificationToken: vi.fn(),
+}))
+
+vi.mock('../../middleware/rate-limit-storage.ts', () => ({
+  checkAndIncrement: vi.fn(),
+}))
+
+vi.mock('../otp.ts', () => ({
+  MAX_OTP_ATTEMPTS: 5,
+  generateOtpCode: vi.fn(),
+  storeOtpCode: vi.fn(),
+  verifyOtpCode: vi.fn(),
+  countFailedOtpAttempts: vi.fn(),
+  reserveOtpAttempt: vi.fn(),
+  clearOtpAttempts: vi.fn(),
+}))
+
+vi.mock('../../notifications/service.ts', () => ({
+  sendNotification: vi.fn(),
+}))
+
+vi.mock('../../flows/session.ts', () => ({
+  endAllSessionsAndRevokeTokens: vi.fn(),
 }))
 
 // Mock password utilities
@@ -22,6 +86,16 @@ vi.mock('../password.ts', async () => {
 
 import { hashPassword, verifyPassword } from '../password.ts'
 
+const emailContact = {
+  account_id: 'account-id',
+  contact_id: 'contact-id',
+  contact_type: 'email' as const,
+  contact_value: 'test@example.com',
+  is_primary: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
 describe('User Service', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -78,6 +152,110 @@ describe('User Service', () => {
       await expect(registerUser(input)).rejects.toThrow('Invalid email address')
     })
 
+    it('should email a verification link to password users', async () => {
+      process.env.OIDC_ISSUER = 'https://id.example.com'
+      clearConfigCache()
+      vi.mocked(storage.findUserByEmail).mockResolvedValue(null)
+      vi.mocked(hashPassword).mockResolvedValue({
+        hash: 'hashed-password',
+        salt: 'salt-value',
+      })
+      vi.mocked(storage.createUser).mockResolvedValue({
+        sub: 'account-id',
+        email: 'test@example.com',
+        emailVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+      vi.mocked(storage.findContactMethod).mockResolvedValue(emailContact)
+      vi.mocked(emailVerification.createEmailVerificationToken).mockReturnValue(
+        'verify-token',
+      )
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(true)
+
+      await registerUser({
+        email: 'test@example.com',
+        password: 'password123',
+        locale: 'es',
+      })
+
+      expect(rateLimitStorage.checkAndIncrement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          scope: 'email-verification',
+          identifier: 'test@example.com',
+        }),
+      )
+      expect(notificationService.sendNotification).toHaveBeenCalledWith({
+        channel: 'email',
+        to: 'test@example.com',
+        template: 'email-verification',
+        locale: 'es',
+        variables: {
+          url: 'https://id.example.com/users/verify-email?token=verify-token',
+          expiresInMinutes: 1440,
+        },
+      })
+
+      delete process.env.OIDC_ISSUER
+      clearConfigCache()
+    })
+
+    it('should still register the user when the verification email fails', async () => {
+      vi.mocked(storage.findUserByEmail).mockResolvedValue(null)
+      vi.mocked(hashPassword).mockResolvedValue({
+        hash: 'hashed-password',
+        salt: 'salt-value',
+      })
+      vi.mocked(storage.createUser).mockResolvedValue({
+        sub: 'account-id',
+        email: 'test@example.com',
+        emailVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+      vi.mocked(storage.findContactMethod).mockResolvedValue(emailContact)
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(true)
+      vi.mocked(notificationService.sendNotification).mockRejectedValueOnce(
+        new Error('SMTP error: 421'),
+      )
+
+      const user = await registerUser({
+        email: 'test@example.com',
+        password: 'password123',
+      })
+
+      expect(user.sub).toBe('account-id')
+      expect(notificationService.sendNotification).toHaveBeenCalled()
+    })
+
+    it('should not send the verification email once the address reached its limit', async () => {
+      vi.mocked(storage.findUserByEmail).mockResolvedValue(null)
+      vi.mocked(hashPassword).mockResolvedValue({
+        hash: 'hashed-password',
+        salt: 'salt-value',
+      })
+      vi.mocked(storage.createUser).mockResolvedValue({
+        sub: 'account-id',
+        email: 'test@example.com',
+        emailVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        isActive: true,
+      })
+      vi.mocked(storage.findContactMethod).mockResolvedValue(emailContact)
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(false)
+
+      const user = await registerUser({
+        email: 'test@example.com',
+        password: 'password123',
+      })
+
+      expect(user.sub).toBe('account-id')
+      expect(notificationService.sendNotification).not.toHaveBeenCalled()
+    })
+
     it('should reject duplicate email', async () => {
       const input = {
         email: 'existing@example.com',
@@ -232,4 +410,511 @@ describe('User Service', () => {
       expect(result).toBeNull()
     })
   })
+
+  describe('updateUserProfile', () => {
+    const user = {
+      sub: 'account-id',
+      email: 'test@example.com',
+      emailVerified: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      isActive: true,
+    }
+
+    beforeEach(() => {
+      vi.mocked(storage.findUserById).mockResolvedValue(user)
+      vi.mocked(storage.updateUser).mockResolvedValue(user)
+    })
+
+    it('should store a postal address', async () => {
+      const address = { street_address: '1 Main St', country: 'US' }
+
+      await updateUserProfile('account-id', { address })
+
+      expect(storage.updateUser).toHaveBeenCalledWith('account-id', {
+        address,
+      })
+    })
+
+    it('should reject an address with unknown fields', async () => {
+      await expect(
+        updateUserProfile('account-id', {
+          address: { street: '1 Main St' } as never,
+        }),
+      ).rejects.toThrow('Invalid address')
+      expect(storage.updateUser).not.toHaveBeenCalled()
+    })
+
+    it('should reject an address with non-string values', async () => {
+      await expect(
+        updateUserProfile('account-id', {
+          address: { postal_code: 12345 } as never,
+        }),
+      ).rejects.toThrow('Invalid address')
+    })
+  })
+
+  describe('requestMagicLink', () => {
+    beforeEach(() => {
+      process.env.OIDC_ISSUER = 'https://id.example.com'
+      clearConfigCache()
+      vi.mocked(magicLink.generateMagicLinkToken).mockReturnValue('link-token')
+      vi.mocked(storage.findContactMethod).mockResolvedValue({
+        account_id: 'account-id',
+        contact_id: 'contact-id',
+        contact_type: 'phone',
+        contact_value: '+15551234567',
+        is_primary: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+    })
+
+    afterEach(() => {
+      delete process.env.OIDC_ISSUER
+      clearConfigCache()
+    })
+
+    it('should send a code by SMS to a phone contact', async () => {
+      vi.mocked(otp.countFailedOtpAttempts).mockResolvedValue(0)
+      vi.mocked(otp.generateOtpCode).mockReturnValue('042917')
+
+      const result = await requestMagicLink({
+        phone: '+15551234567',
+        locale: 'es',
+        returnTo: '/authorize?client_id=abc',
+      })
+
+      expect(result).toEqual({
+        contactId: 'contact-id',
+        contactType: 'phone',
+        method: 'code',
+      })
+      expect(otp.storeOtpCode).toHaveBeenCalledWith(
+        'contact-id',
+        '042917',
+        10,
+        '/authorize?client_id=abc',
+      )
+      expect(magicLink.storeMagicLinkToken).not.toHaveBeenCalled()
+      expect(notificationService.sendNotification).toHaveBeenCalledWith({
+        channel: 'sms',
+        to: '+15551234567',
+        template: 'sign-in-code',
+        locale: 'es',
+        variables: { code: '042917', expiresInMinutes: 10 },
+      })
+    })
+
+    it('should send a link by email to an email contact', async () => {
+      vi.mocked(storage.findContactMethod).mockResolvedValue({
+        account_id: 'account-id',
+        contact_id: 'contact-id',
+        contact_type: 'email',
+        contact_value: 'user@example.com',
+        is_primary: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+
+      const result = await requestMagicLink({ email: 'user@example.com' })
+
+      expect(result.method).toBe('link')
+      expect(magicLink.storeMagicLinkToken).toHaveBeenCalledWith(
+        'contact-id',
+        'link-token',
+        15,
+        null,
+      )
+      expect(notificationService.sendNotification).toHaveBeenCalledWith({
+        channel: 'email',
+        to: 'user@example.com',
+        template: 'magic-link',
+        locale: undefined,
+        variables: {
+          url: 'https://id.example.com/login/magic?contact_id=contact-id&token=link-token',
+          expiresInMinutes: 15,
+        },
+      })
+    })
+
+    it('should not send a code to a locked out phone contact', async () => {
+      vi.mocked(otp.countFailedOtpAttempts).mockResolvedValue(5)
+
+      await expect(requestMagicLink({ phone: '+15551234567' })).rejects.toThrow(
+        'Too many failed attempts',
+      )
+      expect(otp.storeOtpCode).not.toHaveBeenCalled()
+      expect(notificationService.sendNotification).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('authenticateWithOtp', () => {
+    const user = {
+      sub: 'account-id',
+      email: 'user@example.com',
+      emailVerified: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      isActive: true,
+    }
+
+    beforeEach(() => {
+      vi.mocked(otp.reserveOtpAttempt).mockResolvedValue(true)
+      vi.mocked(storage.findContactMethodById).mockResolvedValue({
+        account_id: 'account-id',
+        contact_id: 'contact-id',
+        contact_type: 'phone',
+        contact_value: '+15551234567',
+        is_primary: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      })
+      vi.mocked(storage.findUserById).mockResolvedValue(user)
+    })
+
+    it('should sign in with a valid code and clear the counted attempts', async () => {
+      vi.mocked(otp.verifyOtpCode).mockResolvedValue({
+        code: '042917',
+        contactId: 'contact-id',
+        expiresAt: new Date(Date.now() + 600_000),
+        used: true,
+        createdAt: new Date(),
+        returnTo: '/authorize?client_id=abc',
+      })
+
+      const result = await authenticateWithOtp({
+        contactId: 'contact-id',
+        code: '042 917',
+      })
+
+      expect(result).toEqual({ user, returnTo: '/authorize?client_id=abc' })
+      expect(otp.verifyOtpCode).toHaveBeenCalledWith('contact-id', '042917')
+      expect(otp.clearOtpAttempts).toHaveBeenCalledWith('contact-id')
+      expect(storage.updateLastLogin).toHaveBeenCalledWith('account-id')
+    })
+
+    it('should count the attempt before comparing a wrong code', async () => {
+      vi.mocked(otp.verifyOtpCode).mockResolvedValue(null)
+
+      await expect(
+        authenticateWithOtp({ contactId: 'contact-id', code: '000000' }),
+      ).rejects.toThrow('Invalid or expired code')
+      expect(otp.reserveOtpAttempt).toHaveBeenCalledWith('contact-id')
+      expect(
+        vi.mocked(otp.reserveOtpAttempt).mock.invocationCallOrder[0],
+      ).toBeLessThan(vi.mocked(otp.verifyOtpCode).mock.invocationCallOrder[0])
+      expect(otp.clearOtpAttempts).not.toHaveBeenCalled()
+    })
+
+    it('should count a malformed code without looking it up', async () => {
+      await expect(
+        authenticateWithOtp({ contactId: 'contact-id', code: '12ab' }),
+      ).rejects.toThrow('Invalid or expired code')
+      expect(otp.verifyOtpCode).not.toHaveBeenCalled()
+      expect(otp.reserveOtpAttempt).toHaveBeenCalledWith('contact-id')
+    })
+
+    it('should refuse even a valid code once the contact is locked out', async () => {
+      vi.mocked(otp.reserveOtpAttempt).mockResolvedValue(false)
+
+      await expect(
+        authenticateWithOtp({ contactId: 'contact-id', code: '042917' }),
+      ).rejects.toThrow('Too many failed attempts')
+      expect(otp.verifyOtpCode).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('verifyEmail', () => {
+    beforeEach(() => {
+      vi.mocked(emailVerification.verifyEmailVerificationToken).mockReturnValue(
+        {
+          accountId: 'account-id',
+          contactId: 'contact-id',
+          email: 'test@example.com',
+        },
+      )
+      vi.mocked(storage.findContactMethodById).mockResolvedValue(emailContact)
+    })
+
+    it('should mark the contact method verified', async () => {
+      const contact = await verifyEmail('verify-token')
+
+      expect(contact.verified_at).toBeInstanceOf(Date)
+      expect(storage.markContactMethodVerified).toHaveBeenCalledWith(
+        emailContact,
+        contact.verified_at,
+      )
+    })
+
+    it('should reject a link for an address the contact no longer holds', async () => {
+      vi.mocked(storage.findContactMethodById).mockResolvedValue({
+        ...emailContact,
+        contact_value: 'changed@example.com',
+      })
+
+      await expect(verifyEmail('verify-token')).rejects.toThrow(
+        'Invalid or expired verification link',
+      )
+      expect(storage.markContactMethodVerified).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid or expired token', async () => {
+      vi.mocked(emailVerification.verifyEmailVerificationToken).mockReturnValue(
+        null,
+      )
+
+      await expect(verifyEmail('bad-token')).rejects.toThrow(
+        'Invalid or expired verification link',
+      )
+    })
+  })
+
+  describe('resendEmailVerification', () => {
+    beforeEach(() => {
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(true)
+      vi.mocked(emailVerification.createEmailVerificationToken).mockReturnValue(
+        'verify-token',
+      )
+    })
+
+    it('should send a new link to an unverified address', async () => {
+      vi.mocked(storage.findContactMethod).mockResolvedValue(emailContact)
+
+      await resendEmailVerification({ email: 'Test@Example.com' })
+
+      expect(rateLimitStorage.checkAndIncrement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          scope: 'email-verification',
+          identifier: 'test@example.com',
+        }),
+      )
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ template: 'email-verification' }),
+      )
+    })
+
+    it('should send nothing for unknown or verified addresses', async () => {
+      vi.mocked(storage.findContactMethod).mockResolvedValueOnce(null)
+      await resendEmailVerification({ email: 'unknown@example.com' })
+
+      vi.mocked(storage.findContactMethod).mockResolvedValueOnce({
+        ...emailContact,
+        verified_at: new Date(),
+      })
+      await resendEmailVerification({ email: 'test@example.com' })
+
+      expect(notificationService.sendNotification).not.toHaveBeenCalled()
+    })
+
+    it('should refuse once the address reaches its limit', async () => {
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(false)
+
+      await expect(
+        resendEmailVerification({ email: 'test@example.com' }),
+      ).rejects.toThrow('Too many verification emails')
+      expect(storage.findContactMethod).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('requestPasswordReset', () => {
+    beforeEach(() => {
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(true)
+      vi.mocked(passwordReset.generatePasswordResetToken).mockReturnValue(
+        'reset-token',
+      )
+    })
+
+    it('should email a single-use reset link to a known address', async () => {
+      process.env.OIDC_ISSUER = 'https://id.example.com'
+      clearConfigCache()
+      vi.mocked(storage.findContactMethod).mockResolvedValue(emailContact)
+
+      await requestPasswordReset({ email: 'Test@Example.com', locale: 'es' })
+
+      await vi.waitFor(() =>
+        expect(notificationService.sendNotification).toHaveBeenCalledWith({
+          channel: 'email',
+          to: 'test@example.com',
+          template: 'password-reset',
+          locale: 'es',
+          variables: {
+            url: 'https://id.example.com/login/reset-password?contact_id=contact-id&token=reset-token',
+            expiresInMinutes: 30,
+          },
+        }),
+      )
+      expect(storage.findContactMethod).toHaveBeenCalledWith(
+        'email',
+        'test@example.com',
+      )
+      expect(passwordReset.storePasswordResetToken).toHaveBeenCalledWith(
+        'contact-id',
+        'reset-token',
+        30,
+      )
+      delete process.env.OIDC_ISSUER
+      clearConfigCache()
+    })
+
+    it('should send nothing for an unknown address', async () => {
+      vi.mocked(storage.findContactMethod).mockResolvedValue(null)
+
+      await expect(
+        requestPasswordReset({ email: 'unknown@example.com' }),
+      ).resolves.toBeUndefined()
+      expect(passwordReset.storePasswordResetToken).not.toHaveBeenCalled()
+      expect(notificationService.sendNotification).not.toHaveBeenCalled()
+    })
+
+    it('should not fail when the reset email cannot be sent', async () => {
+      vi.mocked(storage.findContactMethod).mockResolvedValue(emailContact)
+      vi.mocked(notificationService.sendNotification).mockRejectedValueOnce(
+        new Error('SMTP error: 550'),
+      )
+
+      await expect(
+        requestPasswordReset({ email: 'test@example.com' }),
+      ).resolves.toBeUndefined()
+      await vi.waitFor(() =>
+        expect(notificationService.sendNotification).toHaveBeenCalled(),
+      )
+    })
+
+    it('should refuse once the address reaches its limit', async () => {
+      vi.mocked(rateLimitStorage.checkAndIncrement).mockResolvedValue(false)
+
+      await expect(
+        requestPasswordReset({ email: 'test@example.com' }),
+      ).rejects.toThrow('Too many password reset emails')
+      expect(storage.findContactMethod).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid email address', async () => {
+      await expect(
+        requestPasswordReset({ email: 'not-an-email' }),
+      ).rejects.toThrow('Invalid email address')
+    })
+  })
+
+  describe('resetPassword', () => {
+    const user = {
+      sub: 'account-id',
+      email: 'test@example.com',
+      emailVerified: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      isActive: true,
+    }
+
+    beforeEach(() => {
+      vi.mocked(passwordReset.verifyPasswordResetToken).mockResolvedValue({
+        token: 'reset-token',
+        contactId: 'contact-id',
+        expiresAt: new Date(Date.now() + 60_000),
+        used: true,
+        createdAt: new Date(),
+      })
+      vi.mocked(storage.findContactMethodById).mockResolvedValue(emailContact)
+      vi.mocked(storage.findUserById).mockResolvedValue(user)
+      vi.mocked(hashPassword).mockResolvedValue({
+        hash: 'new-hash',
+        salt: 'new-salt',
+      })
+    })
+
+    it('should store a new hash of the password', async () => {
+      const result = await resetPassword({
+        contactId: 'contact-id',
+        token: 'reset-token',
+        password: 'new-password',
+      })
+
+      expect(result).toEqual(user)
+      expect(passwordReset.verifyPasswordResetToken).toHaveBeenCalledWith(
+        'contact-id',
+        'reset-token',
+      )
+      expect(hashPassword).toHaveBeenCalledWith('new-password')
+      expect(storage.updateAccountPassword).toHaveBeenCalledWith(
+        'account-id',
+        'new-hash',
+        'new-salt',
+      )
+    })
+
+    it('should end every session and revoke every token before changing the password', async () => {
+      await resetPassword({
+        contactId: 'contact-id',
+        token: 'reset-token',
+        password: 'new-password',
+      })
+
+      expect(session.endAllSessionsAndRevokeTokens).toHaveBeenCalledWith(
+        'account-id',
+      )
+      expect(
+        vi.mocked(session.endAllSessionsAndRevokeTokens).mock
+          .invocationCallOrder[0],
+      ).toBeLessThan(
+        vi.mocked(storage.updateAccountPassword).mock.invocationCallOrder[0],
+      )
+    })
+
+    it('should keep the old password when revoking fails', async () => {
+      vi.mocked(session.endAllSessionsAndRevokeTokens).mockRejectedValueOnce(
+        new Error('Database unavailable'),
+      )
+
+      await expect(
+        resetPassword({
+          contactId: 'contact-id',
+          token: 'reset-token',
+          password: 'new-password',
+        }),
+      ).rejects.toThrow('Database unavailable')
+      expect(storage.updateAccountPassword).not.toHaveBeenCalled()
+    })
+
+    it('should reject a used, expired or unknown token', async () => {
+      vi.mocked(passwordReset.verifyPasswordResetToken).mockResolvedValue(null)
+
+      await expect(
+        resetPassword({
+          contactId: 'contact-id',
+          token: 'used-token',
+          password: 'new-password',
+        }),
+      ).rejects.toThrow('Invalid or expired reset link')
+      expect(storage.updateAccountPassword).not.toHaveBeenCalled()
+    })
+
+    it('should not reset the password of an inactive account', async () => {
+      vi.mocked(storage.findUserById).mockResolvedValue({
+        ...user,
+        isActive: false,
+      })
+
+      await expect(
+        resetPassword({
+          contactId: 'contact-id',
+          token: 'reset-token',
+          password: 'new-password',
+        }),
+      ).rejects.toThrow('Account is not active')
+      expect(storage.updateAccountPassword).not.toHaveBeenCalled()
+      expect(session.endAllSessionsAndRevokeTokens).not.toHaveBeenCalled()
+    })
+
+    it('should require a password', async () => {
+      await expect(
+        resetPassword({
+          contactId: 'contact-id',
+          token: 'reset-token',
+          password: '',
+        }),
+      ).rejects.toThrow('Password is required')
+      expect(passwordReset.verifyPasswordResetToken).not.toHaveBeenCalled()
+    })
+  })
 })
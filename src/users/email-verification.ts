@@ -0,0 +1,87 @@
+import { randomUUID } from 'node:crypto'
+import type { ContactMethod } from '../database/types/contact-method.ts'
+import { getOidcConfig } from '../oidc/config.ts'
+import { parseJwt, signJwt, verifyJwt } from '../tokens/jwt.ts'
+import { getActiveKeyPair, initializeKeys } from '../tokens/key-management.ts'
+
+/** Explicitly typed, so a verification token is never mistaken for an ID token or the reverse */
+const EMAIL_VERIFICATION_TOKEN_TYP = 'email-verification+jwt'
+
+export const EMAIL_VERIFICATION_EXPIRY_MINUTES = 24 * 60
+
+export interface EmailVerificationClaims {
+  accountId: string
+  contactId: string
+  /** The address the link was sent to; the link is void once the contact holds another */
+  email: string
+}
+
+/**
+ * Create a signed, expiring token proving the holder received mail at an email contact.
+ * Nothing is stored: the signature and exp are all that is checked.
+ */
+export const createEmailVerificationToken = (
+  contact: ContactMethod,
+): string => {
+  const config = getOidcConfig()
+  const keyPair = initializeKeys()
+  const now = Math.floor(Date.now() / 1000)
+
+  return signJwt(
+    {
+      iss: config.issuer,
+      aud: config.issuer,
+      sub: contact.account_id,
+      iat: now,
+      exp: now + EMAIL_VERIFICATION_EXPIRY_MINUTES * 60,
+      jti: randomUUID(),
+      contact_id: contact.contact_id,
+      email: contact.contact_value,
+    },
+    keyPair.privateKey,
+    'RS256',
+    keyPair.kid,
+    EMAIL_VERIFICATION_TOKEN_TYP,
+  )
+}
+
+/**
+ * Verify an email verification token issued by this provider.
+ * Returns null when it is malformed, expired, signed by an unknown key or of another type.
+ */
+export const verifyEmailVerificationToken = (
+  token: string,
+): EmailVerificationClaims | null => {
+  try {
+    const { header } = parseJwt(token)
+    if (header.typ !== EMAIL_VERIFICATION_TOKEN_TYP) {
+      return null
+    }
+    const keyPair =
+      typeof header.kid === 'string' ? getActiveKeyPair(header.kid) : undefined
+    if (!keyPair) {
+      return null
+    }
+
+    const { payload } = verifyJwt(token, keyPair.publicKey, keyPair.algorithm)
+    const issuer = getOidcConfig().issuer
+    if (payload.iss !== issuer || payload.aud !== issuer) {
+      return null
+    }
+    if (
+      typeof payload.sub !== 'string' ||
+      typeof payload.contact_id !== 'string' ||
+      typeof payload.email !== 'string'
+    ) {
+      return null
+    }
+
+    return {
+      accountId: payload.sub,
+      contactId: payload.contact_id,
+      email: payload.email,
+    }
+  } catch {
+    return null
+  }
+}
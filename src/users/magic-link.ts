@@ -10,6 +10,8 @@ export interface MagicLinkToken {
   expiresAt: Date
   used: boolean
   createdAt: Date
+  /** Where the browser goes after signing in with the link */
+  returnTo: string | null
 }
 
 const getClient = (): Client => {
@@ -38,6 +40,7 @@ export const storeMagicLinkToken = async (
   contactId: string,
   token: string,
   expiresInMinutes: number = 15,
+  returnTo: string | null = null,
 ): Promise<void> => {
   const client = getClient()
   const keyspace = getKeyspace()
@@ -51,10 +54,10 @@ export const storeMagicLinkToken = async (
   // Using contactId as partition key for efficient lookup
   await client.execute(
     `INSERT INTO ${keyspace}.magic_link_tokens 
-     (contact_id, magic_token, expires_at, used, created_at)
-     VALUES (?, ?, ?, ?, ?)
+     (contact_id, magic_token, expires_at, used, created_at, return_to)
+     VALUES (?, ?, ?, ?, ?, ?)
      USING TTL ?`,
-    [contactId, token, expiresAt, false, now, ttlSeconds],
+    [contactId, token, expiresAt, false, now, returnTo, ttlSeconds],
   )
 
   log({
@@ -68,24 +71,25 @@ export const storeMagicLinkToken = async (
  * Verify and consume a magic link token
  * Uses a lightweight transaction (LWT) to atomically check and set the used flag
  * This prevents race conditions where multiple concurrent requests could consume the same token
+ * Returns the consumed token, or null when it is unknown, expired or already used
  */
 export const verifyMagicLinkToken = async (
   contactId: string,
   token: string,
-): Promise<boolean> => {
+): Promise<MagicLinkToken | null> => {
   const client = getClient()
   const keyspace = getKeyspace()
 
   // First, get token to check expiration
   const result = await client.execute(
-    `SELECT magic_token, expires_at, used, TTL(used) AS ttl_remaining 
+    `SELECT magic_token, expires_at, used, created_at, return_to, TTL(used) AS ttl_remaining 
      FROM ${keyspace}.magic_link_tokens 
      WHERE contact_id = ? AND magic_token = ?`,
     [contactId, token],
   )
 
   if (result.rows.length === 0) {
-    return false
+    return null
   }
 
   const row = result.rows[0]
@@ -94,12 +98,12 @@ export const verifyMagicLinkToken = async (
 
   // Check if token is expired
   if (expiresAt < new Date()) {
-    return false
+    return null
   }
 
   // If TTL already expired (should be caught above), treat as invalid
   if (ttlRemaining <= 0) {
-    return false
+    return null
   }
 
   // Atomically check if used = false and set used = true in a single operation
@@ -116,9 +120,18 @@ export const verifyMagicLinkToken = async (
   // Check if the conditional update was applied
   // In cassandra-driver, conditional updates return a result with an 'applied' field
   // If the condition was not met (used was already true), applied will be false
-  const wasApplied = updateResult.wasApplied()
+  if (!updateResult.wasApplied()) {
+    return null
+  }
 
-  return wasApplied
+  return {
+    token,
+    contactId,
+    expiresAt,
+    used: true,
+    createdAt: row.created_at as Date,
+    returnTo: (row.return_to as string | null) ?? null,
+  }
 }
 
 // Note: magic_link_tokens rely on TTL for cleanup; no manual sweep function is needed.
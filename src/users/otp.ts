@@ -0,0 +1,215 @@
+import { randomInt } from 'node:crypto'
+import type { Client } from 'cassandra-driver'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import { log } from '../plumbing/logger.ts'
+
+export interface OtpCode {
+  code: string
+  contactId: string // UUID of contact method (email or phone)
+  expiresAt: Date
+  used: boolean
+  createdAt: Date
+  /** Where the browser goes after signing in with the code */
+  returnTo: string | null
+}
+
+export const OTP_CODE_LENGTH = 6
+
+/** Wrong guesses per contact before codes are refused */
+export const MAX_OTP_ATTEMPTS = 5
+
+/** How long a lockout lasts after the last wrong guess */
+export const OTP_LOCKOUT_MINUTES = 15
+
+const getClient = (): Client => {
+  return getDatabaseClient()
+}
+
+const getKeyspace = (): string => {
+  const config = getDatabaseConfig()
+  return config.keyspace
+}
+
+/**
+ * Generate a numeric one-time code of 6 to 8 digits
+ */
+export const generateOtpCode = (length: number = OTP_CODE_LENGTH): string => {
+  if (!Number.isInteger(length) || length < 6 || length > 8) {
+    throw new Error('OTP codes must have 6 to 8 digits')
+  }
+  return randomInt(0, 10 ** length)
+    .toString()
+    .padStart(length, '0')
+}
+
+/**
+ * Store a one-time code in the database, replacing the contact's earlier codes
+ * Only the newest code is valid, so requesting codes again adds nothing to guess against
+ * Codes are stored with TTL for automatic expiration, like magic link tokens
+ */
+export const storeOtpCode = async (
+  contactId: string,
+  code: string,
+  expiresInMinutes: number = 10,
+  returnTo: string | null = null,
+): Promise<void> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + expiresInMinutes * 60 * 1000)
+
+  // Sequential, not batched: in a batch the partition tombstone would share the
+  // insert's timestamp and delete the new code too
+  await client.execute(
+    `DELETE FROM ${keyspace}.otp_codes WHERE contact_id = ?`,
+    [contactId],
+  )
+  await client.execute(
+    `INSERT INTO ${keyspace}.otp_codes
+     (contact_id, code, expires_at, used, created_at, return_to)
+     VALUES (?, ?, ?, ?, ?, ?)
+     USING TTL ?`,
+    [contactId, code, expiresAt, false, now, returnTo, expiresInMinutes * 60],
+  )
+
+  log({
+    message: 'One-time code generated',
+    contactId,
+    expiresAt: expiresAt.toISOString(),
+  })
+}
+
+/**
+ * Verify and consume a one-time code
+ * Uses a lightweight transaction (LWT) so a code signs in at most once
+ * Returns the consumed code, or null when it is unknown, expired or already used
+ */
+export const verifyOtpCode = async (
+  contactId: string,
+  code: string,
+): Promise<OtpCode | null> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT expires_at, used, created_at, return_to, TTL(used) AS ttl_remaining
+     FROM ${keyspace}.otp_codes
+     WHERE contact_id = ? AND code = ?`,
+    [contactId, code],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  const row = result.rows[0]
+  const expiresAt = row.expires_at as Date
+  const ttlRemaining = (row.ttl_remaining as number | null) ?? 0
+
+  if (expiresAt < new Date() || ttlRemaining <= 0) {
+    return null
+  }
+
+  const updateResult = await client.execute(
+    `UPDATE ${keyspace}.otp_codes
+     USING TTL ?
+     SET used = ?
+     WHERE contact_id = ? AND code = ?
+     IF used = ?`,
+    [ttlRemaining, true, contactId, code, false],
+  )
+
+  if (!updateResult.wasApplied()) {
+    return null
+  }
+
+  return {
+    code,
+    contactId,
+    expiresAt,
+    used: true,
+    createdAt: row.created_at as Date,
+    returnTo: (row.return_to as string | null) ?? null,
+  }
+}
+
+/**
+ * Guesses counted for a contact within the lockout window
+ */
+export const countFailedOtpAttempts = async (
+  contactId: string,
+): Promise<number> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT failed_attempts FROM ${keyspace}.otp_attempts WHERE contact_id = ?`,
+    [contactId],
+  )
+  return (result.rows[0]?.failed_attempts as number | null) ?? 0
+}
+
+/**
+ * Count a guess before its code is compared, and return whether it may be compared
+ * Returns false, without counting, once the contact has used up MAX_OTP_ATTEMPTS
+ * Each increment is a compare-and-set (LWT), so parallel guesses cannot all pass the check
+ * The row's TTL restarts with every guess, so a lockout ends OTP_LOCKOUT_MINUTES after the last one
+ */
+export const reserveOtpAttempt = async (
+  contactId: string,
+): Promise<boolean> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+  const ttlSeconds = OTP_LOCKOUT_MINUTES * 60
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const current = await client.execute(
+      `SELECT failed_attempts FROM ${keyspace}.otp_attempts WHERE contact_id = ?`,
+      [contactId],
+    )
+    const count = current.rows[0]?.failed_attempts as number | undefined
+    if (count !== undefined && count >= MAX_OTP_ATTEMPTS) {
+      return false
+    }
+
+    const result =
+      count === undefined
+        ? await client.execute(
+            `INSERT INTO ${keyspace}.otp_attempts (contact_id, failed_attempts)
+             VALUES (?, ?)
+             IF NOT EXISTS
+             USING TTL ?`,
+            [contactId, 1, ttlSeconds],
+          )
+        : await client.execute(
+            `UPDATE ${keyspace}.otp_attempts
+             USING TTL ?
+             SET failed_attempts = ?
+             WHERE contact_id = ?
+             IF failed_attempts = ?`,
+            [ttlSeconds, count + 1, contactId, count],
+          )
+
+    if (result.wasApplied()) {
+      return true
+    }
+  }
+
+  throw new Error('Failed to record OTP attempt')
+}
+
+/**
+ * Forget a contact's guesses after a successful sign-in
+ */
+export const clearOtpAttempts = async (contactId: string): Promise<void> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `DELETE FROM ${keyspace}.otp_attempts WHERE contact_id = ?`,
+    [contactId],
+  )
+}
+
+// Note: otp_codes and otp_attempts rely on TTL for cleanup; no manual sweep function is needed.
@@ -0,0 +1,113 @@
+import type { Client } from 'cassandra-driver'
+import { nanoid } from 'nanoid'
+import { getDatabaseClient } from '../database/client.ts'
+import { getDatabaseConfig } from '../database/config.ts'
+import { log } from '../plumbing/logger.ts'
+
+export interface PasswordResetToken {
+  token: string
+  contactId: string // UUID of the email contact the link was sent to
+  expiresAt: Date
+  used: boolean
+  createdAt: Date
+}
+
+const getClient = (): Client => {
+  return getDatabaseClient()
+}
+
+const getKeyspace = (): string => {
+  const config = getDatabaseConfig()
+  return config.keyspace
+}
+
+/**
+ * Generate a secure password reset token
+ */
+export const generatePasswordResetToken = (): string => {
+  return nanoid()
+}
+
+/**
+ * Store a password reset token in the database
+ * Tokens are stored with TTL for automatic expiration, like magic link tokens
+ */
+export const storePasswordResetToken = async (
+  contactId: string,
+  token: string,
+  expiresInMinutes: number = 30,
+): Promise<void> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + expiresInMinutes * 60 * 1000)
+
+  await client.execute(
+    `INSERT INTO ${keyspace}.password_reset_tokens
+     (contact_id, reset_token, expires_at, used, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     USING TTL ?`,
+    [contactId, token, expiresAt, false, now, expiresInMinutes * 60],
+  )
+
+  log({
+    message: 'Password reset token generated',
+    contactId,
+    expiresAt: expiresAt.toISOString(),
+  })
+}
+
+/**
+ * Verify and consume a password reset token
+ * Uses a lightweight transaction (LWT) so a token resets a password at most once
+ * Returns the consumed token, or null when it is unknown, expired or already used
+ */
+export const verifyPasswordResetToken = async (
+  contactId: string,
+  token: string,
+): Promise<PasswordResetToken | null> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  const result = await client.execute(
+    `SELECT expires_at, used, created_at, TTL(used) AS ttl_remaining
+     FROM ${keyspace}.password_reset_tokens
+     WHERE contact_id = ? AND reset_token = ?`,
+    [contactId, token],
+  )
+
+  if (result.rows.length === 0) {
+    return null
+  }
+
+  const row = result.rows[0]
+  const expiresAt = row.expires_at as Date
+  const ttlRemaining = (row.ttl_remaining as number | null) ?? 0
+
+  if (expiresAt < new Date() || ttlRemaining <= 0) {
+    return null
+  }
+
+  const updateResult = await client.execute(
+    `UPDATE ${keyspace}.password_reset_tokens
+     USING TTL ?
+     SET used = ?
+     WHERE contact_id = ? AND reset_token = ?
+     IF used = ?`,
+    [ttlRemaining, true, contactId, token, false],
+  )
+
+  if (!updateResult.wasApplied()) {
+    return null
+  }
+
+  return {
+    token,
+    contactId,
+    expiresAt,
+    used: true,
+    createdAt: row.created_at as Date,
+  }
+}
+
+// Note: password_reset_tokens rely on TTL for cleanup; no manual sweep function is needed.
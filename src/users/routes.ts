@@ -1,19 +1,36 @@
 import { Hono } from 'hono'
+import { getClientById } from '../clients/service.ts'
+import { revokeConsentGrant } from '../flows/consent.ts'
+import { listConsentGrantsByUser } from '../flows/consent-grant-storage.ts'
+import { escapeHtml } from '../flows/escape-html.ts'
+import { listRefreshTokensByUser } from '../flows/refresh-token-storage.ts'
+import { endAllSessions, endSession } from '../flows/session.ts'
+import { getSession, listSessionsByUser } from '../flows/session-storage.ts'
 import { rateLimit } from '../middleware/rate-limit.ts'
 import {
   authenticateUser,
   authenticateWithMagicLink,
+  authenticateWithOtp,
+  deactivateUser,
   getLinkedProviders,
   getUserById,
   linkProvider,
   registerUser,
   requestMagicLink,
+  requestPasswordReset,
+  resendEmailVerification,
+  resetPassword,
   unlinkProvider,
   updateUserProfile,
+  verifyEmail,
 } from './service.ts'
 import type {
+  EmailVerificationResendInput,
   MagicLinkRequestInput,
   MagicLinkVerifyInput,
+  OtpVerifyInput,
+  PasswordResetInput,
+  PasswordResetRequestInput,
   ProviderLinkInput,
   UserAuthenticationInput,
   UserRegistrationInput,
@@ -39,7 +56,10 @@ users.post('/register', async (c) => {
       return c.json({ error: 'Email is required' }, 400)
     }
 
-    const user = await registerUser(body)
+    const user = await registerUser({
+      ...body,
+      locale: body.locale ?? c.req.header('Accept-Language'),
+    })
 
     return c.json(
       {
@@ -111,6 +131,172 @@ users.post('/login', async (c) => {
   }
 })
 
+const renderVerificationPage = (title: string, message: string): string =>
+  `<!DOCTYPE html>
+<html>
+<head><title>${escapeHtml(title)}</title></head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(message)}</p>
+</body>
+</html>`
+
+/**
+ * GET /users/verify-email?token=
+ * Landing page for the link in a verification email; marks the address verified
+ * Registered before /:sub so the path is not read as a subject identifier
+ */
+users.get('/verify-email', async (c) => {
+  const token = c.req.query('token')?.trim()
+  c.header('Cache-Control', 'no-store')
+  c.header('Referrer-Policy', 'no-referrer')
+
+  if (!token) {
+    return c.html(
+      renderVerificationPage(
+        'Verification failed',
+        'This verification link is incomplete.',
+      ),
+      400,
+    )
+  }
+
+  try {
+    const contact = await verifyEmail(token)
+    return c.html(
+      renderVerificationPage(
+        'Email verified',
+        `${contact.contact_value} is verified. You can close this window.`,
+      ),
+    )
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'Invalid or expired verification link'
+    ) {
+      return c.html(
+        renderVerificationPage(
+          'Verification failed',
+          'This verification link is invalid or expired. Request a new one.',
+        ),
+        400,
+      )
+    }
+    return c.html(
+      renderVerificationPage(
+        'Verification failed',
+        'Your email address could not be verified. Please try again.',
+      ),
+      500,
+    )
+  }
+})
+
+/**
+ * POST /users/verify-email/resend
+ * Send the verification link again; limited per address
+ */
+users.post('/verify-email/resend', async (c) => {
+  try {
+    const body = (await c.req.json()) as EmailVerificationResendInput
+
+    if (!body.email) {
+      return c.json({ error: 'Email is required' }, 400)
+    }
+
+    await resendEmailVerification({
+      email: body.email,
+      locale: body.locale ?? c.req.header('Accept-Language'),
+    })
+
+    // Don't reveal if the address exists or is already verified
+    return c.json({
+      message:
+        'If this address belongs to an account and is not yet verified, a verification link has been sent',
+    })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Invalid email address') {
+        return c.json({ error: error.message }, 400)
+      }
+      if (error.message === 'Too many verification emails') {
+        return c.json({ error: error.message }, 429)
+      }
+    }
+    return c.json({ error: 'Failed to send verification email' }, 500)
+  }
+})
+
+/**
+ * POST /users/password/forgot
+ * Email a password reset link; limited per address
+ */
+users.post('/password/forgot', async (c) => {
+  try {
+    const body = (await c.req.json()) as PasswordResetRequestInput
+
+    if (!body.email) {
+      return c.json({ error: 'Email is required' }, 400)
+    }
+
+    await requestPasswordReset({
+      email: body.email,
+      locale: body.locale ?? c.req.header('Accept-Language'),
+    })
+
+    // Don't reveal if the address exists
+    return c.json({
+      message:
+        'If this address belongs to an account, a password reset link has been sent',
+    })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Invalid email address') {
+        return c.json({ error: error.message }, 400)
+      }
+      if (error.message === 'Too many password reset emails') {
+        return c.json({ error: error.message }, 429)
+      }
+    }
+    return c.json({ error: 'Failed to send password reset email' }, 500)
+  }
+})
+
+/**
+ * POST /users/password/reset
+ * Set a new password with a reset link token; ends all sessions and revokes all refresh tokens
+ */
+users.post('/password/reset', async (c) => {
+  try {
+    const body = (await c.req.json()) as PasswordResetInput
+
+    if (!body.contactId || !body.token) {
+      return c.json({ error: 'Contact ID and token are required' }, 400)
+    }
+    if (!body.password) {
+      return c.json({ error: 'Password is required' }, 400)
+    }
+
+    await resetPassword({
+      contactId: body.contactId,
+      token: body.token,
+      password: body.password,
+    })
+
+    return c.json({ message: 'Password reset successfully' })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Invalid or expired reset link') {
+        return c.json({ error: error.message }, 401)
+      }
+      if (error.message === 'Account is not active') {
+        return c.json({ error: error.message }, 403)
+      }
+    }
+    return c.json({ error: 'Failed to reset password' }, 500)
+  }
+})
+
 /**
  * GET /users/:sub
  * Get user by subject identifier
@@ -137,6 +323,7 @@ users.get('/:sub', async (c) => {
       givenName: user.givenName,
       familyName: user.familyName,
       picture: user.picture,
+      address: user.address,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
       isActive: user.isActive,
@@ -171,6 +358,7 @@ users.put('/:sub', async (c) => {
       givenName: user.givenName,
       familyName: user.familyName,
       picture: user.picture,
+      address: user.address,
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
       isActive: user.isActive,
@@ -181,15 +369,206 @@ users.put('/:sub', async (c) => {
       if (error.message === 'User not found') {
         return c.json({ error: error.message }, 404)
       }
+      if (error.message === 'Invalid address') {
+        return c.json({ error: error.message }, 400)
+      }
     }
     return c.json({ error: 'Failed to update user' }, 500)
   }
 })
 
+/**
+ * DELETE /users/:sub
+ * Deactivate a user and end all of their sessions
+ */
+users.delete('/:sub', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+
+    if (!sub) {
+      return c.json({ error: 'User ID is required' }, 400)
+    }
+
+    await deactivateUser(sub)
+    await endAllSessions(sub)
+
+    return c.json({ message: 'User deactivated successfully' })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'User not found') {
+        return c.json({ error: error.message }, 404)
+      }
+    }
+    return c.json({ error: 'Failed to deactivate user' }, 500)
+  }
+})
+
+/**
+ * GET /users/:sub/sessions
+ * List a user's active sessions
+ */
+users.get('/:sub/sessions', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+
+    if (!sub) {
+      return c.json({ error: 'User ID is required' }, 400)
+    }
+
+    const sessions = await listSessionsByUser(sub)
+
+    return c.json({
+      sessions: sessions.map((session) => ({
+        sid: session.session_id,
+        authTime: new Date(session.auth_time * 1000).toISOString(),
+        authMethods: session.auth_methods,
+        userAgent: session.user_agent,
+        ipAddress: session.ip_address,
+        lastSeenAt: session.last_seen_at.toISOString(),
+        expiresAt: session.expires_at.toISOString(),
+        createdAt: session.created_at.toISOString(),
+      })),
+    })
+  } catch {
+    return c.json({ error: 'Failed to list sessions' }, 500)
+  }
+})
+
+/**
+ * DELETE /users/:sub/sessions
+ * Sign a user out everywhere
+ */
+users.delete('/:sub/sessions', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+
+    if (!sub) {
+      return c.json({ error: 'User ID is required' }, 400)
+    }
+
+    const count = await endAllSessions(sub)
+
+    return c.json({ message: 'Sessions ended successfully', count })
+  } catch {
+    return c.json({ error: 'Failed to end sessions' }, 500)
+  }
+})
+
+/**
+ * DELETE /users/:sub/sessions/:sid
+ * End one of a user's sessions
+ */
+users.delete('/:sub/sessions/:sid', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+    const sid = c.req.param('sid')
+
+    if (!sub || !sid) {
+      return c.json({ error: 'User ID and session ID are required' }, 400)
+    }
+
+    const session = await getSession(sid)
+    if (!session || session.user_id !== sub) {
+      return c.json({ error: 'Session not found' }, 404)
+    }
+
+    await endSession(session)
+
+    return c.json({ message: 'Session ended successfully' })
+  } catch {
+    return c.json({ error: 'Failed to end session' }, 500)
+  }
+})
+
+/**
+ * GET /users/:sub/clients/:clientId/refresh-tokens
+ * List a user's active refresh tokens for a client (token values are never returned)
+ */
+users.get('/:sub/clients/:clientId/refresh-tokens', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+    const clientId = c.req.param('clientId')
+
+    if (!sub || !clientId) {
+      return c.json({ error: 'User ID and client ID are required' }, 400)
+    }
+
+    const tokens = await listRefreshTokensByUser(sub, clientId)
+
+    return c.json({
+      refreshTokens: tokens.map((token) => ({
+        familyId: token.family_id,
+        scopes: token.scopes,
+        sid: token.sid,
+        isDpopBound: token.dpop_jkt !== null,
+        createdAt: token.created_at.toISOString(),
+        expiresAt: token.expires_at.toISOString(),
+      })),
+    })
+  } catch {
+    return c.json({ error: 'Failed to list refresh tokens' }, 500)
+  }
+})
+
+/**
+ * GET /users/:sub/grants
+ * List the clients a user has consented to, with the scopes granted to each
+ */
+users.get('/:sub/grants', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+
+    if (!sub) {
+      return c.json({ error: 'User ID is required' }, 400)
+    }
+
+    const grants = await listConsentGrantsByUser(sub)
+    const clients = await Promise.all(
+      grants.map((grant) => getClientById(grant.client_id)),
+    )
+
+    return c.json({
+      grants: grants.map((grant, i) => ({
+        clientId: grant.client_id,
+        clientName: clients[i]?.name ?? null,
+        scopes: grant.scopes,
+        createdAt: grant.created_at.toISOString(),
+        updatedAt: grant.updated_at.toISOString(),
+      })),
+    })
+  } catch {
+    return c.json({ error: 'Failed to list grants' }, 500)
+  }
+})
+
+/**
+ * DELETE /users/:sub/grants/:clientId
+ * Revoke a user's consent to a client, along with the client's refresh tokens for the user
+ */
+users.delete('/:sub/grants/:clientId', async (c) => {
+  try {
+    const sub = c.req.param('sub')
+    const clientId = c.req.param('clientId')
+
+    if (!sub || !clientId) {
+      return c.json({ error: 'User ID and client ID are required' }, 400)
+    }
+
+    const isRevoked = await revokeConsentGrant(sub, clientId)
+    if (!isRevoked) {
+      return c.json({ error: 'Grant not found' }, 404)
+    }
+
+    return c.json({ message: 'Grant revoked successfully' })
+  } catch {
+    return c.json({ error: 'Failed to revoke grant' }, 500)
+  }
+})
+
 /**
  * POST /users/magic-link/request
- * Request a magic link for passwordless login
- * Supports both email and phone (SMS) magic links
+ * Request a passwordless login
+ * Email addresses get a magic link; phone numbers get a one-time code for /users/otp/verify
  */
 users.post('/magic-link/request', async (c) => {
   try {
@@ -202,14 +581,17 @@ users.post('/magic-link/request', async (c) => {
       return c.json({ error: 'Provide either email or phone, not both' }, 400)
     }
 
-    const { contactId, contactType } = await requestMagicLink(body)
+    const { contactId, contactType, method } = await requestMagicLink({
+      ...body,
+      locale: body.locale ?? c.req.header('Accept-Language'),
+    })
 
     // Don't reveal if user exists or not (security best practice)
     return c.json({
-      message:
-        'If an account exists with this contact method, a magic link has been sent',
+      message: `If an account exists with this contact method, a ${method === 'code' ? 'sign-in code' : 'magic link'} has been sent`,
       contactId,
       contactType,
+      method,
     })
   } catch (error) {
     if (error instanceof Error) {
@@ -225,6 +607,9 @@ users.post('/magic-link/request', async (c) => {
       ) {
         return c.json({ error: error.message }, 400)
       }
+      if (error.message === 'Too many failed attempts') {
+        return c.json({ error: error.message }, 429)
+      }
     }
     return c.json({ error: 'Failed to process magic link request' }, 500)
   }
@@ -242,7 +627,7 @@ users.post('/magic-link/verify', async (c) => {
       return c.json({ error: 'Contact ID and token are required' }, 400)
     }
 
-    const user = await authenticateWithMagicLink(body)
+    const { user } = await authenticateWithMagicLink(body)
 
     return c.json({
       sub: user.sub,
@@ -270,6 +655,48 @@ users.post('/magic-link/verify', async (c) => {
   }
 })
 
+/**
+ * POST /users/otp/verify
+ * Authenticate using a one-time code sent by /users/magic-link/request
+ * Wrong codes count towards a per-contact lockout
+ */
+users.post('/otp/verify', async (c) => {
+  try {
+    const body = (await c.req.json()) as OtpVerifyInput
+
+    if (!body.contactId || !body.code) {
+      return c.json({ error: 'Contact ID and code are required' }, 400)
+    }
+
+    const { user } = await authenticateWithOtp(body)
+
+    return c.json({
+      sub: user.sub,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      name: user.name,
+      lastLoginAt: user.lastLoginAt?.toISOString(),
+    })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Too many failed attempts') {
+        return c.json({ error: error.message }, 429)
+      }
+      if (
+        error.message === 'Invalid or expired code' ||
+        error.message === 'Contact method not found' ||
+        error.message === 'User not found'
+      ) {
+        return c.json({ error: 'Invalid or expired code' }, 401)
+      }
+      if (error.message === 'Account is not active') {
+        return c.json({ error: error.message }, 403)
+      }
+    }
+    return c.json({ error: 'Code verification failed' }, 500)
+  }
+})
+
 /**
  * GET /users/:sub/providers
  * Get all linked provider accounts for a user
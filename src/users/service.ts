@@ -1,19 +1,43 @@
 import { randomUUID } from 'node:crypto'
 import type { ContactMethod } from '../database/types/contact-method.ts'
+import { endAllSessionsAndRevokeTokens } from '../flows/session.ts'
+import { checkAndIncrement } from '../middleware/rate-limit-storage.ts'
+import { sendNotification } from '../notifications/service.ts'
+import { getOidcConfig } from '../oidc/config.ts'
 import { log } from '../plumbing/logger.ts'
 import { validateFacebookToken } from '../providers/facebook.ts'
 import { validateGoogleToken } from '../providers/google.ts'
 import { validateMicrosoftToken } from '../providers/microsoft.ts'
 import { validateXToken } from '../providers/x.ts'
+import {
+  createEmailVerificationToken,
+  EMAIL_VERIFICATION_EXPIRY_MINUTES,
+  verifyEmailVerificationToken,
+} from './email-verification.ts'
 import {
   generateMagicLinkToken,
   storeMagicLinkToken,
   verifyMagicLinkToken,
 } from './magic-link.ts'
+import {
+  clearOtpAttempts,
+  countFailedOtpAttempts,
+  generateOtpCode,
+  MAX_OTP_ATTEMPTS,
+  reserveOtpAttempt,
+  storeOtpCode,
+  verifyOtpCode,
+} from './otp.ts'
 import { hashPassword, verifyPassword } from './password.ts'
+import {
+  generatePasswordResetToken,
+  storePasswordResetToken,
+  verifyPasswordResetToken,
+} from './password-reset.ts'
 import {
   createAccount,
   createUser,
+  deactivateAccount,
   findContactMethod,
   findContactMethodById,
   findProviderAccount,
@@ -21,20 +45,49 @@ import {
   findUserByEmail,
   findUserById,
   linkProviderAccount,
+  markContactMethodVerified,
   tryInsertContactMethod,
   unlinkProviderAccount,
+  updateAccountPassword,
   updateLastLogin,
   updateUser,
 } from './storage.ts'
 import type {
+  EmailVerificationResendInput,
   MagicLinkRequestInput,
+  MagicLinkRequestResult,
   MagicLinkVerifyInput,
+  OtpVerifyInput,
+  PasswordlessAuthentication,
+  PasswordResetInput,
+  PasswordResetRequestInput,
+  SignInMethod,
   User,
   UserAuthenticationInput,
   UserRegistrationInput,
   UserUpdateInput,
 } from './types/user.ts'
 
+export const MAGIC_LINK_EXPIRY_MINUTES = 15
+
+export const OTP_EXPIRY_MINUTES = 10
+
+/** Verification emails one address can be sent per window, counting the one sent at registration */
+const EMAIL_VERIFICATION_RESEND_LIMIT = 3
+const EMAIL_VERIFICATION_RESEND_WINDOW_MS = 60 * 60 * 1000
+
+export const PASSWORD_RESET_EXPIRY_MINUTES = 30
+
+/** Reset emails one address can be sent per window */
+const PASSWORD_RESET_REQUEST_LIMIT = 3
+const PASSWORD_RESET_REQUEST_WINDOW_MS = 60 * 60 * 1000
+
+/** SMS links get mangled and are often read on another device, so phones get a code to type in */
+const SIGN_IN_METHODS: Record<'email' | 'phone', SignInMethod> = {
+  email: 'link',
+  phone: 'code',
+}
+
 /**
  * Validate email format
  */
@@ -76,6 +129,232 @@ export const registerUser = async (
   // Create user (passwordless if no password provided)
   const user = await createUser(input, passwordHash, passwordSalt)
 
+  // Password users have proven nothing about their address yet; the account exists
+  // either way, so a delivery failure is logged and left to the resend endpoint
+  if (input.email && input.password) {
+    try {
+      const contact = await findContactMethod('email', input.email)
+      if (contact && (await reserveEmailVerificationSend(input.email))) {
+        await sendEmailVerification(contact, input.locale)
+      }
+    } catch (error) {
+      log({
+        message: 'Verification email could not be sent',
+        accountId: user.sub,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return user
+}
+
+/**
+ * Count a verification email against the address's limit; false once the limit is reached
+ */
+const reserveEmailVerificationSend = (email: string): Promise<boolean> =>
+  checkAndIncrement({
+    scope: 'email-verification',
+    identifier: email.toLowerCase(),
+    windowMs: EMAIL_VERIFICATION_RESEND_WINDOW_MS,
+    maxRequests: EMAIL_VERIFICATION_RESEND_LIMIT,
+  })
+
+/**
+ * Email a signed verification link for an email contact method
+ */
+const sendEmailVerification = async (
+  contact: ContactMethod,
+  locale: string | undefined,
+): Promise<void> => {
+  const url = new URL(`${getOidcConfig().issuer}/users/verify-email`)
+  url.search = new URLSearchParams({
+    token: createEmailVerificationToken(contact),
+  }).toString()
+  await sendNotification({
+    channel: 'email',
+    to: contact.contact_value,
+    template: 'email-verification',
+    locale,
+    variables: {
+      url: url.toString(),
+      expiresInMinutes: EMAIL_VERIFICATION_EXPIRY_MINUTES,
+    },
+  })
+}
+
+/**
+ * Send the verification link again
+ * Rate limited per address; unknown and already verified addresses are silently skipped
+ * so the response does not reveal whether an account exists
+ */
+export const resendEmailVerification = async (
+  input: EmailVerificationResendInput,
+): Promise<void> => {
+  if (!isValidEmail(input.email)) {
+    throw new Error('Invalid email address')
+  }
+  const email = input.email.toLowerCase()
+
+  if (!(await reserveEmailVerificationSend(email))) {
+    throw new Error('Too many verification emails')
+  }
+
+  const contact = await findContactMethod('email', email)
+  if (!contact || contact.verified_at) {
+    return
+  }
+  await sendEmailVerification(contact, input.locale)
+}
+
+/**
+ * Verify an email address with the token from a verification link
+ * The link is void once the contact method holds another address
+ * Returns the verified contact method
+ */
+export const verifyEmail = async (token: string): Promise<ContactMethod> => {
+  const claims = verifyEmailVerificationToken(token)
+  if (!claims) {
+    throw new Error('Invalid or expired verification link')
+  }
+
+  const contact = await findContactMethodById(claims.contactId)
+  if (
+    !contact ||
+    contact.account_id !== claims.accountId ||
+    contact.contact_value !== claims.email
+  ) {
+    throw new Error('Invalid or expired verification link')
+  }
+
+  if (contact.verified_at) {
+    return contact
+  }
+
+  const verifiedAt = new Date()
+  await markContactMethodVerified(contact, verifiedAt)
+
+  log({
+    message: 'Email address verified',
+    accountId: contact.account_id,
+    contactId: contact.contact_id,
+  })
+
+  return { ...contact, verified_at: verifiedAt }
+}
+
+/**
+ * Store a reset token for an email contact method and email its link
+ */
+const sendPasswordReset = async (
+  contact: ContactMethod,
+  locale: string | undefined,
+): Promise<void> => {
+  const token = generatePasswordResetToken()
+  await storePasswordResetToken(
+    contact.contact_id,
+    token,
+    PASSWORD_RESET_EXPIRY_MINUTES,
+  )
+
+  const url = new URL(`${getOidcConfig().issuer}/login/reset-password`)
+  url.search = new URLSearchParams({
+    contact_id: contact.contact_id,
+    token,
+  }).toString()
+  await sendNotification({
+    channel: 'email',
+    to: contact.contact_value,
+    template: 'password-reset',
+    locale,
+    variables: {
+      url: url.toString(),
+      expiresInMinutes: PASSWORD_RESET_EXPIRY_MINUTES,
+    },
+  })
+}
+
+/**
+ * Email a password reset link ("forgot password")
+ * Rate limited per address. Unknown addresses are silently skipped, and the link is
+ * stored and sent in the background, so neither the response nor its timing reveals
+ * whether an account exists
+ */
+export const requestPasswordReset = async (
+  input: PasswordResetRequestInput,
+): Promise<void> => {
+  if (!isValidEmail(input.email)) {
+    throw new Error('Invalid email address')
+  }
+  const email = input.email.toLowerCase()
+
+  const isAllowed = await checkAndIncrement({
+    scope: 'password-reset',
+    identifier: email,
+    windowMs: PASSWORD_RESET_REQUEST_WINDOW_MS,
+    maxRequests: PASSWORD_RESET_REQUEST_LIMIT,
+  })
+  if (!isAllowed) {
+    throw new Error('Too many password reset emails')
+  }
+
+  const contact = await findContactMethod('email', email)
+  if (!contact) {
+    return
+  }
+
+  sendPasswordReset(contact, input.locale).catch((error: unknown) => {
+    log({
+      message: 'Password reset email could not be sent',
+      contactId: contact.contact_id,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  })
+}
+
+/**
+ * Set a new password with the token from a reset link
+ * The token is consumed whether or not the account turns out to be active
+ * Every session is ended and every refresh token revoked before the password changes,
+ * so a failure leaves the old password in place rather than a changed one with live sessions
+ */
+export const resetPassword = async (
+  input: PasswordResetInput,
+): Promise<User> => {
+  if (!input.password) {
+    throw new Error('Password is required')
+  }
+
+  const resetToken = await verifyPasswordResetToken(
+    input.contactId,
+    input.token,
+  )
+  if (!resetToken) {
+    throw new Error('Invalid or expired reset link')
+  }
+
+  const contact = await findContactMethodById(resetToken.contactId)
+  if (!contact) {
+    throw new Error('Invalid or expired reset link')
+  }
+
+  const user = await findUserById(contact.account_id)
+  if (!user) {
+    throw new Error('Invalid or expired reset link')
+  }
+  if (!user.isActive) {
+    throw new Error('Account is not active')
+  }
+
+  const hashed = await hashPassword(input.password)
+  await endAllSessionsAndRevokeTokens(user.sub)
+  await updateAccountPassword(user.sub, hashed.hash, hashed.salt)
+
+  log({
+    message: 'Password reset',
+    accountId: user.sub,
+  })
+
   return user
 }
 
@@ -141,12 +420,12 @@ const isValidPhone = (phone: string): boolean => {
 }
 
 /**
- * Request a magic link for passwordless login
- * Supports both email and phone (SMS) magic links
+ * Request a passwordless login
+ * Email addresses are sent a magic link, phone numbers a one-time code (see SIGN_IN_METHODS)
  */
 export const requestMagicLink = async (
   input: MagicLinkRequestInput,
-): Promise<{ contactId: string; contactType: 'email' | 'phone' }> => {
+): Promise<MagicLinkRequestResult> => {
   // Validate that exactly one contact method is provided
   if (!input.email && !input.phone) {
     throw new Error('Either email or phone is required')
@@ -231,37 +510,71 @@ export const requestMagicLink = async (
     contactId = contactMethod.contact_id
   }
 
-  // Generate and store magic link token
-  const token = generateMagicLinkToken()
-  await storeMagicLinkToken(contactId, token, 15) // 15 minute expiration
+  const method = SIGN_IN_METHODS[contactType]
+  if (method === 'code') {
+    // A new code would be refused anyway while the contact is locked out
+    if ((await countFailedOtpAttempts(contactId)) >= MAX_OTP_ATTEMPTS) {
+      throw new Error('Too many failed attempts')
+    }
+
+    const code = generateOtpCode()
+    await storeOtpCode(
+      contactId,
+      code,
+      OTP_EXPIRY_MINUTES,
+      input.returnTo ?? null,
+    )
+    await sendNotification({
+      channel: 'sms',
+      to: contactValue,
+      template: 'sign-in-code',
+      locale: input.locale,
+      variables: { code, expiresInMinutes: OTP_EXPIRY_MINUTES },
+    })
+  } else {
+    const token = generateMagicLinkToken()
+    await storeMagicLinkToken(
+      contactId,
+      token,
+      MAGIC_LINK_EXPIRY_MINUTES,
+      input.returnTo ?? null,
+    )
 
-  // TODO: Send email or SMS with magic link
-  // In production, integrate with email/SMS service to send the token
-  // Security: Never log authentication tokens or contact values (email/phone)
+    const url = new URL(`${getOidcConfig().issuer}/login/magic`)
+    url.search = new URLSearchParams({
+      contact_id: contactId,
+      token,
+    }).toString()
+    await sendNotification({
+      channel: 'email',
+      to: contactValue,
+      template: 'magic-link',
+      locale: input.locale,
+      variables: {
+        url: url.toString(),
+        expiresInMinutes: MAGIC_LINK_EXPIRY_MINUTES,
+      },
+    })
+  }
+
+  // Security: Never log authentication tokens, codes or contact values (email/phone)
   log({
-    message: 'Magic link generated',
+    message: 'Passwordless sign-in requested',
     contactId,
     contactType,
-    // Note: token and contactValue are intentionally excluded for security
+    method,
+    // Note: token, code and contactValue are intentionally excluded for security
   })
 
-  return { contactId, contactType }
+  return { contactId, contactType, method }
 }
 
 /**
- * Authenticate using magic link token
+ * The active user a verified contact method belongs to; updates their last login
  */
-export const authenticateWithMagicLink = async (
-  input: MagicLinkVerifyInput,
-): Promise<User> => {
-  // Verify magic link token
-  const isValid = await verifyMagicLinkToken(input.contactId, input.token)
-  if (!isValid) {
-    throw new Error('Invalid or expired magic link token')
-  }
-
+const completePasswordlessLogin = async (contactId: string): Promise<User> => {
   // Find contact method by contactId to get account_id
-  const contactMethod = await findContactMethodById(input.contactId)
+  const contactMethod = await findContactMethodById(contactId)
   if (!contactMethod) {
     throw new Error('Contact method not found')
   }
@@ -284,6 +597,54 @@ export const authenticateWithMagicLink = async (
   return user
 }
 
+/**
+ * Authenticate using magic link token
+ * Returns the user along with the returnTo the link was requested with
+ */
+export const authenticateWithMagicLink = async (
+  input: MagicLinkVerifyInput,
+): Promise<PasswordlessAuthentication> => {
+  // Verify magic link token
+  const magicLinkToken = await verifyMagicLinkToken(
+    input.contactId,
+    input.token,
+  )
+  if (!magicLinkToken) {
+    throw new Error('Invalid or expired magic link token')
+  }
+
+  const user = await completePasswordlessLogin(input.contactId)
+  return { user, returnTo: magicLinkToken.returnTo }
+}
+
+/**
+ * Authenticate using a one-time code
+ * Every wrong guess counts against the contact; after MAX_OTP_ATTEMPTS all codes are
+ * refused until the lockout expires, so a 6-digit code cannot be brute forced
+ */
+export const authenticateWithOtp = async (
+  input: OtpVerifyInput,
+): Promise<PasswordlessAuthentication> => {
+  // Every guess is counted before its code is compared, so a burst of parallel
+  // guesses cannot all get past the lockout
+  if (!(await reserveOtpAttempt(input.contactId))) {
+    throw new Error('Too many failed attempts')
+  }
+
+  // Codes are often typed with spaces ("123 456")
+  const code = input.code.replace(/\s/g, '')
+  const otp = /^\d{6,8}$/.test(code)
+    ? await verifyOtpCode(input.contactId, code)
+    : null
+  if (!otp) {
+    throw new Error('Invalid or expired code')
+  }
+  await clearOtpAttempts(input.contactId)
+
+  const user = await completePasswordlessLogin(input.contactId)
+  return { user, returnTo: otp.returnTo }
+}
+
 /**
  * Authenticate a user with a Google ID token.
  * Finds or creates a user, links the Google account if needed, and returns the user.
@@ -612,6 +973,27 @@ export const getUserById = async (sub: string): Promise<User | null> => {
   return await findUserById(sub)
 }
 
+const ADDRESS_FIELDS: readonly string[] = [
+  'formatted',
+  'street_address',
+  'locality',
+  'region',
+  'postal_code',
+  'country',
+]
+
+/**
+ * Validate an address: an object of the OIDC address claim's string members
+ */
+const isValidAddress = (address: unknown): boolean =>
+  typeof address === 'object' &&
+  address !== null &&
+  !Array.isArray(address) &&
+  Object.entries(address).every(
+    ([field, value]) =>
+      ADDRESS_FIELDS.includes(field) && typeof value === 'string',
+  )
+
 /**
  * Update user profile
  */
@@ -619,6 +1001,10 @@ export const updateUserProfile = async (
   sub: string,
   input: UserUpdateInput,
 ): Promise<User> => {
+  if (input.address && !isValidAddress(input.address)) {
+    throw new Error('Invalid address')
+  }
+
   // Check if user exists
   const existingUser = await findUserById(sub)
   if (!existingUser) {
@@ -629,6 +1015,18 @@ export const updateUserProfile = async (
   return await updateUser(sub, input)
 }
 
+/**
+ * Deactivate a user account
+ */
+export const deactivateUser = async (sub: string): Promise<void> => {
+  const existingUser = await findUserById(sub)
+  if (!existingUser) {
+    throw new Error('User not found')
+  }
+
+  await deactivateAccount(sub)
+}
+
 /**
  * Link a provider account to a contact method
  */
@@ -10,6 +10,7 @@ import type {
 } from '../database/types/provider-account.ts'
 import type {
   User,
+  UserAddress,
   UserRegistrationInput,
   UserUpdateInput,
   UserWithPassword,
@@ -168,6 +169,49 @@ export const tryInsertContactMethod = async (
   return true
 }
 
+/**
+ * Mark a contact method verified in contact_methods, contact_methods_by_account and contact_methods_by_id
+ */
+export const markContactMethodVerified = async (
+  contact: ContactMethod,
+  verifiedAt: Date,
+): Promise<void> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `UPDATE ${keyspace}.contact_methods
+     SET verified_at = ?, updated_at = ?
+     WHERE contact_type = ? AND contact_value = ?`,
+    [verifiedAt, verifiedAt, contact.contact_type, contact.contact_value],
+  )
+
+  await client.execute(
+    `UPDATE ${keyspace}.contact_methods_by_account
+     SET verified_at = ?, updated_at = ?
+     WHERE account_id = ? AND contact_id = ?`,
+    [verifiedAt, verifiedAt, contact.account_id, contact.contact_id],
+  )
+
+  await client.execute(
+    `UPDATE ${keyspace}.contact_methods_by_id
+     SET verified_at = ?, updated_at = ?
+     WHERE contact_id = ?`,
+    [verifiedAt, verifiedAt, contact.contact_id],
+  )
+}
+
+const parseAddress = (value: string | undefined): UserAddress | undefined => {
+  if (!value) {
+    return undefined
+  }
+  try {
+    return JSON.parse(value) as UserAddress
+  } catch {
+    return undefined
+  }
+}
+
 /**
  * Find user by account_id (subject identifier)
  */
@@ -195,6 +239,7 @@ export const findUserById = async (accountId: string): Promise<User | null> => {
     updated_at: accountRow.updated_at as Date,
     is_active: accountRow.is_active as boolean,
     last_login_at: accountRow.last_login_at as Date | undefined,
+    address: (accountRow.address as string | null) ?? undefined,
   }
 
   // Get contacts using the lookup table for efficient querying
@@ -222,6 +267,7 @@ export const findUserById = async (accountId: string): Promise<User | null> => {
     email,
     emailVerified,
     name: account.username,
+    address: parseAddress(account.address),
     createdAt: account.created_at,
     updatedAt: account.updated_at,
     isActive: account.is_active,
@@ -368,6 +414,7 @@ export const findUserByEmail = async (
     updated_at: accountRow.updated_at as Date,
     is_active: accountRow.is_active as boolean,
     last_login_at: accountRow.last_login_at as Date | undefined,
+    address: (accountRow.address as string | null) ?? undefined,
   }
 
   const emailVerified = contactRow.verified_at != null
@@ -377,6 +424,7 @@ export const findUserByEmail = async (
     email: contactRow.contact_value as string,
     emailVerified,
     name: account.username,
+    address: parseAddress(account.address),
     createdAt: account.created_at,
     updatedAt: account.updated_at,
     isActive: account.is_active,
@@ -491,6 +539,40 @@ export const updateLastLogin = async (accountId: string): Promise<void> => {
   )
 }
 
+/**
+ * Mark an account inactive. Inactive users cannot sign in or redeem tokens.
+ */
+export const deactivateAccount = async (accountId: string): Promise<void> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `UPDATE ${keyspace}.accounts 
+     SET is_active = ?, updated_at = ?
+     WHERE account_id = ?`,
+    [false, new Date(), accountId],
+  )
+}
+
+/**
+ * Replace an account's password hash and salt
+ */
+export const updateAccountPassword = async (
+  accountId: string,
+  passwordHash: string,
+  passwordSalt: string,
+): Promise<void> => {
+  const client = getClient()
+  const keyspace = getKeyspace()
+
+  await client.execute(
+    `UPDATE ${keyspace}.accounts 
+     SET password_digest = ?, password_salt = ?, updated_at = ?
+     WHERE account_id = ?`,
+    [passwordHash, passwordSalt, new Date(), accountId],
+  )
+}
+
 /**
  * Update user profile information
  */
@@ -511,9 +593,14 @@ export const updateUser = async (
     values.push(input.name || null)
   }
 
+  if (input.address !== undefined) {
+    updates.push('address = ?')
+    values.push(input.address ? JSON.stringify(input.address) : null)
+  }
+
   // Note: givenName, familyName, and picture are not currently stored in accounts table
   // They would need to be added to the schema or stored elsewhere
-  // For now, we'll only update the username field
+  // For now, we'll only update the username and address fields
 
   if (updates.length === 0) {
     // No updates to make, just return the current user
@@ -8,12 +8,23 @@ export interface User {
   givenName?: string
   familyName?: string
   picture?: string
+  address?: UserAddress
   createdAt: Date
   updatedAt: Date
   isActive: boolean
   lastLoginAt?: Date
 }
 
+/** Postal address, shaped like the OIDC address claim (OIDC Core §5.1.1) */
+export interface UserAddress {
+  formatted?: string
+  street_address?: string
+  locality?: string
+  region?: string
+  postal_code?: string
+  country?: string
+}
+
 export interface UserWithPassword extends User {
   passwordDigest: string
   passwordSalt: string
@@ -25,11 +36,43 @@ export interface UserRegistrationInput {
   name?: string
   givenName?: string
   familyName?: string
+  /** Language for the verification email; the request's Accept-Language when omitted */
+  locale?: string
+}
+
+export interface EmailVerificationResendInput {
+  email: string
+  locale?: string
+}
+
+export interface PasswordResetRequestInput {
+  email: string
+  /** Language for the reset email; the request's Accept-Language when omitted */
+  locale?: string
+}
+
+export interface PasswordResetInput {
+  contactId: string
+  token: string
+  password: string
 }
 
 export interface MagicLinkRequestInput {
   email?: string
   phone?: string
+  /** Language for the message; the request's Accept-Language when omitted */
+  locale?: string
+  /** Local path the browser returns to after signing in with the link or code */
+  returnTo?: string
+}
+
+/** What a passwordless sign-in sends: a link to email addresses, a code to phones */
+export type SignInMethod = 'link' | 'code'
+
+export interface MagicLinkRequestResult {
+  contactId: string
+  contactType: 'email' | 'phone'
+  method: SignInMethod
 }
 
 export interface MagicLinkVerifyInput {
@@ -37,6 +80,17 @@ export interface MagicLinkVerifyInput {
   token: string
 }
 
+export interface OtpVerifyInput {
+  contactId: string
+  code: string
+}
+
+export interface PasswordlessAuthentication {
+  user: User
+  /** The returnTo the link or code was requested with */
+  returnTo: string | null
+}
+
 export interface UserAuthenticationInput {
   email: string
   password?: string // Optional - for magic link authentication
@@ -47,6 +101,8 @@ export interface UserUpdateInput {
   givenName?: string
   familyName?: string
   picture?: string
+  /** null removes the stored address */
+  address?: UserAddress | null
 }
 
 export interface ProviderLinkInput {